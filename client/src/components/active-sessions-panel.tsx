@@ -0,0 +1,155 @@
+import { useQuery, useQueryClient, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { BilingualText } from "@/components/bilingual-text";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { ActiveSession } from "@/lib/types";
+import { LogOut, Monitor, Smartphone } from "lucide-react";
+
+interface ActiveSessionsPanelProps {
+  enabled: boolean;
+}
+
+// Rough browser / OS label from the user agent - enough to tell the desk PC from a phone
+function describeDevice(userAgent: string | null) {
+  if (!userAgent) return { label: "Unknown device", isMobile: false };
+
+  const isMobile = /Mobile|Android|iPhone|iPad/i.test(userAgent);
+  const browser = /Edg\//.test(userAgent) ? "Edge"
+    : /Chrome\//.test(userAgent) ? "Chrome"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : "Browser";
+  const os = /Android/i.test(userAgent) ? "Android"
+    : /iPhone|iPad/i.test(userAgent) ? "iOS"
+    : /Windows/i.test(userAgent) ? "Windows"
+    : /Mac OS X/i.test(userAgent) ? "macOS"
+    : /Linux/i.test(userAgent) ? "Linux"
+    : "";
+
+  return { label: os ? `${browser} on ${os}` : browser, isMobile };
+}
+
+const formatDateTime = (dateString: string | null) => {
+  if (!dateString) return "-";
+  return new Date(dateString).toLocaleString('en-IN', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+export function ActiveSessionsPanel({ enabled }: ActiveSessionsPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: sessions } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/sessions"],
+    enabled,
+  });
+
+  const revokeSessionMutation = useMutation({
+    mutationFn: async (sessionKey: string) => {
+      const response = await apiRequest("DELETE", `/api/sessions/${sessionKey}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      toast({
+        title: "Success",
+        description: "Session revoked. That device has been logged out.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to revoke session. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="font-telugu">
+          <BilingualText english="Active Sessions" telugu="క్రియాశీల సెషన్లు" />
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-0">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="font-telugu">
+                <BilingualText english="Staff" telugu="సిబ్బంది" />
+              </TableHead>
+              <TableHead className="font-telugu">
+                <BilingualText english="Device" telugu="పరికరం" />
+              </TableHead>
+              <TableHead className="font-telugu">
+                <BilingualText english="Logged In" telugu="లాగిన్ సమయం" />
+              </TableHead>
+              <TableHead className="font-telugu">
+                <BilingualText english="Last Activity" telugu="చివరి కార్యకలాపం" />
+              </TableHead>
+              <TableHead className="font-telugu">
+                <BilingualText english="Actions" telugu="చర్యలు" />
+              </TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sessions?.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-gray-500 py-6">
+                  No active sessions
+                </TableCell>
+              </TableRow>
+            )}
+            {sessions?.map((session) => {
+              const device = describeDevice(session.userAgent);
+              return (
+                <TableRow key={session.sessionKey}>
+                  <TableCell>
+                    <p className="font-medium">{session.fullName || session.username || "Unknown"}</p>
+                    {session.username && <p className="text-sm text-gray-600">@{session.username}</p>}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center space-x-2">
+                      {device.isMobile ? <Smartphone className="w-4 h-4 text-gray-500" /> : <Monitor className="w-4 h-4 text-gray-500" />}
+                      <div>
+                        <p className="text-sm">{device.label}</p>
+                        {session.ipAddress && <p className="text-xs text-gray-500">{session.ipAddress}</p>}
+                      </div>
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">{formatDateTime(session.loginAt)}</TableCell>
+                  <TableCell className="text-sm">{formatDateTime(session.lastActivityAt)}</TableCell>
+                  <TableCell>
+                    {session.isCurrent ? (
+                      <Badge className="bg-primary text-white">This device</Badge>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => revokeSessionMutation.mutate(session.sessionKey)}
+                        disabled={revokeSessionMutation.isPending}
+                        className="p-2 text-destructive hover:bg-destructive hover:text-white"
+                        title="Revoke Session"
+                      >
+                        <LogOut className="w-3 h-3" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
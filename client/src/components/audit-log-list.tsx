@@ -0,0 +1,126 @@
+import { Badge } from "@/components/ui/badge";
+import { BilingualText } from "@/components/bilingual-text";
+import type { AuditLog } from "@shared/schema";
+
+interface AuditLogListProps {
+  logs: AuditLog[] | undefined;
+  showEntity?: boolean;
+}
+
+const entityLabels: Record<string, { english: string; telugu: string }> = {
+  cashier_shift: { english: "Cashier Shift", telugu: "క్యాషియర్ షిఫ్ట్" },
+  company_account: { english: "Company Account", telugu: "కంపెనీ ఖాతా" },
+  company_settlement: { english: "Company Settlement", telugu: "కంపెనీ చెల్లింపు" },
+  daily_summary: { english: "Day Close", telugu: "రోజు ముగింపు" },
+  deposit_deduction: { english: "Deposit Deduction", telugu: "డిపాజిట్ కోత" },
+  expense: { english: "Expense", telugu: "ఖర్చు" },
+  folio_charge: { english: "Extra Charge", telugu: "అదనపు ఛార్జీ" },
+  guest: { english: "Stay", telugu: "బస" },
+  guest_profile: { english: "Guest Profile", telugu: "అతిథి ప్రొఫైల్" },
+  invoice: { english: "Invoice", telugu: "ఇన్వాయిస్" },
+  maintenance_ticket: { english: "Maintenance Ticket", telugu: "మరమ్మతు టికెట్" },
+  payment: { english: "Payment", telugu: "చెల్లింపు" },
+  rate_plan: { english: "Rate Plan", telugu: "రేట్ ప్లాన్" },
+  room: { english: "Room", telugu: "గది" },
+  room_type: { english: "Room Type", telugu: "గది రకం" },
+  security_deposit: { english: "Security Deposit", telugu: "సెక్యూరిటీ డిపాజిట్" },
+  settings: { english: "Settings", telugu: "సెట్టింగ్స్" },
+  statement_import: { english: "Statement Import", telugu: "స్టేట్‌మెంట్ దిగుమతి" },
+  statement_line: { english: "Statement Line", telugu: "స్టేట్‌మెంట్ లైన్" },
+  user: { english: "Staff", telugu: "సిబ్బంది" },
+};
+
+const actionStyles: Record<string, { label: string; className: string }> = {
+  create: { label: "Created", className: "bg-success text-white" },
+  update: { label: "Updated", className: "bg-primary text-white" },
+  delete: { label: "Deleted", className: "bg-destructive text-white" },
+};
+
+// "totalAmount" -> "Total Amount"
+const formatFieldName = (field: string) =>
+  field.replace(/([A-Z])/g, " $1").replace(/^./, (c) => c.toUpperCase());
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return new Date(value).toLocaleString('en-IN', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  }
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+export function AuditLogList({ logs, showEntity = true }: AuditLogListProps) {
+  if (!logs) {
+    return <p className="text-center text-gray-500 py-6">Loading...</p>;
+  }
+
+  if (logs.length === 0) {
+    return (
+      <p className="text-center text-gray-500 py-6 font-telugu">
+        <BilingualText english="No changes recorded" telugu="మార్పులు నమోదు కాలేదు" />
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {logs.map((log) => {
+        const action = actionStyles[log.action] || { label: log.action, className: "bg-gray-500 text-white" };
+        const entity = entityLabels[log.entityType];
+        // Creates and deletes list every field; only the non-empty side is interesting
+        const changes = Object.entries(log.changes).filter(
+          ([, change]) => log.action === "update" || (change.before ?? change.after) !== null
+        );
+
+        return (
+          <div key={log.id} className="border rounded-lg p-3">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+              <div className="flex items-center gap-2">
+                <Badge className={action.className}>{action.label}</Badge>
+                {showEntity && entity && (
+                  <span className="text-sm font-medium font-telugu">
+                    <BilingualText english={entity.english} telugu={entity.telugu} />
+                  </span>
+                )}
+                <span className="text-xs text-gray-500">#{log.entityId.slice(0, 8)}</span>
+              </div>
+              <div className="text-sm text-gray-600">
+                <span className="font-medium">{log.actorName || "System"}</span>
+                {" · "}
+                {formatValue(log.createdAt)}
+              </div>
+            </div>
+
+            {changes.length > 0 && (
+              <table className="w-full text-sm">
+                <tbody>
+                  {changes.map(([field, change]) => (
+                    <tr key={field} className="border-t">
+                      <td className="py-1 pr-3 text-gray-600 w-1/3">{formatFieldName(field)}</td>
+                      {log.action === "update" ? (
+                        <td className="py-1">
+                          <span className="line-through text-gray-500">{formatValue(change.before)}</span>
+                          {" → "}
+                          <span className="font-medium">{formatValue(change.after)}</span>
+                        </td>
+                      ) : (
+                        <td className="py-1">{formatValue(log.action === "delete" ? change.before : change.after)}</td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
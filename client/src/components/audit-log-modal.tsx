@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BilingualText } from "@/components/bilingual-text";
+import { AuditLogList } from "@/components/audit-log-list";
+import { apiRequest } from "@/lib/queryClient";
+import type { AuditLog } from "@shared/schema";
+
+interface AuditLogModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const entityOptions: Record<string, { english: string; telugu: string }> = {
+  cashier_shift: { english: "Cashier Shifts", telugu: "క్యాషియర్ షిఫ్ట్‌లు" },
+  company_account: { english: "Company Accounts", telugu: "కంపెనీ ఖాతాలు" },
+  company_settlement: { english: "Company Settlements", telugu: "కంపెనీ చెల్లింపులు" },
+  daily_summary: { english: "Day Closes", telugu: "రోజు ముగింపులు" },
+  deposit_deduction: { english: "Deposit Deductions", telugu: "డిపాజిట్ కోతలు" },
+  expense: { english: "Expenses", telugu: "ఖర్చులు" },
+  folio_charge: { english: "Extra Charges", telugu: "అదనపు ఛార్జీలు" },
+  guest: { english: "Stays", telugu: "బసలు" },
+  guest_profile: { english: "Guest Profiles", telugu: "అతిథి ప్రొఫైల్స్" },
+  invoice: { english: "Invoices", telugu: "ఇన్వాయిస్‌లు" },
+  maintenance_ticket: { english: "Maintenance Tickets", telugu: "మరమ్మతు టికెట్లు" },
+  payment: { english: "Payments", telugu: "చెల్లింపులు" },
+  rate_plan: { english: "Rate Plans", telugu: "రేట్ ప్లాన్లు" },
+  room: { english: "Rooms", telugu: "గదులు" },
+  room_type: { english: "Room Types", telugu: "గది రకాలు" },
+  security_deposit: { english: "Security Deposits", telugu: "సెక్యూరిటీ డిపాజిట్లు" },
+  settings: { english: "Settings", telugu: "సెట్టింగ్స్" },
+  statement_import: { english: "Statement Imports", telugu: "స్టేట్‌మెంట్ దిగుమతులు" },
+  statement_line: { english: "Statement Lines", telugu: "స్టేట్‌మెంట్ లైన్లు" },
+  user: { english: "Staff", telugu: "సిబ్బంది" },
+};
+
+export function AuditLogModal({ open, onOpenChange }: AuditLogModalProps) {
+  const [entityType, setEntityType] = useState("all");
+  const [actorId, setActorId] = useState("all");
+
+  const { data: actors } = useQuery<{ actorId: string | null; actorName: string | null }[]>({
+    queryKey: ["/api/audit-logs/actors"],
+    enabled: open,
+  });
+
+  const { data: logs } = useQuery<AuditLog[]>({
+    queryKey: ["/api/audit-logs", entityType, actorId],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (entityType !== "all") params.set("entityType", entityType);
+      if (actorId !== "all") params.set("actorId", actorId);
+
+      const response = await apiRequest("GET", `/api/audit-logs?${params.toString()}`);
+      return response.json();
+    },
+    enabled: open,
+    staleTime: 0,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-telugu">
+            <BilingualText english="Audit Trail" telugu="ఆడిట్ ట్రైల్" />
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label className="font-telugu">
+              <BilingualText english="Record Type" telugu="రికార్డ్ రకం" />
+            </Label>
+            <Select value={entityType} onValueChange={setEntityType}>
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                {Object.entries(entityOptions).map(([type, label]) => (
+                  <SelectItem key={type} value={type} className="font-telugu">
+                    <BilingualText english={label.english} telugu={label.telugu} />
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label className="font-telugu">
+              <BilingualText english="Changed By" telugu="మార్చినవారు" />
+            </Label>
+            <Select value={actorId} onValueChange={setActorId}>
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                {actors?.filter((actor) => actor.actorId).map((actor) => (
+                  <SelectItem key={actor.actorId} value={actor.actorId!}>
+                    {actor.actorName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <AuditLogList logs={logs} />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,312 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BilingualText } from "@/components/bilingual-text";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { downloadShiftReportPdf } from "@/lib/shift-report-pdf";
+import type { ShiftReport } from "@/lib/types";
+import type { CashierShift } from "@shared/schema";
+import { paymentMethodLabel } from "@shared/payments";
+import { Download, Wallet } from "lucide-react";
+
+interface CashierShiftModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  lodgeName: string;
+}
+
+const rupees = (amount: string) => `₹${parseFloat(amount).toLocaleString()}`;
+const formatTime = (date: string | Date) => new Date(date).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' });
+
+// Short of the expected cash shows red, over shows amber
+function VarianceBadge({ variance }: { variance: string }) {
+  const amount = parseFloat(variance);
+  if (amount === 0) return <Badge variant="outline">Balanced</Badge>;
+  return (
+    <Badge className={amount < 0 ? "bg-red-100 text-red-800 hover:bg-red-100" : "bg-amber-100 text-amber-800 hover:bg-amber-100"}>
+      {amount < 0 ? "Short" : "Over"} {rupees(String(Math.abs(amount)))}
+    </Badge>
+  );
+}
+
+export function CashierShiftModal({ open, onOpenChange, lodgeName }: CashierShiftModalProps) {
+  const [openForm, setOpenForm] = useState({ openingFloat: "", notes: "" });
+  const [closeForm, setCloseForm] = useState({ countedCash: "", notes: "" });
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: current } = useQuery<ShiftReport | null>({
+    queryKey: ["/api/shifts/current"],
+    enabled: open,
+    staleTime: 0,
+  });
+
+  const { data: shifts } = useQuery<CashierShift[]>({
+    queryKey: ["/api/shifts"],
+    enabled: open,
+    staleTime: 0,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/shifts/current"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/shifts"] });
+  };
+
+  const handleOpen = async () => {
+    if (openForm.openingFloat === "" || parseFloat(openForm.openingFloat) < 0) {
+      toast({ title: "Error", description: "Enter the cash in the drawer to start with", variant: "destructive" });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await apiRequest("POST", "/api/shifts", {
+        openingFloat: parseFloat(openForm.openingFloat),
+        notes: openForm.notes || null,
+      });
+      setOpenForm({ openingFloat: "", notes: "" });
+      refresh();
+      toast({ title: "Shift opened", description: "Payments you take are now recorded against this shift" });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message.startsWith("409") ? "You already have a shift open" : "Failed to open shift",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const closeShift = async (shift: CashierShift) => {
+    if (closeForm.countedCash === "" || parseFloat(closeForm.countedCash) < 0) {
+      toast({ title: "Error", description: "Count the drawer and enter the cash in it", variant: "destructive" });
+      return;
+    }
+    if (!confirm("Close this shift? Payments taken after this need a new shift.")) return;
+
+    setIsSaving(true);
+    try {
+      const response = await apiRequest("POST", `/api/shifts/${shift.id}/close`, {
+        countedCash: parseFloat(closeForm.countedCash),
+        notes: closeForm.notes || null,
+      });
+      const report: ShiftReport = await response.json();
+      setCloseForm({ countedCash: "", notes: "" });
+      refresh();
+      downloadShiftReportPdf(report, lodgeName);
+      toast({ title: "Shift closed", description: `Variance ${rupees(report.shift.variance ?? "0")}` });
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to close shift", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const printReport = async (shift: CashierShift) => {
+    try {
+      const response = await apiRequest("GET", `/api/shifts/${shift.id}/report`);
+      downloadShiftReportPdf(await response.json(), lodgeName);
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to load the shift report", variant: "destructive" });
+    }
+  };
+
+  const drawer = current && [
+    { english: "Opening Float", telugu: "ప్రారంభ నగదు", value: rupees(current.shift.openingFloat) },
+    { english: "Cash Received", telugu: "అందిన నగదు", value: rupees(current.cashReceived) },
+    { english: "Cash Paid Out", telugu: "చెల్లించిన నగదు", value: rupees(current.cashPaidOut) },
+    { english: "Deposits In / Out", telugu: "డిపాజిట్లు", value: `${rupees(current.depositsIn)} / ${rupees(current.depositsOut)}` },
+    { english: "Cash Expenses", telugu: "నగదు ఖర్చులు", value: rupees(current.cashExpenses) },
+    { english: "Expected Cash", telugu: "ఉండాల్సిన నగదు", value: rupees(current.expectedCash) },
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-telugu">
+            <BilingualText english="Cashier Shift" telugu="క్యాషియర్ షిఫ్ట్" />
+          </DialogTitle>
+        </DialogHeader>
+
+        {current ? (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-gray-600">Open since {formatTime(current.shift.openedAt)}</p>
+              <Button variant="outline" size="sm" onClick={() => downloadShiftReportPdf(current, lodgeName)}>
+                <Download size={14} className="mr-1" />
+                Print
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              {drawer!.map((item) => (
+                <div key={item.english} className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-xs text-gray-600 font-telugu">
+                    <BilingualText english={item.english} telugu={item.telugu} />
+                  </p>
+                  <p className="text-lg font-semibold">{item.value}</p>
+                </div>
+              ))}
+            </div>
+
+            {Object.keys(current.byMethod).length > 0 && (
+              <p className="text-sm text-gray-600">
+                {Object.entries(current.byMethod)
+                  .map(([method, amount]) => `${paymentMethodLabel(method)} ${rupees(amount)}`)
+                  .join(" • ")}
+              </p>
+            )}
+
+            {current.payments.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Guest</TableHead>
+                    <TableHead>Method</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {current.payments.map((payment) => (
+                    <TableRow key={payment.id}>
+                      <TableCell className="text-sm">{payment.paidAt ? formatTime(payment.paidAt) : "—"}</TableCell>
+                      <TableCell>
+                        {payment.guestName}{payment.roomNumber && ` • Room ${payment.roomNumber}`}
+                        {payment.fromDeposit && <Badge variant="outline" className="ml-2">From deposit</Badge>}
+                      </TableCell>
+                      <TableCell>{paymentMethodLabel(payment.paymentMethod)}</TableCell>
+                      <TableCell className={`text-right ${payment.kind === "receipt" ? "" : "text-red-600"}`}>
+                        {payment.kind === "receipt" ? "" : "-"}{rupees(payment.amount)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end">
+              <div>
+                <Label className="text-xs">Counted cash ₹</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={closeForm.countedCash}
+                  onChange={(e) => setCloseForm({ ...closeForm, countedCash: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+              <div className="col-span-2 md:col-span-4">
+                <Label className="text-xs">Notes</Label>
+                <Input
+                  value={closeForm.notes}
+                  onChange={(e) => setCloseForm({ ...closeForm, notes: e.target.value })}
+                  placeholder="e.g. ₹500 note handed to owner"
+                  className="mt-1"
+                />
+              </div>
+              <Button type="button" size="sm" onClick={() => closeShift(current.shift)} disabled={isSaving}>
+                <BilingualText english="Close Shift" telugu="షిఫ్ట్ ముగించండి" />
+              </Button>
+            </div>
+          </div>
+        ) : current === null && (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600 font-telugu">
+              <BilingualText
+                english="Count the cash in the drawer and open a shift before taking cash."
+                telugu="నగదు తీసుకునే ముందు డ్రాయర్‌లోని నగదు లెక్కించి షిఫ్ట్ ప్రారంభించండి."
+              />
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end">
+              <div>
+                <Label className="text-xs">Opening float ₹</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={openForm.openingFloat}
+                  onChange={(e) => setOpenForm({ ...openForm, openingFloat: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+              <div className="col-span-2 md:col-span-4">
+                <Label className="text-xs">Notes</Label>
+                <Input
+                  value={openForm.notes}
+                  onChange={(e) => setOpenForm({ ...openForm, notes: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+              <Button type="button" size="sm" onClick={handleOpen} disabled={isSaving}>
+                <Wallet size={14} className="mr-1" />
+                <BilingualText english="Open Shift" telugu="షిఫ్ట్ ప్రారంభించండి" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <Separator />
+
+        <div className="space-y-3">
+          <h3 className="text-lg font-semibold font-telugu">
+            <BilingualText english="Past Shifts" telugu="గత షిఫ్ట్‌లు" />
+          </h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Cashier</TableHead>
+                <TableHead>Opened</TableHead>
+                <TableHead>Closed</TableHead>
+                <TableHead className="text-right">Expected</TableHead>
+                <TableHead className="text-right">Counted</TableHead>
+                <TableHead>Variance</TableHead>
+                <TableHead className="w-[60px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shifts?.map((shift) => (
+                <TableRow key={shift.id}>
+                  <TableCell>{shift.userName}</TableCell>
+                  <TableCell className="text-sm">{formatTime(shift.openedAt)}</TableCell>
+                  <TableCell className="text-sm">
+                    {shift.closedAt ? (
+                      <>
+                        {formatTime(shift.closedAt)}
+                        {shift.closedBy !== shift.userId && shift.closedByName && ` • ${shift.closedByName}`}
+                      </>
+                    ) : (
+                      <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Open</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{shift.expectedCash ? rupees(shift.expectedCash) : "—"}</TableCell>
+                  <TableCell className="text-right">{shift.countedCash ? rupees(shift.countedCash) : "—"}</TableCell>
+                  <TableCell>{shift.variance && <VarianceBadge variance={shift.variance} />}</TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="sm" onClick={() => printReport(shift)} title="Handover report">
+                      <Download size={14} />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {shifts && shifts.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-4">No shifts yet</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,436 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BilingualText } from "@/components/bilingual-text";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { apiRequest } from "@/lib/queryClient";
+import { dayLockMessage, withDayLockOverride } from "@/lib/day-lock";
+import { downloadCompanyStatementPdf } from "@/lib/company-statement-pdf";
+import type { CompanyAccountWithBalance, CompanyStatement } from "@/lib/types";
+import { PAYMENT_METHOD_LABELS } from "@shared/payments";
+import { formatRupees, sumPaise } from "@shared/money";
+import { Download, Edit, Plus } from "lucide-react";
+
+interface CompanyAccountsModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  lodgeName: string;
+}
+
+const emptyForm = {
+  name: "",
+  gstin: "",
+  contactName: "",
+  phoneNumber: "",
+  email: "",
+  billingAddress: "",
+  creditLimit: "",
+  isActive: true,
+};
+
+const toDateInput = (date: Date) => date.toISOString().split("T")[0];
+
+export function CompanyAccountsModal({ open, onOpenChange, lodgeName }: CompanyAccountsModalProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [formMode, setFormMode] = useState<"create" | "edit" | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [periodFrom, setPeriodFrom] = useState("");
+  const [periodTo, setPeriodTo] = useState("");
+  const [selectedBills, setSelectedBills] = useState<string[]>([]);
+  const [settlementMethod, setSettlementMethod] = useState("bank_transfer");
+  const [settlementReference, setSettlementReference] = useState("");
+  const [settlementNotes, setSettlementNotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+  const { can } = useCurrentUser();
+  const queryClient = useQueryClient();
+
+  // Statements default to the current month
+  useEffect(() => {
+    if (open) {
+      const today = new Date();
+      setPeriodFrom(toDateInput(new Date(today.getFullYear(), today.getMonth(), 1)));
+      setPeriodTo(toDateInput(today));
+    }
+  }, [open]);
+
+  useEffect(() => {
+    setSelectedBills([]);
+    setSettlementReference("");
+    setSettlementNotes("");
+  }, [selectedId]);
+
+  const { data: accounts } = useQuery<CompanyAccountWithBalance[]>({
+    queryKey: ["/api/company-accounts"],
+    enabled: open,
+    staleTime: 0,
+  });
+
+  const { data: statement } = useQuery<CompanyStatement>({
+    queryKey: ["/api/company-accounts", selectedId, "statement", periodFrom, periodTo],
+    queryFn: async () => {
+      const params = new URLSearchParams({ from: periodFrom, to: periodTo });
+      const response = await apiRequest("GET", `/api/company-accounts/${selectedId}/statement?${params}`);
+      return response.json();
+    },
+    enabled: open && !!selectedId && !formMode,
+    staleTime: 0,
+  });
+
+  const selectedAccount = accounts?.find((account) => account.id === selectedId);
+  const selectedTotal = sumPaise(
+    (statement?.openBills ?? []).filter((bill) => selectedBills.includes(bill.paymentId)).map((bill) => bill.outstanding),
+  );
+
+  const startCreate = () => {
+    setForm(emptyForm);
+    setFormMode("create");
+  };
+
+  const startEdit = () => {
+    if (!selectedAccount) return;
+    setForm({
+      name: selectedAccount.name,
+      gstin: selectedAccount.gstin ?? "",
+      contactName: selectedAccount.contactName ?? "",
+      phoneNumber: selectedAccount.phoneNumber ?? "",
+      email: selectedAccount.email ?? "",
+      billingAddress: selectedAccount.billingAddress ?? "",
+      creditLimit: selectedAccount.creditLimit ?? "",
+      isActive: selectedAccount.isActive,
+    });
+    setFormMode("edit");
+  };
+
+  const handleSaveAccount = async () => {
+    setIsSaving(true);
+    try {
+      const response = formMode === "edit"
+        ? await apiRequest("PUT", `/api/company-accounts/${selectedId}`, form)
+        : await apiRequest("POST", "/api/company-accounts", form);
+      const saved = await response.json();
+
+      queryClient.invalidateQueries({ queryKey: ["/api/company-accounts"] });
+      setSelectedId(saved.id);
+      setFormMode(null);
+      toast({
+        title: "Success",
+        description: formMode === "edit" ? "Company account updated" : "Company account added",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save company account. Check the name and GSTIN.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSettle = async () => {
+    if (!selectedId || selectedBills.length === 0) return;
+
+    setIsSaving(true);
+    try {
+      await withDayLockOverride((overrideReason) =>
+        apiRequest("POST", `/api/company-accounts/${selectedId}/settlements`, {
+          paymentIds: selectedBills,
+          paymentMethod: settlementMethod,
+          reference: settlementReference,
+          notes: settlementNotes,
+          overrideReason,
+        }), can("night_audit:override"));
+
+      queryClient.invalidateQueries({ queryKey: ["/api/company-accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/payments"] });
+      setSelectedBills([]);
+      setSettlementReference("");
+      setSettlementNotes("");
+      toast({
+        title: "Success",
+        description: `Settlement of ${formatRupees(selectedTotal)} recorded`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: dayLockMessage(error) ?? "Failed to record settlement",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleBill = (paymentId: string, checked: boolean) => {
+    setSelectedBills(checked
+      ? [...selectedBills, paymentId]
+      : selectedBills.filter((id) => id !== paymentId));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-telugu">
+            <BilingualText english="Company Accounts" telugu="కంపెనీ ఖాతాలు" />
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-end gap-2">
+          <div className="flex-1">
+            <Label className="font-telugu">
+              <BilingualText english="Company" telugu="కంపెనీ" />
+            </Label>
+            <Select value={selectedId ?? undefined} onValueChange={(value) => { setSelectedId(value); setFormMode(null); }}>
+              <SelectTrigger className="mt-1">
+                <SelectValue placeholder={accounts?.length ? "Select a company" : "No company accounts yet"} />
+              </SelectTrigger>
+              <SelectContent>
+                {accounts?.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.name} • ₹{parseFloat(account.outstanding).toLocaleString()} due
+                    {!account.isActive && " • inactive"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {selectedAccount && !formMode && (
+            <Button variant="outline" onClick={startEdit}>
+              <Edit size={16} className="mr-1" /> Edit
+            </Button>
+          )}
+          <Button onClick={startCreate} className="font-telugu">
+            <Plus size={16} className="mr-1" />
+            <BilingualText english="New Company" telugu="కొత్త కంపెనీ" />
+          </Button>
+        </div>
+
+        {formMode && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 border rounded-lg p-4">
+            <div>
+              <Label htmlFor="companyName">Company Name *</Label>
+              <Input id="companyName" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} className="mt-1" />
+            </div>
+            <div>
+              <Label htmlFor="companyGstin">GSTIN</Label>
+              <Input id="companyGstin" value={form.gstin} onChange={(e) => setForm({ ...form, gstin: e.target.value })} className="mt-1" />
+            </div>
+            <div>
+              <Label htmlFor="companyContact">Contact Person</Label>
+              <Input id="companyContact" value={form.contactName} onChange={(e) => setForm({ ...form, contactName: e.target.value })} className="mt-1" />
+            </div>
+            <div>
+              <Label htmlFor="companyPhone">Phone</Label>
+              <Input id="companyPhone" value={form.phoneNumber} onChange={(e) => setForm({ ...form, phoneNumber: e.target.value })} className="mt-1" />
+            </div>
+            <div>
+              <Label htmlFor="companyEmail">Email</Label>
+              <Input id="companyEmail" type="email" value={form.email} onChange={(e) => setForm({ ...form, email: e.target.value })} className="mt-1" />
+            </div>
+            <div>
+              <Label htmlFor="companyCreditLimit">Credit Limit (₹)</Label>
+              <Input
+                id="companyCreditLimit"
+                type="number"
+                min="0"
+                value={form.creditLimit}
+                onChange={(e) => setForm({ ...form, creditLimit: e.target.value })}
+                placeholder="No limit"
+                className="mt-1"
+              />
+            </div>
+            <div className="md:col-span-2">
+              <Label htmlFor="companyAddress">Billing Address</Label>
+              <Textarea id="companyAddress" value={form.billingAddress} onChange={(e) => setForm({ ...form, billingAddress: e.target.value })} rows={2} className="mt-1" />
+            </div>
+            {formMode === "edit" && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="companyActive"
+                  checked={form.isActive}
+                  onCheckedChange={(checked) => setForm({ ...form, isActive: checked === true })}
+                />
+                <Label htmlFor="companyActive" className="cursor-pointer">Stays can be billed to this company</Label>
+              </div>
+            )}
+            <div className="md:col-span-2 flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setFormMode(null)}>Cancel</Button>
+              <Button onClick={handleSaveAccount} disabled={form.name.trim().length < 2 || isSaving}>
+                {isSaving ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {selectedAccount && !formMode && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-4 text-sm text-gray-600 bg-gray-50 p-3 rounded-lg">
+              <span>
+                Outstanding: <span className="font-semibold text-gray-900">₹{parseFloat(selectedAccount.outstanding).toLocaleString()}</span>
+              </span>
+              <span>Credit limit: {selectedAccount.creditLimit ? `₹${parseFloat(selectedAccount.creditLimit).toLocaleString()}` : "None"}</span>
+              {selectedAccount.gstin && <span>GSTIN: {selectedAccount.gstin}</span>}
+              {selectedAccount.contactName && <span>{selectedAccount.contactName} {selectedAccount.phoneNumber}</span>}
+              {!selectedAccount.isActive && <Badge variant="outline">Inactive</Badge>}
+            </div>
+
+            <Tabs defaultValue="statement">
+              <TabsList>
+                <TabsTrigger value="statement" className="font-telugu">
+                  <BilingualText english="Statement" telugu="స్టేట్‌మెంట్" />
+                </TabsTrigger>
+                <TabsTrigger value="settle" className="font-telugu">
+                  <BilingualText english="Settle Bills" telugu="బిల్లుల పరిష్కారం" />
+                </TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="statement" className="space-y-3">
+                <div className="flex items-end gap-2">
+                  <div>
+                    <Label htmlFor="statementFrom">From</Label>
+                    <Input id="statementFrom" type="date" value={periodFrom} onChange={(e) => setPeriodFrom(e.target.value)} className="mt-1" />
+                  </div>
+                  <div>
+                    <Label htmlFor="statementTo">To</Label>
+                    <Input id="statementTo" type="date" value={periodTo} onChange={(e) => setPeriodTo(e.target.value)} className="mt-1" />
+                  </div>
+                  <Button
+                    variant="outline"
+                    className="ml-auto"
+                    disabled={!statement}
+                    onClick={() => statement && downloadCompanyStatementPdf(statement, lodgeName)}
+                  >
+                    <Download size={16} className="mr-1" /> Download PDF
+                  </Button>
+                </div>
+
+                {statement && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-[100px]">Date</TableHead>
+                        <TableHead>Particulars</TableHead>
+                        <TableHead className="text-right">Debit</TableHead>
+                        <TableHead className="text-right">Credit</TableHead>
+                        <TableHead className="text-right">Balance</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      <TableRow className="font-medium">
+                        <TableCell />
+                        <TableCell>Opening balance</TableCell>
+                        <TableCell />
+                        <TableCell />
+                        <TableCell className="text-right">₹{parseFloat(statement.openingBalance).toLocaleString()}</TableCell>
+                      </TableRow>
+                      {statement.entries.map((entry, index) => (
+                        <TableRow key={index}>
+                          <TableCell className="text-sm">{entry.date ? new Date(entry.date).toLocaleDateString('en-IN') : "—"}</TableCell>
+                          <TableCell className="text-sm">{entry.description}</TableCell>
+                          <TableCell className="text-right">{parseFloat(entry.debit) > 0 && `₹${parseFloat(entry.debit).toLocaleString()}`}</TableCell>
+                          <TableCell className="text-right text-green-700">{parseFloat(entry.credit) > 0 && `₹${parseFloat(entry.credit).toLocaleString()}`}</TableCell>
+                          <TableCell className="text-right">₹{parseFloat(entry.balance).toLocaleString()}</TableCell>
+                        </TableRow>
+                      ))}
+                      <TableRow className="font-semibold">
+                        <TableCell />
+                        <TableCell>Closing balance</TableCell>
+                        <TableCell className="text-right">₹{parseFloat(statement.totalBilled).toLocaleString()}</TableCell>
+                        <TableCell className="text-right">₹{parseFloat(statement.totalCredited).toLocaleString()}</TableCell>
+                        <TableCell className="text-right">₹{parseFloat(statement.closingBalance).toLocaleString()}</TableCell>
+                      </TableRow>
+                    </TableBody>
+                  </Table>
+                )}
+              </TabsContent>
+
+              <TabsContent value="settle" className="space-y-3">
+                {statement && statement.openBills.length === 0 ? (
+                  <p className="text-sm text-gray-500 text-center py-6">Nothing is owed by this company</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-[40px]" />
+                        <TableHead>Guest</TableHead>
+                        <TableHead>Room</TableHead>
+                        <TableHead>Billed On</TableHead>
+                        <TableHead className="text-right">Outstanding</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {statement?.openBills.map((bill) => (
+                        <TableRow key={bill.paymentId}>
+                          <TableCell>
+                            <Checkbox
+                              checked={selectedBills.includes(bill.paymentId)}
+                              onCheckedChange={(checked) => toggleBill(bill.paymentId, checked === true)}
+                            />
+                          </TableCell>
+                          <TableCell>{bill.guestName}</TableCell>
+                          <TableCell>{bill.roomNumber ?? "—"}</TableCell>
+                          <TableCell className="text-sm">{bill.billedAt ? new Date(bill.billedAt).toLocaleDateString('en-IN') : "—"}</TableCell>
+                          <TableCell className="text-right font-medium">₹{parseFloat(bill.outstanding).toLocaleString()}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+
+                {selectedBills.length > 0 && (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 border-t pt-4">
+                    <div>
+                      <Label className="font-telugu">
+                        <BilingualText english="Paid By" telugu="చెల్లింపు మార్గం" />
+                      </Label>
+                      <Select value={settlementMethod} onValueChange={setSettlementMethod}>
+                        <SelectTrigger className="mt-1">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(PAYMENT_METHOD_LABELS)
+                            .filter(([method]) => method !== "company")
+                            .map(([method, label]) => (
+                              <SelectItem key={method} value={method}>{label.english}</SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="settlementReference">Cheque No. / UTR</Label>
+                      <Input id="settlementReference" value={settlementReference} onChange={(e) => setSettlementReference(e.target.value)} className="mt-1" />
+                    </div>
+                    <div>
+                      <Label htmlFor="settlementNotes">Notes</Label>
+                      <Input id="settlementNotes" value={settlementNotes} onChange={(e) => setSettlementNotes(e.target.value)} className="mt-1" />
+                    </div>
+                    <div className="md:col-span-3 flex items-center justify-end gap-4">
+                      <span className="text-sm">
+                        {selectedBills.length} bill{selectedBills.length === 1 ? "" : "s"} • <span className="font-semibold">{formatRupees(selectedTotal)}</span>
+                      </span>
+                      <Button onClick={handleSettle} disabled={isSaving} className="bg-success hover:bg-green-700">
+                        {isSaving ? "Recording..." : "Record Settlement"}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </TabsContent>
+            </Tabs>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
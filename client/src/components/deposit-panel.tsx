@@ -0,0 +1,299 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { BilingualText } from "@/components/bilingual-text";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { apiRequest } from "@/lib/queryClient";
+import { badRequestMessage } from "@/lib/api-errors";
+import { dayLockMessage, withDayLockOverride } from "@/lib/day-lock";
+import type { DepositWithDeductions, GuestWithRoom } from "@/lib/types";
+import type { FolioCharge } from "@shared/schema";
+import { PAYMENT_METHOD_LABELS, paymentMethodLabel } from "@shared/payments";
+import { formatRupees, sumPaise, toPaise, toRupees } from "@shared/money";
+import { Plus } from "lucide-react";
+
+interface DepositPanelProps {
+  guest: GuestWithRoom;
+  canEdit: boolean;
+}
+
+// Deposits are taken at the desk, never billed to a company
+const depositMethods = Object.entries(PAYMENT_METHOD_LABELS).filter(([method]) => method !== "company");
+
+const NEW_DAMAGE_CHARGE = "new";
+
+const emptyCollectForm = { amount: "", paymentMethod: "cash", notes: "" };
+const emptyDeductForm = { amount: "", reason: "", folioChargeId: NEW_DAMAGE_CHARGE };
+
+export function DepositPanel({ guest, canEdit }: DepositPanelProps) {
+  const [collectForm, setCollectForm] = useState(emptyCollectForm);
+  const [deductingId, setDeductingId] = useState<string | null>(null);
+  const [deductForm, setDeductForm] = useState(emptyDeductForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+  const { can } = useCurrentUser();
+  const queryClient = useQueryClient();
+
+  const { data: deposits } = useQuery<DepositWithDeductions[]>({
+    queryKey: ["/api/guests", guest.id, "deposits"],
+    staleTime: 0,
+  });
+
+  const { data: charges } = useQuery<FolioCharge[]>({
+    queryKey: ["/api/guests", guest.id, "charges"],
+    enabled: canEdit,
+    staleTime: 0,
+  });
+
+  const canCollect = canEdit && (guest.status === "reserved" || guest.status === "confirmed" || guest.status === "active");
+  const linkedChargeIds = new Set((deposits ?? []).flatMap((deposit) => deposit.deductions.map((deduction) => deduction.folioChargeId)));
+  const damageCharges = (charges ?? []).filter((charge) => charge.category === "damage" && !linkedChargeIds.has(charge.id));
+
+  // A deduction posts a charge and a receipt, so the bill, balance and revenue all move
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/guests"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/deposits/held"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/payments"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/analytics/dashboard"] });
+  };
+
+  // Money taken after the night audit has closed today needs a manager's override
+  const run = async (action: (overrideReason?: string) => Promise<unknown>, fallback: string) => {
+    setIsSaving(true);
+    try {
+      await withDayLockOverride(action, can("night_audit:override"));
+      refresh();
+      return true;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: dayLockMessage(error) ?? badRequestMessage(error) ?? fallback,
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCollect = async () => {
+    if (!(parseFloat(collectForm.amount) > 0)) {
+      toast({ title: "Error", description: "Enter the deposit amount", variant: "destructive" });
+      return;
+    }
+
+    const done = await run((overrideReason) => apiRequest("POST", `/api/guests/${guest.id}/deposits`, {
+      amount: parseFloat(collectForm.amount),
+      paymentMethod: collectForm.paymentMethod,
+      notes: collectForm.notes || null,
+      overrideReason,
+    }), "Failed to record deposit");
+    if (done) setCollectForm(emptyCollectForm);
+  };
+
+  const handleDeduct = async (depositId: string) => {
+    if (!(parseFloat(deductForm.amount) > 0) || deductForm.reason.trim().length < 3) {
+      toast({ title: "Error", description: "Enter an amount and the reason for the deduction", variant: "destructive" });
+      return;
+    }
+
+    const done = await run((overrideReason) => apiRequest("POST", `/api/deposits/${depositId}/deductions`, {
+      amount: parseFloat(deductForm.amount),
+      reason: deductForm.reason,
+      folioChargeId: deductForm.folioChargeId === NEW_DAMAGE_CHARGE ? undefined : deductForm.folioChargeId,
+      overrideReason,
+    }), "Failed to deduct from deposit");
+    if (done) {
+      setDeductingId(null);
+      setDeductForm(emptyDeductForm);
+    }
+  };
+
+  const handleRelease = async (deposit: DepositWithDeductions) => {
+    if (!confirm(`Hand back ₹${parseFloat(deposit.heldAmount).toLocaleString()} to the guest and close this deposit?`)) return;
+    await run((overrideReason) => apiRequest("POST", `/api/deposits/${deposit.id}/release`, { overrideReason }), "Failed to release deposit");
+  };
+
+  if (!canCollect && (!deposits || deposits.length === 0)) return null;
+
+  const totalHeld = sumPaise((deposits ?? []).map((deposit) => deposit.heldAmount));
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900 font-telugu">
+          <BilingualText english="Security Deposit" telugu="సెక్యూరిటీ డిపాజిట్" />
+        </h3>
+        <p className="text-sm text-gray-600 font-telugu">
+          <BilingualText english="Held" telugu="ఉంచబడింది" />: {formatRupees(totalHeld)}
+        </p>
+      </div>
+      <Separator className="mt-2 mb-4" />
+
+      <div className="space-y-2">
+        {deposits?.map((deposit) => (
+          <div key={deposit.id} className="text-sm p-2 rounded bg-gray-50 space-y-2">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="font-medium">
+                  ₹{parseFloat(deposit.amount).toLocaleString()} · {paymentMethodLabel(deposit.paymentMethod)}
+                </p>
+                <p className="text-gray-600">
+                  {new Date(deposit.collectedAt).toLocaleDateString('en-IN')}
+                  {deposit.collectedByName && ` · ${deposit.collectedByName}`}
+                  {deposit.notes && ` · ${deposit.notes}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                {deposit.status === "held" ? (
+                  <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-100">Held ₹{parseFloat(deposit.heldAmount).toLocaleString()}</Badge>
+                ) : (
+                  <Badge variant="outline">
+                    Released ₹{parseFloat(deposit.releasedAmount ?? "0").toLocaleString()}
+                    {deposit.releaseMethod && ` · ${paymentMethodLabel(deposit.releaseMethod)}`}
+                  </Badge>
+                )}
+                {canEdit && deposit.status === "held" && (
+                  <>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-8"
+                      disabled={isSaving || parseFloat(deposit.heldAmount) === 0}
+                      onClick={() => {
+                        setDeductingId(deductingId === deposit.id ? null : deposit.id);
+                        setDeductForm(emptyDeductForm);
+                      }}
+                    >
+                      Deduct
+                    </Button>
+                    <Button size="sm" className="h-8" disabled={isSaving} onClick={() => handleRelease(deposit)}>
+                      Release
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+
+            {deposit.deductions.map((deduction) => (
+              <div key={deduction.id} className="flex items-center justify-between text-xs text-gray-600 pl-3 border-l-2 border-red-200">
+                <span>
+                  {new Date(deduction.createdAt).toLocaleDateString('en-IN')} · {deduction.reason}
+                  {deduction.recordedByName && ` · ${deduction.recordedByName}`}
+                </span>
+                <span className="font-medium text-red-600">-₹{parseFloat(deduction.amount).toLocaleString()}</span>
+              </div>
+            ))}
+
+            {deductingId === deposit.id && (
+              <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end pt-2">
+                <div className="col-span-2">
+                  <Label className="text-xs">Damage charge</Label>
+                  <Select
+                    value={deductForm.folioChargeId}
+                    onValueChange={(value) => {
+                      const charge = damageCharges.find((candidate) => candidate.id === value);
+                      setDeductForm({
+                        ...deductForm,
+                        folioChargeId: value,
+                        amount: charge ? toRupees(Math.min(toPaise(charge.totalAmount), toPaise(deposit.heldAmount))) : deductForm.amount,
+                        reason: charge?.description || deductForm.reason,
+                      });
+                    }}
+                  >
+                    <SelectTrigger className="mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NEW_DAMAGE_CHARGE}>Post a new damage charge</SelectItem>
+                      {damageCharges.map((charge) => (
+                        <SelectItem key={charge.id} value={charge.id}>
+                          {charge.description || "Damages"} · ₹{parseFloat(charge.totalAmount).toLocaleString()}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="col-span-2">
+                  <Label className="text-xs">Reason</Label>
+                  <Input
+                    value={deductForm.reason}
+                    onChange={(e) => setDeductForm({ ...deductForm, reason: e.target.value })}
+                    placeholder="e.g. Broken kettle"
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label className="text-xs">Amount ₹</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    max={deposit.heldAmount}
+                    value={deductForm.amount}
+                    onChange={(e) => setDeductForm({ ...deductForm, amount: e.target.value })}
+                    className="mt-1"
+                  />
+                </div>
+                <Button type="button" size="sm" onClick={() => handleDeduct(deposit.id)} disabled={isSaving}>
+                  Deduct
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {canCollect && (
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-2 mt-3 items-end">
+          <div>
+            <Label className="text-xs">Amount ₹</Label>
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={collectForm.amount}
+              onChange={(e) => setCollectForm({ ...collectForm, amount: e.target.value })}
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label className="text-xs">Method</Label>
+            <Select
+              value={collectForm.paymentMethod}
+              onValueChange={(value) => setCollectForm({ ...collectForm, paymentMethod: value })}
+            >
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {depositMethods.map(([method, label]) => (
+                  <SelectItem key={method} value={method}>{label.english}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="col-span-2 md:col-span-3">
+            <Label className="text-xs">Notes</Label>
+            <Input
+              value={collectForm.notes}
+              onChange={(e) => setCollectForm({ ...collectForm, notes: e.target.value })}
+              placeholder="e.g. Room key deposit"
+              className="mt-1"
+            />
+          </div>
+          <Button type="button" size="sm" onClick={handleCollect} disabled={isSaving}>
+            <Plus size={14} className="mr-1" />
+            Collect
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
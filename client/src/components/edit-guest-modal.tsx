@@ -5,8 +5,10 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { BilingualText } from "@/components/bilingual-text";
+import { useCurrentUser } from "@/hooks/use-current-user";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { dayLockMessage, withDayLockOverride } from "@/lib/day-lock";
 import type { GuestWithRoom } from "@/lib/types";
 
 interface EditGuestModalProps {
@@ -21,10 +23,12 @@ export function EditGuestModal({ open, onOpenChange, guest }: EditGuestModalProp
     phoneNumber: guest?.phoneNumber || "",
     aadharNumber: guest?.aadharNumber || "",
     numberOfGuests: guest?.numberOfGuests || 1,
+    gstin: guest?.gstin || "",
     status: guest?.status || "active"
   });
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
+  const { can } = useCurrentUser();
 
   // Update form data when guest changes
   useState(() => {
@@ -34,6 +38,7 @@ export function EditGuestModal({ open, onOpenChange, guest }: EditGuestModalProp
         phoneNumber: guest.phoneNumber,
         aadharNumber: guest.aadharNumber,
         numberOfGuests: guest.numberOfGuests,
+        gstin: guest.gstin || "",
         status: guest.status
       });
     }
@@ -45,7 +50,13 @@ export function EditGuestModal({ open, onOpenChange, guest }: EditGuestModalProp
 
     setIsLoading(true);
     try {
-      const response = await apiRequest("PUT", `/api/guests/${guest.id}`, formData);
+      // A changed GSTIN re-prices the stay (CGST + SGST vs IGST), so only send it when edited
+      const { gstin, ...details } = formData;
+      const body = gstin !== (guest.gstin || "") ? { ...details, gstin } : details;
+      // Stays whose books were closed by the night audit need a manager's override
+      const response = await withDayLockOverride((overrideReason) =>
+        apiRequest("PUT", `/api/guests/${guest.id}`, { ...body, overrideReason }),
+        can("night_audit:override"));
       
       if (response.ok) {
         toast({
@@ -61,7 +72,7 @@ export function EditGuestModal({ open, onOpenChange, guest }: EditGuestModalProp
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to update guest",
+        description: dayLockMessage(error) ?? "Failed to update guest",
         variant: "destructive",
       });
     } finally {
@@ -139,31 +150,47 @@ export function EditGuestModal({ open, onOpenChange, guest }: EditGuestModalProp
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="status" className="font-telugu">
-              <BilingualText english="Status" telugu="స్థితి" />
+            <Label htmlFor="gstin" className="font-telugu">
+              <BilingualText english="Guest GSTIN (optional)" telugu="అతిథి GSTIN (ఐచ్ఛికం)" />
             </Label>
-            <Select 
-              value={formData.status} 
-              onValueChange={(value) => setFormData({ ...formData, status: value })}
-            >
-              <SelectTrigger>
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="active">
-                  <span className="font-telugu">
-                    <BilingualText english="Active" telugu="క్రియాశీల" />
-                  </span>
-                </SelectItem>
-                <SelectItem value="checked_out">
-                  <span className="font-telugu">
-                    <BilingualText english="Checked Out" telugu="చెక్-అవుట్" />
-                  </span>
-                </SelectItem>
-              </SelectContent>
-            </Select>
+            <Input
+              id="gstin"
+              value={formData.gstin}
+              onChange={(e) => setFormData({ ...formData, gstin: e.target.value.toUpperCase() })}
+              placeholder="For business invoices"
+              maxLength={15}
+            />
           </div>
 
+          {/* Reservations are checked in or cancelled from the guest list */}
+          {(formData.status === "active" || formData.status === "checked_out") && (
+            <div className="space-y-2">
+              <Label htmlFor="status" className="font-telugu">
+                <BilingualText english="Status" telugu="స్థితి" />
+              </Label>
+              <Select 
+                value={formData.status} 
+                onValueChange={(value) => setFormData({ ...formData, status: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="active">
+                    <span className="font-telugu">
+                      <BilingualText english="Active" telugu="క్రియాశీల" />
+                    </span>
+                  </SelectItem>
+                  <SelectItem value="checked_out">
+                    <span className="font-telugu">
+                      <BilingualText english="Checked Out" telugu="చెక్-అవుట్" />
+                    </span>
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           <div className="flex justify-end space-x-2 pt-4">
             <Button 
               type="button" 
@@ -0,0 +1,340 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BilingualText } from "@/components/bilingual-text";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { apiRequest } from "@/lib/queryClient";
+import { badRequestMessage } from "@/lib/api-errors";
+import { dayLockMessage, withDayLockOverride } from "@/lib/day-lock";
+import { EXPENSE_CATEGORY_LABELS, EXPENSE_MODE_LABELS, expenseCategoryLabel } from "@/lib/expense-labels";
+import type { Expense } from "@shared/schema";
+import { formatRupees, sumPaise } from "@shared/money";
+import { Edit, Paperclip, Plus, Trash2 } from "lucide-react";
+
+interface ExpensesModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const today = () => new Date().toLocaleDateString('en-CA'); // YYYY-MM-DD
+const thisMonth = () => today().slice(0, 7);
+
+const emptyForm = () => ({
+  category: "electricity",
+  description: "",
+  payee: "",
+  amount: "",
+  paymentMode: "cash",
+  reference: "",
+  paidOn: today(),
+});
+
+// Last day of a YYYY-MM month, as YYYY-MM-DD
+const monthEnd = (month: string) => {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return new Date(year, monthIndex, 0).toLocaleDateString('en-CA');
+};
+
+export function ExpensesModal({ open, onOpenChange }: ExpensesModalProps) {
+  const [month, setMonth] = useState(thisMonth);
+  const [formData, setFormData] = useState(emptyForm);
+  const [bill, setBill] = useState<File | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+  const { can } = useCurrentUser();
+  const queryClient = useQueryClient();
+
+  const { data: expenses } = useQuery<Expense[]>({
+    queryKey: ["/api/expenses", month],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/expenses?from=${month}-01&to=${monthEnd(month)}`);
+      return response.json();
+    },
+    enabled: open && !!month,
+    staleTime: 0,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/expenses"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/reports/profit-loss"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/shifts/current"] });
+  };
+
+  const resetForm = () => {
+    setFormData(emptyForm());
+    setBill(null);
+    setEditingId(null);
+  };
+
+  // Sent as the raw file rather than JSON, like statement imports
+  const uploadBill = async (expenseId: string, file: File) => {
+    const response = await fetch(`/api/expenses/${expenseId}/attachment?fileName=${encodeURIComponent(file.name)}`, {
+      method: "PUT",
+      headers: { "Content-Type": file.type },
+      body: file,
+      credentials: "include",
+    });
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.message || response.statusText);
+    }
+  };
+
+  const handleSave = async () => {
+    if (formData.description.trim().length < 2 || !(parseFloat(formData.amount) > 0) || !formData.paidOn) {
+      toast({ title: "Error", description: "Enter what the expense was for, the amount and the date", variant: "destructive" });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const body = {
+        ...formData,
+        amount: parseFloat(formData.amount),
+        payee: formData.payee || null,
+        reference: formData.reference || null,
+      };
+      // Expenses dated on a closed day need a manager's override
+      const response = await withDayLockOverride((overrideReason) => editingId
+        ? apiRequest("PUT", `/api/expenses/${editingId}`, { ...body, overrideReason })
+        : apiRequest("POST", "/api/expenses", { ...body, overrideReason }),
+        can("night_audit:override"));
+      const saved: Expense = await response.json();
+
+      if (bill) {
+        try {
+          await uploadBill(saved.id, bill);
+        } catch (error) {
+          toast({
+            title: "Bill not attached",
+            description: error instanceof Error ? error.message : "Failed to upload the bill",
+            variant: "destructive",
+          });
+        }
+      }
+
+      resetForm();
+      refresh();
+      toast({ title: "Success", description: editingId ? "Expense updated" : "Expense recorded" });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: dayLockMessage(error) ?? badRequestMessage(error) ?? "Failed to save expense",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEdit = (expense: Expense) => {
+    setEditingId(expense.id);
+    setBill(null);
+    setFormData({
+      category: expense.category,
+      description: expense.description,
+      payee: expense.payee ?? "",
+      amount: expense.amount,
+      paymentMode: expense.paymentMode,
+      reference: expense.reference ?? "",
+      paidOn: expense.paidOn,
+    });
+  };
+
+  const handleDelete = async (expense: Expense) => {
+    if (!confirm(`Delete "${expense.description}"?`)) return;
+
+    try {
+      await withDayLockOverride((overrideReason) =>
+        apiRequest("DELETE", `/api/expenses/${expense.id}`, overrideReason ? { overrideReason } : undefined),
+        can("night_audit:override"));
+      if (editingId === expense.id) resetForm();
+      refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: dayLockMessage(error) ?? badRequestMessage(error) ?? "Failed to delete expense",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const total = sumPaise((expenses ?? []).map((expense) => expense.amount));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-telugu">
+            <BilingualText english="Expense Book" telugu="ఖర్చుల పుస్తకం" />
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div>
+            <Label className="text-xs">Category</Label>
+            <Select value={formData.category} onValueChange={(value) => setFormData({ ...formData, category: value })}>
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(EXPENSE_CATEGORY_LABELS).map(([category, label]) => (
+                  <SelectItem key={category} value={category} className="font-telugu">
+                    <BilingualText english={label.english} telugu={label.telugu} />
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="col-span-2 md:col-span-3">
+            <Label className="text-xs">Description</Label>
+            <Input
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              placeholder="e.g. Electricity bill for March"
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label className="text-xs">Paid to</Label>
+            <Input
+              value={formData.payee}
+              onChange={(e) => setFormData({ ...formData, payee: e.target.value })}
+              placeholder="Vendor or staff member"
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label className="text-xs">Amount ₹</Label>
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={formData.amount}
+              onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label className="text-xs">Paid by</Label>
+            <Select value={formData.paymentMode} onValueChange={(value) => setFormData({ ...formData, paymentMode: value })}>
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(EXPENSE_MODE_LABELS).map(([mode, label]) => (
+                  <SelectItem key={mode} value={mode}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-xs">Date</Label>
+            <Input
+              type="date"
+              value={formData.paidOn}
+              max={today()}
+              onChange={(e) => setFormData({ ...formData, paidOn: e.target.value })}
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label className="text-xs">Bill / cheque / UTR no.</Label>
+            <Input
+              value={formData.reference}
+              onChange={(e) => setFormData({ ...formData, reference: e.target.value })}
+              className="mt-1"
+            />
+          </div>
+          <div className="col-span-2">
+            <Label className="text-xs">Bill (photo or PDF, optional)</Label>
+            <Input
+              type="file"
+              accept="image/jpeg,image/png,image/webp,application/pdf"
+              onChange={(e) => setBill(e.target.files?.[0] ?? null)}
+              className="mt-1"
+            />
+          </div>
+          <div className="flex items-end gap-2">
+            <Button type="button" onClick={handleSave} disabled={isSaving} className="flex-1">
+              {editingId ? <Edit size={14} className="mr-1" /> : <Plus size={14} className="mr-1" />}
+              {editingId ? "Update" : "Add"}
+            </Button>
+            {editingId && (
+              <Button type="button" variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Input type="month" value={month} max={thisMonth()} onChange={(e) => setMonth(e.target.value)} className="w-44" />
+            <p className="text-sm text-gray-600 font-telugu">
+              <BilingualText english="Total" telugu="మొత్తం" />: {formatRupees(total)}
+            </p>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead>Paid by</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead className="w-[120px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {expenses?.map((expense) => (
+                <TableRow key={expense.id}>
+                  <TableCell className="text-sm">{new Date(`${expense.paidOn}T00:00:00`).toLocaleDateString('en-IN')}</TableCell>
+                  <TableCell>{expenseCategoryLabel(expense.category)}</TableCell>
+                  <TableCell>
+                    <p>{expense.description}</p>
+                    <p className="text-xs text-gray-500">
+                      {[expense.payee, expense.reference, expense.recordedByName && `by ${expense.recordedByName}`].filter(Boolean).join(" · ")}
+                    </p>
+                  </TableCell>
+                  <TableCell>{EXPENSE_MODE_LABELS[expense.paymentMode as keyof typeof EXPENSE_MODE_LABELS] ?? expense.paymentMode}</TableCell>
+                  <TableCell className="text-right">₹{parseFloat(expense.amount).toLocaleString()}</TableCell>
+                  <TableCell>
+                    <div className="flex justify-end">
+                      {expense.attachmentName && (
+                        <Button variant="ghost" size="sm" asChild title={expense.attachmentName}>
+                          <a href={`/api/expenses/${expense.id}/attachment`} target="_blank" rel="noreferrer">
+                            <Paperclip size={14} />
+                          </a>
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="sm" onClick={() => handleEdit(expense)}>
+                        <Edit size={14} />
+                      </Button>
+                      <Button variant="ghost" size="sm" className="text-red-600" onClick={() => handleDelete(expense)}>
+                        <Trash2 size={14} />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {expenses && expenses.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-4">No expenses recorded this month</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,258 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { BilingualText } from "@/components/bilingual-text";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { dayLockMessage, withDayLockOverride } from "@/lib/day-lock";
+import type { GuestWithRoom } from "@/lib/types";
+import type { FolioCharge } from "@shared/schema";
+import { formatRupees, sumPaise } from "@shared/money";
+import { Edit, Plus, Trash2 } from "lucide-react";
+
+interface FolioPanelProps {
+  guest: GuestWithRoom;
+  canEdit: boolean;
+}
+
+// Default GST rates are a starting point; staff can change them per charge
+const folioCategories: Record<string, { english: string; telugu: string; defaultTaxRate: number }> = {
+  extra_bed: { english: "Extra Bed", telugu: "అదనపు మంచం", defaultTaxRate: 18 },
+  food: { english: "Food", telugu: "ఆహారం", defaultTaxRate: 5 },
+  laundry: { english: "Laundry", telugu: "లాండ్రీ", defaultTaxRate: 18 },
+  late_checkout: { english: "Late Checkout", telugu: "ఆలస్య చెక్-అవుట్", defaultTaxRate: 18 },
+  damage: { english: "Damages", telugu: "నష్టాలు", defaultTaxRate: 18 },
+  other: { english: "Other", telugu: "ఇతర", defaultTaxRate: 18 },
+};
+
+const emptyForm = { category: "food", description: "", quantity: "1", unitPrice: "", taxRate: "5" };
+
+export function FolioPanel({ guest, canEdit }: FolioPanelProps) {
+  const [formData, setFormData] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+  const { can } = useCurrentUser();
+  const queryClient = useQueryClient();
+
+  const { data: charges } = useQuery<FolioCharge[]>({
+    queryKey: ["/api/guests", guest.id, "charges"],
+    staleTime: 0,
+  });
+
+  const isOpen = guest.status !== "cancelled" && guest.status !== "no_show";
+  const editable = canEdit && isOpen;
+
+  // Totals and the balance due change with every charge
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/guests"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/payments"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/analytics/dashboard"] });
+  };
+
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setEditingId(null);
+  };
+
+  const handleSave = async () => {
+    if (!(parseFloat(formData.unitPrice) > 0) || !(parseInt(formData.quantity) >= 1)) {
+      toast({
+        title: "Error",
+        description: "Enter a quantity and unit price",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const body = {
+        category: formData.category,
+        description: formData.description || null,
+        quantity: parseInt(formData.quantity),
+        unitPrice: parseFloat(formData.unitPrice),
+        taxRate: parseFloat(formData.taxRate) || 0,
+      };
+      if (editingId) {
+        // Charges posted on a closed day need a manager's override to change
+        await withDayLockOverride((overrideReason) =>
+          apiRequest("PUT", `/api/guests/${guest.id}/charges/${editingId}`, { ...body, overrideReason }),
+          can("night_audit:override"));
+      } else {
+        await apiRequest("POST", `/api/guests/${guest.id}/charges`, body);
+      }
+      resetForm();
+      refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: dayLockMessage(error) ?? "Failed to save charge",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEdit = (charge: FolioCharge) => {
+    setEditingId(charge.id);
+    setFormData({
+      category: charge.category,
+      description: charge.description || "",
+      quantity: String(charge.quantity),
+      unitPrice: charge.unitPrice,
+      taxRate: String(parseFloat(charge.taxRate)),
+    });
+  };
+
+  const handleDelete = async (charge: FolioCharge) => {
+    if (!confirm("Remove this charge from the bill?")) return;
+
+    try {
+      await withDayLockOverride((overrideReason) =>
+        apiRequest("DELETE", `/api/guests/${guest.id}/charges/${charge.id}`, overrideReason ? { overrideReason } : undefined),
+        can("night_audit:override"));
+      if (editingId === charge.id) resetForm();
+      refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: dayLockMessage(error) ?? "Failed to remove charge",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (!editable && (!charges || charges.length === 0)) return null;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900 font-telugu">
+          <BilingualText english="Extra Charges" telugu="అదనపు ఛార్జీలు" />
+        </h3>
+        <p className="text-sm text-gray-600">
+          {formatRupees(sumPaise((charges ?? []).map((charge) => charge.totalAmount)))}
+        </p>
+      </div>
+      <Separator className="mt-2 mb-4" />
+
+      <div className="space-y-2">
+        {charges?.map((charge) => {
+          const category = folioCategories[charge.category];
+          return (
+            <div key={charge.id} className="flex items-center justify-between text-sm p-2 rounded bg-gray-50">
+              <div>
+                <p className="font-medium font-telugu">
+                  {category ? <BilingualText english={category.english} telugu={category.telugu} /> : charge.category}
+                  {charge.description && <span className="text-gray-600"> · {charge.description}</span>}
+                </p>
+                <p className="text-gray-600">
+                  {charge.quantity} × ₹{parseFloat(charge.unitPrice).toLocaleString()}
+                  {parseFloat(charge.taxAmount) > 0 && ` + GST ${parseFloat(charge.taxRate)}%`}
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                <span className="font-medium mr-2">₹{parseFloat(charge.totalAmount).toLocaleString()}</span>
+                {editable && (
+                  <>
+                    <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => handleEdit(charge)} title="Edit">
+                      <Edit size={14} />
+                    </Button>
+                    <Button variant="ghost" size="sm" className="h-8 w-8 p-0 text-red-600" onClick={() => handleDelete(charge)} title="Remove">
+                      <Trash2 size={14} />
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {editable && (
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-2 mt-3 items-end">
+          <div className="col-span-2 md:col-span-1">
+            <Label className="text-xs">Category</Label>
+            <Select
+              value={formData.category}
+              onValueChange={(value) => setFormData({
+                ...formData,
+                category: value,
+                taxRate: String(folioCategories[value]?.defaultTaxRate ?? 18),
+              })}
+            >
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(folioCategories).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label.english}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="col-span-2">
+            <Label className="text-xs">Description</Label>
+            <Input
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              placeholder="e.g. Dinner, 2 plates"
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label className="text-xs">Qty</Label>
+            <Input
+              type="number"
+              min="1"
+              value={formData.quantity}
+              onChange={(e) => setFormData({ ...formData, quantity: e.target.value })}
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label className="text-xs">Unit ₹</Label>
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={formData.unitPrice}
+              onChange={(e) => setFormData({ ...formData, unitPrice: e.target.value })}
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label className="text-xs">GST %</Label>
+            <Input
+              type="number"
+              min="0"
+              max="28"
+              step="0.01"
+              value={formData.taxRate}
+              onChange={(e) => setFormData({ ...formData, taxRate: e.target.value })}
+              className="mt-1"
+            />
+          </div>
+          <div className="col-span-2 md:col-span-6 flex justify-end gap-2">
+            {editingId && (
+              <Button type="button" variant="outline" size="sm" onClick={resetForm}>
+                <BilingualText english="Cancel" telugu="రద్దు చేయండి" />
+              </Button>
+            )}
+            <Button type="button" size="sm" onClick={handleSave} disabled={isSaving}>
+              <Plus size={14} className="mr-1" />
+              {editingId ? "Update Charge" : "Add Charge"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
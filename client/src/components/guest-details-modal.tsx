@@ -1,10 +1,24 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { BilingualText } from "@/components/bilingual-text";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
-import type { GuestWithRoom } from "@/lib/types";
-import { Calendar, Phone, CreditCard, MapPin, Users, Clock } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AuditLogList } from "@/components/audit-log-list";
+import { FolioPanel } from "@/components/folio-panel";
+import { DepositPanel } from "@/components/deposit-panel";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { downloadTaxInvoicePdf } from "@/lib/tax-invoice-pdf";
+import type { GuestWithRoom, GuestProfileHistory, StayPayments, TaxInvoice } from "@/lib/types";
+import { getStayStatus } from "@/lib/stay-status";
+import type { AuditLog } from "@shared/schema";
+import { isReversal, paymentMethodLabel } from "@shared/payments";
+import { formatRupees, toPaise } from "@shared/money";
+import { Calendar, Phone, CreditCard, MapPin, Users, Clock, FileText } from "lucide-react";
 
 interface GuestDetailsModalProps {
   open: boolean;
@@ -13,6 +27,30 @@ interface GuestDetailsModalProps {
 }
 
 export function GuestDetailsModal({ open, onOpenChange, guest }: GuestDetailsModalProps) {
+  const [activeTab, setActiveTab] = useState("details");
+  const { can } = useCurrentUser();
+  const canViewHistory = can("audit:view");
+  const [isIssuingInvoice, setIsIssuingInvoice] = useState(false);
+  const { toast } = useToast();
+
+  const { data: history } = useQuery<AuditLog[]>({
+    queryKey: [`/api/guests/${guest?.id}/history`],
+    enabled: open && !!guest && canViewHistory && activeTab === "history",
+    staleTime: 0,
+  });
+
+  const { data: stayPayments } = useQuery<StayPayments>({
+    queryKey: ["/api/guests", guest?.id, "payments"],
+    enabled: open && !!guest,
+    staleTime: 0,
+  });
+
+  const { data: profileHistory } = useQuery<GuestProfileHistory>({
+    queryKey: [`/api/guest-profiles/${guest?.profileId}`],
+    enabled: open && !!guest?.profileId,
+    staleTime: 0,
+  });
+
   if (!guest) return null;
 
   const formatDate = (dateString: string) => {
@@ -23,14 +61,33 @@ export function GuestDetailsModal({ open, onOpenChange, guest }: GuestDetailsMod
     });
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "active":
-        return "bg-success text-white";
-      case "checked_out": 
-        return "bg-gray-500 text-white";
-      default:
-        return "bg-primary text-white";
+  const status = getStayStatus(guest.status);
+  // The payments query is refetched as charges are posted, so prefer its total over the list snapshot
+  const totalAmount = toPaise(stayPayments?.totalAmount ?? guest.totalAmount);
+  const chargesAmount = totalAmount - (toPaise(guest.totalAmount) - toPaise(guest.chargesAmount));
+  const canInvoice = can("payments:manage") && (guest.status === "active" || guest.status === "checked_out");
+
+  // The first download assigns the invoice number; later ones reprint it as issued
+  const handleDownloadInvoice = async () => {
+    setIsIssuingInvoice(true);
+    try {
+      const response = await apiRequest("POST", `/api/guests/${guest.id}/invoice`);
+      const invoice: TaxInvoice = await response.json();
+      downloadTaxInvoicePdf(invoice);
+      if (invoice.revisedTotalAmount) {
+        toast({
+          title: "Stay total changed since invoicing",
+          description: `Invoice ${invoice.invoiceNumber} was issued for ₹${invoice.totalAmount}; the stay now totals ₹${invoice.revisedTotalAmount}. Raise a credit or debit note for the difference.`,
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to generate tax invoice",
+        variant: "destructive",
+      });
+    } finally {
+      setIsIssuingInvoice(false);
     }
   };
 
@@ -43,78 +100,178 @@ export function GuestDetailsModal({ open, onOpenChange, guest }: GuestDetailsMod
           </DialogTitle>
         </DialogHeader>
 
-        <div className="space-y-6">
-          {/* Basic Information */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <div className="space-y-4">
-              <div>
-                <h3 className="text-lg font-semibold text-gray-900 font-telugu">
-                  <BilingualText english="Personal Information" telugu="వ్యక్తిగత సమాచారం" />
-                </h3>
-                <Separator className="mt-2 mb-4" />
-                
-                <div className="space-y-3">
-                  <div className="flex items-center space-x-3">
-                    <Users className="text-gray-500" size={16} />
-                    <div>
-                      <p className="text-sm text-gray-600 font-telugu">
-                        <BilingualText english="Name" telugu="పేరు" />
-                      </p>
-                      <p className="font-medium">{guest.name}</p>
-                    </div>
-                  </div>
+        <Tabs value={activeTab} onValueChange={setActiveTab}>
+          {canViewHistory && (
+            <TabsList className="grid w-full grid-cols-2 mb-4">
+              <TabsTrigger value="details" className="font-telugu">
+                <BilingualText english="Details" telugu="వివరాలు" />
+              </TabsTrigger>
+              <TabsTrigger value="history" className="font-telugu">
+                <BilingualText english="History" telugu="చరిత్ర" />
+              </TabsTrigger>
+            </TabsList>
+          )}
+
+          <TabsContent value="details" className="space-y-6 mt-0">
+            {/* Basic Information */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-4">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900 font-telugu">
+                    <BilingualText english="Personal Information" telugu="వ్యక్తిగత సమాచారం" />
+                  </h3>
+                  <Separator className="mt-2 mb-4" />
                   
-                  <div className="flex items-center space-x-3">
-                    <Phone className="text-gray-500" size={16} />
-                    <div>
-                      <p className="text-sm text-gray-600 font-telugu">
-                        <BilingualText english="Phone Number" telugu="ఫోన్ నంబర్" />
-                      </p>
-                      <p className="font-medium">{guest.phoneNumber}</p>
+                  <div className="space-y-3">
+                    <div className="flex items-center space-x-3">
+                      <Users className="text-gray-500" size={16} />
+                      <div>
+                        <p className="text-sm text-gray-600 font-telugu">
+                          <BilingualText english="Name" telugu="పేరు" />
+                        </p>
+                        <p className="font-medium">{guest.name}</p>
+                      </div>
                     </div>
+                    
+                    <div className="flex items-center space-x-3">
+                      <Phone className="text-gray-500" size={16} />
+                      <div>
+                        <p className="text-sm text-gray-600 font-telugu">
+                          <BilingualText english="Phone Number" telugu="ఫోన్ నంబర్" />
+                        </p>
+                        <p className="font-medium">{guest.phoneNumber}</p>
+                      </div>
+                    </div>
+                    
+                    <div className="flex items-center space-x-3">
+                      <CreditCard className="text-gray-500" size={16} />
+                      <div>
+                        <p className="text-sm text-gray-600 font-telugu">
+                          <BilingualText english="Aadhaar Number" telugu="ఆధార్ నంబర్" />
+                        </p>
+                        <p className="font-medium">{guest.aadharNumber}</p>
+                      </div>
+                    </div>
+
+                    {guest.gstin && (
+                      <div className="flex items-center space-x-3">
+                        <FileText className="text-gray-500" size={16} />
+                        <div>
+                          <p className="text-sm text-gray-600 font-telugu">
+                            <BilingualText english="GSTIN" telugu="GSTIN" />
+                          </p>
+                          <p className="font-medium">{guest.gstin}</p>
+                        </div>
+                      </div>
+                    )}
                   </div>
+                </div>
+              </div>
+
+              <div className="space-y-4">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900 font-telugu">
+                    <BilingualText english="Booking Information" telugu="బుకింగ్ సమాచారం" />
+                  </h3>
+                  <Separator className="mt-2 mb-4" />
                   
-                  <div className="flex items-center space-x-3">
-                    <CreditCard className="text-gray-500" size={16} />
+                  <div className="space-y-3">
+                    <div className="flex items-center space-x-3">
+                      <MapPin className="text-gray-500" size={16} />
+                      <div>
+                        <p className="text-sm text-gray-600 font-telugu">
+                          <BilingualText english="Room" telugu="గది" />
+                        </p>
+                        <p className="font-medium">
+                          {guest.room?.roomNumber || "—"} 
+                          {guest.room?.roomType && ` (${guest.room.roomType})`}
+                        </p>
+                      </div>
+                    </div>
+                    
+                    <div className="flex items-center space-x-3">
+                      <Users className="text-gray-500" size={16} />
+                      <div>
+                        <p className="text-sm text-gray-600 font-telugu">
+                          <BilingualText english="Number of Guests" telugu="అతిథుల సంఖ్య" />
+                        </p>
+                        <p className="font-medium">{guest.numberOfGuests}</p>
+                      </div>
+                    </div>
+                    
+                    <div className="flex items-center space-x-3">
+                      <Clock className="text-gray-500" size={16} />
+                      <div>
+                        <p className="text-sm text-gray-600 font-telugu">
+                          <BilingualText english="Check-in Time" telugu="చెక్-ఇన్ సమయం" />
+                        </p>
+                        <p className="font-medium">{guest.checkinTime || "—"}</p>
+                      </div>
+                    </div>
+                    
+                    <div className="flex items-center space-x-3">
+                      <Calendar className="text-gray-500" size={16} />
+                      <div>
+                        <p className="text-sm text-gray-600 font-telugu">
+                          <BilingualText english="Purpose of Visit" telugu="సందర్శన ప్రయోజనం" />
+                        </p>
+                        <p className="font-medium font-telugu">
+                          {guest.purposeOfVisit === "Business" && <BilingualText english="Business" telugu="వ్యాపారం" />}
+                          {guest.purposeOfVisit === "Tourism" && <BilingualText english="Tourism" telugu="పర్యటన" />}
+                          {guest.purposeOfVisit === "Personal" && <BilingualText english="Personal" telugu="వ్యక్తిగతం" />}
+                          {guest.purposeOfVisit === "Medical" && <BilingualText english="Medical" telugu="వైద్యం" />}
+                          {guest.purposeOfVisit === "Education" && <BilingualText english="Education" telugu="విద్య" />}
+                          {guest.purposeOfVisit === "Official" && <BilingualText english="Official" telugu="అధికారిక" />}
+                          {guest.purposeOfVisit === "Other" && <BilingualText english="Other" telugu="ఇతర" />}
+                          {!guest.purposeOfVisit && "—"}
+                        </p>
+                      </div>
+                    </div>
+                    
                     <div>
-                      <p className="text-sm text-gray-600 font-telugu">
-                        <BilingualText english="Aadhaar Number" telugu="ఆధార్ నంబర్" />
+                      <p className="text-sm text-gray-600 font-telugu mb-2">
+                        <BilingualText english="Status" telugu="స్థితి" />
                       </p>
-                      <p className="font-medium">{guest.aadharNumber}</p>
+                      <Badge className={status.className}>
+                        <span className="font-telugu">
+                          <BilingualText english={status.english} telugu={status.telugu} />
+                        </span>
+                      </Badge>
+                      {guest.status === "cancelled" && guest.cancellationReason && (
+                        <p className="text-sm text-gray-600 mt-1">Reason: {guest.cancellationReason}</p>
+                      )}
                     </div>
                   </div>
                 </div>
               </div>
             </div>
 
-            <div className="space-y-4">
-              <div>
-                <h3 className="text-lg font-semibold text-gray-900 font-telugu">
-                  <BilingualText english="Booking Information" telugu="బుకింగ్ సమాచారం" />
-                </h3>
-                <Separator className="mt-2 mb-4" />
-                
+            {/* Dates and Payment */}
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 font-telugu mb-4">
+                <BilingualText english="Stay & Payment Details" telugu="బస & చెల్లింపు వివరాలు" />
+              </h3>
+              <Separator className="mb-4" />
+              
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div className="space-y-3">
                   <div className="flex items-center space-x-3">
-                    <MapPin className="text-gray-500" size={16} />
+                    <Calendar className="text-gray-500" size={16} />
                     <div>
                       <p className="text-sm text-gray-600 font-telugu">
-                        <BilingualText english="Room" telugu="గది" />
-                      </p>
-                      <p className="font-medium">
-                        {guest.room?.roomNumber || "—"} 
-                        {guest.room?.roomType && ` (${guest.room.roomType})`}
+                        <BilingualText english="Check-in Date" telugu="చెక్-ఇన్ తేదీ" />
                       </p>
+                      <p className="font-medium">{formatDate(guest.checkinDate)}</p>
                     </div>
                   </div>
                   
                   <div className="flex items-center space-x-3">
-                    <Users className="text-gray-500" size={16} />
+                    <Calendar className="text-gray-500" size={16} />
                     <div>
                       <p className="text-sm text-gray-600 font-telugu">
-                        <BilingualText english="Number of Guests" telugu="అతిథుల సంఖ్య" />
+                        <BilingualText english="Check-out Date" telugu="చెక్-అవుట్ తేదీ" />
                       </p>
-                      <p className="font-medium">{guest.numberOfGuests}</p>
+                      <p className="font-medium">{formatDate(guest.checkoutDate)}</p>
                     </div>
                   </div>
                   
@@ -122,140 +279,205 @@ export function GuestDetailsModal({ open, onOpenChange, guest }: GuestDetailsMod
                     <Clock className="text-gray-500" size={16} />
                     <div>
                       <p className="text-sm text-gray-600 font-telugu">
-                        <BilingualText english="Check-in Time" telugu="చెక్-ఇన్ సమయం" />
+                        <BilingualText english="Total Days" telugu="మొత్తం రోజులు" />
                       </p>
-                      <p className="font-medium">{guest.checkinTime || "—"}</p>
+                      <p className="font-medium">{guest.totalDays}</p>
                     </div>
                   </div>
-                  
-                  <div className="flex items-center space-x-3">
-                    <Calendar className="text-gray-500" size={16} />
-                    <div>
-                      <p className="text-sm text-gray-600 font-telugu">
-                        <BilingualText english="Purpose of Visit" telugu="సందర్శన ప్రయోజనం" />
-                      </p>
-                      <p className="font-medium font-telugu">
-                        {guest.purposeOfVisit === "Business" && <BilingualText english="Business" telugu="వ్యాపారం" />}
-                        {guest.purposeOfVisit === "Tourism" && <BilingualText english="Tourism" telugu="పర్యటన" />}
-                        {guest.purposeOfVisit === "Personal" && <BilingualText english="Personal" telugu="వ్యక్తిగతం" />}
-                        {guest.purposeOfVisit === "Medical" && <BilingualText english="Medical" telugu="వైద్యం" />}
-                        {guest.purposeOfVisit === "Education" && <BilingualText english="Education" telugu="విద్య" />}
-                        {guest.purposeOfVisit === "Official" && <BilingualText english="Official" telugu="అధికారిక" />}
-                        {guest.purposeOfVisit === "Other" && <BilingualText english="Other" telugu="ఇతర" />}
-                        {!guest.purposeOfVisit && "—"}
-                      </p>
-                    </div>
-                  </div>
-                  
-                  <div>
-                    <p className="text-sm text-gray-600 font-telugu mb-2">
-                      <BilingualText english="Status" telugu="స్థితి" />
-                    </p>
-                    <Badge className={getStatusColor(guest.status)}>
-                      {guest.status === "active" ? (
-                        <span className="font-telugu">
-                          <BilingualText english="Active" telugu="క్రియాశీల" />
-                        </span>
-                      ) : (
-                        <span className="font-telugu">
-                          <BilingualText english="Checked Out" telugu="చెక్-అవుట్" />
-                        </span>
-                      )}
-                    </Badge>
-                  </div>
                 </div>
-              </div>
-            </div>
-          </div>
 
-          {/* Dates and Payment */}
-          <div>
-            <h3 className="text-lg font-semibold text-gray-900 font-telugu mb-4">
-              <BilingualText english="Stay & Payment Details" telugu="బస & చెల్లింపు వివరాలు" />
-            </h3>
-            <Separator className="mb-4" />
-            
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div className="space-y-3">
-                <div className="flex items-center space-x-3">
-                  <Calendar className="text-gray-500" size={16} />
+                <div className="space-y-3">
                   <div>
                     <p className="text-sm text-gray-600 font-telugu">
-                      <BilingualText english="Check-in Date" telugu="చెక్-ఇన్ తేదీ" />
+                      <BilingualText english="Base Amount" telugu="మూల మొత్తం" />
                     </p>
-                    <p className="font-medium">{formatDate(guest.checkinDate)}</p>
+                    <p className="font-medium">₹{parseFloat(guest.baseAmount).toLocaleString()}</p>
+                    {guest.nightlyRates.some((night) => night.ratePlanName || night.rate !== night.listRate) && (
+                      <div className="text-xs text-gray-500 mt-1 space-y-0.5">
+                        {guest.nightlyRates.map((night) => (
+                          <p key={night.date}>
+                            {new Date(`${night.date}T00:00:00`).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })}
+                            {night.ratePlanName && ` · ${night.ratePlanName}`}: ₹{parseFloat(night.rate).toLocaleString()}
+                          </p>
+                        ))}
+                      </div>
+                    )}
                   </div>
-                </div>
-                
-                <div className="flex items-center space-x-3">
-                  <Calendar className="text-gray-500" size={16} />
+                  
                   <div>
                     <p className="text-sm text-gray-600 font-telugu">
-                      <BilingualText english="Check-out Date" telugu="చెక్-అవుట్ తేదీ" />
+                      <BilingualText english="Discount" telugu="తగ్గింపు" />
                     </p>
-                    <p className="font-medium">{formatDate(guest.checkoutDate)}</p>
+                    <p className="font-medium text-success">-₹{parseFloat(guest.discountAmount).toLocaleString()}</p>
                   </div>
-                </div>
-                
-                <div className="flex items-center space-x-3">
-                  <Clock className="text-gray-500" size={16} />
-                  <div>
+
+                  {parseFloat(guest.taxAmount || "0") > 0 && (
+                    <div>
+                      <p className="text-sm text-gray-600 font-telugu">
+                        <BilingualText english={`GST (${parseFloat(guest.taxRate)}%)`} telugu={`GST (${parseFloat(guest.taxRate)}%)`} />
+                      </p>
+                      <p className="font-medium">₹{parseFloat(guest.taxAmount).toLocaleString()}</p>
+                      <p className="text-xs text-gray-500">
+                        {parseFloat(guest.igstAmount) > 0
+                          ? `IGST ₹${parseFloat(guest.igstAmount).toLocaleString()}`
+                          : `CGST ₹${parseFloat(guest.cgstAmount).toLocaleString()} + SGST ₹${parseFloat(guest.sgstAmount).toLocaleString()}`}
+                      </p>
+                    </div>
+                  )}
+                  
+                  {chargesAmount > 0 && (
+                    <div>
+                      <p className="text-sm text-gray-600 font-telugu">
+                        <BilingualText english="Extra Charges" telugu="అదనపు ఛార్జీలు" />
+                      </p>
+                      <p className="font-medium">{formatRupees(chargesAmount)}</p>
+                    </div>
+                  )}
+                  
+                  <div className="pt-2 border-t">
                     <p className="text-sm text-gray-600 font-telugu">
-                      <BilingualText english="Total Days" telugu="మొత్తం రోజులు" />
+                      <BilingualText english="Total Amount" telugu="మొత్తం" />
                     </p>
-                    <p className="font-medium">{guest.totalDays}</p>
+                    <p className="text-xl font-bold text-primary">{formatRupees(totalAmount)}</p>
                   </div>
+
+                  {stayPayments && (
+                    <div className="flex justify-between gap-4">
+                      <div>
+                        <p className="text-sm text-gray-600 font-telugu">
+                          <BilingualText english="Paid" telugu="చెల్లించినది" />
+                        </p>
+                        <p className="font-medium text-success">₹{parseFloat(stayPayments.paidAmount).toLocaleString()}</p>
+                      </div>
+                      <div className="text-right">
+                        <p className="text-sm text-gray-600 font-telugu">
+                          <BilingualText english="Balance Due" telugu="బాకీ మొత్తం" />
+                        </p>
+                        <p className={`font-semibold ${parseFloat(stayPayments.balanceDue) > 0 ? "text-amber-700" : "text-success"}`}>
+                          ₹{parseFloat(stayPayments.balanceDue).toLocaleString()}
+                        </p>
+                      </div>
+                    </div>
+                  )}
                 </div>
               </div>
 
-              <div className="space-y-3">
-                <div>
+              {/* Receipts against this stay, oldest first, with refunds and voids as deductions */}
+              {stayPayments && stayPayments.payments.some((payment) => payment.status === "paid") && (
+                <div className="mt-4 space-y-2">
                   <p className="text-sm text-gray-600 font-telugu">
-                    <BilingualText english="Base Amount" telugu="మూల మొత్తం" />
+                    <BilingualText english="Payments Received" telugu="అందిన చెల్లింపులు" />
                   </p>
-                  <p className="font-medium">₹{parseFloat(guest.baseAmount).toLocaleString()}</p>
+                  {stayPayments.payments.filter((payment) => payment.status === "paid").map((payment) => (
+                    <div key={payment.id} className="flex items-center justify-between text-sm p-2 rounded bg-gray-50">
+                      <span>
+                        {new Date(payment.paidAt ?? payment.createdAt!).toLocaleString('en-IN', {
+                          day: 'numeric',
+                          month: 'short',
+                          hour: '2-digit',
+                          minute: '2-digit'
+                        })}
+                      </span>
+                      <Badge variant="outline">
+                        {paymentMethodLabel(payment.paymentMethod)}
+                        {isReversal(payment) && ` · ${payment.kind === "refund" ? "Refund" : "Void"}`}
+                      </Badge>
+                      {isReversal(payment) ? (
+                        <span className="font-medium text-red-600" title={payment.reason || undefined}>-₹{parseFloat(payment.amount).toLocaleString()}</span>
+                      ) : (
+                        <span className="font-medium">₹{parseFloat(payment.amount).toLocaleString()}</span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Food, laundry and other extras billed to the stay */}
+            <FolioPanel guest={guest} canEdit={can("guests:manage")} />
+
+            {/* Refundable key/damage deposit, kept out of the bill unless some is deducted */}
+            <DepositPanel guest={guest} canEdit={can("payments:manage")} />
+
+            {/* Stay History */}
+            {profileHistory && (
+              <div>
+                <div className="flex items-center justify-between">
+                  <h3 className="text-lg font-semibold text-gray-900 font-telugu">
+                    <BilingualText english="Stay History" telugu="బస చరిత్ర" />
+                  </h3>
+                  <div className="text-sm text-gray-600 text-right">
+                    <p>{profileHistory.stayCount} {profileHistory.stayCount === 1 ? "stay" : "stays"}</p>
+                    <p className="font-telugu">
+                      <BilingualText english="Total Spend" telugu="మొత్తం ఖర్చు" />: <span className="font-semibold text-primary">₹{parseFloat(profileHistory.totalSpend).toLocaleString()}</span>
+                    </p>
+                  </div>
                 </div>
-                
+                <Separator className="mt-2 mb-4" />
+
+                <div className="space-y-2">
+                  {profileHistory.stays.map((stay) => (
+                    <div
+                      key={stay.id}
+                      className={`flex items-center justify-between text-sm p-2 rounded ${stay.id === guest.id ? "bg-blue-50 border border-blue-200" : "bg-gray-50"}`}
+                    >
+                      <div>
+                        <p className="font-medium">
+                          {new Date(stay.checkinDate).toLocaleDateString('en-IN')} – {new Date(stay.checkoutDate).toLocaleDateString('en-IN')}
+                        </p>
+                        <p className="text-gray-600">
+                          {stay.roomNumber ? `Room ${stay.roomNumber}` : "No room"} · {stay.totalDays} days
+                          {stay.id === guest.id && " · This stay"}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <p className="font-medium">₹{parseFloat(stay.totalAmount).toLocaleString()}</p>
+                        <Badge className={getStayStatus(stay.status).className}>
+                          {getStayStatus(stay.status).english}
+                        </Badge>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Registration Date */}
+            <div className="bg-gray-50 p-4 rounded-lg">
+              <div className="flex items-center space-x-3">
+                <Clock className="text-gray-500" size={16} />
                 <div>
                   <p className="text-sm text-gray-600 font-telugu">
-                    <BilingualText english="Discount" telugu="తగ్గింపు" />
+                    <BilingualText english="Registered On" telugu="నమోదు చేసిన తేదీ" />
                   </p>
-                  <p className="font-medium text-success">-₹{parseFloat(guest.discountAmount).toLocaleString()}</p>
-                </div>
-                
-                <div className="pt-2 border-t">
-                  <p className="text-sm text-gray-600 font-telugu">
-                    <BilingualText english="Total Amount" telugu="మొత్తం" />
+                  <p className="font-medium">
+                    {new Date(guest.createdAt).toLocaleString('en-US', {
+                      year: 'numeric',
+                      month: 'long',
+                      day: 'numeric',
+                      hour: '2-digit',
+                      minute: '2-digit'
+                    })}
                   </p>
-                  <p className="text-xl font-bold text-primary">₹{parseFloat(guest.totalAmount).toLocaleString()}</p>
                 </div>
               </div>
             </div>
-          </div>
+          </TabsContent>
 
-          {/* Registration Date */}
-          <div className="bg-gray-50 p-4 rounded-lg">
-            <div className="flex items-center space-x-3">
-              <Clock className="text-gray-500" size={16} />
-              <div>
-                <p className="text-sm text-gray-600 font-telugu">
-                  <BilingualText english="Registered On" telugu="నమోదు చేసిన తేదీ" />
-                </p>
-                <p className="font-medium">
-                  {new Date(guest.createdAt).toLocaleString('en-US', {
-                    year: 'numeric',
-                    month: 'long',
-                    day: 'numeric',
-                    hour: '2-digit',
-                    minute: '2-digit'
-                  })}
-                </p>
-              </div>
-            </div>
-          </div>
-        </div>
+          {canViewHistory && (
+            <TabsContent value="history" className="mt-0 max-h-[60vh] overflow-y-auto">
+              <AuditLogList logs={history} />
+            </TabsContent>
+          )}
+        </Tabs>
 
         <div className="flex justify-end space-x-2 pt-6 border-t">
+          {canInvoice && (
+            <Button variant="outline" onClick={handleDownloadInvoice} disabled={isIssuingInvoice}>
+              <FileText size={16} className="mr-2" />
+              <BilingualText english="Tax Invoice" telugu="పన్ను ఇన్వాయిస్" />
+            </Button>
+          )}
           <Button variant="outline" onClick={() => onOpenChange(false)}>
             <BilingualText english="Close" telugu="మూసివేయి" />
           </Button>
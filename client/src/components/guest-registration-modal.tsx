@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useQueryClient } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -9,9 +9,15 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { BilingualText } from "@/components/bilingual-text";
 import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
 import { apiRequest } from "@/lib/queryClient";
-import type { Room } from "@shared/schema";
-import { X, AlertTriangle } from "lucide-react";
+import { badRequestMessage } from "@/lib/api-errors";
+import { dayLockMessage, withDayLockOverride } from "@/lib/day-lock";
+import type { Room, RoomType, PaymentMethod } from "@shared/schema";
+import { PAYMENT_METHOD_LABELS } from "@shared/payments";
+import { formatRupees, toPaise } from "@shared/money";
+import type { StayQuote, ReturningGuestLookup } from "@/lib/types";
+import { X, AlertTriangle, UserCheck } from "lucide-react";
 
 interface GuestRegistrationModalProps {
   open: boolean;
@@ -30,28 +36,39 @@ export function GuestRegistrationModal({ open, onOpenChange, rooms }: GuestRegis
     purposeOfVisit: "",
     roomId: "",
     numberOfGuests: 1,
+    gstin: "",
   });
   const [isLoading, setIsLoading] = useState(false);
   const [availableRooms, setAvailableRooms] = useState<Room[]>([]);
-  const [costBreakdown, setCostBreakdown] = useState({
-    baseAmount: 0,
-    discountAmount: 0,
-    totalAmount: 0,
-    totalDays: 0,
-  });
-  const [discountPercentage, setDiscountPercentage] = useState(0);
+  // "all" lists every free room; otherwise only rooms of the chosen type
+  const [roomTypeFilter, setRoomTypeFilter] = useState("all");
+  const [quote, setQuote] = useState<StayQuote | null>(null);
+  // null = use the lodge's default discount
+  const [discountPercentage, setDiscountPercentage] = useState<number | null>(null);
   const [isManualDataEntry, setIsManualDataEntry] = useState(false);
   const [showPastDateWarning, setShowPastDateWarning] = useState(false);
+  const [returningGuest, setReturningGuest] = useState<ReturningGuestLookup | null>(null);
+  // Advance booking: holds the room for its dates without occupying it today
+  const [isReservation, setIsReservation] = useState(false);
+  // Optional money taken up front; the rest stays as the balance due
+  const [advanceAmount, setAdvanceAmount] = useState("");
+  const [advanceMethod, setAdvanceMethod] = useState<PaymentMethod>("cash");
 
   const { toast } = useToast();
+  const { can } = useCurrentUser();
   const queryClient = useQueryClient();
 
+  const { data: roomTypes = [] } = useQuery<RoomType[]>({
+    queryKey: ["/api/room-types"],
+    enabled: open,
+  });
+
   useEffect(() => {
     if (formData.checkinDate && formData.checkoutDate) {
       checkAvailability();
       validateDates();
     }
-  }, [formData.checkinDate, formData.checkoutDate, isManualDataEntry]);
+  }, [formData.checkinDate, formData.checkoutDate, isManualDataEntry, roomTypeFilter]);
 
   const validateDates = () => {
     const today = new Date();
@@ -75,61 +92,118 @@ export function GuestRegistrationModal({ open, onOpenChange, rooms }: GuestRegis
     return today.toISOString().split('T')[0];
   };
 
+  const selectedRoom = availableRooms.find((room) => room.id === formData.roomId);
+  // Walk-ins go into a room now, so rooms still waiting on housekeeping are offered last
+  const offeredRooms = isReservation
+    ? availableRooms
+    : [...availableRooms].sort((a, b) => Number(a.housekeepingStatus === "dirty") - Number(b.housekeepingStatus === "dirty"));
+  const selectedRoomType = roomTypes.find((type) => type.id === selectedRoom?.roomTypeId);
+
+  // A half-typed GSTIN is ignored until complete; the guest's state decides CGST + SGST vs IGST
+  const quoteGstin = formData.gstin.length === 15 ? formData.gstin : undefined;
+
   useEffect(() => {
     if (formData.roomId && formData.checkinDate && formData.checkoutDate) {
-      calculateCost();
+      fetchQuote();
+    } else {
+      setQuote(null);
     }
-  }, [formData.roomId, formData.checkinDate, formData.checkoutDate, discountPercentage]);
+  }, [formData.roomId, formData.checkinDate, formData.checkinTime, formData.checkoutDate, discountPercentage, quoteGstin]);
 
   const checkAvailability = async () => {
     try {
-      const response = await apiRequest("GET", `/api/rooms/available?checkinDate=${formData.checkinDate}&checkoutDate=${formData.checkoutDate}`);
-      const available = await response.json();
+      const typeParam = roomTypeFilter === "all" ? "" : `&roomTypeId=${roomTypeFilter}`;
+      const response = await apiRequest("GET", `/api/rooms/available?checkinDate=${formData.checkinDate}&checkoutDate=${formData.checkoutDate}${typeParam}`);
+      const available: Room[] = await response.json();
       setAvailableRooms(available);
+      // A room picked under another type filter is no longer on offer
+      if (formData.roomId && !available.some((room) => room.id === formData.roomId)) {
+        setFormData((current) => ({ ...current, roomId: "" }));
+      }
     } catch (error) {
       console.error("Failed to check availability:", error);
     }
   };
 
-  const calculateCost = () => {
-    const selectedRoom = availableRooms.find(room => room.id === formData.roomId);
-    if (!selectedRoom || !formData.checkinDate || !formData.checkoutDate) return;
+  // Prefill a returning guest's details once their phone or Aadhaar is entered
+  const lookupReturningGuest = async (lookup: { phoneNumber?: string; aadharNumber?: string }) => {
+    if (returningGuest || !(lookup.phoneNumber || lookup.aadharNumber)) return;
 
-    const checkin = new Date(formData.checkinDate);
-    const checkout = new Date(formData.checkoutDate);
-    // Calculate 24-hour periods - minimum 1 day even for same day
-    const totalDays = Math.max(1, Math.ceil((checkout.getTime() - checkin.getTime()) / (1000 * 60 * 60 * 24)));
-    
-    const baseAmount = parseFloat(selectedRoom.basePrice) * totalDays;
-    const discountAmount = baseAmount * (discountPercentage / 100);
-    const totalAmount = baseAmount - discountAmount;
-
-    setCostBreakdown({
-      baseAmount,
-      discountAmount,
-      totalAmount,
-      totalDays,
-    });
+    try {
+      const params = new URLSearchParams(lookup as Record<string, string>);
+      const response = await apiRequest("GET", `/api/guest-profiles/lookup?${params.toString()}`);
+      const result: ReturningGuestLookup | null = await response.json();
+      if (!result) return;
+
+      setReturningGuest(result);
+      setFormData((prev) => ({
+        ...prev,
+        name: prev.name || result.profile.name,
+        phoneNumber: prev.phoneNumber || result.profile.phoneNumber,
+        aadharNumber: prev.aadharNumber || result.profile.aadharNumber,
+      }));
+    } catch (error) {
+      console.error("Failed to look up returning guest:", error);
+    }
+  };
+
+  // The server prices the stay; this only previews what it will charge
+  const fetchQuote = async () => {
+    try {
+      const response = await apiRequest("POST", "/api/quotes", {
+        roomId: formData.roomId,
+        checkinDate: new Date(formData.checkinDate).toISOString(),
+        checkinTime: formData.checkinTime || undefined,
+        checkoutDate: new Date(formData.checkoutDate).toISOString(),
+        discountPercentage: discountPercentage ?? undefined,
+        gstin: quoteGstin,
+      });
+      setQuote(await response.json());
+    } catch (error) {
+      console.error("Failed to fetch quote:", error);
+      setQuote(null);
+    }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    const advance = parseFloat(advanceAmount) || 0;
+    if (quote && toPaise(advanceAmount) > toPaise(quote.totalAmount)) {
+      toast({
+        title: "Error",
+        description: "Advance cannot be more than the total amount",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsLoading(true);
 
     try {
-      await apiRequest("POST", "/api/guests", {
+      // An advance taken after tonight's audit needs a manager's override
+      await withDayLockOverride((overrideReason) => apiRequest("POST", "/api/guests", {
         ...formData,
+        profileId: returningGuest?.profile.id,
+        status: isReservation ? "reserved" : "active",
         checkinDate: new Date(formData.checkinDate).toISOString(),
         checkoutDate: new Date(formData.checkoutDate).toISOString(),
-        totalDays: costBreakdown.totalDays,
-        baseAmount: costBreakdown.baseAmount.toString(),
-        discountAmount: costBreakdown.discountAmount.toString(),
-        totalAmount: costBreakdown.totalAmount.toString(),
-      });
+        discountPercentage: quote?.discountPercentage,
+        totalDays: quote?.totalDays,
+        baseAmount: quote?.baseAmount,
+        discountAmount: quote?.discountAmount,
+        cgstAmount: quote?.cgstAmount,
+        sgstAmount: quote?.sgstAmount,
+        igstAmount: quote?.igstAmount,
+        taxAmount: quote?.taxAmount,
+        totalAmount: quote?.totalAmount,
+        advancePayment: advance > 0 ? { amount: advance, paymentMethod: advanceMethod } : undefined,
+        overrideReason,
+      }), can("night_audit:override"));
 
       toast({
         title: "Success",
-        description: "Guest registered successfully!",
+        description: isReservation ? "Reservation created successfully!" : "Guest registered successfully!",
       });
 
       // Reset form
@@ -143,9 +217,15 @@ export function GuestRegistrationModal({ open, onOpenChange, rooms }: GuestRegis
         purposeOfVisit: "",
         roomId: "",
         numberOfGuests: 1,
+        gstin: "",
       });
-      setCostBreakdown({ baseAmount: 0, discountAmount: 0, totalAmount: 0, totalDays: 0 });
-      setDiscountPercentage(0);
+      setQuote(null);
+      setDiscountPercentage(null);
+      setReturningGuest(null);
+      setIsReservation(false);
+      setRoomTypeFilter("all");
+      setAdvanceAmount("");
+      setAdvanceMethod("cash");
       setIsManualDataEntry(false);
       setShowPastDateWarning(false);
 
@@ -157,9 +237,11 @@ export function GuestRegistrationModal({ open, onOpenChange, rooms }: GuestRegis
 
       onOpenChange(false);
     } catch (error) {
+      // The price may have changed since the preview (e.g. lodge settings were edited)
+      fetchQuote();
       toast({
         title: "Error",
-        description: "Failed to register guest. Please try again.",
+        description: dayLockMessage(error) ?? badRequestMessage(error) ?? "Failed to register guest. Please review the cost breakdown and try again.",
         variant: "destructive",
       });
     } finally {
@@ -177,6 +259,19 @@ export function GuestRegistrationModal({ open, onOpenChange, rooms }: GuestRegis
         </DialogHeader>
         
         <form onSubmit={handleSubmit} className="space-y-6">
+          {returningGuest && (
+            <Alert className="border-green-200 bg-green-50">
+              <UserCheck className="h-4 w-4 text-green-600" />
+              <AlertDescription className="text-green-700 font-telugu">
+                <BilingualText english="Returning guest" telugu="తిరిగి వచ్చిన అతిథి" />: {returningGuest.profile.name}
+                {" · "}{returningGuest.stayCount} previous {returningGuest.stayCount === 1 ? "stay" : "stays"}
+                {returningGuest.lastStayAt && (
+                  <>, last on {new Date(returningGuest.lastStayAt).toLocaleDateString('en-IN')}</>
+                )}
+              </AlertDescription>
+            </Alert>
+          )}
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div>
               <Label className="font-telugu">
@@ -199,6 +294,7 @@ export function GuestRegistrationModal({ open, onOpenChange, rooms }: GuestRegis
                 type="tel"
                 value={formData.phoneNumber}
                 onChange={(e) => setFormData({...formData, phoneNumber: e.target.value})}
+                onBlur={(e) => lookupReturningGuest({ phoneNumber: e.target.value })}
                 placeholder="+91 XXXXXXXXXX"
                 required
                 className="mt-2"
@@ -212,6 +308,7 @@ export function GuestRegistrationModal({ open, onOpenChange, rooms }: GuestRegis
               <Input
                 value={formData.aadharNumber}
                 onChange={(e) => setFormData({...formData, aadharNumber: e.target.value})}
+                onBlur={(e) => lookupReturningGuest({ aadharNumber: e.target.value })}
                 placeholder="1234-5678-9012"
                 required
                 className="mt-2"
@@ -247,6 +344,23 @@ export function GuestRegistrationModal({ open, onOpenChange, rooms }: GuestRegis
             </div>
             
             <div className="md:col-span-2 space-y-4">
+              <div className="flex items-center space-x-2">
+                <Checkbox 
+                  id="reservation"
+                  checked={isReservation}
+                  onCheckedChange={(checked) => setIsReservation(checked as boolean)}
+                />
+                <Label 
+                  htmlFor="reservation" 
+                  className="text-sm font-telugu cursor-pointer"
+                >
+                  <BilingualText 
+                    english="Advance reservation (guest arrives later)" 
+                    telugu="ముందస్తు రిజర్వేషన్ (అతిథి తరువాత వస్తారు)" 
+                  />
+                </Label>
+              </div>
+
               <div className="flex items-center space-x-2">
                 <Checkbox 
                   id="manual-entry"
@@ -338,26 +452,74 @@ export function GuestRegistrationModal({ open, onOpenChange, rooms }: GuestRegis
             
             <div>
               <Label className="font-telugu">
-                <BilingualText english="Room Type" telugu="గది రకం" /> *
+                <BilingualText english="Guest GSTIN (optional)" telugu="అతిథి GSTIN (ఐచ్ఛికం)" />
               </Label>
-              <Select value={formData.roomId} onValueChange={(value) => setFormData({...formData, roomId: value})}>
+              <Input
+                value={formData.gstin}
+                onChange={(e) => setFormData({...formData, gstin: e.target.value.toUpperCase()})}
+                placeholder="For business invoices"
+                maxLength={15}
+                className="mt-2"
+              />
+            </div>
+
+            <div>
+              <Label className="font-telugu">
+                <BilingualText english="Room Type" telugu="గది రకం" />
+              </Label>
+              <Select value={roomTypeFilter} onValueChange={setRoomTypeFilter}>
                 <SelectTrigger className="mt-2">
-                  <SelectValue placeholder="Select room type" />
+                  <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {availableRooms.map((room) => (
-                    <SelectItem key={room.id} value={room.id}>
+                  <SelectItem value="all" className="font-telugu">
+                    <BilingualText english="All types" telugu="అన్ని రకాలు" />
+                  </SelectItem>
+                  {roomTypes.map((type) => (
+                    <SelectItem key={type.id} value={type.id}>
                       <span className="font-telugu">
-                        {room.roomNumber} - <BilingualText 
-                          english={room.roomType === "single" ? "Single" : "Double"} 
-                          telugu={room.roomType === "single" ? "సింగిల్" : "డబుల్"} 
-                        /> - ₹{room.basePrice}
+                        <BilingualText english={type.nameEnglish} telugu={type.nameTelugu || type.nameEnglish} />
+                        {" "}· {type.maxOccupancy} guests
                       </span>
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
             </div>
+
+            <div>
+              <Label className="font-telugu">
+                <BilingualText english="Room" telugu="గది" /> *
+              </Label>
+              <Select value={formData.roomId} onValueChange={(value) => setFormData({...formData, roomId: value})}>
+                <SelectTrigger className="mt-2">
+                  <SelectValue placeholder="Select room" />
+                </SelectTrigger>
+                <SelectContent>
+                  {offeredRooms.map((room) => {
+                    const roomType = roomTypes.find((type) => type.id === room.roomTypeId);
+                    return (
+                      <SelectItem key={room.id} value={room.id}>
+                        <span className="font-telugu">
+                          {room.roomNumber} - <BilingualText
+                            english={roomType?.nameEnglish ?? room.roomType}
+                            telugu={roomType?.nameTelugu || roomType?.nameEnglish || room.roomType}
+                          /> - ₹{room.basePrice}
+                          {!isReservation && room.housekeepingStatus === "dirty" && (
+                            <span className="text-orange-600"> · needs cleaning</span>
+                          )}
+                        </span>
+                      </SelectItem>
+                    );
+                  })}
+                </SelectContent>
+              </Select>
+              {!isReservation && selectedRoom?.housekeepingStatus === "dirty" && (
+                <p className="text-xs text-orange-600 mt-1">
+                  Room {selectedRoom.roomNumber} has not been cleaned since the last guest left
+                </p>
+              )}
+            </div>
             
             <div>
               <Label className="font-telugu">
@@ -368,8 +530,14 @@ export function GuestRegistrationModal({ open, onOpenChange, rooms }: GuestRegis
                 value={formData.numberOfGuests}
                 onChange={(e) => setFormData({...formData, numberOfGuests: parseInt(e.target.value) || 1})}
                 min="1"
+                max={selectedRoomType?.maxOccupancy}
                 className="mt-2"
               />
+              {selectedRoomType && formData.numberOfGuests > selectedRoomType.maxOccupancy && (
+                <p className="text-xs text-red-600 mt-1">
+                  {selectedRoomType.nameEnglish} rooms sleep at most {selectedRoomType.maxOccupancy}
+                </p>
+              )}
             </div>
           </div>
 
@@ -381,7 +549,7 @@ export function GuestRegistrationModal({ open, onOpenChange, rooms }: GuestRegis
               </Label>
               <Input
                 type="number"
-                value={discountPercentage}
+                value={discountPercentage ?? parseFloat(quote?.discountPercentage ?? "0")}
                 onChange={(e) => {
                   const value = Math.max(0, Math.min(100, parseFloat(e.target.value) || 0));
                   setDiscountPercentage(value);
@@ -396,7 +564,7 @@ export function GuestRegistrationModal({ open, onOpenChange, rooms }: GuestRegis
           )}
 
           {/* Cost Calculation */}
-          {costBreakdown.totalAmount > 0 && (
+          {quote && (
             <div className="bg-gray-50 p-4 rounded-lg">
               <h4 className="font-semibold mb-3 font-telugu">
                 <BilingualText english="Cost Breakdown" telugu="వ్యయ విభజన" />
@@ -406,26 +574,110 @@ export function GuestRegistrationModal({ open, onOpenChange, rooms }: GuestRegis
                   <span className="font-telugu">
                     <BilingualText english="Room charges" telugu="గది ఛార్జీలు" />:
                   </span>
-                  <span>₹{costBreakdown.baseAmount.toLocaleString()} ({costBreakdown.totalDays} days)</span>
+                  <span>₹{parseFloat(quote.baseAmount).toLocaleString()} ({quote.totalDays} days)</span>
+                </div>
+                {/* Each night at its own rate, with the plan that set it */}
+                <div className="pl-3 space-y-1 text-xs text-gray-600">
+                  {quote.nightlyRates.map((night) => (
+                    <div key={night.date} className="flex justify-between">
+                      <span>
+                        {new Date(`${night.date}T00:00:00`).toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short' })}
+                        {night.ratePlanName && ` · ${night.ratePlanName}`}
+                      </span>
+                      <span>
+                        {night.rate !== night.listRate && (
+                          <span className="line-through mr-1">₹{parseFloat(night.listRate).toLocaleString()}</span>
+                        )}
+                        ₹{parseFloat(night.rate).toLocaleString()}
+                      </span>
+                    </div>
+                  ))}
+                  {quote.stayDiscount && (
+                    <p className="text-green-600">
+                      {quote.stayDiscount.name}: {parseFloat(quote.stayDiscount.percentage)}% off every night
+                    </p>
+                  )}
                 </div>
-                {costBreakdown.discountAmount > 0 && (
+                {parseFloat(quote.discountAmount) > 0 && (
                   <div className="flex justify-between text-green-600">
                     <span className="font-telugu">
-                      <BilingualText english={`Discount (${discountPercentage}%)`} telugu={`తగ్గింపు (${discountPercentage}%)`} />:
+                      <BilingualText english={`Discount (${parseFloat(quote.discountPercentage)}%)`} telugu={`తగ్గింపు (${parseFloat(quote.discountPercentage)}%)`} />:
                     </span>
-                    <span>-₹{costBreakdown.discountAmount.toLocaleString()}</span>
+                    <span>-₹{parseFloat(quote.discountAmount).toLocaleString()}</span>
+                  </div>
+                )}
+                {parseFloat(quote.igstAmount) > 0 && (
+                  <div className="flex justify-between">
+                    <span>IGST ({parseFloat(quote.taxRate)}%):</span>
+                    <span>₹{parseFloat(quote.igstAmount).toLocaleString()}</span>
                   </div>
                 )}
+                {parseFloat(quote.cgstAmount) > 0 && (
+                  <>
+                    <div className="flex justify-between">
+                      <span>CGST ({parseFloat(quote.taxRate) / 2}%):</span>
+                      <span>₹{parseFloat(quote.cgstAmount).toLocaleString()}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>SGST ({parseFloat(quote.taxRate) / 2}%):</span>
+                      <span>₹{parseFloat(quote.sgstAmount).toLocaleString()}</span>
+                    </div>
+                  </>
+                )}
                 <div className="flex justify-between font-semibold border-t pt-2">
                   <span className="font-telugu">
                     <BilingualText english="Total Amount" telugu="మొత్తం" />:
                   </span>
-                  <span>₹{costBreakdown.totalAmount.toLocaleString()}</span>
+                  <span>₹{parseFloat(quote.totalAmount).toLocaleString()}</span>
                 </div>
               </div>
             </div>
           )}
 
+          {/* Advance Payment */}
+          {quote && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label className="font-telugu">
+                  <BilingualText english="Advance Received" telugu="అడ్వాన్స్ అందింది" />
+                </Label>
+                <Input
+                  type="number"
+                  value={advanceAmount}
+                  onChange={(e) => setAdvanceAmount(e.target.value)}
+                  min="0"
+                  max={quote.totalAmount}
+                  step="0.01"
+                  placeholder="0"
+                  className="mt-2"
+                />
+                {parseFloat(advanceAmount) > 0 && (
+                  <p className="text-sm text-gray-600 mt-1 font-telugu">
+                    <BilingualText english="Balance due" telugu="బాకీ మొత్తం" />: {formatRupees(Math.max(0, toPaise(quote.totalAmount) - toPaise(advanceAmount)))}
+                  </p>
+                )}
+              </div>
+              <div>
+                <Label className="font-telugu">
+                  <BilingualText english="Advance Method" telugu="అడ్వాన్స్ మార్గం" />
+                </Label>
+                <Select value={advanceMethod} onValueChange={(value) => setAdvanceMethod(value as PaymentMethod)}>
+                  <SelectTrigger className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {/* Stays are billed to a company from the payment screen */}
+                    {Object.entries(PAYMENT_METHOD_LABELS)
+                      .filter(([method]) => method !== "company")
+                      .map(([method, label]) => (
+                        <SelectItem key={method} value={method}>{label.english}</SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
           <div className="flex justify-end space-x-4 pt-4">
             <Button 
               type="button" 
@@ -436,7 +688,9 @@ export function GuestRegistrationModal({ open, onOpenChange, rooms }: GuestRegis
               <BilingualText english="Cancel" telugu="రద్దు చేయండి" />
             </Button>
             <Button type="submit" disabled={isLoading} className="font-telugu">
-              {isLoading ? "Registering..." : (
+              {isLoading ? "Registering..." : isReservation ? (
+                <BilingualText english="Reserve Room" telugu="గదిని రిజర్వ్ చేయండి" />
+              ) : (
                 <BilingualText english="Register & Assign Room" telugu="నమోదు చేసి గది కేటాయించండి" />
               )}
             </Button>
@@ -0,0 +1,405 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BilingualText } from "@/components/bilingual-text";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { badRequestMessage } from "@/lib/api-errors";
+import type { RoomMaintenanceHistory } from "@/lib/types";
+import type { MaintenancePriority, MaintenanceTicket, MaintenanceTicketStatus, Room } from "@shared/schema";
+import { CheckCircle, Edit, Play, XCircle } from "lucide-react";
+
+interface MaintenancePanelProps {
+  rooms: Room[];
+  roomId: string; // "all" or the room whose tickets are shown
+  onRoomChange: (roomId: string) => void;
+  canEdit: boolean;
+}
+
+const PRIORITY_LABELS: Record<MaintenancePriority, { english: string; telugu: string; className: string }> = {
+  low: { english: "Low", telugu: "తక్కువ", className: "bg-gray-100 text-gray-700" },
+  medium: { english: "Medium", telugu: "మధ్యస్థం", className: "bg-blue-100 text-blue-800" },
+  high: { english: "High", telugu: "ఎక్కువ", className: "bg-orange-100 text-orange-800" },
+  urgent: { english: "Urgent", telugu: "అత్యవసరం", className: "bg-red-100 text-red-800" },
+};
+
+const STATUS_LABELS: Record<MaintenanceTicketStatus, string> = {
+  open: "Open",
+  in_progress: "In progress",
+  resolved: "Resolved",
+  cancelled: "Cancelled",
+};
+
+const todayDate = () => new Date().toLocaleDateString("en-CA"); // YYYY-MM-DD, local time
+
+const emptyTicketForm = () => ({
+  roomId: "",
+  issue: "",
+  priority: "medium" as MaintenancePriority,
+  startDate: todayDate(),
+  endDate: todayDate(),
+  assignee: "",
+});
+
+const isOpen = (ticket: MaintenanceTicket) => ticket.status === "open" || ticket.status === "in_progress";
+
+export function MaintenancePanel({ rooms, roomId, onRoomChange, canEdit }: MaintenancePanelProps) {
+  const [ticketForm, setTicketForm] = useState(emptyTicketForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: tickets = [] } = useQuery<MaintenanceTicket[]>({
+    queryKey: ["/api/maintenance-tickets"],
+    staleTime: 0,
+  });
+  const { data: history = [] } = useQuery<RoomMaintenanceHistory[]>({
+    queryKey: ["/api/maintenance-tickets/history"],
+    enabled: canEdit,
+    staleTime: 0,
+  });
+
+  const roomNumbers = new Map(rooms.map((room) => [room.id, room.roomNumber]));
+  const shownTickets = roomId === "all" ? tickets : tickets.filter((ticket) => ticket.roomId === roomId);
+
+  const resetForm = () => {
+    setTicketForm(emptyTicketForm());
+    setEditingId(null);
+  };
+
+  const run = async (action: () => Promise<unknown>, success: string, fallback: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      queryClient.invalidateQueries({ queryKey: ["/api/maintenance-tickets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/maintenance-tickets/history"] });
+      // Tickets decide which rooms are in service
+      queryClient.invalidateQueries({ queryKey: ["/api/rooms"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics/dashboard"] });
+      toast({ title: "Success", description: success });
+      return true;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: badRequestMessage(error) ?? fallback,
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = { ...ticketForm, roomId: ticketForm.roomId || (roomId === "all" ? "" : roomId) };
+    if (!data.roomId) {
+      toast({ title: "Error", description: "Choose the room", variant: "destructive" });
+      return;
+    }
+
+    const saved = await run(
+      () => editingId
+        ? apiRequest("PUT", `/api/maintenance-tickets/${editingId}`, data)
+        : apiRequest("POST", "/api/maintenance-tickets", data),
+      editingId ? "Ticket updated" : "Ticket raised",
+      "Failed to save the ticket",
+    );
+    if (saved) resetForm();
+  };
+
+  const handleEdit = (ticket: MaintenanceTicket) => {
+    setEditingId(ticket.id);
+    setTicketForm({
+      roomId: ticket.roomId,
+      issue: ticket.issue,
+      priority: ticket.priority as MaintenancePriority,
+      startDate: ticket.startDate,
+      endDate: ticket.endDate,
+      assignee: ticket.assignee ?? "",
+    });
+  };
+
+  const handleStatus = (ticket: MaintenanceTicket, status: "in_progress" | "resolved" | "cancelled") => {
+    let resolutionNote: string | undefined;
+    if (status !== "in_progress") {
+      const note = prompt(status === "resolved" ? "What was done?" : "Why is this ticket being cancelled?");
+      if (note === null) return;
+      resolutionNote = note;
+    }
+    run(
+      () => apiRequest("POST", `/api/maintenance-tickets/${ticket.id}/status`, { status, resolutionNote }),
+      `Ticket marked ${STATUS_LABELS[status].toLowerCase()}`,
+      "Failed to update the ticket",
+    );
+  };
+
+  if (rooms.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-4">Add rooms before raising maintenance tickets</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-end gap-4">
+        <div className="w-48">
+          <Label className="font-telugu">
+            <BilingualText english="Room" telugu="గది" />
+          </Label>
+          <Select value={roomId} onValueChange={onRoomChange}>
+            <SelectTrigger className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all" className="font-telugu">
+                <BilingualText english="All rooms" telugu="అన్ని గదులు" />
+              </SelectItem>
+              {rooms.map((room) => (
+                <SelectItem key={room.id} value={room.id}>{room.roomNumber}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-sm text-gray-500 pb-2">
+          Open tickets keep the room from being booked on every night from the start to the end date.
+        </p>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Room</TableHead>
+            <TableHead>Issue</TableHead>
+            <TableHead>Dates</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="w-[130px]"></TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {shownTickets.map((ticket) => {
+            const priority = PRIORITY_LABELS[ticket.priority as MaintenancePriority];
+            const overdue = isOpen(ticket) && ticket.endDate < todayDate();
+            return (
+              <TableRow key={ticket.id} className={isOpen(ticket) ? "" : "opacity-60"}>
+                <TableCell className="font-medium">{roomNumbers.get(ticket.roomId) ?? "—"}</TableCell>
+                <TableCell>
+                  <p className="text-sm">{ticket.issue}</p>
+                  <div className="flex items-center gap-2 mt-1">
+                    <Badge variant="outline" className={`font-telugu ${priority.className}`}>
+                      <BilingualText english={priority.english} telugu={priority.telugu} />
+                    </Badge>
+                    {ticket.assignee && <span className="text-xs text-gray-500">{ticket.assignee}</span>}
+                  </div>
+                  {ticket.resolutionNote && <p className="text-xs text-gray-500 mt-1">{ticket.resolutionNote}</p>}
+                </TableCell>
+                <TableCell className="text-sm">
+                  {ticket.startDate === ticket.endDate ? ticket.startDate : `${ticket.startDate} to ${ticket.endDate}`}
+                  {overdue && <p className="text-xs text-red-600">Past its end date; the room is bookable again</p>}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={isOpen(ticket) ? "default" : "secondary"}>
+                    {STATUS_LABELS[ticket.status as MaintenanceTicketStatus]}
+                  </Badge>
+                </TableCell>
+                <TableCell>
+                  {canEdit && isOpen(ticket) && (
+                    <div className="flex space-x-1">
+                      <Button size="sm" variant="outline" onClick={() => handleEdit(ticket)} className="p-2" title="Edit">
+                        <Edit className="w-3 h-3" />
+                      </Button>
+                      {ticket.status === "open" && (
+                        <Button size="sm" variant="outline" onClick={() => handleStatus(ticket, "in_progress")} className="p-2" title="Start work" disabled={isSaving}>
+                          <Play className="w-3 h-3" />
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleStatus(ticket, "resolved")}
+                        className="p-2 text-success hover:bg-success hover:text-white"
+                        title="Resolved"
+                        disabled={isSaving}
+                      >
+                        <CheckCircle className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleStatus(ticket, "cancelled")}
+                        className="p-2 text-destructive hover:bg-destructive hover:text-white"
+                        title="Cancel ticket"
+                        disabled={isSaving}
+                      >
+                        <XCircle className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+      {shownTickets.length === 0 && (
+        <p className="text-sm text-gray-500 text-center">No maintenance tickets</p>
+      )}
+
+      {canEdit && (
+        <form onSubmit={handleSave} className="space-y-4 border rounded-lg p-4 bg-gray-50">
+          <h4 className="font-semibold font-telugu">
+            {editingId ? (
+              <BilingualText english="Edit Ticket" telugu="టికెట్ సవరించు" />
+            ) : (
+              <BilingualText english="Raise Ticket" telugu="టికెట్ నమోదు" />
+            )}
+          </h4>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label className="font-telugu">
+                <BilingualText english="Room" telugu="గది" /> *
+              </Label>
+              <Select
+                value={ticketForm.roomId || (roomId === "all" ? "" : roomId)}
+                onValueChange={(value) => setTicketForm({ ...ticketForm, roomId: value })}
+              >
+                <SelectTrigger className="mt-1">
+                  <SelectValue placeholder="Select room" />
+                </SelectTrigger>
+                <SelectContent>
+                  {rooms.map((room) => (
+                    <SelectItem key={room.id} value={room.id}>{room.roomNumber} - {room.roomType}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="font-telugu">
+                <BilingualText english="Priority" telugu="ప్రాధాన్యత" />
+              </Label>
+              <Select value={ticketForm.priority} onValueChange={(value) => setTicketForm({ ...ticketForm, priority: value as MaintenancePriority })}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PRIORITY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value} className="font-telugu">
+                      <BilingualText english={label.english} telugu={label.telugu} />
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="font-telugu">
+                <BilingualText english="Out of service from" telugu="నుండి" /> *
+              </Label>
+              <Input
+                type="date"
+                value={ticketForm.startDate}
+                onChange={(e) => setTicketForm({ ...ticketForm, startDate: e.target.value })}
+                required
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label className="font-telugu">
+                <BilingualText english="Expected back after (inclusive)" telugu="వరకు" /> *
+              </Label>
+              <Input
+                type="date"
+                value={ticketForm.endDate}
+                onChange={(e) => setTicketForm({ ...ticketForm, endDate: e.target.value })}
+                min={ticketForm.startDate}
+                required
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label className="font-telugu">
+              <BilingualText english="Issue" telugu="సమస్య" /> *
+            </Label>
+            <Textarea
+              value={ticketForm.issue}
+              onChange={(e) => setTicketForm({ ...ticketForm, issue: e.target.value })}
+              placeholder="AC not cooling, bathroom tap leaking..."
+              required
+              className="mt-1"
+            />
+          </div>
+
+          <div className="md:w-1/2 md:pr-2">
+            <Label className="font-telugu">
+              <BilingualText english="Assigned to" telugu="బాధ్యులు" />
+            </Label>
+            <Input
+              value={ticketForm.assignee}
+              onChange={(e) => setTicketForm({ ...ticketForm, assignee: e.target.value })}
+              placeholder="Staff member or electrician, plumber..."
+              className="mt-1"
+            />
+          </div>
+
+          <div className="flex space-x-4">
+            <Button type="submit" disabled={isSaving} className="font-telugu">
+              {isSaving ? "Saving..." : editingId ? (
+                <BilingualText english="Update Ticket" telugu="టికెట్ అప్డేట్ చేయండి" />
+              ) : (
+                <BilingualText english="Raise Ticket" telugu="టికెట్ నమోదు" />
+              )}
+            </Button>
+            {editingId && (
+              <Button type="button" variant="outline" onClick={resetForm} className="font-telugu">
+                <BilingualText english="Cancel" telugu="రద్దు చేయండి" />
+              </Button>
+            )}
+          </div>
+        </form>
+      )}
+
+      {canEdit && history.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="font-semibold font-telugu">
+            <BilingualText english="Repair History by Room" telugu="గదుల వారీ మరమ్మతు చరిత్ర" />
+          </h4>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Room</TableHead>
+                <TableHead className="text-right">Tickets</TableHead>
+                <TableHead className="text-right">Last 90 days</TableHead>
+                <TableHead className="text-right">Days out of service</TableHead>
+                <TableHead>Latest issue</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {history.map((room) => (
+                <TableRow key={room.roomId} className="cursor-pointer" onClick={() => onRoomChange(room.roomId)}>
+                  <TableCell className="font-medium">
+                    {room.roomNumber}
+                    <span className="text-xs text-gray-500 ml-2">{room.roomType}</span>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {room.ticketCount}
+                    {room.openCount > 0 && <span className="text-xs text-orange-600 ml-1">({room.openCount} open)</span>}
+                  </TableCell>
+                  <TableCell className="text-right">{room.recentCount}</TableCell>
+                  <TableCell className="text-right">{room.daysOutOfService}</TableCell>
+                  <TableCell className="text-sm text-gray-600">{room.lastIssue}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
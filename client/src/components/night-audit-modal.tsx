@@ -0,0 +1,243 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BilingualText } from "@/components/bilingual-text";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { ClosedBusinessDay, NightAuditOverview } from "@/lib/types";
+import type { DailySummary } from "@shared/schema";
+import { paymentMethodLabel } from "@shared/payments";
+import { AlertTriangle, Lock } from "lucide-react";
+
+interface NightAuditModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatDay = (businessDate: string) =>
+  new Date(`${businessDate}T00:00:00`).toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+
+const rupees = (amount: string) => `₹${parseFloat(amount).toLocaleString()}`;
+
+type SummaryFigures = Pick<DailySummary, "totalRooms" | "occupiedRooms" | "maintenanceRooms" | "occupancyRate" | "arrivals"
+  | "departures" | "roomRevenue" | "chargesRevenue" | "collections" | "depositsHeld">;
+
+function SummaryGrid({ summary }: { summary: SummaryFigures }) {
+  const items = [
+    { english: "Occupancy", telugu: "ఆక్యుపెన్సీ", value: `${parseFloat(summary.occupancyRate)}%`, note: `${summary.occupiedRooms} of ${summary.totalRooms - summary.maintenanceRooms} rooms` },
+    { english: "Arrivals", telugu: "రాకలు", value: String(summary.arrivals) },
+    { english: "Departures", telugu: "నిష్క్రమణలు", value: String(summary.departures) },
+    { english: "Room Revenue", telugu: "గది ఆదాయం", value: rupees(summary.roomRevenue) },
+    { english: "Extra Charges", telugu: "అదనపు ఛార్జీలు", value: rupees(summary.chargesRevenue) },
+    { english: "Collections", telugu: "వసూళ్లు", value: rupees(summary.collections) },
+    { english: "Deposits Held", telugu: "డిపాజిట్లు", value: rupees(summary.depositsHeld) },
+  ];
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+      {items.map((item) => (
+        <div key={item.english} className="p-3 bg-gray-50 rounded-lg">
+          <p className="text-xs text-gray-600 font-telugu">
+            <BilingualText english={item.english} telugu={item.telugu} />
+          </p>
+          <p className="text-lg font-semibold">{item.value}</p>
+          {item.note && <p className="text-xs text-gray-500">{item.note}</p>}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function NightAuditModal({ open, onOpenChange }: NightAuditModalProps) {
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [isClosing, setIsClosing] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: overview } = useQuery<NightAuditOverview>({
+    queryKey: ["/api/night-audit"],
+    enabled: open,
+    staleTime: 0,
+  });
+
+  const { data: closedDay } = useQuery<ClosedBusinessDay>({
+    queryKey: ["/api/night-audit", selectedDate],
+    enabled: open && !!selectedDate,
+    staleTime: 0,
+  });
+
+  const preview = overview?.preview;
+
+  const handleClose = async () => {
+    const businessDate = overview?.nextBusinessDate;
+    if (!businessDate) return;
+    if (!confirm(`Close ${formatDay(businessDate)}? Room nights will be posted and the day's records locked.`)) return;
+
+    setIsClosing(true);
+    try {
+      await apiRequest("POST", "/api/night-audit/close", { businessDate });
+      queryClient.invalidateQueries({ queryKey: ["/api/night-audit"] });
+      toast({
+        title: "Day closed",
+        description: `${formatDay(businessDate)} has been closed`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to close the business day",
+        variant: "destructive",
+      });
+    } finally {
+      setIsClosing(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-telugu">
+            <BilingualText english="Night Audit" telugu="రాత్రి ఆడిట్" />
+          </DialogTitle>
+        </DialogHeader>
+
+        {preview && overview?.nextBusinessDate ? (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold">{formatDay(overview.nextBusinessDate)}</h3>
+              <Button onClick={handleClose} disabled={isClosing}>
+                <Lock size={16} className="mr-2" />
+                <BilingualText english="Close Day" telugu="రోజు ముగించండి" />
+              </Button>
+            </div>
+
+            <SummaryGrid summary={preview.summary} />
+
+            {preview.summary.overdueCheckouts.length > 0 && (
+              <div className="p-3 rounded-lg bg-amber-50 border border-amber-200">
+                <p className="text-sm font-medium text-amber-800 flex items-center font-telugu">
+                  <AlertTriangle size={16} className="mr-2" />
+                  <BilingualText english="Overdue Checkouts" telugu="గడువు మీరిన చెక్-అవుట్లు" />
+                </p>
+                <ul className="mt-2 space-y-1 text-sm">
+                  {preview.summary.overdueCheckouts.map((stay) => (
+                    <li key={stay.guestId}>
+                      {stay.guestName}{stay.roomNumber && ` • Room ${stay.roomNumber}`} • due {formatDay(stay.checkoutDate)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div>
+              <p className="text-sm font-medium font-telugu mb-2">
+                <BilingualText english="Room Nights to Post" telugu="పోస్ట్ చేయాల్సిన గది రాత్రులు" />
+              </p>
+              {preview.postings.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Guest</TableHead>
+                      <TableHead className="w-[100px]">Room</TableHead>
+                      <TableHead className="w-[120px] text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.postings.map((posting) => (
+                      <TableRow key={posting.guestId}>
+                        <TableCell>{posting.guestName}</TableCell>
+                        <TableCell>{posting.roomNumber || "—"}</TableCell>
+                        <TableCell className="text-right">{rupees(posting.amount)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="text-sm text-gray-500">No stays in house</p>
+              )}
+            </div>
+          </div>
+        ) : overview && (
+          <p className="text-sm text-gray-600 font-telugu">
+            <BilingualText english="Today has already been closed." telugu="ఈ రోజు ఇప్పటికే ముగించబడింది." />
+          </p>
+        )}
+
+        <Separator />
+
+        <div className="space-y-3">
+          <h3 className="text-lg font-semibold font-telugu">
+            <BilingualText english="Closed Days" telugu="ముగిసిన రోజులు" />
+          </h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Occupancy</TableHead>
+                <TableHead className="text-right">Room Revenue</TableHead>
+                <TableHead className="text-right">Collections</TableHead>
+                <TableHead>Closed By</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {overview?.summaries.map((summary) => (
+                <TableRow
+                  key={summary.id}
+                  className={`cursor-pointer ${selectedDate === summary.businessDate ? "bg-gray-50" : ""}`}
+                  onClick={() => setSelectedDate(selectedDate === summary.businessDate ? null : summary.businessDate)}
+                >
+                  <TableCell>{formatDay(summary.businessDate)}</TableCell>
+                  <TableCell>
+                    {parseFloat(summary.occupancyRate)}%
+                    {summary.overdueCheckouts.length > 0 && (
+                      <Badge className="ml-2 bg-amber-100 text-amber-800 hover:bg-amber-100">{summary.overdueCheckouts.length} overdue</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{rupees(summary.roomRevenue)}</TableCell>
+                  <TableCell className="text-right">{rupees(summary.collections)}</TableCell>
+                  <TableCell className="text-sm text-gray-600">{summary.closedByName ?? "—"}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {overview && overview.summaries.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-4">No days closed yet</p>
+          )}
+
+          {closedDay && selectedDate === closedDay.summary.businessDate && (
+            <div className="space-y-3 p-3 border rounded-lg">
+              <SummaryGrid summary={closedDay.summary} />
+              {Object.keys(closedDay.summary.collectionsByMethod).length > 0 && (
+                <p className="text-sm text-gray-600">
+                  {Object.entries(closedDay.summary.collectionsByMethod)
+                    .map(([method, amount]) => `${paymentMethodLabel(method)} ${rupees(amount)}`)
+                    .join(" • ")}
+                </p>
+              )}
+              <div>
+                <p className="text-sm font-medium font-telugu">
+                  <BilingualText english="Manager Overrides" telugu="మేనేజర్ మినహాయింపులు" />
+                </p>
+                {closedDay.overrides.length > 0 ? (
+                  <ul className="mt-1 space-y-1 text-sm text-gray-700">
+                    {closedDay.overrides.map((override) => (
+                      <li key={override.id}>
+                        {new Date(override.createdAt).toLocaleString('en-IN')} • {override.overriddenByName ?? "Unknown"} • {override.action} {override.entityType.replace("_", " ")} • {override.reason}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-gray-500">None</p>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,38 +1,117 @@
-import { useState } from "react";
-import { useQueryClient } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { BilingualText } from "@/components/bilingual-text";
 import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
 import { apiRequest } from "@/lib/queryClient";
-import type { PaymentWithGuest } from "@/lib/types";
-import { IndianRupee, QrCode, X } from "lucide-react";
+import { badRequestMessage } from "@/lib/api-errors";
+import { dayLockMessage, withDayLockOverride } from "@/lib/day-lock";
+import type { CompanyAccountWithBalance, PaymentWithGuest, StayPayments, UpiPaymentRequest } from "@/lib/types";
+import type { PaymentMethod } from "@shared/schema";
+import { PAYMENT_METHOD_LABELS } from "@shared/payments";
+import { formatRupees, toPaise } from "@shared/money";
+import { Building2, CreditCard, IndianRupee, Landmark, Printer, QrCode, Smartphone, X } from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+
+const methodIcons: Record<PaymentMethod, LucideIcon> = {
+  cash: IndianRupee,
+  qr: QrCode,
+  gpay: Smartphone,
+  phonepe: Smartphone,
+  paytm: Smartphone,
+  card: CreditCard,
+  bank_transfer: Landmark,
+  company: Building2,
+};
+
+// Guest and lodge names end up in the print window's HTML
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[char]!);
 
 interface PaymentModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  payment: PaymentWithGuest | null;
+  payment: PaymentWithGuest | null; // the stay's pending row; its amount is the balance due
 }
 
 export function PaymentModal({ open, onOpenChange, payment }: PaymentModalProps) {
-  const [selectedMethod, setSelectedMethod] = useState<"cash" | "qr" | null>(null);
+  const [selectedMethod, setSelectedMethod] = useState<PaymentMethod | null>(null);
+  const [companyAccountId, setCompanyAccountId] = useState("");
   const [isConfirmed, setIsConfirmed] = useState(false);
+  const [amount, setAmount] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
+  const { can } = useCurrentUser();
   const queryClient = useQueryClient();
 
-  const handleMethodSelect = (method: "cash" | "qr") => {
+  // Default to settling the whole balance; staff lower it for part payments
+  useEffect(() => {
+    if (open && payment) {
+      setAmount(payment.amount);
+    }
+  }, [open, payment?.id, payment?.amount]);
+
+  const balanceDue = payment ? parseFloat(payment.amount) : 0;
+  const amountValue = parseFloat(amount) || 0;
+  const isAmountValid = amountValue > 0 && toPaise(amountValue) <= toPaise(balanceDue);
+
+  // The server fills the exact amount into a UPI QR; without a lodge UPI ID it refuses and we fall back to the desk QR
+  const { data: upiRequest, isFetching: isLoadingQr } = useQuery<UpiPaymentRequest>({
+    queryKey: ["/api/payments", payment?.id, "upi-qr", amountValue],
+    queryFn: async () => {
+      const response = await apiRequest("POST", `/api/payments/${payment!.id}/upi-qr`, { amount: amountValue });
+      return response.json();
+    },
+    enabled: open && !!payment && selectedMethod === "qr" && isAmountValid,
+    retry: false,
+    staleTime: Infinity,
+  });
+
+  const { data: companyAccounts } = useQuery<CompanyAccountWithBalance[]>({
+    queryKey: ["/api/company-accounts"],
+    enabled: open && selectedMethod === "company",
+    staleTime: 0,
+  });
+  const activeCompanies = companyAccounts?.filter((account) => account.isActive) ?? [];
+  const selectedCompany = activeCompanies.find((account) => account.id === companyAccountId);
+
+  const handlePrintQr = () => {
+    if (!upiRequest) return;
+    const printWindow = window.open("", "_blank", "width=400,height=600");
+    if (!printWindow) return;
+
+    printWindow.document.write(`
+      <html>
+        <head><title>UPI ${escapeHtml(upiRequest.reference)}</title></head>
+        <body style="font-family: sans-serif; text-align: center; padding: 24px;">
+          <h2 style="margin-bottom: 4px;">${escapeHtml(upiRequest.payeeName)}</h2>
+          <p style="margin-top: 0;">${escapeHtml(payment?.guest?.name ?? "")}${payment?.room?.roomNumber ? ` - Room ${escapeHtml(payment.room.roomNumber)}` : ""}</p>
+          <img src="${upiRequest.qrDataUrl}" style="width: 280px; height: 280px;" />
+          <h1>Rs ${parseFloat(upiRequest.amount).toLocaleString("en-IN", { minimumFractionDigits: 2 })}</h1>
+          <p>UPI ID: ${escapeHtml(upiRequest.payeeVpa)}<br />Ref: ${escapeHtml(upiRequest.reference)}</p>
+        </body>
+      </html>
+    `);
+    printWindow.document.close();
+    printWindow.onload = () => printWindow.print();
+  };
+
+  const handleMethodSelect = (method: PaymentMethod) => {
     setSelectedMethod(method);
     setIsConfirmed(false);
   };
 
   const handleConfirmPayment = async () => {
-    if (!payment || !selectedMethod || !isConfirmed) {
+    if (!payment || !selectedMethod || !isConfirmed || !isAmountValid || (selectedMethod === "company" && !selectedCompany)) {
       toast({
         title: "Error",
-        description: "Please select payment method and confirm payment received",
+        description: "Please enter a valid amount, select payment method and confirm payment received",
         variant: "destructive",
       });
       return;
@@ -41,14 +120,24 @@ export function PaymentModal({ open, onOpenChange, payment }: PaymentModalProps)
     setIsLoading(true);
 
     try {
-      // Update payment status
-      await apiRequest("PUT", `/api/payments/${payment.id}`, {
-        status: "paid",
-        paymentMethod: selectedMethod,
-      });
+      // Record the receipt; the server shrinks the pending balance to match
+      const response = await withDayLockOverride((overrideReason) =>
+        apiRequest("POST", `/api/guests/${payment.guestId}/payments`, {
+          amount: amountValue,
+          paymentMethod: selectedMethod,
+          companyAccountId: selectedMethod === "company" ? companyAccountId : undefined,
+          overrideReason,
+        }), can("night_audit:override"));
+      const result: StayPayments = await response.json();
+      const received = amountValue.toLocaleString();
+      const remaining = parseFloat(result.balanceDue).toLocaleString();
 
       // Send SMS bill
-      const smsMessage = `Your bill from Lodge: ₹${parseFloat(payment.amount).toLocaleString()}. Thank you for staying with us! (మీ బిల్ లాడ్జ్ నుండి: ₹${parseFloat(payment.amount).toLocaleString()}. మాతో ఉంటుండడానికి ధన్యవాదాలు!)`;
+      const smsMessage = selectedMethod === "company"
+        ? `₹${received} of your bill at Lodge has been billed to ${selectedCompany!.name}. Balance due: ₹${remaining}. (లాడ్జ్ బిల్‌లో ₹${received} ${selectedCompany!.name} ఖాతాకు వేయబడింది. మిగిలిన బాకీ: ₹${remaining}.)`
+        : parseFloat(result.balanceDue) > 0
+        ? `Received ₹${received} at Lodge. Balance due: ₹${remaining}. Thank you! (లాడ్జ్ వద్ద ₹${received} అందింది. మిగిలిన బాకీ: ₹${remaining}. ధన్యవాదాలు!)`
+        : `Your bill from Lodge is fully paid. Last payment: ₹${received}. Thank you for staying with us! (లాడ్జ్ బిల్ పూర్తిగా చెల్లించబడింది. చివరి చెల్లింపు: ₹${received}. మాతో ఉంటుండడానికి ధన్యవాదాలు!)`;
       
       await apiRequest("POST", "/api/sms/send-bill", {
         guestId: payment.guestId,
@@ -63,17 +152,20 @@ export function PaymentModal({ open, onOpenChange, payment }: PaymentModalProps)
 
       // Reset form
       setSelectedMethod(null);
+      setCompanyAccountId("");
       setIsConfirmed(false);
 
       // Invalidate queries to refresh data
       queryClient.invalidateQueries({ queryKey: ["/api/payments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/company-accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/guests", payment.guestId, "payments"] });
       queryClient.invalidateQueries({ queryKey: ["/api/analytics/dashboard"] });
 
       onOpenChange(false);
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to process payment. Please try again.",
+        description: dayLockMessage(error) ?? badRequestMessage(error) ?? "Failed to process payment. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -88,7 +180,7 @@ export function PaymentModal({ open, onOpenChange, payment }: PaymentModalProps)
       <DialogContent className="max-w-lg">
         <DialogHeader>
           <DialogTitle className="font-telugu">
-            <BilingualText english="Process Payment" telugu="చెల్లింపు ప్రాసెస్ చేయండి" />
+            <BilingualText english="Collect Payment" telugu="చెల్లింపు సేకరించండి" />
           </DialogTitle>
         </DialogHeader>
         
@@ -98,52 +190,99 @@ export function PaymentModal({ open, onOpenChange, payment }: PaymentModalProps)
             <h4 className="font-semibold mb-2">Guest: {payment.guest?.name || "Unknown"}</h4>
             <p className="text-sm text-gray-600">
               {payment.room?.roomNumber && `Room ${payment.room.roomNumber} • `}
-              Amount: ₹{parseFloat(payment.amount).toLocaleString()}
+              Balance Due: ₹{balanceDue.toLocaleString()}
             </p>
           </div>
 
+          {/* Amount Received */}
+          <div>
+            <Label htmlFor="paymentAmount" className="font-telugu text-base font-medium">
+              <BilingualText english="Amount Received" telugu="అందిన మొత్తం" /> *
+            </Label>
+            <Input
+              id="paymentAmount"
+              type="number"
+              min="0"
+              step="0.01"
+              max={payment.amount}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="mt-1"
+            />
+            {amount && !isAmountValid && (
+              <p className="text-sm text-destructive mt-1">
+                Enter an amount up to ₹{balanceDue.toLocaleString()}
+              </p>
+            )}
+            {isAmountValid && toPaise(amountValue) < toPaise(balanceDue) && (
+              <p className="text-sm text-gray-600 mt-1 font-telugu">
+                <BilingualText english="Remaining after this payment" telugu="ఈ చెల్లింపు తర్వాత మిగిలేది" />: {formatRupees(toPaise(balanceDue) - toPaise(amountValue))}
+              </p>
+            )}
+          </div>
+
           {/* Payment Method Selection */}
           <div>
             <Label className="font-telugu text-base font-medium">
               <BilingualText english="Payment Method" telugu="చెల్లింపు మార్గం" /> *
             </Label>
-            <div className="grid grid-cols-2 gap-4 mt-3">
-              <button
-                type="button"
-                onClick={() => handleMethodSelect("cash")}
-                className={`border-2 rounded-lg p-4 cursor-pointer transition-colors ${
-                  selectedMethod === "cash"
-                    ? "border-success bg-green-50"
-                    : "border-gray-300 hover:border-success"
-                }`}
-              >
-                <div className="text-center">
-                  <IndianRupee className="text-success mx-auto mb-2" size={32} />
-                  <p className="font-telugu">
-                    <BilingualText english="Cash" telugu="నగదు" />
-                  </p>
-                </div>
-              </button>
-              
-              <button
-                type="button"
-                onClick={() => handleMethodSelect("qr")}
-                className={`border-2 rounded-lg p-4 cursor-pointer transition-colors ${
-                  selectedMethod === "qr"
-                    ? "border-primary bg-blue-50"
-                    : "border-gray-300 hover:border-primary"
-                }`}
-              >
-                <div className="text-center">
-                  <QrCode className="text-primary mx-auto mb-2" size={32} />
-                  <p className="font-telugu">QR Code</p>
-                </div>
-              </button>
+            <div className="grid grid-cols-4 gap-2 mt-3">
+              {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map((method) => {
+                const Icon = methodIcons[method];
+                return (
+                  <button
+                    key={method}
+                    type="button"
+                    onClick={() => handleMethodSelect(method)}
+                    className={`border-2 rounded-lg p-2 cursor-pointer transition-colors ${
+                      selectedMethod === method
+                        ? "border-primary bg-blue-50"
+                        : "border-gray-300 hover:border-primary"
+                    }`}
+                  >
+                    <div className="text-center">
+                      <Icon className="text-primary mx-auto mb-1" size={22} />
+                      <p className="text-xs font-telugu">
+                        <BilingualText english={PAYMENT_METHOD_LABELS[method].english} telugu={PAYMENT_METHOD_LABELS[method].telugu} />
+                      </p>
+                    </div>
+                  </button>
+                );
+              })}
             </div>
           </div>
 
-          {/* QR Code Instructions */}
-          {selectedMethod === "qr" && (
+          {/* UPI QR with the amount filled in */}
+          {selectedMethod === "qr" && isAmountValid && upiRequest && (
+            <div className="bg-blue-50 p-4 rounded-lg border border-blue-200 text-center">
+              <img
+                src={upiRequest.qrDataUrl}
+                alt={`UPI QR for ₹${upiRequest.amount}`}
+                className="mx-auto w-56 h-56 bg-white rounded"
+              />
+              <p className="text-lg font-semibold mt-2">₹{parseFloat(upiRequest.amount).toLocaleString()}</p>
+              <p className="text-sm text-gray-600">
+                {upiRequest.payeeName} • {upiRequest.payeeVpa}
+              </p>
+              <p className="text-xs text-gray-500 font-mono">Ref: {upiRequest.reference}</p>
+              <p className="text-sm text-gray-700 mt-2 font-telugu">
+                <BilingualText
+                  english="Guest scans with any UPI app; the amount is already filled in"
+                  telugu="అతిథి ఏదైనా UPI యాప్‌తో స్కాన్ చేస్తారు; మొత్తం ముందే నింపబడి ఉంటుంది"
+                />
+              </p>
+              <Button type="button" variant="outline" size="sm" className="mt-3" onClick={handlePrintQr}>
+                <Printer size={14} className="mr-1" /> Print QR
+              </Button>
+            </div>
+          )}
+
+          {selectedMethod === "qr" && isAmountValid && isLoadingQr && !upiRequest && (
+            <p className="text-sm text-gray-500 text-center">Generating UPI QR...</p>
+          )}
+
+          {/* Desk QR instructions when no UPI ID is configured */}
+          {selectedMethod === "qr" && !upiRequest && !isLoadingQr && (
             <div className="bg-blue-50 p-4 rounded-lg border border-blue-200">
               <h5 className="font-semibold mb-2 font-telugu">
                 <BilingualText english="QR Payment Instructions" telugu="QR చెల్లింపు సూచనలు" />
@@ -156,9 +295,9 @@ export function PaymentModal({ open, onOpenChange, payment }: PaymentModalProps)
                   />
                 </li>
                 <li>
-                  Guest scans and pays ₹{parseFloat(payment.amount).toLocaleString()} 
+                  Guest scans and pays ₹{amountValue.toLocaleString()} 
                   <span className="font-telugu">
-                    {" "}(అతిథి స్కాన్ చేసి ₹{parseFloat(payment.amount).toLocaleString()} చెల్లిస్తారు)
+                    {" "}(అతిథి స్కాన్ చేసి ₹{amountValue.toLocaleString()} చెల్లిస్తారు)
                   </span>
                 </li>
                 <li>
@@ -177,6 +316,43 @@ export function PaymentModal({ open, onOpenChange, payment }: PaymentModalProps)
             </div>
           )}
 
+          {/* UPI apps, card and bank transfers are checked before they are recorded */}
+          {selectedMethod && ["gpay", "phonepe", "paytm", "card", "bank_transfer"].includes(selectedMethod) && (
+            <div className="bg-blue-50 p-4 rounded-lg border border-blue-200">
+              <p className="text-sm text-gray-700 font-telugu">
+                <BilingualText
+                  english={`Confirm ₹${amountValue.toLocaleString()} has reached the lodge account by ${PAYMENT_METHOD_LABELS[selectedMethod].english} before marking it paid`}
+                  telugu={`చెల్లించినట్లు గుర్తు పెట్టే ముందు ₹${amountValue.toLocaleString()} ${PAYMENT_METHOD_LABELS[selectedMethod].telugu} ద్వారా లాడ్జ్ ఖాతాకు చేరిందని నిర్ధారించండి`}
+                />
+              </p>
+            </div>
+          )}
+
+          {/* Company to bill */}
+          {selectedMethod === "company" && (
+            <div className="bg-purple-50 p-4 rounded-lg border border-purple-200 space-y-2">
+              <Label className="font-telugu">
+                <BilingualText english="Company Account" telugu="కంపెనీ ఖాతా" /> *
+              </Label>
+              <Select value={companyAccountId} onValueChange={setCompanyAccountId}>
+                <SelectTrigger className="bg-white">
+                  <SelectValue placeholder={activeCompanies.length ? "Select company" : "No company accounts set up"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeCompanies.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedCompany && (
+                <p className="text-sm text-gray-600">
+                  Outstanding: ₹{parseFloat(selectedCompany.outstanding).toLocaleString()}
+                  {selectedCompany.creditLimit && ` • Credit limit: ₹${parseFloat(selectedCompany.creditLimit).toLocaleString()}`}
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Cash Instructions */}
           {selectedMethod === "cash" && (
             <div className="bg-green-50 p-4 rounded-lg border border-green-200">
@@ -185,9 +361,9 @@ export function PaymentModal({ open, onOpenChange, payment }: PaymentModalProps)
               </h5>
               <ol className="text-sm text-gray-700 space-y-1 list-decimal list-inside font-telugu">
                 <li>
-                  Collect ₹{parseFloat(payment.amount).toLocaleString()} from guest
+                  Collect ₹{amountValue.toLocaleString()} from guest
                   <span className="font-telugu">
-                    {" "}(అతిథి నుండి ₹{parseFloat(payment.amount).toLocaleString()} సేకరించండి)
+                    {" "}(అతిథి నుండి ₹{amountValue.toLocaleString()} సేకరించండి)
                   </span>
                 </li>
                 <li>
@@ -218,10 +394,17 @@ export function PaymentModal({ open, onOpenChange, payment }: PaymentModalProps)
                 htmlFor="paymentConfirmed" 
                 className="text-sm font-telugu cursor-pointer"
               >
-                <BilingualText 
-                  english="Payment received and verified" 
-                  telugu="చెల్లింపు అందుకుని నిర్ధారించబడింది" 
-                />
+                {selectedMethod === "company" ? (
+                  <BilingualText
+                    english="Company has agreed to pay for this stay"
+                    telugu="ఈ బసకు కంపెనీ చెల్లించడానికి అంగీకరించింది"
+                  />
+                ) : (
+                  <BilingualText 
+                    english="Payment received and verified" 
+                    telugu="చెల్లింపు అందుకుని నిర్ధారించబడింది" 
+                  />
+                )}
               </Label>
             </div>
           )}
@@ -238,7 +421,7 @@ export function PaymentModal({ open, onOpenChange, payment }: PaymentModalProps)
             </Button>
             <Button 
               onClick={handleConfirmPayment}
-              disabled={!selectedMethod || !isConfirmed || isLoading}
+              disabled={!selectedMethod || !isConfirmed || !isAmountValid || (selectedMethod === "company" && !selectedCompany) || isLoading}
               className="bg-success hover:bg-green-700 font-telugu"
             >
               {isLoading ? "Processing..." : (
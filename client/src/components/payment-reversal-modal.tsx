@@ -0,0 +1,211 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BilingualText } from "@/components/bilingual-text";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { apiRequest } from "@/lib/queryClient";
+import { badRequestMessage } from "@/lib/api-errors";
+import { dayLockMessage, withDayLockOverride } from "@/lib/day-lock";
+import type { PaymentWithGuest } from "@/lib/types";
+import { PAYMENT_METHOD_LABELS, paymentMethodLabel } from "@shared/payments";
+import { toPaise } from "@shared/money";
+
+interface PaymentReversalModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  payment: PaymentWithGuest | null; // a paid receipt
+  remainingAmount: number; // what is left after earlier refunds and voids
+}
+
+export function PaymentReversalModal({ open, onOpenChange, payment, remainingAmount }: PaymentReversalModalProps) {
+  const [kind, setKind] = useState<"refund" | "void">("refund");
+  const [amount, setAmount] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState("cash");
+  const [reason, setReason] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+  const { can } = useCurrentUser();
+  const queryClient = useQueryClient();
+
+  // A company bill the company hasn't paid yet is credited back to its account instead
+  const creditsCompany = payment?.paymentMethod === "company" && !payment.companySettlementId;
+
+  useEffect(() => {
+    if (open && payment) {
+      setKind("refund");
+      setAmount(remainingAmount.toFixed(2));
+      setPaymentMethod(payment.paymentMethod === "company" && payment.companySettlementId ? "bank_transfer" : payment.paymentMethod);
+      setReason("");
+    }
+  }, [open, payment?.id, remainingAmount]);
+
+  const amountValue = parseFloat(amount) || 0;
+  const isAmountValid = kind === "void" || (amountValue > 0 && toPaise(amountValue) <= toPaise(remainingAmount));
+  const isReasonValid = reason.trim().length >= 3;
+
+  const handleSubmit = async () => {
+    if (!payment || !isAmountValid || !isReasonValid) return;
+
+    setIsLoading(true);
+    try {
+      await withDayLockOverride((overrideReason) => kind === "refund"
+        ? apiRequest("POST", `/api/payments/${payment.id}/refund`, {
+          amount: amountValue,
+          paymentMethod,
+          reason: reason.trim(),
+          overrideReason,
+        })
+        : apiRequest("POST", `/api/payments/${payment.id}/void`, { reason: reason.trim(), overrideReason }),
+        can("night_audit:override"));
+
+      toast({
+        title: "Success",
+        description: kind === "refund" ? "Refund recorded" : "Payment voided",
+      });
+
+      queryClient.invalidateQueries({ queryKey: ["/api/payments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/guests", payment.guestId, "payments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics/dashboard"] });
+      if (payment.paymentMethod === "company") {
+        queryClient.invalidateQueries({ queryKey: ["/api/company-accounts"] });
+      }
+
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: dayLockMessage(error) ?? badRequestMessage(error) ?? (kind === "refund" ? "Failed to record refund" : "Failed to void payment"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!payment) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="font-telugu">
+            <BilingualText english="Refund or Void Payment" telugu="చెల్లింపు వాపసు లేదా రద్దు" />
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="bg-gray-50 p-4 rounded-lg">
+            <h4 className="font-semibold mb-2">Guest: {payment.guest?.name || "Unknown"}</h4>
+            <p className="text-sm text-gray-600">
+              {paymentMethodLabel(payment.paymentMethod)} ₹{parseFloat(payment.amount).toLocaleString()}
+              {" • "}Refundable: ₹{remainingAmount.toLocaleString()}
+            </p>
+          </div>
+
+          <div>
+            <Label className="font-telugu">
+              <BilingualText english="Type" telugu="రకం" />
+            </Label>
+            <Select value={kind} onValueChange={(value) => setKind(value as "refund" | "void")}>
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="refund">Refund - money returned to the guest</SelectItem>
+                <SelectItem value="void" disabled={!!payment.companySettlementId}>Void - payment entered by mistake</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {kind === "refund" ? (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="refundAmount" className="font-telugu">
+                  <BilingualText english="Refund Amount" telugu="వాపసు మొత్తం" /> *
+                </Label>
+                <Input
+                  id="refundAmount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  max={remainingAmount}
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  className="mt-1"
+                />
+                {amount && !isAmountValid && (
+                  <p className="text-sm text-destructive mt-1">
+                    Enter an amount up to ₹{remainingAmount.toLocaleString()}
+                  </p>
+                )}
+              </div>
+              <div>
+                <Label className="font-telugu">
+                  <BilingualText english="Refunded By" telugu="వాపసు మార్గం" />
+                </Label>
+                {creditsCompany ? (
+                  <p className="text-sm text-gray-600 mt-3">Credit note to the company account</p>
+                ) : (
+                  <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                    <SelectTrigger className="mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(PAYMENT_METHOD_LABELS)
+                        .filter(([method]) => method !== "company")
+                        .map(([method, label]) => (
+                          <SelectItem key={method} value={method}>{label.english}</SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600">
+              ₹{remainingAmount.toLocaleString()} will be taken off the stay's payments and revenue.
+            </p>
+          )}
+
+          <div>
+            <Label htmlFor="reversalReason" className="font-telugu">
+              <BilingualText english="Reason" telugu="కారణం" /> *
+            </Label>
+            <Textarea
+              id="reversalReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={kind === "refund" ? "e.g. Guest checked out a day early" : "e.g. Entered against the wrong guest"}
+              className="mt-1"
+              rows={2}
+            />
+          </div>
+
+          <div className="flex justify-end space-x-4 pt-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="font-telugu"
+            >
+              <BilingualText english="Cancel" telugu="రద్దు చేయండి" />
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={!isAmountValid || !isReasonValid || isLoading}
+              variant="destructive"
+            >
+              {isLoading ? "Processing..." : kind === "refund" ? "Record Refund" : "Void Payment"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
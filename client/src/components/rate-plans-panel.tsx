@@ -0,0 +1,396 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BilingualText } from "@/components/bilingual-text";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { badRequestMessage } from "@/lib/api-errors";
+import type { RatePlan, RatePlanKind, RoomType } from "@shared/schema";
+import { Edit, Trash2 } from "lucide-react";
+
+interface RatePlansPanelProps {
+  roomTypes: RoomType[];
+  canEdit: boolean;
+}
+
+const KIND_LABELS: Record<RatePlanKind, { english: string; telugu: string }> = {
+  season: { english: "Season", telugu: "సీజన్" },
+  event: { english: "Festival / Event", telugu: "పండుగ / ఈవెంట్" },
+  length_of_stay: { english: "Length of Stay", telugu: "బస వ్యవధి" },
+};
+
+// Sunday first, matching Date.getDay()
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const emptyPlanForm = {
+  kind: "season" as RatePlanKind,
+  name: "",
+  startDate: "",
+  endDate: "",
+  nightlyRate: "",
+  weekdayRates: {} as Record<string, string>,
+  minNights: "",
+  discountPercentage: "",
+  isActive: true,
+};
+
+const rupees = (amount: string) => `₹${parseFloat(amount).toLocaleString()}`;
+
+function describePlan(plan: RatePlan): string {
+  if (plan.kind === "length_of_stay") {
+    return `${parseFloat(plan.discountPercentage ?? "0")}% off stays of ${plan.minNights}+ nights`;
+  }
+  const weekdays = Object.entries(plan.weekdayRates)
+    .sort(([a], [b]) => Number(a) - Number(b))
+    .map(([day, rate]) => `${WEEKDAYS[Number(day)]} ${rupees(rate)}`);
+  return [plan.nightlyRate ? `${rupees(plan.nightlyRate)} a night` : "Room's own rate", ...weekdays].join(" · ");
+}
+
+export function RatePlansPanel({ roomTypes, canEdit }: RatePlansPanelProps) {
+  const [roomTypeId, setRoomTypeId] = useState("");
+  const [planForm, setPlanForm] = useState(emptyPlanForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const selectedTypeId = roomTypeId || roomTypes[0]?.id || "";
+  const selectedType = roomTypes.find((type) => type.id === selectedTypeId);
+
+  const { data: plans = [] } = useQuery<RatePlan[]>({
+    queryKey: ["/api/rate-plans"],
+    staleTime: 0,
+  });
+  const typePlans = plans.filter((plan) => plan.roomTypeId === selectedTypeId);
+
+  const resetForm = () => {
+    setPlanForm(emptyPlanForm);
+    setEditingId(null);
+  };
+
+  const run = async (action: () => Promise<unknown>, success: string, fallback: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      queryClient.invalidateQueries({ queryKey: ["/api/rate-plans"] });
+      toast({ title: "Success", description: success });
+      return true;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: badRequestMessage(error) ?? fallback,
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const isStayPlan = planForm.kind === "length_of_stay";
+    const data = {
+      roomTypeId: selectedTypeId,
+      kind: planForm.kind,
+      name: planForm.name,
+      startDate: planForm.startDate || null,
+      endDate: planForm.endDate || null,
+      nightlyRate: !isStayPlan && planForm.nightlyRate ? planForm.nightlyRate : null,
+      weekdayRates: isStayPlan ? {} : Object.fromEntries(Object.entries(planForm.weekdayRates).filter(([, rate]) => rate)),
+      minNights: isStayPlan ? planForm.minNights : null,
+      discountPercentage: isStayPlan ? planForm.discountPercentage : null,
+      isActive: planForm.isActive,
+    };
+
+    const saved = await run(
+      () => editingId ? apiRequest("PUT", `/api/rate-plans/${editingId}`, data) : apiRequest("POST", "/api/rate-plans", data),
+      editingId ? "Rate plan updated" : "Rate plan added",
+      "Failed to save the rate plan",
+    );
+    if (saved) resetForm();
+  };
+
+  const handleEdit = (plan: RatePlan) => {
+    setEditingId(plan.id);
+    setPlanForm({
+      kind: plan.kind as RatePlanKind,
+      name: plan.name,
+      startDate: plan.startDate ?? "",
+      endDate: plan.endDate ?? "",
+      nightlyRate: plan.nightlyRate ?? "",
+      weekdayRates: plan.weekdayRates,
+      minNights: plan.minNights ? String(plan.minNights) : "",
+      discountPercentage: plan.discountPercentage ?? "",
+      isActive: plan.isActive,
+    });
+  };
+
+  const handleDelete = (plan: RatePlan) => {
+    if (!confirm(`Delete the ${plan.name} rate plan?`)) return;
+    run(() => apiRequest("DELETE", `/api/rate-plans/${plan.id}`), "Rate plan deleted", "Failed to delete the rate plan");
+  };
+
+  if (roomTypes.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-4">Add a room type before setting up its rates</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-end gap-4">
+        <div className="w-64">
+          <Label className="font-telugu">
+            <BilingualText english="Room Type" telugu="గది రకం" />
+          </Label>
+          <Select
+            value={selectedTypeId}
+            onValueChange={(value) => {
+              setRoomTypeId(value);
+              resetForm();
+            }}
+          >
+            <SelectTrigger className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {roomTypes.map((type) => (
+                <SelectItem key={type.id} value={type.id}>{type.nameEnglish}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {selectedType && (
+          <p className="text-sm text-gray-500 pb-2">
+            Nights no plan covers are charged at each room's own rate (default {rupees(selectedType.basePrice)}).
+          </p>
+        )}
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Plan</TableHead>
+            <TableHead>Dates</TableHead>
+            <TableHead>Rates</TableHead>
+            <TableHead className="w-[90px]"></TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {typePlans.map((plan) => (
+            <TableRow key={plan.id} className={plan.isActive ? "" : "opacity-50"}>
+              <TableCell>
+                <p className="font-medium">{plan.name}</p>
+                <Badge variant="outline" className="font-telugu">
+                  <BilingualText english={KIND_LABELS[plan.kind as RatePlanKind].english} telugu={KIND_LABELS[plan.kind as RatePlanKind].telugu} />
+                </Badge>
+                {!plan.isActive && <Badge variant="secondary" className="ml-1">Inactive</Badge>}
+              </TableCell>
+              <TableCell className="text-sm">
+                {plan.startDate ? `${plan.startDate} to ${plan.endDate}` : "All year"}
+              </TableCell>
+              <TableCell className="text-sm">{describePlan(plan)}</TableCell>
+              <TableCell>
+                {canEdit && (
+                  <div className="flex space-x-1">
+                    <Button size="sm" variant="outline" onClick={() => handleEdit(plan)} className="p-2">
+                      <Edit className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleDelete(plan)}
+                      className="p-2 text-destructive hover:bg-destructive hover:text-white"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {typePlans.length === 0 && (
+        <p className="text-sm text-gray-500 text-center">No rate plans for this type yet</p>
+      )}
+
+      {canEdit && (
+        <form onSubmit={handleSave} className="space-y-4 border rounded-lg p-4 bg-gray-50">
+          <h4 className="font-semibold font-telugu">
+            {editingId ? (
+              <BilingualText english="Edit Rate Plan" telugu="రేట్ ప్లాన్ సవరించు" />
+            ) : (
+              <BilingualText english="Add Rate Plan" telugu="రేట్ ప్లాన్ జోడించు" />
+            )}
+          </h4>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label className="font-telugu">
+                <BilingualText english="Kind" telugu="రకం" />
+              </Label>
+              <Select value={planForm.kind} onValueChange={(value) => setPlanForm({ ...planForm, kind: value as RatePlanKind })}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(KIND_LABELS).map(([kind, label]) => (
+                    <SelectItem key={kind} value={kind} className="font-telugu">
+                      <BilingualText english={label.english} telugu={label.telugu} />
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="font-telugu">
+                <BilingualText english="Name" telugu="పేరు" /> *
+              </Label>
+              <Input
+                value={planForm.name}
+                onChange={(e) => setPlanForm({ ...planForm, name: e.target.value })}
+                placeholder={planForm.kind === "event" ? "Sankranti" : planForm.kind === "season" ? "Weekend premium" : "Weekly stay"}
+                required
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label className="font-telugu">
+                <BilingualText english="From" telugu="నుండి" />{planForm.kind === "event" && " *"}
+              </Label>
+              <Input
+                type="date"
+                value={planForm.startDate}
+                onChange={(e) => setPlanForm({ ...planForm, startDate: e.target.value })}
+                required={planForm.kind === "event"}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label className="font-telugu">
+                <BilingualText english="To (inclusive)" telugu="వరకు" />{planForm.kind === "event" && " *"}
+              </Label>
+              <Input
+                type="date"
+                value={planForm.endDate}
+                onChange={(e) => setPlanForm({ ...planForm, endDate: e.target.value })}
+                required={planForm.kind === "event"}
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          {planForm.kind === "length_of_stay" ? (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label className="font-telugu">
+                  <BilingualText english="Minimum Nights" telugu="కనీస రాత్రులు" /> *
+                </Label>
+                <Input
+                  type="number"
+                  value={planForm.minNights}
+                  onChange={(e) => setPlanForm({ ...planForm, minNights: e.target.value })}
+                  min="2"
+                  required
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label className="font-telugu">
+                  <BilingualText english="Discount (%)" telugu="తగ్గింపు (%)" /> *
+                </Label>
+                <Input
+                  type="number"
+                  value={planForm.discountPercentage}
+                  onChange={(e) => setPlanForm({ ...planForm, discountPercentage: e.target.value })}
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  required
+                  className="mt-1"
+                />
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="w-1/2 pr-2">
+                <Label className="font-telugu">
+                  <BilingualText english="Nightly Rate (₹)" telugu="రాత్రి ధర (₹)" />
+                </Label>
+                <Input
+                  type="number"
+                  value={planForm.nightlyRate}
+                  onChange={(e) => setPlanForm({ ...planForm, nightlyRate: e.target.value })}
+                  placeholder="Room's own rate"
+                  min="0"
+                  step="0.01"
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label className="font-telugu">
+                  <BilingualText english="Day-of-week Rates (₹)" telugu="వారపు రోజు ధరలు (₹)" />
+                </Label>
+                <div className="grid grid-cols-7 gap-2 mt-1">
+                  {WEEKDAYS.map((day, index) => (
+                    <div key={day}>
+                      <p className="text-xs text-gray-500 text-center">{day}</p>
+                      <Input
+                        type="number"
+                        value={planForm.weekdayRates[String(index)] ?? ""}
+                        onChange={(e) => setPlanForm({
+                          ...planForm,
+                          weekdayRates: { ...planForm.weekdayRates, [String(index)]: e.target.value },
+                        })}
+                        min="0"
+                        step="0.01"
+                        className="px-1 text-center"
+                      />
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">Leave a day blank to use the nightly rate</p>
+              </div>
+            </>
+          )}
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="rate-plan-active"
+              checked={planForm.isActive}
+              onCheckedChange={(checked) => setPlanForm({ ...planForm, isActive: checked === true })}
+            />
+            <Label htmlFor="rate-plan-active" className="font-telugu">
+              <BilingualText english="Active" telugu="సక్రియం" />
+            </Label>
+          </div>
+
+          <div className="flex space-x-4">
+            <Button type="submit" disabled={isSaving} className="font-telugu">
+              {isSaving ? "Saving..." : editingId ? (
+                <BilingualText english="Update Plan" telugu="ప్లాన్ అప్డేట్ చేయండి" />
+              ) : (
+                <BilingualText english="Add Plan" telugu="ప్లాన్ జోడించు" />
+              )}
+            </Button>
+            {editingId && (
+              <Button type="button" variant="outline" onClick={resetForm} className="font-telugu">
+                <BilingualText english="Cancel" telugu="రద్దు చేయండి" />
+              </Button>
+            )}
+          </div>
+          <p className="text-xs text-gray-500">
+            Festivals and events win over seasons; of two seasons, the one with the shorter dates wins.
+            Stays already booked keep the rates they were priced at.
+          </p>
+        </form>
+      )}
+    </div>
+  );
+}
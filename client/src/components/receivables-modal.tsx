@@ -0,0 +1,211 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import Papa from "papaparse";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BilingualText } from "@/components/bilingual-text";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { apiRequest } from "@/lib/queryClient";
+import { badRequestMessage } from "@/lib/api-errors";
+import { downloadReceivablesPdf } from "@/lib/receivables-pdf";
+import type { AgingBucket, ReceivableAccount, ReceivablesReport } from "@/lib/types";
+import { toPaise } from "@shared/money";
+import { Download, FileText, MessageSquare } from "lucide-react";
+
+interface ReceivablesModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  lodgeName: string;
+}
+
+// In bucket order, youngest debt first
+const AGING_BUCKET_LABELS: Record<AgingBucket, { english: string; telugu: string }> = {
+  "0-7": { english: "0–7 days", telugu: "0–7 రోజులు" },
+  "8-30": { english: "8–30 days", telugu: "8–30 రోజులు" },
+  "31-90": { english: "31–90 days", telugu: "31–90 రోజులు" },
+  "90+": { english: "Over 90 days", telugu: "90 రోజులకు పైగా" },
+};
+
+const BUCKETS = Object.keys(AGING_BUCKET_LABELS) as AgingBucket[];
+
+const rupees = (amount: string) => `₹${parseFloat(amount).toLocaleString()}`;
+
+const accountKey = (account: ReceivableAccount) => `${account.type}:${account.id}`;
+
+export function ReceivablesModal({ open, onOpenChange, lodgeName }: ReceivablesModalProps) {
+  const [sendingKey, setSendingKey] = useState<string | null>(null);
+  const { can } = useCurrentUser();
+  const { toast } = useToast();
+
+  const { data: report } = useQuery<ReceivablesReport>({
+    queryKey: ["/api/receivables"],
+    enabled: open,
+    staleTime: 0,
+  });
+
+  const handleRemind = async (account: ReceivableAccount) => {
+    if (!confirm(`Send a reminder for ${rupees(account.total)} to ${account.name} on ${account.phoneNumber}?`)) return;
+
+    setSendingKey(accountKey(account));
+    try {
+      const response = await apiRequest("POST", `/api/receivables/${account.type}/${encodeURIComponent(account.id)}/reminder`);
+      const { message } = await response.json();
+      toast({ title: "Reminder sent", description: message });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: badRequestMessage(error) ?? "Failed to send the reminder",
+        variant: "destructive",
+      });
+    } finally {
+      setSendingKey(null);
+    }
+  };
+
+  // One row per account with a column for each aging bucket
+  const handleExportCSV = () => {
+    if (!report || report.accounts.length === 0) return;
+
+    try {
+      const csvData = report.accounts.map((account) => ({
+        'Account': account.name,
+        'Type': account.type === "company" ? 'Company' : 'Guest',
+        'Contact Person': account.contactName || '',
+        'Phone Number': account.phoneNumber || '',
+        'Email': account.email || '',
+        'Rooms': account.items.map((item) => item.roomNumber ?? '-').join(', '),
+        ...Object.fromEntries(BUCKETS.map((bucket) => [`${AGING_BUCKET_LABELS[bucket].english} (Rs)`, parseFloat(account.buckets[bucket])])),
+        'Total (Rs)': parseFloat(account.total),
+        'Oldest (days)': account.oldestAgeDays,
+      }));
+
+      const csv = Papa.unparse(csvData);
+      const blob = new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8;' }); // BOM for proper Excel encoding
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.setAttribute('href', url);
+      link.setAttribute('download', `outstanding_dues_${new Date().toISOString().split('T')[0]}.csv`);
+      link.style.visibility = 'hidden';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('CSV export error:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export CSV. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const hasDues = !!report && report.accounts.length > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-telugu">
+            <BilingualText english="Outstanding Dues" telugu="బకాయిలు" />
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          {BUCKETS.map((bucket) => (
+            <div key={bucket} className={`p-3 rounded-lg ${bucket === "90+" ? "bg-red-50" : "bg-gray-50"}`}>
+              <p className="text-xs text-gray-600 font-telugu">
+                <BilingualText english={AGING_BUCKET_LABELS[bucket].english} telugu={AGING_BUCKET_LABELS[bucket].telugu} />
+              </p>
+              <p className="text-lg font-semibold">{report ? rupees(report.buckets[bucket]) : "—"}</p>
+            </div>
+          ))}
+          <div className="p-3 bg-amber-50 rounded-lg">
+            <p className="text-xs text-gray-600 font-telugu">
+              <BilingualText english="Total Due" telugu="మొత్తం బాకీ" />
+            </p>
+            <p className="text-lg font-semibold text-amber-700">{report ? rupees(report.total) : "—"}</p>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-gray-500">
+            Stays are aged from their checkout date, company bills from the day they were billed.
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleExportCSV} disabled={!hasDues}>
+              <Download size={14} className="mr-1" />
+              CSV
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => report && downloadReceivablesPdf(report, lodgeName)} disabled={!hasDues}>
+              <FileText size={14} className="mr-1" />
+              PDF
+            </Button>
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Account</TableHead>
+              <TableHead>Contact</TableHead>
+              {BUCKETS.map((bucket) => (
+                <TableHead key={bucket} className="text-right">{AGING_BUCKET_LABELS[bucket].english}</TableHead>
+              ))}
+              <TableHead className="text-right">Total</TableHead>
+              <TableHead className="w-[60px]"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report?.accounts.map((account) => (
+              <TableRow key={accountKey(account)}>
+                <TableCell>
+                  <p className="font-medium">
+                    {account.name}
+                    {account.type === "company" && (
+                      <Badge variant="outline" className="ml-2">Company</Badge>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {account.items.map((item) => item.roomNumber ? `Room ${item.roomNumber}` : item.guestName).join(", ")}
+                  </p>
+                </TableCell>
+                <TableCell className="text-sm">
+                  {account.contactName && <p>{account.contactName}</p>}
+                  <p>{account.phoneNumber ?? "—"}</p>
+                  {account.email && <p className="text-xs text-gray-500">{account.email}</p>}
+                </TableCell>
+                {BUCKETS.map((bucket) => (
+                  <TableCell key={bucket} className={`text-right ${bucket === "90+" ? "text-red-600" : ""}`}>
+                    {toPaise(account.buckets[bucket]) > 0 ? rupees(account.buckets[bucket]) : ""}
+                  </TableCell>
+                ))}
+                <TableCell className="text-right font-semibold">{rupees(account.total)}</TableCell>
+                <TableCell>
+                  {can("sms:send") && account.phoneNumber && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Send payment reminder SMS"
+                      disabled={sendingKey === accountKey(account)}
+                      onClick={() => handleRemind(account)}
+                    >
+                      <MessageSquare size={14} />
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {report && report.accounts.length === 0 && (
+          <p className="text-sm text-gray-500 text-center py-4">Nothing is outstanding</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
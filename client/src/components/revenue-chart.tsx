@@ -2,6 +2,8 @@ import { useMemo } from "react";
 import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from "recharts";
 import { BilingualText } from "@/components/bilingual-text";
 import type { PaymentWithGuest } from "@/lib/types";
+import { isReversal, netPaymentPaise } from "@shared/payments";
+import { formatRupees, paiseToNumber, sumPaise } from "@shared/money";
 
 interface RevenueChartProps {
   payments: PaymentWithGuest[];
@@ -53,7 +55,7 @@ export function RevenueChart({ payments, dateRange = "7" }: RevenueChartProps) {
       });
     }
 
-    // Calculate revenue for each day
+    // Calculate revenue for each day; refunds and voids come off the day they were made
     const paidPayments = payments.filter(p => p.status === 'paid');
     
     paidPayments.forEach(payment => {
@@ -63,16 +65,16 @@ export function RevenueChart({ payments, dateRange = "7" }: RevenueChartProps) {
       
       const dayData = days.find(d => d.date === paymentDate);
       if (dayData) {
-        dayData.revenue += parseFloat(payment.amount);
-        dayData.bookings += 1;
+        dayData.revenue += netPaymentPaise(payment); // paise until the chart gets it below
+        if (!isReversal(payment)) dayData.bookings += 1;
       }
     });
 
-    return days;
+    return days.map(day => ({ ...day, revenue: paiseToNumber(day.revenue) }));
   }, [payments, dateRange]);
 
-  const totalRevenue = chartData.reduce((sum, day) => sum + day.revenue, 0);
-  const averageRevenue = chartData.length > 0 ? totalRevenue / chartData.length : 0;
+  const totalRevenuePaise = sumPaise(chartData.map(day => day.revenue));
+  const averageRevenue = chartData.length > 0 ? paiseToNumber(totalRevenuePaise) / chartData.length : 0;
 
   return (
     <div className="space-y-4">
@@ -80,7 +82,7 @@ export function RevenueChart({ payments, dateRange = "7" }: RevenueChartProps) {
       <div className="grid grid-cols-3 gap-4 mb-6">
         <div className="text-center p-4 bg-blue-50 rounded-lg">
           <p className="text-2xl font-bold text-blue-600">
-            ₹{totalRevenue.toLocaleString()}
+            {formatRupees(totalRevenuePaise)}
           </p>
           <p className="text-sm text-gray-600 font-telugu">
             <BilingualText 
@@ -138,7 +140,7 @@ export function RevenueChart({ payments, dateRange = "7" }: RevenueChartProps) {
         </ResponsiveContainer>
       </div>
       
-      {totalRevenue === 0 && (
+      {totalRevenuePaise === 0 && (
         <div className="text-center py-8 text-gray-500">
           <p className="font-telugu">
             <BilingualText 
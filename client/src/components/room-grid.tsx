@@ -1,20 +1,40 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { BilingualText } from "@/components/bilingual-text";
-import type { Room } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { HOUSEKEEPING_BADGE_CLASSES, HOUSEKEEPING_STATUS_LABELS } from "@/lib/housekeeping-labels";
+import type { HousekeepingStatus, Room } from "@shared/schema";
 import { Bed, User, Gavel } from "lucide-react";
 
 interface RoomGridProps {
   rooms: Room[];
 }
 
+const todayDate = () => new Date().toLocaleDateString("en-CA"); // YYYY-MM-DD, local time
+
 export function RoomGrid({ rooms }: RoomGridProps) {
   const [statusFilter, setStatusFilter] = useState("all");
+  const [date, setDate] = useState(todayDate);
+  const isToday = date === todayDate();
+
+  // Any other day is looked up from the stays on that day, reservations included
+  const { data: roomsOnDate } = useQuery<Room[]>({
+    queryKey: ["/api/rooms", date],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/rooms?date=${date}`);
+      return response.json();
+    },
+    enabled: !isToday && !!date,
+    staleTime: 0,
+  });
+  const shownRooms = isToday ? rooms : roomsOnDate ?? [];
 
   // Filter rooms based on selected filters
-  const filteredRooms = rooms.filter(room => {
+  const filteredRooms = shownRooms.filter(room => {
     const statusMatch = statusFilter === "all" || room.status === statusFilter;
     return statusMatch;
   });
@@ -74,6 +94,12 @@ export function RoomGrid({ rooms }: RoomGridProps) {
     }
   };
 
+  const getHousekeepingBadge = (status: HousekeepingStatus) => (
+    <Badge variant="outline" className={`font-telugu ${HOUSEKEEPING_BADGE_CLASSES[status]}`}>
+      <BilingualText english={HOUSEKEEPING_STATUS_LABELS[status].english} telugu={HOUSEKEEPING_STATUS_LABELS[status].telugu} />
+    </Badge>
+  );
+
   const getRoomTypeText = (roomType: string) => {
     // Capitalize room type for display
     const capitalizedType = roomType.charAt(0).toUpperCase() + roomType.slice(1);
@@ -104,6 +130,12 @@ export function RoomGrid({ rooms }: RoomGridProps) {
               </SelectItem>
             </SelectContent>
           </Select>
+          <Input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value || todayDate())}
+            className="w-44"
+          />
         </div>
       </div>
 
@@ -132,6 +164,11 @@ export function RoomGrid({ rooms }: RoomGridProps) {
                 </p>
                 
                 {getStatusBadge(room.status)}
+
+                {/* Cleanliness is only known for now, not for the day being looked at */}
+                {isToday && (
+                  <div className="mt-1">{getHousekeepingBadge(room.housekeepingStatus as HousekeepingStatus)}</div>
+                )}
                 
                 {room.status === "available" && (
                   <p className="text-sm text-gray-600 mt-2">
@@ -141,7 +178,7 @@ export function RoomGrid({ rooms }: RoomGridProps) {
                 
                 {room.status === "occupied" && (
                   <p className="text-xs text-gray-500 mt-1">
-                    Guest Checked In
+                    {isToday || date < todayDate() ? "Guest Checked In" : "Booked"}
                   </p>
                 )}
                 
@@ -199,6 +236,14 @@ export function RoomGrid({ rooms }: RoomGridProps) {
                 <BilingualText english="Maintenance" telugu="మెయింటెనెన్స్" />
               </span>
             </div>
+            {(Object.keys(HOUSEKEEPING_STATUS_LABELS) as HousekeepingStatus[]).map((status) => (
+              <div key={status} className="flex items-center space-x-2">
+                <div className={`w-4 h-4 rounded-full border ${HOUSEKEEPING_BADGE_CLASSES[status]}`}></div>
+                <span className="text-sm font-telugu">
+                  <BilingualText english={HOUSEKEEPING_STATUS_LABELS[status].english} telugu={HOUSEKEEPING_STATUS_LABELS[status].telugu} />
+                </span>
+              </div>
+            ))}
           </div>
         </CardContent>
       </Card>
@@ -1,19 +1,25 @@
 import { useState } from "react";
-import { useQueryClient, useMutation } from "@tanstack/react-query";
+import { useQuery, useQueryClient, useMutation } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { BilingualText } from "@/components/bilingual-text";
+import { RatePlansPanel } from "@/components/rate-plans-panel";
+import { MaintenancePanel } from "@/components/maintenance-panel";
 import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
 import { apiRequest } from "@/lib/queryClient";
-import type { Room } from "@shared/schema";
-import { Plus, Edit, Wrench, CheckCircle, Trash2 } from "lucide-react";
+import { badRequestMessage } from "@/lib/api-errors";
+import type { Room, RoomType } from "@shared/schema";
+import type { RoomStatusReport } from "@/lib/types";
+import { Plus, Edit, Wrench, Trash2, BedDouble, CalendarDays, ShieldCheck } from "lucide-react";
 
 interface RoomManagementModalProps {
   open: boolean;
@@ -21,28 +27,56 @@ interface RoomManagementModalProps {
   rooms: Room[];
 }
 
+const emptyTypeForm = {
+  code: "",
+  nameEnglish: "",
+  nameTelugu: "",
+  maxOccupancy: "2",
+  basePrice: "",
+  amenities: "",
+  description: "",
+};
+
+function RoomTypeSelect({ roomTypes, value, onChange }: { roomTypes: RoomType[]; value: string; onChange: (roomTypeId: string) => void }) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="mt-1">
+        <SelectValue placeholder="Select room type" />
+      </SelectTrigger>
+      <SelectContent>
+        {roomTypes.map((type) => (
+          <SelectItem key={type.id} value={type.id}>
+            {type.nameEnglish}{type.nameTelugu && ` / ${type.nameTelugu}`} · {type.maxOccupancy} guests
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
 export function RoomManagementModal({ open, onOpenChange, rooms }: RoomManagementModalProps) {
   const [activeTab, setActiveTab] = useState("add");
   const [newRoom, setNewRoom] = useState({
     roomNumber: "",
-    roomType: "",
+    roomTypeId: "",
     basePrice: "",
   });
   const [editingRoom, setEditingRoom] = useState<Room | null>(null);
-  const [customRoomType, setCustomRoomType] = useState("");
-  
-  const defaultRoomTypes = [
-    { value: "single", label: "Single" },
-    { value: "double", label: "Double" },
-    { value: "suite", label: "Suite" },
-    { value: "deluxe", label: "Deluxe" },
-    { value: "family", label: "Family" },
-    { value: "premium", label: "Premium" },
-  ];
+  const [typeForm, setTypeForm] = useState(emptyTypeForm);
+  const [editingTypeId, setEditingTypeId] = useState<string | null>(null);
+  const [statusReport, setStatusReport] = useState<RoomStatusReport | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [maintenanceRoomId, setMaintenanceRoomId] = useState("all");
 
   const { toast } = useToast();
+  const { can } = useCurrentUser();
   const queryClient = useQueryClient();
 
+  const { data: roomTypes = [] } = useQuery<RoomType[]>({
+    queryKey: ["/api/room-types"],
+    enabled: open,
+  });
+
   const addRoomMutation = useMutation({
     mutationFn: async (roomData: typeof newRoom) => {
       const response = await apiRequest("POST", "/api/rooms", {
@@ -54,17 +88,75 @@ export function RoomManagementModal({ open, onOpenChange, rooms }: RoomManagemen
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/rooms"] });
       queryClient.invalidateQueries({ queryKey: ["/api/analytics/dashboard"] });
-      setNewRoom({ roomNumber: "", roomType: "", basePrice: "" });
-      setCustomRoomType("");
+      setNewRoom({ roomNumber: "", roomTypeId: "", basePrice: "" });
       toast({
         title: "Success",
         description: "Room added successfully!",
       });
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: "Error",
-        description: "Failed to add room. Please try again.",
+        description: badRequestMessage(error) ?? "Failed to add room. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveRoomTypeMutation = useMutation({
+    mutationFn: async ({ id, form }: { id: string | null; form: typeof typeForm }) => {
+      const data = {
+        code: form.code || form.nameEnglish.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_"),
+        nameEnglish: form.nameEnglish,
+        nameTelugu: form.nameTelugu || null,
+        maxOccupancy: form.maxOccupancy,
+        basePrice: form.basePrice,
+        amenities: form.amenities.split(",").map((amenity) => amenity.trim()).filter(Boolean),
+        description: form.description || null,
+      };
+      const response = id
+        ? await apiRequest("PUT", `/api/room-types/${id}`, data)
+        : await apiRequest("POST", "/api/room-types", data);
+      return response.json();
+    },
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/room-types"] });
+      // A renamed type renames its rooms
+      queryClient.invalidateQueries({ queryKey: ["/api/rooms"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics/dashboard"] });
+      setTypeForm(emptyTypeForm);
+      setEditingTypeId(null);
+      toast({
+        title: "Success",
+        description: id ? "Room type updated" : "Room type added",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: badRequestMessage(error) ?? "Failed to save room type. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteRoomTypeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/room-types/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/room-types"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics/dashboard"] });
+      toast({
+        title: "Success",
+        description: "Room type deleted",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: badRequestMessage(error) ?? "Failed to delete room type. Please try again.",
         variant: "destructive",
       });
     },
@@ -84,10 +176,10 @@ export function RoomManagementModal({ open, onOpenChange, rooms }: RoomManagemen
         description: "Room updated successfully!",
       });
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: "Error",
-        description: "Failed to update room. Please try again.",
+        description: badRequestMessage(error) ?? "Failed to update room. Please try again.",
         variant: "destructive",
       });
     },
@@ -106,10 +198,10 @@ export function RoomManagementModal({ open, onOpenChange, rooms }: RoomManagemen
         description: "Room deleted successfully!",
       });
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: "Error",
-        description: "Failed to delete room. Please try again.",
+        description: badRequestMessage(error) ?? "Failed to delete room. Please try again.",
         variant: "destructive",
       });
     },
@@ -117,7 +209,7 @@ export function RoomManagementModal({ open, onOpenChange, rooms }: RoomManagemen
 
   const handleAddRoom = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newRoom.roomNumber || !newRoom.roomType || !newRoom.basePrice) {
+    if (!newRoom.roomNumber || !newRoom.roomTypeId || !newRoom.basePrice) {
       toast({
         title: "Error",
         description: "Please fill in all fields",
@@ -126,17 +218,45 @@ export function RoomManagementModal({ open, onOpenChange, rooms }: RoomManagemen
       return;
     }
 
-    const roomType = newRoom.roomType === "custom" ? customRoomType : newRoom.roomType;
-    addRoomMutation.mutate({ ...newRoom, roomType });
+    addRoomMutation.mutate(newRoom);
   };
 
-  const handleStatusChange = (room: Room, newStatus: string) => {
-    updateRoomMutation.mutate({
-      id: room.id,
-      data: { status: newStatus },
+  // New rooms start at their type's default rate, which can still be changed per room
+  const handleNewRoomType = (roomTypeId: string) => {
+    const roomType = roomTypes.find((type) => type.id === roomTypeId);
+    setNewRoom({ ...newRoom, roomTypeId, basePrice: roomType?.basePrice ?? newRoom.basePrice });
+  };
+
+  const handleSaveRoomType = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveRoomTypeMutation.mutate({ id: editingTypeId, form: typeForm });
+  };
+
+  const handleEditRoomType = (roomType: RoomType) => {
+    setEditingTypeId(roomType.id);
+    setTypeForm({
+      code: roomType.code,
+      nameEnglish: roomType.nameEnglish,
+      nameTelugu: roomType.nameTelugu ?? "",
+      maxOccupancy: String(roomType.maxOccupancy),
+      basePrice: roomType.basePrice,
+      amenities: roomType.amenities.join(", "),
+      description: roomType.description ?? "",
     });
   };
 
+  const handleDeleteRoomType = (roomType: RoomType) => {
+    if (confirm(`Delete the ${roomType.nameEnglish} room type?`)) {
+      deleteRoomTypeMutation.mutate(roomType.id);
+    }
+  };
+
+  // Rooms are taken out of service by raising a ticket for them
+  const handleMaintenance = (room: Room) => {
+    setMaintenanceRoomId(room.id);
+    setActiveTab("maintenance");
+  };
+
   const handleEditRoom = (room: Room) => {
     setEditingRoom(room);
     setActiveTab("edit");
@@ -150,12 +270,36 @@ export function RoomManagementModal({ open, onOpenChange, rooms }: RoomManagemen
       id: editingRoom.id,
       data: {
         roomNumber: editingRoom.roomNumber,
-        roomType: editingRoom.roomType,
+        roomTypeId: editingRoom.roomTypeId,
         basePrice: editingRoom.basePrice,
       },
     });
   };
 
+  // Compares each room's stored status with its stays; repairing rewrites the stored status
+  const handleCheckStatuses = async (repair: boolean) => {
+    setIsChecking(true);
+    try {
+      const response = repair
+        ? await apiRequest("POST", "/api/rooms/consistency/repair")
+        : await apiRequest("GET", "/api/rooms/consistency");
+      const report: RoomStatusReport = await response.json();
+      setStatusReport(report);
+      if (repair) {
+        queryClient.invalidateQueries({ queryKey: ["/api/rooms"] });
+        toast({ title: "Success", description: "Room statuses repaired" });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to check room statuses. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
   const handleDeleteRoom = (roomId: string) => {
     if (confirm("Are you sure you want to delete this room? This action cannot be undone.")) {
       deleteRoomMutation.mutate(roomId);
@@ -185,7 +329,7 @@ export function RoomManagementModal({ open, onOpenChange, rooms }: RoomManagemen
         </DialogHeader>
         
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="add" className="font-telugu">
               <Plus className="w-4 h-4 mr-2" />
               <BilingualText english="Add Room" telugu="గది జోడించు" />
@@ -198,6 +342,18 @@ export function RoomManagementModal({ open, onOpenChange, rooms }: RoomManagemen
               <Edit className="w-4 h-4 mr-2" />
               <BilingualText english="Edit Room" telugu="గది సవరించు" />
             </TabsTrigger>
+            <TabsTrigger value="types" className="font-telugu">
+              <BedDouble className="w-4 h-4 mr-2" />
+              <BilingualText english="Room Types" telugu="గది రకాలు" />
+            </TabsTrigger>
+            <TabsTrigger value="rates" className="font-telugu">
+              <CalendarDays className="w-4 h-4 mr-2" />
+              <BilingualText english="Rate Plans" telugu="రేట్ ప్లాన్లు" />
+            </TabsTrigger>
+            <TabsTrigger value="maintenance" className="font-telugu">
+              <Wrench className="w-4 h-4 mr-2" />
+              <BilingualText english="Maintenance" telugu="మరమ్మతులు" />
+            </TabsTrigger>
           </TabsList>
 
           {/* Add Room Tab */}
@@ -228,37 +384,13 @@ export function RoomManagementModal({ open, onOpenChange, rooms }: RoomManagemen
                       <Label className="font-telugu">
                         <BilingualText english="Room Type" telugu="గది రకం" /> *
                       </Label>
-                      <Select value={newRoom.roomType} onValueChange={(value) => setNewRoom({...newRoom, roomType: value})}>
-                        <SelectTrigger className="mt-1">
-                          <SelectValue placeholder="Select room type" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {defaultRoomTypes.map((type) => (
-                            <SelectItem key={type.value} value={type.value}>
-                              {type.label}
-                            </SelectItem>
-                          ))}
-                          <SelectItem value="custom">Custom Type</SelectItem>
-                        </SelectContent>
-                      </Select>
+                      <RoomTypeSelect roomTypes={roomTypes} value={newRoom.roomTypeId} onChange={handleNewRoomType} />
+                      {roomTypes.length === 0 && (
+                        <p className="text-xs text-gray-500 mt-1">Add a room type on the Room Types tab first</p>
+                      )}
                     </div>
                   </div>
 
-                  {newRoom.roomType === "custom" && (
-                    <div>
-                      <Label className="font-telugu">
-                        <BilingualText english="Custom Room Type" telugu="అనుకూల గది రకం" /> *
-                      </Label>
-                      <Input
-                        value={customRoomType}
-                        onChange={(e) => setCustomRoomType(e.target.value)}
-                        placeholder="Enter custom room type"
-                        required
-                        className="mt-1"
-                      />
-                    </div>
-                  )}
-
                   <div>
                     <Label className="font-telugu">
                       <BilingualText english="Base Price (₹)" telugu="ప్రాథమిక ధర (₹)" /> *
@@ -292,11 +424,40 @@ export function RoomManagementModal({ open, onOpenChange, rooms }: RoomManagemen
           {/* Manage Rooms Tab */}
           <TabsContent value="manage" className="space-y-6">
             <Card>
-              <CardHeader>
+              <CardHeader className="flex flex-row items-center justify-between">
                 <CardTitle className="font-telugu">
                   <BilingualText english="All Rooms" telugu="అన్ని గదులు" />
                 </CardTitle>
+                <Button size="sm" variant="outline" onClick={() => handleCheckStatuses(false)} disabled={isChecking}>
+                  <ShieldCheck className="w-4 h-4 mr-1" />
+                  Check statuses
+                </Button>
               </CardHeader>
+              {statusReport && (
+                <div className="mx-6 mb-4 p-3 rounded-lg border text-sm space-y-1">
+                  {statusReport.mismatches.length === 0 ? (
+                    <p className="text-green-700">All {statusReport.roomsChecked} rooms agree with their stays and tickets.</p>
+                  ) : (
+                    <>
+                      {statusReport.repaired && (
+                        <p className="text-green-700">Repaired:</p>
+                      )}
+                      {statusReport.mismatches.map((mismatch) => (
+                        <p key={mismatch.roomId}>
+                          Room {mismatch.roomNumber}: stored as <strong>{mismatch.storedStatus}</strong>, stays and tickets say{" "}
+                          <strong>{mismatch.derivedStatus}</strong>
+                          {mismatch.guestName && ` (${mismatch.guestName})`}
+                        </p>
+                      ))}
+                      {!statusReport.repaired && (
+                        <Button size="sm" onClick={() => handleCheckStatuses(true)} disabled={isChecking} className="mt-2">
+                          Repair
+                        </Button>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
               <CardContent className="p-0">
                 <Table>
                   <TableHeader>
@@ -336,29 +497,17 @@ export function RoomManagementModal({ open, onOpenChange, rooms }: RoomManagemen
                               <Edit className="w-3 h-3" />
                             </Button>
                             
-                            {room.status === "available" && (
-                              <Button
-                                size="sm"
-                                variant="outline"
-                                onClick={() => handleStatusChange(room, "maintenance")}
-                                className="p-2 text-warning hover:bg-warning hover:text-white"
-                              >
-                                <Wrench className="w-3 h-3" />
-                              </Button>
-                            )}
-                            
-                            {room.status === "maintenance" && (
-                              <Button
-                                size="sm"
-                                variant="outline"
-                                onClick={() => handleStatusChange(room, "available")}
-                                className="p-2 text-success hover:bg-success hover:text-white"
-                              >
-                                <CheckCircle className="w-3 h-3" />
-                              </Button>
-                            )}
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleMaintenance(room)}
+                              className="p-2 text-warning hover:bg-warning hover:text-white"
+                              title="Maintenance tickets"
+                            >
+                              <Wrench className="w-3 h-3" />
+                            </Button>
                             
-                            {room.status !== "occupied" && (
+                            {room.status !== "occupied" && can("rooms:delete") && (
                               <Button
                                 size="sm"
                                 variant="outline"
@@ -405,11 +554,10 @@ export function RoomManagementModal({ open, onOpenChange, rooms }: RoomManagemen
                       <Label className="font-telugu">
                         <BilingualText english="Room Type" telugu="గది రకం" /> *
                       </Label>
-                      <Input
-                        value={editingRoom.roomType}
-                        onChange={(e) => setEditingRoom({...editingRoom, roomType: e.target.value})}
-                        required
-                        className="mt-1"
+                      <RoomTypeSelect
+                        roomTypes={roomTypes}
+                        value={editingRoom.roomTypeId ?? ""}
+                        onChange={(roomTypeId) => setEditingRoom({...editingRoom, roomTypeId})}
                       />
                     </div>
 
@@ -455,6 +603,236 @@ export function RoomManagementModal({ open, onOpenChange, rooms }: RoomManagemen
               </Card>
             )}
           </TabsContent>
+
+          {/* Room Types Tab */}
+          <TabsContent value="types" className="space-y-6">
+            {can("rooms:manage") && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="font-telugu">
+                    {editingTypeId ? (
+                      <BilingualText english="Edit Room Type" telugu="గది రకం సవరించు" />
+                    ) : (
+                      <BilingualText english="Add Room Type" telugu="గది రకం జోడించు" />
+                    )}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <form onSubmit={handleSaveRoomType} className="space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <Label className="font-telugu">
+                          <BilingualText english="Name (English)" telugu="పేరు (ఆంగ్లం)" /> *
+                        </Label>
+                        <Input
+                          value={typeForm.nameEnglish}
+                          onChange={(e) => setTypeForm({...typeForm, nameEnglish: e.target.value})}
+                          placeholder="AC Deluxe"
+                          required
+                          className="mt-1"
+                        />
+                      </div>
+                      <div>
+                        <Label className="font-telugu">
+                          <BilingualText english="Name (Telugu)" telugu="పేరు (తెలుగు)" />
+                        </Label>
+                        <Input
+                          value={typeForm.nameTelugu}
+                          onChange={(e) => setTypeForm({...typeForm, nameTelugu: e.target.value})}
+                          placeholder="ఏసీ డీలక్స్"
+                          className="mt-1 font-telugu"
+                        />
+                      </div>
+                      <div>
+                        <Label className="font-telugu">
+                          <BilingualText english="Code" telugu="కోడ్" />
+                        </Label>
+                        <Input
+                          value={typeForm.code}
+                          onChange={(e) => setTypeForm({...typeForm, code: e.target.value})}
+                          placeholder="Made from the English name if left blank"
+                          className="mt-1"
+                        />
+                      </div>
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <Label className="font-telugu">
+                            <BilingualText english="Max Guests" telugu="గరిష్ట అతిథులు" /> *
+                          </Label>
+                          <Input
+                            type="number"
+                            value={typeForm.maxOccupancy}
+                            onChange={(e) => setTypeForm({...typeForm, maxOccupancy: e.target.value})}
+                            required
+                            min="1"
+                            max="20"
+                            className="mt-1"
+                          />
+                        </div>
+                        <div>
+                          <Label className="font-telugu">
+                            <BilingualText english="Default Price (₹)" telugu="డిఫాల్ట్ ధర (₹)" /> *
+                          </Label>
+                          <Input
+                            type="number"
+                            value={typeForm.basePrice}
+                            onChange={(e) => setTypeForm({...typeForm, basePrice: e.target.value})}
+                            required
+                            min="0"
+                            step="0.01"
+                            className="mt-1"
+                          />
+                        </div>
+                      </div>
+                    </div>
+
+                    <div>
+                      <Label className="font-telugu">
+                        <BilingualText english="Amenities" telugu="సౌకర్యాలు" />
+                      </Label>
+                      <Input
+                        value={typeForm.amenities}
+                        onChange={(e) => setTypeForm({...typeForm, amenities: e.target.value})}
+                        placeholder="AC, TV, Hot water"
+                        className="mt-1"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">Separate amenities with commas</p>
+                    </div>
+
+                    <div>
+                      <Label className="font-telugu">
+                        <BilingualText english="Description" telugu="వివరణ" />
+                      </Label>
+                      <Textarea
+                        value={typeForm.description}
+                        onChange={(e) => setTypeForm({...typeForm, description: e.target.value})}
+                        rows={2}
+                        className="mt-1"
+                      />
+                    </div>
+
+                    <div className="flex space-x-4">
+                      <Button type="submit" disabled={saveRoomTypeMutation.isPending} className="font-telugu">
+                        {saveRoomTypeMutation.isPending ? "Saving..." : editingTypeId ? (
+                          <BilingualText english="Update Type" telugu="రకం అప్డేట్ చేయండి" />
+                        ) : (
+                          <BilingualText english="Add Type" telugu="రకం జోడించు" />
+                        )}
+                      </Button>
+                      {editingTypeId && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          onClick={() => {
+                            setEditingTypeId(null);
+                            setTypeForm(emptyTypeForm);
+                          }}
+                          className="font-telugu"
+                        >
+                          <BilingualText english="Cancel" telugu="రద్దు చేయండి" />
+                        </Button>
+                      )}
+                    </div>
+                  </form>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="font-telugu">
+                  <BilingualText english="All Room Types" telugu="అన్ని గది రకాలు" />
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="font-telugu">
+                        <BilingualText english="Type" telugu="రకం" />
+                      </TableHead>
+                      <TableHead className="font-telugu">
+                        <BilingualText english="Max Guests" telugu="గరిష్ట అతిథులు" />
+                      </TableHead>
+                      <TableHead className="font-telugu">
+                        <BilingualText english="Default Price" telugu="డిఫాల్ట్ ధర" />
+                      </TableHead>
+                      <TableHead className="font-telugu">
+                        <BilingualText english="Amenities" telugu="సౌకర్యాలు" />
+                      </TableHead>
+                      <TableHead className="font-telugu">
+                        <BilingualText english="Rooms" telugu="గదులు" />
+                      </TableHead>
+                      <TableHead className="font-telugu">
+                        <BilingualText english="Actions" telugu="చర్యలు" />
+                      </TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {roomTypes.map((roomType) => {
+                      const roomCount = rooms.filter((room) => room.roomTypeId === roomType.id).length;
+                      return (
+                        <TableRow key={roomType.id}>
+                          <TableCell>
+                            <p className="font-medium font-telugu">
+                              <BilingualText english={roomType.nameEnglish} telugu={roomType.nameTelugu || roomType.nameEnglish} />
+                            </p>
+                            {roomType.description && <p className="text-xs text-gray-500">{roomType.description}</p>}
+                          </TableCell>
+                          <TableCell>{roomType.maxOccupancy}</TableCell>
+                          <TableCell>₹{parseFloat(roomType.basePrice).toLocaleString()}</TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              {roomType.amenities.map((amenity) => (
+                                <Badge key={amenity} variant="outline">{amenity}</Badge>
+                              ))}
+                            </div>
+                          </TableCell>
+                          <TableCell>{roomCount}</TableCell>
+                          <TableCell>
+                            {can("rooms:manage") && (
+                              <div className="flex space-x-1">
+                                <Button size="sm" variant="outline" onClick={() => handleEditRoomType(roomType)} className="p-2">
+                                  <Edit className="w-3 h-3" />
+                                </Button>
+                                {roomCount === 0 && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => handleDeleteRoomType(roomType)}
+                                    className="p-2 text-destructive hover:bg-destructive hover:text-white"
+                                  >
+                                    <Trash2 className="w-3 h-3" />
+                                  </Button>
+                                )}
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+                {roomTypes.length === 0 && (
+                  <p className="text-sm text-gray-500 text-center py-4">No room types yet</p>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Rate Plans Tab */}
+          <TabsContent value="rates" className="space-y-6">
+            <RatePlansPanel roomTypes={roomTypes} canEdit={can("rooms:manage")} />
+          </TabsContent>
+
+          <TabsContent value="maintenance" className="space-y-6">
+            <MaintenancePanel
+              rooms={rooms}
+              roomId={maintenanceRoomId}
+              onRoomChange={setMaintenanceRoomId}
+              canEdit={can("rooms:manage")}
+            />
+          </TabsContent>
         </Tabs>
       </DialogContent>
     </Dialog>
@@ -7,7 +7,14 @@ import { Textarea } from "@/components/ui/textarea";
 import { BilingualText } from "@/components/bilingual-text";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import type { LodgeSettings } from "@shared/schema";
+import type { GstSlab, LodgeSettings } from "@shared/schema";
+import { Plus, Trash2 } from "lucide-react";
+
+// Slab inputs are edited as text; a blank "up to" means no upper limit
+type SlabInput = { upTo: string; rate: string };
+
+const toSlabInputs = (slabs: GstSlab[] | undefined): SlabInput[] =>
+  (slabs ?? []).map((slab) => ({ upTo: slab.upTo === null ? "" : String(slab.upTo), rate: String(slab.rate) }));
 
 interface SettingsModalProps {
   open: boolean;
@@ -21,8 +28,15 @@ export function SettingsModal({ open, onOpenChange, settings }: SettingsModalPro
     address: settings?.address || "",
     contactNumber: settings?.contactNumber || "",
     discountRate: settings?.discountRate || "0.00",
-    smsTemplate: settings?.smsTemplate || ""
+    legalName: settings?.legalName || "",
+    gstin: settings?.gstin || "",
+    sacCode: settings?.sacCode || "",
+    upiVpa: settings?.upiVpa || "",
+    upiPayeeName: settings?.upiPayeeName || "",
+    smsTemplate: settings?.smsTemplate || "",
+    sessionIdleMinutes: String(settings?.sessionIdleMinutes ?? 1440)
   });
+  const [gstSlabs, setGstSlabs] = useState<SlabInput[]>(toSlabInputs(settings?.gstSlabs));
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
 
@@ -34,8 +48,15 @@ export function SettingsModal({ open, onOpenChange, settings }: SettingsModalPro
         address: settings.address,
         contactNumber: settings.contactNumber,
         discountRate: settings.discountRate,
-        smsTemplate: settings.smsTemplate || ""
+        legalName: settings.legalName || "",
+        gstin: settings.gstin || "",
+        sacCode: settings.sacCode,
+        upiVpa: settings.upiVpa || "",
+        upiPayeeName: settings.upiPayeeName || "",
+        smsTemplate: settings.smsTemplate || "",
+        sessionIdleMinutes: String(settings.sessionIdleMinutes)
       });
+      setGstSlabs(toSlabInputs(settings.gstSlabs));
     }
   });
 
@@ -45,7 +66,14 @@ export function SettingsModal({ open, onOpenChange, settings }: SettingsModalPro
 
     setIsLoading(true);
     try {
-      const response = await apiRequest("PUT", `/api/lodge-settings/${settings.id}`, formData);
+      const response = await apiRequest("PUT", `/api/lodge-settings/${settings.id}`, {
+        ...formData,
+        sessionIdleMinutes: parseInt(formData.sessionIdleMinutes) || 1440,
+        gstSlabs: gstSlabs.map((slab) => ({
+          upTo: slab.upTo.trim() === "" ? null : parseFloat(slab.upTo),
+          rate: parseFloat(slab.rate) || 0,
+        })),
+      });
       
       if (response.ok) {
         toast({
@@ -73,7 +101,7 @@ export function SettingsModal({ open, onOpenChange, settings }: SettingsModalPro
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-2xl">
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="font-telugu text-xl">
             <BilingualText english="Lodge Settings" telugu="లాజ్ సెట్టింగ్స్" />
@@ -126,20 +154,178 @@ export function SettingsModal({ open, onOpenChange, settings }: SettingsModalPro
             />
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="discount" className="font-telugu">
-              <BilingualText english="Default Discount Rate (%)" telugu="డిఫాల్ట్ తగ్గింపు రేటు (%)" />
-            </Label>
-            <Input
-              id="discount"
-              type="number"
-              min="0"
-              max="100"
-              step="0.01"
-              value={formData.discountRate}
-              onChange={(e) => setFormData({ ...formData, discountRate: e.target.value })}
-              placeholder="0.00"
-            />
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="discount" className="font-telugu">
+                <BilingualText english="Default Discount Rate (%)" telugu="డిఫాల్ట్ తగ్గింపు రేటు (%)" />
+              </Label>
+              <Input
+                id="discount"
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                value={formData.discountRate}
+                onChange={(e) => setFormData({ ...formData, discountRate: e.target.value })}
+                placeholder="0.00"
+              />
+            </div>
+
+          </div>
+
+          {/* GST */}
+          <div className="space-y-4 border-t pt-4">
+            <h4 className="font-semibold font-telugu">
+              <BilingualText english="GST & Invoicing" telugu="GST & ఇన్వాయిస్" />
+            </h4>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="legal-name" className="font-telugu">
+                  <BilingualText english="Legal Name" telugu="చట్టపరమైన పేరు" />
+                </Label>
+                <Input
+                  id="legal-name"
+                  value={formData.legalName}
+                  onChange={(e) => setFormData({ ...formData, legalName: e.target.value })}
+                  placeholder="As registered for GST"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="gstin" className="font-telugu">
+                  <BilingualText english="GSTIN" telugu="GSTIN" />
+                </Label>
+                <Input
+                  id="gstin"
+                  value={formData.gstin}
+                  onChange={(e) => setFormData({ ...formData, gstin: e.target.value.toUpperCase() })}
+                  placeholder="e.g. 36ABCDE1234F1Z5"
+                  maxLength={15}
+                />
+                <p className="text-sm text-gray-500">
+                  GST is only charged once a GSTIN is entered
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="sac" className="font-telugu">
+                  <BilingualText english="SAC Code" telugu="SAC కోడ్" />
+                </Label>
+                <Input
+                  id="sac"
+                  value={formData.sacCode}
+                  onChange={(e) => setFormData({ ...formData, sacCode: e.target.value })}
+                  placeholder="996311"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="font-telugu">
+                <BilingualText english="GST Slabs (by tariff per night)" telugu="GST స్లాబ్‌లు (రాత్రి టారిఫ్ ప్రకారం)" />
+              </Label>
+              {gstSlabs.map((slab, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <span className="text-sm text-gray-600 w-16">Up to ₹</span>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={slab.upTo}
+                    onChange={(e) => setGstSlabs(gstSlabs.map((s, i) => i === index ? { ...s, upTo: e.target.value } : s))}
+                    placeholder="No limit"
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    max="28"
+                    step="0.01"
+                    value={slab.rate}
+                    onChange={(e) => setGstSlabs(gstSlabs.map((s, i) => i === index ? { ...s, rate: e.target.value } : s))}
+                    className="w-24"
+                  />
+                  <span className="text-sm text-gray-600">%</span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setGstSlabs(gstSlabs.filter((_, i) => i !== index))}
+                    disabled={gstSlabs.length === 1}
+                  >
+                    <Trash2 size={14} />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setGstSlabs([...gstSlabs, { upTo: "", rate: "0" }])}
+              >
+                <Plus size={14} className="mr-1" /> Add Slab
+              </Button>
+              <p className="text-sm text-gray-500">
+                Leave "up to" blank on the top slab. Guests with a GSTIN from another state are charged IGST, others CGST + SGST.
+              </p>
+            </div>
+          </div>
+
+          {/* UPI */}
+          <div className="space-y-4 border-t pt-4">
+            <h4 className="font-semibold font-telugu">
+              <BilingualText english="UPI Payments" telugu="UPI చెల్లింపులు" />
+            </h4>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="upi-vpa" className="font-telugu">
+                  <BilingualText english="UPI ID" telugu="UPI ID" />
+                </Label>
+                <Input
+                  id="upi-vpa"
+                  value={formData.upiVpa}
+                  onChange={(e) => setFormData({ ...formData, upiVpa: e.target.value.trim() })}
+                  placeholder="e.g. lodgename@okaxis"
+                />
+                <p className="text-sm text-gray-500">
+                  Bills show a UPI QR with the exact amount once this is set
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="upi-payee" className="font-telugu">
+                  <BilingualText english="Payee Name" telugu="స్వీకర్త పేరు" />
+                </Label>
+                <Input
+                  id="upi-payee"
+                  value={formData.upiPayeeName}
+                  onChange={(e) => setFormData({ ...formData, upiPayeeName: e.target.value })}
+                  placeholder="As shown in the UPI app"
+                  maxLength={50}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="idle-timeout" className="font-telugu">
+                <BilingualText english="Idle Logout (minutes)" telugu="నిష్క్రియ లాగ్అవుట్ (నిమిషాలు)" />
+              </Label>
+              <Input
+                id="idle-timeout"
+                type="number"
+                min="5"
+                max="10080"
+                step="1"
+                value={formData.sessionIdleMinutes}
+                onChange={(e) => setFormData({ ...formData, sessionIdleMinutes: e.target.value })}
+                placeholder="1440"
+              />
+              <p className="text-sm text-gray-500">
+                Staff are logged out after this long without activity
+              </p>
+            </div>
           </div>
 
           <div className="space-y-2">
@@ -0,0 +1,279 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BilingualText } from "@/components/bilingual-text";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { PaymentWithGuest, ReconciliationReport } from "@/lib/types";
+import type { StatementImport } from "@shared/schema";
+import { toPaise } from "@shared/money";
+import { Upload } from "lucide-react";
+
+interface StatementReconciliationModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  payments: PaymentWithGuest[];
+}
+
+const lineStatuses: Record<string, { english: string; telugu: string; className: string }> = {
+  matched: { english: "Matched", telugu: "సరిపోలింది", className: "bg-green-100 text-green-800" },
+  confirmed: { english: "Confirmed", telugu: "నిర్ధారించబడింది", className: "bg-green-100 text-green-800" },
+  ambiguous: { english: "Needs Review", telugu: "సమీక్ష అవసరం", className: "bg-amber-100 text-amber-800" },
+  unmatched: { english: "Unmatched", telugu: "సరిపోలలేదు", className: "bg-red-100 text-red-800" },
+  ignored: { english: "Ignored", telugu: "విస్మరించబడింది", className: "bg-gray-100 text-gray-700" },
+  duplicate: { english: "Already Imported", telugu: "ఇప్పటికే దిగుమతి", className: "bg-gray-100 text-gray-700" },
+};
+
+export function StatementReconciliationModal({ open, onOpenChange, payments }: StatementReconciliationModalProps) {
+  const [selectedImportId, setSelectedImportId] = useState<string | null>(null);
+  const [selections, setSelections] = useState<Record<string, string>>({});
+  const [isUploading, setIsUploading] = useState(false);
+  const [busyLineId, setBusyLineId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: imports } = useQuery<StatementImport[]>({
+    queryKey: ["/api/statement-imports"],
+    enabled: open,
+    staleTime: 0,
+  });
+
+  const { data: report } = useQuery<ReconciliationReport>({
+    queryKey: ["/api/statement-imports", selectedImportId],
+    enabled: open && !!selectedImportId,
+    staleTime: 0,
+  });
+
+  const pendingPayments = payments.filter((payment) => payment.status === "pending");
+
+  // Receipts recorded here change balances, revenue and the pending list
+  const showReport = (updated: ReconciliationReport) => {
+    queryClient.setQueryData(["/api/statement-imports", updated.statementImport.id], updated);
+    setSelectedImportId(updated.statementImport.id);
+    queryClient.invalidateQueries({ queryKey: ["/api/statement-imports"], exact: true });
+    queryClient.invalidateQueries({ queryKey: ["/api/payments"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/guests"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/analytics/dashboard"] });
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsUploading(true);
+    try {
+      // Sent as plain CSV rather than JSON; statements easily outgrow the JSON body limit
+      const response = await fetch(`/api/statement-imports?fileName=${encodeURIComponent(file.name)}`, {
+        method: "POST",
+        headers: { "Content-Type": "text/csv" },
+        body: await file.text(),
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || response.statusText);
+      }
+
+      const uploaded: ReconciliationReport = await response.json();
+      showReport(uploaded);
+      toast({
+        title: "Statement imported",
+        description: `${uploaded.summary.matched} of ${uploaded.summary.credits} credits matched automatically`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to import statement",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleLineAction = async (lineId: string, action: "confirm" | "ignore") => {
+    setBusyLineId(lineId);
+    try {
+      const response = action === "confirm"
+        ? await apiRequest("POST", `/api/statement-lines/${lineId}/confirm`, { paymentId: selections[lineId] })
+        : await apiRequest("POST", `/api/statement-lines/${lineId}/ignore`);
+      showReport(await response.json());
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: action === "confirm" ? "Failed to confirm payment" : "Failed to ignore credit",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyLineId(null);
+    }
+  };
+
+  const summaryItems = report ? [
+    { english: "Credits", telugu: "జమలు", value: report.summary.credits },
+    { english: "Matched", telugu: "సరిపోలింది", value: report.summary.matched + report.summary.confirmed },
+    { english: "Needs Review", telugu: "సమీక్ష అవసరం", value: report.summary.ambiguous },
+    { english: "Unmatched", telugu: "సరిపోలలేదు", value: report.summary.unmatched },
+  ] : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-telugu">
+            <BilingualText english="Statement Reconciliation" telugu="స్టేట్‌మెంట్ సమన్వయం" />
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="statementFile" className="font-telugu">
+              <BilingualText english="Upload Bank / UPI Statement (CSV)" telugu="బ్యాంక్ / UPI స్టేట్‌మెంట్ అప్‌లోడ్ (CSV)" />
+            </Label>
+            <div className="flex items-center gap-2 mt-1">
+              <Input id="statementFile" type="file" accept=".csv,text/csv" onChange={handleUpload} disabled={isUploading} />
+              {isUploading && <Upload size={16} className="animate-pulse text-gray-500" />}
+            </div>
+          </div>
+
+          <div>
+            <Label className="font-telugu">
+              <BilingualText english="Previous Imports" telugu="మునుపటి దిగుమతులు" />
+            </Label>
+            <Select value={selectedImportId ?? undefined} onValueChange={setSelectedImportId}>
+              <SelectTrigger className="mt-1">
+                <SelectValue placeholder="Select an import" />
+              </SelectTrigger>
+              <SelectContent>
+                {imports?.map((statementImport) => (
+                  <SelectItem key={statementImport.id} value={statementImport.id}>
+                    {statementImport.fileName} • {new Date(statementImport.importedAt).toLocaleDateString('en-IN')}
+                    {statementImport.importedByName && ` • ${statementImport.importedByName}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {report && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+              {summaryItems.map((item) => (
+                <div key={item.english} className="text-center p-3 bg-gray-50 rounded-lg">
+                  <p className="text-xl font-semibold">{item.value}</p>
+                  <p className="text-xs text-gray-600 font-telugu">
+                    <BilingualText english={item.english} telugu={item.telugu} />
+                  </p>
+                </div>
+              ))}
+              <div className="text-center p-3 bg-green-50 rounded-lg">
+                <p className="text-xl font-semibold text-green-700">₹{parseFloat(report.summary.reconciledAmount).toLocaleString()}</p>
+                <p className="text-xs text-gray-600 font-telugu">
+                  <BilingualText english="Reconciled" telugu="సమన్వయమైనది" />
+                </p>
+              </div>
+              <div className="text-center p-3 bg-amber-50 rounded-lg">
+                <p className="text-xl font-semibold text-amber-700">₹{parseFloat(report.summary.unreconciledAmount).toLocaleString()}</p>
+                <p className="text-xs text-gray-600 font-telugu">
+                  <BilingualText english="Outstanding" telugu="పెండింగ్" />
+                </p>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[100px]">Date</TableHead>
+                  <TableHead className="w-[100px]">Amount</TableHead>
+                  <TableHead>Reference / Description</TableHead>
+                  <TableHead className="w-[120px]">Status</TableHead>
+                  <TableHead className="w-[320px]">Payment</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.lines.map((line) => {
+                  const status = lineStatuses[line.status] ?? lineStatuses.unmatched;
+                  const needsReview = line.status === "ambiguous" || line.status === "unmatched";
+                  // Ambiguous credits choose between the bills they matched; unmatched ones between every balance due
+                  const options = line.status === "ambiguous"
+                    ? line.candidates.map((candidate) => ({
+                        id: candidate.paymentId,
+                        label: `${candidate.guestName}${candidate.roomNumber ? ` • Room ${candidate.roomNumber}` : ""} • ₹${parseFloat(candidate.amount).toLocaleString()}`,
+                      }))
+                    : pendingPayments
+                        .filter((payment) => toPaise(payment.amount) >= toPaise(line.amount))
+                        .map((payment) => ({
+                          id: payment.id,
+                          label: `${payment.guest?.name ?? "Unknown"}${payment.room?.roomNumber ? ` • Room ${payment.room.roomNumber}` : ""} • ₹${parseFloat(payment.amount).toLocaleString()}`,
+                        }));
+
+                  return (
+                    <TableRow key={line.id}>
+                      <TableCell className="text-sm">{new Date(line.transactionDate).toLocaleDateString('en-IN')}</TableCell>
+                      <TableCell className="font-semibold">₹{parseFloat(line.amount).toLocaleString()}</TableCell>
+                      <TableCell className="text-xs text-gray-600 break-all">
+                        {line.reference && <p className="font-mono">{line.reference}</p>}
+                        {line.description && <p>{line.description}</p>}
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={`${status.className} hover:${status.className.split(" ")[0]}`}>
+                          <span className="text-xs">{status.english}</span>
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        {needsReview ? (
+                          <div className="flex items-center gap-2">
+                            <Select
+                              value={selections[line.id]}
+                              onValueChange={(value) => setSelections({ ...selections, [line.id]: value })}
+                            >
+                              <SelectTrigger className="h-8 text-xs">
+                                <SelectValue placeholder={options.length ? "Pick a bill" : "No open bills"} />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {options.map((option) => (
+                                  <SelectItem key={option.id} value={option.id} className="text-xs">{option.label}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <Button
+                              size="sm"
+                              className="h-8"
+                              disabled={!selections[line.id] || busyLineId === line.id}
+                              onClick={() => handleLineAction(line.id, "confirm")}
+                            >
+                              Confirm
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-8"
+                              disabled={busyLineId === line.id}
+                              onClick={() => handleLineAction(line.id, "ignore")}
+                            >
+                              Ignore
+                            </Button>
+                          </div>
+                        ) : (
+                          <span className="text-sm">{line.guestName ?? "—"}</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
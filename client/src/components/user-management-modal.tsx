@@ -0,0 +1,337 @@
+import { useState } from "react";
+import { useQuery, useQueryClient, useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { BilingualText } from "@/components/bilingual-text";
+import { ActiveSessionsPanel } from "@/components/active-sessions-panel";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { apiRequest } from "@/lib/queryClient";
+import type { CurrentUser } from "@/lib/types";
+import type { UserRole } from "@shared/schema";
+import { KeyRound, UserCheck, UserX } from "lucide-react";
+
+interface UserManagementModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const roleOptions: { value: UserRole; english: string; telugu: string }[] = [
+  { value: "owner", english: "Owner", telugu: "యజమాని" },
+  { value: "manager", english: "Manager", telugu: "మేనేజర్" },
+  { value: "receptionist", english: "Receptionist", telugu: "రిసెప్షనిస్ట్" },
+  { value: "accountant", english: "Accountant", telugu: "అకౌంటెంట్" },
+  { value: "housekeeper", english: "Housekeeper", telugu: "హౌస్‌కీపర్" },
+];
+
+export function UserManagementModal({ open, onOpenChange }: UserManagementModalProps) {
+  const [activeTab, setActiveTab] = useState("staff");
+  const [newUser, setNewUser] = useState({
+    username: "",
+    fullName: "",
+    password: "",
+    role: "receptionist" as UserRole,
+  });
+  const { toast } = useToast();
+  const { user: currentUser } = useCurrentUser();
+  const queryClient = useQueryClient();
+
+  const { data: users } = useQuery<CurrentUser[]>({
+    queryKey: ["/api/users"],
+    enabled: open,
+  });
+
+  const addUserMutation = useMutation({
+    mutationFn: async (userData: typeof newUser) => {
+      const response = await apiRequest("POST", "/api/users", userData);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setNewUser({ username: "", fullName: "", password: "", role: "receptionist" });
+      toast({
+        title: "Success",
+        description: "Staff account created successfully!",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to create staff account. The username may already exist.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateUserMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: { role?: UserRole; isActive?: boolean } }) => {
+      const response = await apiRequest("PUT", `/api/users/${id}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "Success",
+        description: "Staff account updated successfully!",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update staff account. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async ({ id, password }: { id: string; password: string }) => {
+      const response = await apiRequest("POST", `/api/users/${id}/reset-password`, { password });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Password reset successfully!",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to reset password. Passwords need at least 6 characters.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAddUser = (e: React.FormEvent) => {
+    e.preventDefault();
+    addUserMutation.mutate(newUser);
+  };
+
+  const handleResetPassword = (user: CurrentUser) => {
+    const password = prompt(`Enter a new password for ${user.username}`);
+    if (password) {
+      resetPasswordMutation.mutate({ id: user.id, password });
+    }
+  };
+
+  const getRoleLabel = (role: string) => {
+    const option = roleOptions.find((r) => r.value === role);
+    return option ? <BilingualText english={option.english} telugu={option.telugu} /> : role;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-telugu">
+            <BilingualText english="Staff Accounts" telugu="సిబ్బంది ఖాతాలు" />
+          </DialogTitle>
+        </DialogHeader>
+
+        <Tabs value={activeTab} onValueChange={setActiveTab}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="staff" className="font-telugu">
+              <BilingualText english="Staff" telugu="సిబ్బంది" />
+            </TabsTrigger>
+            <TabsTrigger value="sessions" className="font-telugu">
+              <BilingualText english="Active Sessions" telugu="క్రియాశీల సెషన్లు" />
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="staff" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="font-telugu">
+                  <BilingualText english="Add Staff Member" telugu="సిబ్బందిని జోడించు" />
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleAddUser} className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <Label className="font-telugu">
+                        <BilingualText english="Full Name" telugu="పూర్తి పేరు" />
+                      </Label>
+                      <Input
+                        value={newUser.fullName}
+                        onChange={(e) => setNewUser({ ...newUser, fullName: e.target.value })}
+                        placeholder="Enter full name"
+                        className="mt-1"
+                      />
+                    </div>
+
+                    <div>
+                      <Label className="font-telugu">
+                        <BilingualText english="Username" telugu="వినియోగదారు పేరు" /> *
+                      </Label>
+                      <Input
+                        value={newUser.username}
+                        onChange={(e) => setNewUser({ ...newUser, username: e.target.value })}
+                        placeholder="Enter username"
+                        required
+                        minLength={3}
+                        className="mt-1"
+                      />
+                    </div>
+
+                    <div>
+                      <Label className="font-telugu">
+                        <BilingualText english="Password" telugu="పాస్‌వర్డ్" /> *
+                      </Label>
+                      <Input
+                        type="password"
+                        value={newUser.password}
+                        onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
+                        placeholder="At least 6 characters"
+                        required
+                        minLength={6}
+                        className="mt-1"
+                      />
+                    </div>
+
+                    <div>
+                      <Label className="font-telugu">
+                        <BilingualText english="Role" telugu="పాత్ర" /> *
+                      </Label>
+                      <Select value={newUser.role} onValueChange={(value: UserRole) => setNewUser({ ...newUser, role: value })}>
+                        <SelectTrigger className="mt-1">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {roleOptions.map((role) => (
+                            <SelectItem key={role.value} value={role.value} className="font-telugu">
+                              <BilingualText english={role.english} telugu={role.telugu} />
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  <Button
+                    type="submit"
+                    disabled={addUserMutation.isPending}
+                    className="w-full font-telugu"
+                  >
+                    {addUserMutation.isPending ? "Adding..." : (
+                      <BilingualText english="Add Staff Member" telugu="సిబ్బందిని జోడించు" />
+                    )}
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="font-telugu">
+                  <BilingualText english="All Staff" telugu="మొత్తం సిబ్బంది" />
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="font-telugu">
+                        <BilingualText english="Name" telugu="పేరు" />
+                      </TableHead>
+                      <TableHead className="font-telugu">
+                        <BilingualText english="Role" telugu="పాత్ర" />
+                      </TableHead>
+                      <TableHead className="font-telugu">
+                        <BilingualText english="Status" telugu="స్థితి" />
+                      </TableHead>
+                      <TableHead className="font-telugu">
+                        <BilingualText english="Actions" telugu="చర్యలు" />
+                      </TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {users?.map((user) => {
+                      const isSelf = user.id === currentUser?.id;
+                      return (
+                        <TableRow key={user.id}>
+                          <TableCell>
+                            <p className="font-medium">{user.fullName || user.username}</p>
+                            <p className="text-sm text-gray-600">@{user.username}</p>
+                          </TableCell>
+                          <TableCell>
+                            {isSelf ? (
+                              getRoleLabel(user.role)
+                            ) : (
+                              <Select
+                                value={user.role}
+                                onValueChange={(value: UserRole) => updateUserMutation.mutate({ id: user.id, data: { role: value } })}
+                              >
+                                <SelectTrigger className="w-48">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {roleOptions.map((role) => (
+                                    <SelectItem key={role.value} value={role.value} className="font-telugu">
+                                      <BilingualText english={role.english} telugu={role.telugu} />
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {user.isActive ? (
+                              <Badge className="bg-success text-white">Active</Badge>
+                            ) : (
+                              <Badge className="bg-gray-500 text-white">Disabled</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex space-x-1">
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleResetPassword(user)}
+                                className="p-2"
+                                title="Reset Password"
+                              >
+                                <KeyRound className="w-3 h-3" />
+                              </Button>
+
+                              {!isSelf && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => updateUserMutation.mutate({ id: user.id, data: { isActive: !user.isActive } })}
+                                  className={user.isActive
+                                    ? "p-2 text-destructive hover:bg-destructive hover:text-white"
+                                    : "p-2 text-success hover:bg-success hover:text-white"}
+                                  title={user.isActive ? "Disable Account" : "Enable Account"}
+                                >
+                                  {user.isActive ? <UserX className="w-3 h-3" /> : <UserCheck className="w-3 h-3" />}
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="sessions">
+            <ActiveSessionsPanel enabled={open && activeTab === "sessions"} />
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+import { getQueryFn } from "@/lib/queryClient";
+import { hasPermission, type Permission } from "@shared/permissions";
+import type { CurrentUser } from "@/lib/types";
+
+export function useCurrentUser() {
+  const { data, isLoading } = useQuery<{ user: CurrentUser } | null>({
+    queryKey: ["/api/auth/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const user = data?.user ?? null;
+
+  return {
+    user,
+    isLoading,
+    can: (permission: Permission) => hasPermission(user?.role, permission),
+  };
+}
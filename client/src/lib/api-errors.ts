@@ -0,0 +1,9 @@
+// Rejected requests come back as "400: {"message": ...}" with the server's explanation
+export function badRequestMessage(error: unknown): string | null {
+  if (!(error instanceof Error) || !error.message.startsWith("400: ")) return null;
+  try {
+    return JSON.parse(error.message.slice(5)).message ?? null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,74 @@
+import jsPDF from "jspdf";
+import autoTable from "jspdf-autotable";
+import type { CompanyStatement } from "@/lib/types";
+import { lastTableBottom } from "@/lib/pdf-tables";
+
+// jsPDF's built-in fonts have no rupee sign
+const rs = (amount: string) => `Rs ${parseFloat(amount).toLocaleString('en-IN', { minimumFractionDigits: 2 })}`;
+const formatDate = (date: string | null) => (date ? new Date(date).toLocaleDateString('en-IN') : '-');
+
+export function downloadCompanyStatementPdf(statement: CompanyStatement, lodgeName: string) {
+  const doc = new jsPDF();
+  const { account } = statement;
+
+  doc.setFontSize(16);
+  doc.text(lodgeName, 20, 20);
+  doc.setFontSize(14);
+  doc.text("STATEMENT OF ACCOUNT", 190, 20, { align: "right" });
+  doc.setFontSize(10);
+  doc.text(`Period: ${statement.from ? formatDate(statement.from) : 'Start'} to ${statement.to ? formatDate(statement.to) : formatDate(new Date().toISOString())}`, 190, 27, { align: "right" });
+
+  // Company
+  let y = 38;
+  doc.setFontSize(11);
+  doc.text(account.name, 20, y);
+  doc.setFontSize(10);
+  y += 6;
+  if (account.gstin) {
+    doc.text(`GSTIN: ${account.gstin}`, 20, y);
+    y += 5;
+  }
+  if (account.billingAddress) {
+    doc.splitTextToSize(account.billingAddress, 110).forEach((line: string) => {
+      doc.text(line, 20, y);
+      y += 5;
+    });
+  }
+  if (account.contactName || account.phoneNumber) {
+    doc.text([account.contactName, account.phoneNumber].filter(Boolean).join(' - '), 20, y);
+    y += 5;
+  }
+
+  autoTable(doc, {
+    head: [['Date', 'Particulars', 'Debit', 'Credit', 'Balance']],
+    body: [
+      ['', 'Opening balance', '', '', rs(statement.openingBalance)],
+      ...statement.entries.map((entry) => [
+        formatDate(entry.date),
+        entry.description,
+        parseFloat(entry.debit) > 0 ? rs(entry.debit) : '',
+        parseFloat(entry.credit) > 0 ? rs(entry.credit) : '',
+        rs(entry.balance),
+      ]),
+      ['', 'Closing balance', rs(statement.totalBilled), rs(statement.totalCredited), rs(statement.closingBalance)],
+    ],
+    startY: y + 6,
+    styles: { fontSize: 9, cellPadding: 2 },
+    headStyles: { fillColor: [75, 85, 99] },
+    columnStyles: { 0: { cellWidth: 22 }, 2: { halign: 'right' }, 3: { halign: 'right' }, 4: { halign: 'right' } },
+    didParseCell: (data) => {
+      if (data.section === 'body' && (data.row.index === 0 || data.row.index === statement.entries.length + 1)) {
+        data.cell.styles.fontStyle = 'bold';
+      }
+    },
+  });
+
+  y = lastTableBottom(doc) + 10;
+  doc.setFontSize(11);
+  doc.text(`Amount due: ${rs(statement.closingBalance)}`, 190, y, { align: "right" });
+
+  doc.setFontSize(8);
+  doc.text("This is a computer-generated statement.", 20, doc.internal.pageSize.height - 10);
+
+  doc.save(`statement_${account.name.replace(/[^a-z0-9]+/gi, '_')}_${new Date().toISOString().split('T')[0]}.pdf`);
+}
@@ -0,0 +1,29 @@
+// Changes to a closed business day come back as "423: {"message": ...}"
+export function dayLockMessage(error: unknown): string | null {
+  if (!(error instanceof Error) || !error.message.startsWith("423: ")) return null;
+  try {
+    return JSON.parse(error.message.slice(5)).message ?? "This business day is closed";
+  } catch {
+    return "This business day is closed";
+  }
+}
+
+/**
+ * Sends a change and, if it lands on a closed day, lets a manager retry it
+ * with a reason for the override. Anyone else gets the original error.
+ */
+export async function withDayLockOverride<T>(
+  send: (overrideReason?: string) => Promise<T>,
+  canOverride: boolean,
+): Promise<T> {
+  try {
+    return await send();
+  } catch (error) {
+    const message = dayLockMessage(error);
+    if (!message || !canOverride) throw error;
+
+    const reason = prompt(`${message}\n\nReason for changing a closed day:`);
+    if (!reason || reason.trim().length < 3) throw error;
+    return await send(reason.trim());
+  }
+}
@@ -0,0 +1,25 @@
+import type { ExpenseCategory, ExpensePaymentMode } from "@shared/schema";
+
+export const EXPENSE_CATEGORY_LABELS: Record<ExpenseCategory, { english: string; telugu: string }> = {
+  electricity: { english: "Electricity", telugu: "విద్యుత్" },
+  water: { english: "Water", telugu: "నీరు" },
+  laundry: { english: "Laundry Vendor", telugu: "లాండ్రీ" },
+  salaries: { english: "Salaries", telugu: "జీతాలు" },
+  repairs: { english: "Repairs", telugu: "మరమ్మతులు" },
+  supplies: { english: "Supplies", telugu: "సామాగ్రి" },
+  food: { english: "Food & Kitchen", telugu: "ఆహారం" },
+  rent: { english: "Rent", telugu: "అద్దె" },
+  taxes: { english: "Taxes & Fees", telugu: "పన్నులు" },
+  other: { english: "Other", telugu: "ఇతర" },
+};
+
+export const EXPENSE_MODE_LABELS: Record<ExpensePaymentMode, string> = {
+  cash: "Cash",
+  upi: "UPI",
+  card: "Card",
+  bank_transfer: "Bank Transfer",
+  cheque: "Cheque",
+};
+
+export const expenseCategoryLabel = (category: string) =>
+  EXPENSE_CATEGORY_LABELS[category as ExpenseCategory]?.english ?? category;
@@ -0,0 +1,13 @@
+import type { HousekeepingStatus } from "@shared/schema";
+
+export const HOUSEKEEPING_STATUS_LABELS: Record<HousekeepingStatus, { english: string; telugu: string }> = {
+  dirty: { english: "Dirty", telugu: "శుభ్రం చేయాలి" },
+  clean: { english: "Cleaned", telugu: "శుభ్రం చేశారు" },
+  inspected: { english: "Inspected", telugu: "తనిఖీ అయింది" },
+};
+
+export const HOUSEKEEPING_BADGE_CLASSES: Record<HousekeepingStatus, string> = {
+  dirty: "bg-orange-100 text-orange-800 border-orange-300",
+  clean: "bg-sky-100 text-sky-800 border-sky-300",
+  inspected: "bg-green-100 text-green-800 border-green-300",
+};
@@ -0,0 +1,7 @@
+import type jsPDF from "jspdf";
+
+// jspdf-autotable keeps the last table it drew on the document, which its typings leave out
+type DocWithTables = jsPDF & { lastAutoTable: { finalY: number } };
+
+// Y position of the bottom edge of the last table drawn
+export const lastTableBottom = (doc: jsPDF) => (doc as DocWithTables).lastAutoTable.finalY;
@@ -0,0 +1,53 @@
+import jsPDF from "jspdf";
+import autoTable from "jspdf-autotable";
+import type { AgingBucket, ReceivablesReport } from "@/lib/types";
+
+// jsPDF's built-in fonts have no rupee sign
+const rs = (amount: string) => `Rs ${parseFloat(amount).toLocaleString('en-IN', { minimumFractionDigits: 2 })}`;
+
+const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+  "0-7": "0-7 days",
+  "8-30": "8-30 days",
+  "31-90": "31-90 days",
+  "90+": "Over 90 days",
+};
+
+const BUCKETS = Object.keys(AGING_BUCKET_LABELS) as AgingBucket[];
+
+export function downloadReceivablesPdf(report: ReceivablesReport, lodgeName: string) {
+  const doc = new jsPDF({ orientation: "landscape" });
+
+  doc.setFontSize(16);
+  doc.text(lodgeName, 20, 20);
+  doc.setFontSize(14);
+  doc.text("OUTSTANDING DUES", 277, 20, { align: "right" });
+  doc.setFontSize(10);
+  doc.text(`As of ${new Date(report.asOf).toLocaleDateString('en-IN')}`, 277, 27, { align: "right" });
+
+  autoTable(doc, {
+    head: [['Account', 'Contact', ...BUCKETS.map((bucket) => AGING_BUCKET_LABELS[bucket]), 'Total']],
+    body: [
+      ...report.accounts.map((account) => [
+        `${account.name}${account.type === "company" ? ' (Company)' : ''}\n${account.items.map((item) => item.roomNumber ? `Room ${item.roomNumber}` : item.guestName).join(', ')}`,
+        [account.contactName, account.phoneNumber, account.email].filter(Boolean).join('\n') || '-',
+        ...BUCKETS.map((bucket) => (parseFloat(account.buckets[bucket]) > 0 ? rs(account.buckets[bucket]) : '')),
+        rs(account.total),
+      ]),
+      ['Total', '', ...BUCKETS.map((bucket) => rs(report.buckets[bucket])), rs(report.total)],
+    ],
+    startY: 34,
+    styles: { fontSize: 9, cellPadding: 2 },
+    headStyles: { fillColor: [75, 85, 99] },
+    columnStyles: { 0: { cellWidth: 70 }, 1: { cellWidth: 55 }, 2: { halign: 'right' }, 3: { halign: 'right' }, 4: { halign: 'right' }, 5: { halign: 'right' }, 6: { halign: 'right' } },
+    didParseCell: (data) => {
+      if (data.section === 'body' && data.row.index === report.accounts.length) {
+        data.cell.styles.fontStyle = 'bold';
+      }
+    },
+  });
+
+  doc.setFontSize(8);
+  doc.text("Stays are aged from their checkout date, company bills from the day they were billed.", 20, doc.internal.pageSize.height - 10);
+
+  doc.save(`outstanding_dues_${new Date().toISOString().split('T')[0]}.pdf`);
+}
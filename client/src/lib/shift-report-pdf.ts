@@ -0,0 +1,135 @@
+import jsPDF from "jspdf";
+import autoTable from "jspdf-autotable";
+import type { ShiftReport } from "@/lib/types";
+import { lastTableBottom } from "@/lib/pdf-tables";
+import { paymentMethodLabel } from "@shared/payments";
+
+// jsPDF's built-in fonts have no rupee sign
+const rs = (amount: string) => `Rs ${parseFloat(amount).toLocaleString('en-IN', { minimumFractionDigits: 2 })}`;
+const formatTime = (date: string | Date | null) => (date ? new Date(date).toLocaleString('en-IN') : '-');
+
+const kindLabel = (kind: string) => (kind === "refund" ? "Refund" : kind === "void" ? "Void" : "Receipt");
+
+export function downloadShiftReportPdf(report: ShiftReport, lodgeName: string) {
+  const doc = new jsPDF();
+  const { shift } = report;
+
+  doc.setFontSize(16);
+  doc.text(lodgeName, 20, 20);
+  doc.setFontSize(14);
+  doc.text("SHIFT HANDOVER", 190, 20, { align: "right" });
+  doc.setFontSize(10);
+  doc.text(`Cashier: ${shift.userName}`, 20, 30);
+  doc.text(`Opened: ${formatTime(shift.openedAt)}`, 20, 35);
+  doc.text(`Closed: ${shift.closedAt ? `${formatTime(shift.closedAt)} by ${shift.closedByName ?? '-'}` : 'Still open'}`, 20, 40);
+
+  autoTable(doc, {
+    head: [['Cash drawer', 'Amount']],
+    body: [
+      ['Opening float', rs(shift.openingFloat)],
+      ['Cash received', rs(report.cashReceived)],
+      ['Cash refunded or voided', `- ${rs(report.cashPaidOut)}`],
+      ['Cash deposits collected', rs(report.depositsIn)],
+      ['Cash deposits handed back', `- ${rs(report.depositsOut)}`],
+      ['Cash expenses paid', `- ${rs(report.cashExpenses)}`],
+      ['Expected in drawer', rs(shift.expectedCash ?? report.expectedCash)],
+      ...(shift.countedCash !== null ? [
+        ['Counted', rs(shift.countedCash)],
+        ['Variance', rs(shift.variance ?? "0")],
+      ] : []),
+    ],
+    startY: 46,
+    styles: { fontSize: 9, cellPadding: 2 },
+    headStyles: { fillColor: [75, 85, 99] },
+    columnStyles: { 1: { halign: 'right' } },
+    didParseCell: (data) => {
+      if (data.section === 'body' && data.row.index >= 6) {
+        data.cell.styles.fontStyle = 'bold';
+      }
+    },
+  });
+
+  const methods = Object.entries(report.byMethod);
+  if (methods.length > 0) {
+    autoTable(doc, {
+      head: [['Takings by method', 'Net']],
+      body: methods.map(([method, amount]) => [paymentMethodLabel(method), rs(amount)]),
+      startY: lastTableBottom(doc) + 6,
+      styles: { fontSize: 9, cellPadding: 2 },
+      headStyles: { fillColor: [75, 85, 99] },
+      columnStyles: { 1: { halign: 'right' } },
+    });
+  }
+
+  autoTable(doc, {
+    head: [['Time', 'Guest', 'Room', 'Type', 'Method', 'Amount']],
+    body: report.payments.length > 0
+      ? report.payments.map((payment) => [
+          formatTime(payment.paidAt),
+          payment.guestName,
+          payment.roomNumber ?? '-',
+          payment.fromDeposit ? 'From deposit' : kindLabel(payment.kind),
+          paymentMethodLabel(payment.paymentMethod),
+          `${payment.kind === "receipt" ? '' : '- '}${rs(payment.amount)}`,
+        ])
+      : [['', 'No payments this shift', '', '', '', '']],
+    startY: lastTableBottom(doc) + 6,
+    styles: { fontSize: 9, cellPadding: 2 },
+    headStyles: { fillColor: [75, 85, 99] },
+    columnStyles: { 0: { cellWidth: 36 }, 5: { halign: 'right' } },
+  });
+
+  if (report.deposits.length > 0) {
+    autoTable(doc, {
+      head: [['Time', 'Guest', 'Room', 'Deposit', 'Method', 'Amount']],
+      body: report.deposits.map((movement) => [
+        formatTime(movement.at),
+        movement.guestName,
+        movement.roomNumber ?? '-',
+        movement.direction === "in" ? 'Collected' : 'Handed back',
+        paymentMethodLabel(movement.paymentMethod),
+        `${movement.direction === "in" ? '' : '- '}${rs(movement.amount)}`,
+      ]),
+      startY: lastTableBottom(doc) + 6,
+      styles: { fontSize: 9, cellPadding: 2 },
+      headStyles: { fillColor: [75, 85, 99] },
+      columnStyles: { 0: { cellWidth: 36 }, 5: { halign: 'right' } },
+    });
+  }
+
+  if (report.expenses.length > 0) {
+    autoTable(doc, {
+      head: [['Date', 'Expense', 'Paid to', 'Amount']],
+      body: report.expenses.map((expense) => [
+        new Date(`${expense.paidOn}T00:00:00`).toLocaleDateString('en-IN'),
+        expense.description,
+        expense.payee ?? '-',
+        `- ${rs(expense.amount)}`,
+      ]),
+      startY: lastTableBottom(doc) + 6,
+      styles: { fontSize: 9, cellPadding: 2 },
+      headStyles: { fillColor: [75, 85, 99] },
+      columnStyles: { 0: { cellWidth: 36 }, 3: { halign: 'right' } },
+    });
+  }
+
+  let y = lastTableBottom(doc) + 8;
+  doc.setFontSize(10);
+  [shift.openingNotes && `Opening notes: ${shift.openingNotes}`, shift.closingNotes && `Closing notes: ${shift.closingNotes}`]
+    .filter((note): note is string => !!note)
+    .forEach((note) => {
+      doc.splitTextToSize(note, 170).forEach((line: string) => {
+        doc.text(line, 20, y);
+        y += 5;
+      });
+    });
+
+  y += 15;
+  doc.text("Handed over by", 20, y);
+  doc.text("Received by", 130, y);
+
+  doc.setFontSize(8);
+  doc.text("This is a computer-generated report.", 20, doc.internal.pageSize.height - 10);
+
+  doc.save(`shift_${shift.userName.replace(/[^a-z0-9]+/gi, '_')}_${new Date(shift.openedAt).toISOString().split('T')[0]}.pdf`);
+}
@@ -0,0 +1,15 @@
+// Labels and badge colours for guest stay statuses, shared by the guest list and details modal
+export const stayStatusLabels: Record<string, { english: string; telugu: string; className: string }> = {
+  reserved: { english: "Reserved", telugu: "రిజర్వ్ చేయబడింది", className: "bg-amber-500 text-white" },
+  confirmed: { english: "Confirmed", telugu: "నిర్ధారించబడింది", className: "bg-primary text-white" },
+  active: { english: "Active", telugu: "సక్రియం", className: "bg-success text-white" },
+  checked_out: { english: "Checked Out", telugu: "చెక్-అవుట్", className: "bg-gray-500 text-white" },
+  no_show: { english: "No Show", telugu: "రాలేదు", className: "bg-red-400 text-white" },
+  cancelled: { english: "Cancelled", telugu: "రద్దు చేయబడింది", className: "bg-red-600 text-white" },
+};
+
+export function getStayStatus(status: string) {
+  return stayStatusLabels[status] || { english: status, telugu: status, className: "bg-gray-500 text-white" };
+}
+
+export const isReservation = (status: string) => status === "reserved" || status === "confirmed";
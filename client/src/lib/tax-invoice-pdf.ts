@@ -0,0 +1,115 @@
+import jsPDF from "jspdf";
+import autoTable from "jspdf-autotable";
+import type { TaxInvoice } from "@/lib/types";
+import { lastTableBottom } from "@/lib/pdf-tables";
+import { paymentMethodLabel } from "@shared/payments";
+
+// jsPDF's built-in fonts have no rupee sign
+const rs = (amount: string) => `Rs ${parseFloat(amount).toLocaleString('en-IN', { minimumFractionDigits: 2 })}`;
+const formatDate = (date: string) => new Date(date).toLocaleDateString('en-IN');
+
+// Y position just below the last table drawn
+const afterTable = (doc: jsPDF) => lastTableBottom(doc) + 8;
+
+export function downloadTaxInvoicePdf(invoice: TaxInvoice) {
+  const doc = new jsPDF();
+  const { seller, buyer } = invoice;
+
+  // Seller
+  doc.setFontSize(16);
+  doc.text(seller.legalName || seller.name, 20, 20);
+  doc.setFontSize(10);
+  let y = 27;
+  if (seller.legalName && seller.legalName !== seller.name) {
+    doc.text(seller.name, 20, y);
+    y += 5;
+  }
+  doc.splitTextToSize(seller.address, 110).forEach((line: string) => {
+    doc.text(line, 20, y);
+    y += 5;
+  });
+  doc.text(`Phone: ${seller.contactNumber}`, 20, y);
+  if (seller.gstin) doc.text(`GSTIN: ${seller.gstin}`, 20, y + 5);
+
+  // Invoice details
+  doc.setFontSize(14);
+  doc.text("TAX INVOICE", 190, 20, { align: "right" });
+  doc.setFontSize(10);
+  doc.text(`Invoice No: ${invoice.invoiceNumber}`, 190, 27, { align: "right" });
+  doc.text(`Date: ${formatDate(invoice.issuedAt)}`, 190, 32, { align: "right" });
+
+  // Buyer
+  y = Math.max(y + 15, 50);
+  doc.setFontSize(11);
+  doc.text("Bill To:", 20, y);
+  doc.setFontSize(10);
+  doc.text(buyer.name, 20, y + 6);
+  doc.text(`Phone: ${buyer.phoneNumber}`, 20, y + 11);
+  if (buyer.gstin) doc.text(`GSTIN: ${buyer.gstin}`, 20, y + 16);
+  doc.text(`Stay: ${formatDate(invoice.checkinDate)} to ${formatDate(invoice.checkoutDate)}`, 190, y + 6, { align: "right" });
+
+  // Line items
+  autoTable(doc, {
+    head: [['Description', 'SAC', 'Qty', 'Rate', 'Amount', 'GST %']],
+    body: invoice.lines.map((line) => [
+      line.description,
+      line.sacCode,
+      String(line.quantity),
+      rs(line.unitPrice),
+      rs(line.amount),
+      `${parseFloat(line.taxRate)}%`,
+    ]),
+    startY: y + 24,
+    styles: { fontSize: 9, cellPadding: 2 },
+    headStyles: { fillColor: [75, 85, 99] },
+    columnStyles: { 2: { halign: 'right' }, 3: { halign: 'right' }, 4: { halign: 'right' }, 5: { halign: 'right' } },
+  });
+
+  // Totals, with the GST split as charged; rates are per line above
+  const totals: [string, string][] = [];
+  if (parseFloat(invoice.discountAmount) > 0) totals.push(['Less: Room Discount', `- ${rs(invoice.discountAmount)}`]);
+  totals.push(['Taxable Value', rs(invoice.taxableAmount)]);
+  if (parseFloat(invoice.igstAmount) > 0) {
+    totals.push(['IGST', rs(invoice.igstAmount)]);
+  } else {
+    totals.push(['CGST', rs(invoice.cgstAmount)]);
+    totals.push(['SGST', rs(invoice.sgstAmount)]);
+  }
+  totals.push(['Invoice Total', rs(invoice.totalAmount)]);
+
+  autoTable(doc, {
+    body: totals,
+    startY: afterTable(doc),
+    margin: { left: 110 },
+    styles: { fontSize: 9, cellPadding: 2 },
+    columnStyles: { 1: { halign: 'right' } },
+    didParseCell: (data) => {
+      if (data.row.index === totals.length - 1) data.cell.styles.fontStyle = 'bold';
+    },
+  });
+
+  // Payments received against the stay, with refunds and voids shown as deductions
+  if (invoice.payments.length > 0) {
+    autoTable(doc, {
+      head: [['Payment Date', 'Method', 'Amount']],
+      body: invoice.payments.map((payment) => [
+        payment.paidAt ? formatDate(payment.paidAt) : '-',
+        payment.kind === 'receipt' ? paymentMethodLabel(payment.paymentMethod) : `${paymentMethodLabel(payment.paymentMethod)} (${payment.kind.toUpperCase()})`,
+        payment.kind === 'receipt' ? rs(payment.amount) : `- ${rs(payment.amount)}`,
+      ]),
+      startY: afterTable(doc),
+      styles: { fontSize: 9, cellPadding: 2 },
+      headStyles: { fillColor: [75, 85, 99] },
+      columnStyles: { 2: { halign: 'right' } },
+    });
+  }
+
+  y = afterTable(doc);
+  doc.text(`Paid: ${rs(invoice.paidAmount)}`, 20, y);
+  doc.text(`Balance Due: ${rs(invoice.balanceDue)}`, 190, y, { align: "right" });
+
+  doc.setFontSize(8);
+  doc.text("This is a computer-generated invoice.", 20, doc.internal.pageSize.height - 10);
+
+  doc.save(`${invoice.invoiceNumber.replace(/\//g, '-')}.pdf`);
+}
@@ -1,3 +1,7 @@
+import type { User, GuestProfile, Payment, StatementImport, StatementLine, CompanyAccount, SecurityDeposit, DepositDeduction, DailySummary, DayLockOverride, CashierShift, Expense, NightlyRate, HousekeepingStatus } from "@shared/schema";
+
+export type CurrentUser = Omit<User, "password">;
+
 export interface DashboardStats {
   availableRooms: number;
   occupiedRooms: number;
@@ -5,10 +9,21 @@ export interface DashboardStats {
   todayRevenue: number;
   totalRooms: number;
   activeGuests: number;
+  roomTypes: RoomTypeOccupancy[];
+}
+
+export interface RoomTypeOccupancy {
+  roomTypeId: string;
+  nameEnglish: string;
+  nameTelugu: string | null;
+  totalRooms: number;
+  occupiedRooms: number;
+  availableRooms: number;
 }
 
 export interface GuestWithRoom {
   id: string;
+  profileId: string | null;
   name: string;
   phoneNumber: string;
   aadharNumber: string;
@@ -20,9 +35,21 @@ export interface GuestWithRoom {
   numberOfGuests: number;
   totalDays: number;
   baseAmount: string;
+  nightlyRates: NightlyRate[];
+  discountPercentage: string;
   discountAmount: string;
+  gstin: string | null;
+  taxRate: string;
+  cgstAmount: string;
+  sgstAmount: string;
+  igstAmount: string;
+  taxAmount: string;
+  chargesAmount: string;
   totalAmount: string;
   status: string;
+  checkedInAt?: string | null;
+  cancellationReason?: string | null;
+  cancelledAt?: string | null;
   createdAt: string;
   room?: {
     roomNumber: string;
@@ -38,6 +65,12 @@ export interface PaymentWithGuest {
   status: string;
   createdAt: string;
   paidAt: string | null;
+  kind: string; // 'receipt', 'refund', 'void'
+  reversesPaymentId: string | null;
+  reason: string | null;
+  recordedByName: string | null;
+  companyAccountId: string | null; // billed to, or credited back to, this company
+  companySettlementId: string | null;
   guest?: {
     name: string;
     phoneNumber: string;
@@ -46,3 +79,305 @@ export interface PaymentWithGuest {
     roomNumber: string;
   };
 }
+
+// Response of GET /api/guests/:id/payments; only paid rows count towards paidAmount
+export interface StayPayments {
+  payments: Payment[];
+  totalAmount: string;
+  paidAmount: string;
+  balanceDue: string;
+}
+
+export interface UpiPaymentRequest {
+  upiUri: string;
+  qrDataUrl: string;
+  reference: string;
+  amount: string;
+  payeeVpa: string;
+  payeeName: string;
+}
+
+export interface ReconciliationCandidate {
+  paymentId: string;
+  guestId: string;
+  guestName: string;
+  roomNumber: string | null;
+  amount: string;
+  upiReference: string | null;
+}
+
+export interface ReconciliationReport {
+  statementImport: StatementImport;
+  summary: {
+    credits: number;
+    matched: number;
+    confirmed: number;
+    ambiguous: number;
+    unmatched: number;
+    ignored: number;
+    duplicate: number;
+    reconciledAmount: string;
+    unreconciledAmount: string;
+  };
+  lines: (StatementLine & { candidates: ReconciliationCandidate[]; guestName: string | null })[];
+}
+
+// GET /api/company-accounts adds what each company still owes
+export type CompanyAccountWithBalance = CompanyAccount & { outstanding: string };
+
+export interface CompanyBill {
+  paymentId: string;
+  guestId: string;
+  guestName: string;
+  roomNumber: string | null;
+  billedAt: string | null;
+  amount: string;
+  outstanding: string;
+}
+
+export interface CompanyLedgerEntry {
+  date: string | null;
+  type: "bill" | "credit" | "settlement";
+  description: string;
+  debit: string;
+  credit: string;
+  balance: string;
+}
+
+export interface CompanyStatement {
+  account: CompanyAccount;
+  from: string | null;
+  to: string | null;
+  openingBalance: string;
+  entries: CompanyLedgerEntry[];
+  closingBalance: string;
+  totalBilled: string;
+  totalCredited: string;
+  openBills: CompanyBill[];
+}
+
+export interface DepositWithDeductions extends SecurityDeposit {
+  deductions: DepositDeduction[];
+  deductedAmount: string;
+  heldAmount: string;
+}
+
+// GET /api/deposits/held adds whose stay each deposit belongs to
+export interface HeldDeposit extends DepositWithDeductions {
+  guestName: string;
+  roomNumber: string | null;
+  guestStatus: string | null;
+}
+
+export interface NightAuditPosting {
+  guestId: string;
+  roomId: string | null;
+  businessDate: string;
+  amount: string;
+  guestName: string;
+  roomNumber: string | null;
+}
+
+// GET /api/night-audit: the next day to close, what closing it would record, and recent closes
+export interface NightAuditOverview {
+  nextBusinessDate: string | null;
+  preview: {
+    summary: Omit<DailySummary, "id" | "closedAt" | "closedBy" | "closedByName">;
+    postings: NightAuditPosting[];
+  } | null;
+  summaries: DailySummary[];
+}
+
+export interface ClosedBusinessDay {
+  summary: DailySummary;
+  overrides: DayLockOverride[];
+}
+
+export interface ShiftPayment extends Payment {
+  guestName: string;
+  roomNumber: string | null;
+  fromDeposit: boolean;
+}
+
+export interface ShiftDepositMovement {
+  depositId: string;
+  guestName: string;
+  roomNumber: string | null;
+  direction: "in" | "out";
+  amount: string;
+  paymentMethod: string;
+  at: string | null;
+}
+
+// GET /api/shifts/:id/report; also the open shift's running totals from /api/shifts/current
+export interface ShiftReport {
+  shift: CashierShift;
+  payments: ShiftPayment[];
+  deposits: ShiftDepositMovement[];
+  expenses: Expense[];
+  byMethod: Record<string, string>;
+  cashReceived: string;
+  cashPaidOut: string;
+  depositsIn: string;
+  depositsOut: string;
+  cashExpenses: string;
+  expectedCash: string;
+}
+
+// GET /api/reports/profit-loss, newest month first
+export interface ProfitAndLossMonth {
+  month: string; // YYYY-MM
+  revenue: string;
+  expensesByCategory: Record<string, string>;
+  totalExpenses: string;
+  netProfit: string;
+}
+
+export type AgingBucket = "0-7" | "8-30" | "31-90" | "90+";
+
+export interface ReceivableItem {
+  guestId: string;
+  guestName: string;
+  roomNumber: string | null;
+  companyBillId: string | null;
+  dueSince: string;
+  ageDays: number;
+  bucket: AgingBucket;
+  amount: string;
+}
+
+export interface ReceivableAccount {
+  type: "guest" | "company";
+  id: string;
+  name: string;
+  contactName: string | null;
+  phoneNumber: string | null;
+  email: string | null;
+  items: ReceivableItem[];
+  buckets: Record<AgingBucket, string>;
+  total: string;
+  oldestAgeDays: number;
+}
+
+// GET /api/receivables, oldest debt first
+export interface ReceivablesReport {
+  asOf: string;
+  buckets: Record<AgingBucket, string>;
+  total: string;
+  accounts: ReceivableAccount[];
+}
+
+export interface ActiveSession {
+  sessionKey: string;
+  userId: string;
+  username?: string;
+  fullName?: string | null;
+  role?: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  loginAt: string | null;
+  lastActivityAt: string | null;
+  expiresAt: string;
+  isCurrent: boolean;
+}
+
+// Response of POST /api/quotes; amounts are decimal strings
+export interface StayQuote {
+  totalDays: number;
+  nightlyRates: NightlyRate[];
+  stayDiscount: { name: string; percentage: string } | null;
+  baseAmount: string;
+  discountPercentage: string;
+  discountAmount: string;
+  taxRate: string;
+  cgstAmount: string;
+  sgstAmount: string;
+  igstAmount: string;
+  taxAmount: string;
+  totalAmount: string;
+}
+
+// Response of POST /api/guests/:id/invoice
+export interface TaxInvoice {
+  invoiceNumber: string;
+  issuedAt: string;
+  seller: {
+    name: string;
+    legalName: string | null;
+    address: string;
+    contactNumber: string;
+    gstin: string | null;
+  };
+  buyer: {
+    name: string;
+    phoneNumber: string;
+    gstin: string | null;
+  };
+  checkinDate: string;
+  checkoutDate: string;
+  lines: { description: string; sacCode: string; quantity: number; unitPrice: string; amount: string; taxRate: string }[];
+  discountAmount: string;
+  taxableAmount: string;
+  cgstAmount: string;
+  sgstAmount: string;
+  igstAmount: string;
+  taxAmount: string;
+  totalAmount: string;
+  revisedTotalAmount: string | null; // set when the stay's total has changed since the invoice was issued
+  payments: { paidAt: string | null; paymentMethod: string; amount: string; kind: string }[];
+  paidAmount: string;
+  balanceDue: string;
+}
+
+export interface ReturningGuestLookup {
+  profile: GuestProfile;
+  stayCount: number;
+  lastStayAt: string | null;
+}
+
+export interface GuestProfileHistory {
+  profile: GuestProfile;
+  stays: (Omit<GuestWithRoom, "room"> & { roomNumber: string | null })[];
+  stayCount: number;
+  totalSpend: string;
+}
+
+// GET /api/rooms/consistency and POST /api/rooms/consistency/repair
+export interface RoomStatusReport {
+  checkedAt: string;
+  roomsChecked: number;
+  mismatches: {
+    roomId: string;
+    roomNumber: string;
+    storedStatus: string;
+    derivedStatus: "available" | "occupied" | "maintenance";
+    guestId: string | null;
+    guestName: string | null;
+  }[];
+  repaired: boolean;
+}
+
+// GET /api/maintenance-tickets/history
+export interface RoomMaintenanceHistory {
+  roomId: string;
+  roomNumber: string;
+  roomType: string;
+  ticketCount: number;
+  openCount: number;
+  recentCount: number;
+  daysOutOfService: number;
+  lastIssue: string;
+  lastReportedAt: string | null;
+}
+
+// GET /api/housekeeping/tasks
+export interface HousekeepingTask {
+  roomId: string;
+  roomNumber: string;
+  roomType: string;
+  housekeepingStatus: HousekeepingStatus;
+  since: string | null;
+  updatedBy: string | null;
+  occupancy: "available" | "occupied" | "maintenance";
+  arrivalToday: boolean;
+}
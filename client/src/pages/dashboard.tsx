@@ -1,11 +1,19 @@
 import { useState, useEffect, useMemo } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { BilingualText } from "@/components/bilingual-text";
 import { GuestRegistrationModal } from "@/components/guest-registration-modal";
 import { PaymentModal } from "@/components/payment-modal";
+import { PaymentReversalModal } from "@/components/payment-reversal-modal";
+import { StatementReconciliationModal } from "@/components/statement-reconciliation-modal";
+import { CompanyAccountsModal } from "@/components/company-accounts-modal";
+import { ReceivablesModal } from "@/components/receivables-modal";
+import { NightAuditModal } from "@/components/night-audit-modal";
+import { CashierShiftModal } from "@/components/cashier-shift-modal";
+import { ExpensesModal } from "@/components/expenses-modal";
 import { GuestDetailsModal } from "@/components/guest-details-modal";
 import { EditGuestModal } from "@/components/edit-guest-modal";
 import { SettingsModal } from "@/components/settings-modal";
@@ -13,10 +21,18 @@ import { RoomManagementModal } from "@/components/room-management-modal";
 import { RevenueChart } from "@/components/revenue-chart";
 import { RoomGrid } from "@/components/room-grid";
 import { SMSPanel } from "@/components/sms-panel";
+import { UserManagementModal } from "@/components/user-management-modal";
+import { AuditLogModal } from "@/components/audit-log-modal";
 import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
 import { apiRequest } from "@/lib/queryClient";
-import type { DashboardStats, GuestWithRoom, PaymentWithGuest } from "@/lib/types";
+import { badRequestMessage } from "@/lib/api-errors";
+import type { DashboardStats, GuestWithRoom, HeldDeposit, PaymentWithGuest, ProfitAndLossMonth, ShiftReport } from "@/lib/types";
+import { EXPENSE_CATEGORY_LABELS, expenseCategoryLabel } from "@/lib/expense-labels";
+import { getStayStatus } from "@/lib/stay-status";
 import type { Room, LodgeSettings } from "@shared/schema";
+import { isReversal, netPaymentPaise, paymentMethodLabel, summarisePaymentMethods, PAYMENT_METHOD_LABELS } from "@shared/payments";
+import { formatRupees, paiseToNumber, sumPaise, toPaise } from "@shared/money";
 import { 
   Hotel, 
   Settings, 
@@ -34,7 +50,20 @@ import {
   Clock,
   CreditCard,
   QrCode,
-  Download
+  Download,
+  UserCog,
+  History,
+  LogIn,
+  XCircle,
+  Undo2,
+  FileCheck,
+  Building2,
+  KeyRound,
+  Moon,
+  Wallet,
+  ReceiptIndianRupee,
+  Hourglass,
+  Sparkles
 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -44,11 +73,31 @@ import Papa from "papaparse";
 import jsPDF from "jspdf";
 import autoTable from "jspdf-autotable";
 
+// Legend dots for the payment method breakdown
+const methodColors: Record<string, string> = {
+  cash: "bg-success",
+  qr: "bg-primary",
+  gpay: "bg-sky-500",
+  phonepe: "bg-violet-500",
+  paytm: "bg-cyan-500",
+  card: "bg-amber-500",
+  bank_transfer: "bg-slate-500",
+  company: "bg-purple-700",
+};
+
 export default function Dashboard() {
   const [activeTab, setActiveTab] = useState("dashboard");
   const [showGuestModal, setShowGuestModal] = useState(false);
   const [showPaymentModal, setShowPaymentModal] = useState(false);
   const [selectedPayment, setSelectedPayment] = useState<PaymentWithGuest | null>(null);
+  const [showReversalModal, setShowReversalModal] = useState(false);
+  const [reversalPayment, setReversalPayment] = useState<PaymentWithGuest | null>(null);
+  const [showReconciliationModal, setShowReconciliationModal] = useState(false);
+  const [showCompanyAccountsModal, setShowCompanyAccountsModal] = useState(false);
+  const [showReceivablesModal, setShowReceivablesModal] = useState(false);
+  const [showNightAuditModal, setShowNightAuditModal] = useState(false);
+  const [showShiftModal, setShowShiftModal] = useState(false);
+  const [showExpensesModal, setShowExpensesModal] = useState(false);
   const [guestSearch, setGuestSearch] = useState("");
   const [dateFromFilter, setDateFromFilter] = useState("");
   const [dateToFilter, setDateToFilter] = useState("");
@@ -58,8 +107,17 @@ export default function Dashboard() {
   const [selectedGuest, setSelectedGuest] = useState<GuestWithRoom | null>(null);
   const [showSettingsModal, setShowSettingsModal] = useState(false);
   const [showRoomManagementModal, setShowRoomManagementModal] = useState(false);
+  const [showUserManagementModal, setShowUserManagementModal] = useState(false);
+  const [showAuditLogModal, setShowAuditLogModal] = useState(false);
   const [analyticsDateRange, setAnalyticsDateRange] = useState("7");
   const { toast } = useToast();
+  const { user: currentUser, can } = useCurrentUser();
+  const [, setLocation] = useLocation();
+
+  // Housekeepers have their own task list rather than the front desk
+  useEffect(() => {
+    if (currentUser?.role === "housekeeper") setLocation("/housekeeping");
+  }, [currentUser?.role]);
 
   // Queries
   const { data: stats } = useQuery<DashboardStats>({
@@ -128,6 +186,20 @@ export default function Dashboard() {
     queryKey: ["/api/payments"],
   });
 
+  const { data: heldDeposits } = useQuery<HeldDeposit[]>({
+    queryKey: ["/api/deposits/held"],
+  });
+
+  const { data: currentShift } = useQuery<ShiftReport | null>({
+    queryKey: ["/api/shifts/current"],
+    enabled: can("payments:manage"),
+  });
+
+  const { data: profitAndLoss } = useQuery<ProfitAndLossMonth[]>({
+    queryKey: ["/api/reports/profit-loss"],
+    enabled: can("reports:view"),
+  });
+
   const handleLogout = async () => {
     try {
       await apiRequest("POST", "/api/auth/logout");
@@ -146,6 +218,11 @@ export default function Dashboard() {
     setShowPaymentModal(true);
   };
 
+  const handleReverseClick = (payment: PaymentWithGuest) => {
+    setReversalPayment(payment);
+    setShowReversalModal(true);
+  };
+
   const handleViewGuest = (guest: GuestWithRoom) => {
     setSelectedGuest(guest);
     setShowGuestDetailsModal(true);
@@ -157,6 +234,11 @@ export default function Dashboard() {
   };
 
   const handleCheckoutGuest = async (guest: GuestWithRoom) => {
+    const deposit = heldDepositByGuest.get(guest.id);
+    if (deposit && !confirm(`${formatRupees(deposit)} security deposit is still held. Release it from the guest's details first. Check out anyway?`)) {
+      return;
+    }
+
     try {
       const response = await apiRequest("PUT", `/api/guests/${guest.id}`, {
         status: "checked_out"
@@ -179,6 +261,39 @@ export default function Dashboard() {
     }
   };
 
+  const handleReservationAction = async (guest: GuestWithRoom, action: "confirm" | "check-in" | "cancel") => {
+    let body: { reason: string } | undefined;
+    if (action === "cancel") {
+      const reason = prompt(`Reason for cancelling ${guest.name}'s reservation`);
+      if (!reason) return;
+      body = { reason };
+    }
+
+    const messages = {
+      confirm: "Reservation confirmed",
+      "check-in": "Guest checked in successfully",
+      cancel: "Reservation cancelled",
+    };
+
+    try {
+      await apiRequest("POST", `/api/guests/${guest.id}/${action}`, body);
+      toast({
+        title: "Success",
+        description: messages[action],
+      });
+      // Refetch data
+      window.location.reload();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message.startsWith("409")
+          ? "The room is still occupied. Check out the previous guest first."
+          : badRequestMessage(error) ?? `Failed to ${action.replace("-", " ")} reservation`,
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleExportCSV = () => {
     try {
       if (filteredPayments.length === 0) {
@@ -196,9 +311,12 @@ export default function Dashboard() {
         'Guest Name': payment.guest?.name || 'N/A',
         'Phone Number': payment.guest?.phoneNumber || 'N/A',
         'Room': payment.room?.roomNumber || 'N/A',
-        'Amount (Rs)': parseFloat(payment.amount),
-        'Payment Method': payment.paymentMethod?.toUpperCase() || 'N/A',
+        'Type': payment.kind.toUpperCase(),
+        'Amount (Rs)': isReversal(payment) ? -parseFloat(payment.amount) : parseFloat(payment.amount),
+        'Payment Method': payment.paymentMethod ? paymentMethodLabel(payment.paymentMethod) : 'N/A',
         'Status': payment.status?.toUpperCase() || 'N/A',
+        'Reason': payment.reason || '',
+        'Recorded By': payment.recordedByName || '',
         'Paid At': payment.paidAt ? new Date(payment.paidAt).toLocaleDateString('en-IN') + ' ' + new Date(payment.paidAt).toLocaleTimeString('en-IN') : 'N/A',
         'Payment Created': new Date(payment.createdAt!).toLocaleDateString('en-IN')
       }));
@@ -230,6 +348,47 @@ export default function Dashboard() {
     }
   };
 
+  const formatMonth = (month: string) =>
+    new Date(`${month}-01T00:00:00`).toLocaleDateString('en-IN', { month: 'short', year: 'numeric' });
+
+  // One row per month with a column for each expense category
+  const handleExportProfitLossCSV = () => {
+    if (!profitAndLoss || profitAndLoss.length === 0) return;
+
+    try {
+      const csvData = profitAndLoss.map(month => ({
+        'Month': formatMonth(month.month),
+        'Revenue (Rs)': parseFloat(month.revenue),
+        ...Object.fromEntries(Object.entries(EXPENSE_CATEGORY_LABELS).map(([category, label]) => [
+          `${label.english} (Rs)`,
+          parseFloat(month.expensesByCategory[category] ?? "0"),
+        ])),
+        'Total Expenses (Rs)': parseFloat(month.totalExpenses),
+        'Net Profit (Rs)': parseFloat(month.netProfit),
+      }));
+
+      const csv = Papa.unparse(csvData);
+      const blob = new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8;' }); // BOM for proper Excel encoding
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.setAttribute('href', url);
+      link.setAttribute('download', `profit_loss_${new Date().toISOString().split('T')[0]}.csv`);
+      link.style.visibility = 'hidden';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('CSV export error:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export CSV. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleExportPDF = () => {
     try {
       if (filteredPayments.length === 0) {
@@ -252,16 +411,23 @@ export default function Dashboard() {
       doc.text(`Generated on: ${new Date().toLocaleDateString('en-IN')}`, 20, 30);
       
       // Summary statistics
-      const totalRevenue = filteredPaidPayments.reduce((sum, p) => sum + parseFloat(p.amount), 0);
-      const totalCash = filteredPaidPayments.filter(p => p.paymentMethod === 'cash').reduce((sum, p) => sum + parseFloat(p.amount), 0);
-      const totalQR = filteredPaidPayments.filter(p => p.paymentMethod === 'qr').reduce((sum, p) => sum + parseFloat(p.amount), 0);
-      const cashPercent = filteredPaidPayments.length ? Math.round((filteredPaidPayments.filter(p => p.paymentMethod === 'cash').length / filteredPaidPayments.length) * 100) : 0;
-      const qrPercent = filteredPaidPayments.length ? Math.round((filteredPaidPayments.filter(p => p.paymentMethod === 'qr').length / filteredPaidPayments.length) * 100) : 0;
+      // Refunds and voids are netted out of every total
+      const totalRevenue = paiseToNumber(filteredNetRevenuePaise);
+      const totalReversed = paiseToNumber(sumPaise(filteredPaidPayments.filter(isReversal).map(p => p.amount)));
       
       doc.text(`Total Payments: ${filteredPayments.length}`, 20, 40);
       doc.text(`Total Revenue: Rs ${totalRevenue.toLocaleString()}`, 20, 50);
-      doc.text(`Cash: Rs ${totalCash.toLocaleString()} (${cashPercent}%)`, 20, 60);
-      doc.text(`QR: Rs ${totalQR.toLocaleString()} (${qrPercent}%)`, 20, 70);
+      doc.text(`Refunds & Voids: Rs ${totalReversed.toLocaleString()}`, 110, 50);
+
+      // One line per method used, two to a row
+      filteredMethodSummary.forEach((summary, index) => {
+        doc.text(
+          `${paymentMethodLabel(summary.method)}: Rs ${summary.amount.toLocaleString()} (${summary.share}%)`,
+          index % 2 === 0 ? 20 : 110,
+          60 + Math.floor(index / 2) * 10,
+        );
+      });
+      const tableStartY = 65 + Math.ceil(filteredMethodSummary.length / 2) * 10;
       
       // Table data
       const tableData = filteredPayments.slice(0, 100).map(payment => [
@@ -269,15 +435,15 @@ export default function Dashboard() {
         (payment.guest?.name || 'N/A').substring(0, 15),
         payment.guest?.phoneNumber || 'N/A',
         payment.room?.roomNumber || 'N/A',
-        `Rs ${parseFloat(payment.amount).toLocaleString()}`,
-        payment.paymentMethod.toUpperCase(),
-        payment.status.toUpperCase()
+        `${isReversal(payment) ? '-' : ''}Rs ${parseFloat(payment.amount).toLocaleString()}`,
+        paymentMethodLabel(payment.paymentMethod),
+        isReversal(payment) ? payment.kind.toUpperCase() : payment.status.toUpperCase()
       ]);
 
       autoTable(doc, {
         head: [['Date', 'Guest', 'Phone', 'Room', 'Amount', 'Method', 'Status']],
         body: tableData,
-        startY: 85,
+        startY: tableStartY,
         styles: { fontSize: 8, cellPadding: 2 },
         headStyles: { fillColor: [75, 85, 99] },
         columnStyles: {
@@ -286,7 +452,7 @@ export default function Dashboard() {
           2: { cellWidth: 25 }, // Phone
           3: { cellWidth: 20 }, // Room
           4: { cellWidth: 30 }, // Amount
-          5: { cellWidth: 20 }, // Method
+          5: { cellWidth: 25 }, // Method
           6: { cellWidth: 20 }  // Status
         }
       });
@@ -296,6 +462,31 @@ export default function Dashboard() {
         doc.text(`Note: Showing first 100 of ${filteredPayments.length} payments`, 20, doc.internal.pageSize.height - 10);
       }
 
+      // Month by month profit & loss, for those who can see it
+      if (profitAndLoss && profitAndLoss.length > 0) {
+        doc.addPage();
+        doc.setFontSize(16);
+        doc.text('Profit & Loss', 20, 20);
+        autoTable(doc, {
+          head: [['Month', 'Revenue', 'Expenses', 'Net Profit', 'Largest Expenses']],
+          body: profitAndLoss.map(month => [
+            formatMonth(month.month),
+            `Rs ${parseFloat(month.revenue).toLocaleString()}`,
+            `Rs ${parseFloat(month.totalExpenses).toLocaleString()}`,
+            `Rs ${parseFloat(month.netProfit).toLocaleString()}`,
+            Object.entries(month.expensesByCategory)
+              .sort(([, a], [, b]) => toPaise(b) - toPaise(a))
+              .slice(0, 3)
+              .map(([category, amount]) => `${expenseCategoryLabel(category)} Rs ${parseFloat(amount).toLocaleString()}`)
+              .join(', '),
+          ]),
+          startY: 28,
+          styles: { fontSize: 8, cellPadding: 2 },
+          headStyles: { fillColor: [75, 85, 99] },
+          columnStyles: { 1: { halign: 'right' }, 2: { halign: 'right' }, 3: { halign: 'right' } },
+        });
+      }
+
       doc.save(`payments_${analyticsDateRange}_${new Date().toISOString().split('T')[0]}.pdf`);
 
       toast({
@@ -316,6 +507,38 @@ export default function Dashboard() {
   const pendingPayments = payments?.filter(p => p.status === "pending") || [];
   const paidPayments = payments?.filter(p => p.status === "paid") || [];
 
+  // Each stay keeps one pending row holding whatever is still owed
+  const balanceDueByGuest = useMemo(() => {
+    const balances = new Map<string, PaymentWithGuest>();
+    pendingPayments.forEach(p => balances.set(p.guestId, p));
+    return balances;
+  }, [payments]);
+
+  // Still in house after the day they were due out; the night audit lists these too
+  const isOverdueCheckout = (guest: GuestWithRoom) => {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    return guest.status === "active" && new Date(guest.checkoutDate) < today;
+  };
+
+  // Deposits aren't payments, so they are looked up separately for the guest rows
+  const heldDepositByGuest = useMemo(() => {
+    const held = new Map<string, number>();
+    heldDeposits?.forEach(d => held.set(d.guestId, (held.get(d.guestId) ?? 0) + toPaise(d.heldAmount)));
+    return held;
+  }, [heldDeposits]);
+
+  // What is left of each receipt, in paise, after the refunds and voids recorded against it
+  const refundableByPayment = useMemo(() => {
+    const remaining = new Map<string, number>();
+    paidPayments.filter(p => !isReversal(p)).forEach(p => remaining.set(p.id, toPaise(p.amount)));
+    paidPayments.filter(p => isReversal(p) && p.reversesPaymentId).forEach(p => {
+      const left = remaining.get(p.reversesPaymentId!);
+      if (left !== undefined) remaining.set(p.reversesPaymentId!, Math.max(0, left - toPaise(p.amount)));
+    });
+    return remaining;
+  }, [payments]);
+
   // Filter payments for analytics based on date range
   const filteredPayments = useMemo(() => {
     if (!payments) return [];
@@ -346,6 +569,9 @@ export default function Dashboard() {
   }, [payments, analyticsDateRange]);
 
   const filteredPaidPayments = filteredPayments.filter(p => p.status === "paid");
+  const filteredReceipts = filteredPaidPayments.filter(p => !isReversal(p));
+  const filteredNetRevenuePaise = filteredPaidPayments.reduce((sum, p) => sum + netPaymentPaise(p), 0);
+  const filteredMethodSummary = summarisePaymentMethods(filteredPaidPayments);
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -380,9 +606,53 @@ export default function Dashboard() {
                   })}
                 </p>
               </div>
-              <Button variant="ghost" size="sm" onClick={() => setShowSettingsModal(true)}>
-                <Settings size={20} />
-              </Button>
+              {currentUser && (
+                <div className="text-right">
+                  <p className="text-sm font-medium">{currentUser.fullName || currentUser.username}</p>
+                  <p className="text-xs text-gray-600 capitalize">{currentUser.role}</p>
+                </div>
+              )}
+              {can("payments:manage") && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setShowShiftModal(true)}
+                  title={currentShift ? "Shift open" : "No shift open"}
+                  className={currentShift ? "text-green-700" : "text-gray-400"}
+                >
+                  <Wallet size={20} />
+                </Button>
+              )}
+              {can("housekeeping:clean") && (
+                <Button variant="ghost" size="sm" onClick={() => setLocation("/housekeeping")} title="Housekeeping">
+                  <Sparkles size={20} />
+                </Button>
+              )}
+              {can("expenses:manage") && (
+                <Button variant="ghost" size="sm" onClick={() => setShowExpensesModal(true)} title="Expense Book">
+                  <ReceiptIndianRupee size={20} />
+                </Button>
+              )}
+              {can("users:manage") && (
+                <Button variant="ghost" size="sm" onClick={() => setShowUserManagementModal(true)} title="Staff Accounts">
+                  <UserCog size={20} />
+                </Button>
+              )}
+              {can("audit:view") && (
+                <Button variant="ghost" size="sm" onClick={() => setShowAuditLogModal(true)} title="Audit Trail">
+                  <History size={20} />
+                </Button>
+              )}
+              {can("night_audit:run") && (
+                <Button variant="ghost" size="sm" onClick={() => setShowNightAuditModal(true)} title="Night Audit">
+                  <Moon size={20} />
+                </Button>
+              )}
+              {can("settings:manage") && (
+                <Button variant="ghost" size="sm" onClick={() => setShowSettingsModal(true)}>
+                  <Settings size={20} />
+                </Button>
+              )}
               <Button variant="ghost" size="sm" onClick={handleLogout} className="text-error hover:text-red-700">
                 <LogOut size={20} />
               </Button>
@@ -582,7 +852,7 @@ export default function Dashboard() {
                       <div className="text-center">
                         <Receipt className="text-warning mx-auto mb-2" size={24} />
                         <p className="text-sm font-medium font-telugu">
-                          <BilingualText english="Process Payment" telugu="చెల్లింపు ప్రాసెస్ చేయండి" />
+                          <BilingualText english="Collect Payment" telugu="చెల్లింపు సేకరించండి" />
                         </p>
                       </div>
                     </Button>
@@ -727,6 +997,9 @@ export default function Dashboard() {
                       <TableHead className="font-telugu">
                         <BilingualText english="Check-out" telugu="చెక్-అవుట్" />
                       </TableHead>
+                      <TableHead className="font-telugu">
+                        <BilingualText english="Balance Due" telugu="బాకీ మొత్తం" />
+                      </TableHead>
                       <TableHead>Status</TableHead>
                       <TableHead>Actions</TableHead>
                     </TableRow>
@@ -738,6 +1011,12 @@ export default function Dashboard() {
                           <div>
                             <p className="font-medium">{guest.name}</p>
                             <p className="text-sm text-gray-600">Aadhar: {guest.aadharNumber}</p>
+                            {heldDepositByGuest.has(guest.id) && (
+                              <Badge variant="outline" className="mt-1 border-amber-300 text-amber-800 font-telugu">
+                                <KeyRound size={12} className="mr-1" />
+                                <BilingualText english="Deposit" telugu="డిపాజిట్" /> {formatRupees(heldDepositByGuest.get(guest.id)!)}
+                              </Badge>
+                            )}
                           </div>
                         </TableCell>
                         <TableCell>{guest.phoneNumber}</TableCell>
@@ -749,17 +1028,30 @@ export default function Dashboard() {
                           {new Date(guest.checkoutDate).toLocaleDateString()}
                         </TableCell>
                         <TableCell>
-                          <Badge className={guest.status === "active" ? "bg-success text-white" : "bg-gray-500 text-white"}>
-                            {guest.status === "active" ? (
-                              <span className="font-telugu">
-                                <BilingualText english="Active" telugu="సక్రియం" />
-                              </span>
-                            ) : (
-                              <span className="font-telugu">
-                                <BilingualText english="Checked Out" telugu="చెక్-అవుట్" />
-                              </span>
-                            )}
+                          {balanceDueByGuest.has(guest.id) ? (
+                            <button
+                              type="button"
+                              className="font-semibold text-amber-700 hover:underline"
+                              onClick={() => handlePaymentClick(balanceDueByGuest.get(guest.id)!)}
+                              title="Collect Payment"
+                            >
+                              ₹{parseFloat(balanceDueByGuest.get(guest.id)!.amount).toLocaleString()}
+                            </button>
+                          ) : (
+                            <span className="text-sm text-gray-500">—</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={getStayStatus(guest.status).className}>
+                            <span className="font-telugu">
+                              <BilingualText english={getStayStatus(guest.status).english} telugu={getStayStatus(guest.status).telugu} />
+                            </span>
                           </Badge>
+                          {isOverdueCheckout(guest) && (
+                            <Badge className="ml-1 bg-red-100 text-red-800 hover:bg-red-100 font-telugu">
+                              <BilingualText english="Overdue" telugu="గడువు మీరింది" />
+                            </Badge>
+                          )}
                         </TableCell>
                         <TableCell>
                           <div className="flex space-x-2">
@@ -779,6 +1071,33 @@ export default function Dashboard() {
                                 <LogOut size={16} />
                               </Button>
                             )}
+                            {guest.status === "reserved" && (
+                              <Button variant="ghost" size="sm" title="Confirm Reservation" onClick={() => handleReservationAction(guest, "confirm")}>
+                                <CheckCircle size={16} />
+                              </Button>
+                            )}
+                            {(guest.status === "reserved" || guest.status === "confirmed") && (
+                              <>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="text-success"
+                                  title="Check In"
+                                  onClick={() => handleReservationAction(guest, "check-in")}
+                                >
+                                  <LogIn size={16} />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="text-error hover:text-red-700"
+                                  title="Cancel Reservation"
+                                  onClick={() => handleReservationAction(guest, "cancel")}
+                                >
+                                  <XCircle size={16} />
+                                </Button>
+                              </>
+                            )}
                           </div>
                         </TableCell>
                       </TableRow>
@@ -795,13 +1114,15 @@ export default function Dashboard() {
               <h2 className="text-2xl font-semibold font-telugu">
                 <BilingualText english="Room Management" telugu="గది నిర్వహణ" />
               </h2>
-              <Button 
-                onClick={() => setShowRoomManagementModal(true)}
-                className="font-telugu"
-              >
-                <Settings className="mr-2" size={16} />
-                <BilingualText english="Manage Rooms" telugu="గదుల నిర్వహణ" />
-              </Button>
+              {can("rooms:manage") && (
+                <Button 
+                  onClick={() => setShowRoomManagementModal(true)}
+                  className="font-telugu"
+                >
+                  <Settings className="mr-2" size={16} />
+                  <BilingualText english="Manage Rooms" telugu="గదుల నిర్వహణ" />
+                </Button>
+              )}
             </div>
             <RoomGrid rooms={rooms || []} />
           </TabsContent>
@@ -812,19 +1133,50 @@ export default function Dashboard() {
               <h2 className="text-2xl font-semibold font-telugu">
                 <BilingualText english="Payment Processing" telugu="చెల్లింపు ప్రాసెసింగ్" />
               </h2>
+              <div className="flex gap-2">
+                {can("reports:view") && (
+                  <Button 
+                    variant="outline"
+                    onClick={() => setShowReceivablesModal(true)}
+                    className="font-telugu"
+                  >
+                    <Hourglass className="mr-2" size={16} />
+                    <BilingualText english="Outstanding Dues" telugu="బకాయిలు" />
+                  </Button>
+                )}
+                {can("companies:manage") && (
+                  <Button 
+                    variant="outline"
+                    onClick={() => setShowCompanyAccountsModal(true)}
+                    className="font-telugu"
+                  >
+                    <Building2 className="mr-2" size={16} />
+                    <BilingualText english="Company Accounts" telugu="కంపెనీ ఖాతాలు" />
+                  </Button>
+                )}
+                {can("payments:reconcile") && (
+                  <Button 
+                    onClick={() => setShowReconciliationModal(true)}
+                    className="font-telugu"
+                  >
+                    <FileCheck className="mr-2" size={16} />
+                    <BilingualText english="Reconcile Statement" telugu="స్టేట్‌మెంట్ సమన్వయం" />
+                  </Button>
+                )}
+              </div>
             </div>
 
             {/* Payment Summary Cards */}
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
               <Card>
                 <CardContent className="p-6">
                   <div className="flex items-center justify-between">
                     <div>
                       <p className="text-sm text-gray-600 font-telugu">
-                        <BilingualText english="Pending Payments" telugu="పెండింగ్ చెల్లింపులు" />
+                        <BilingualText english="Balance Due" telugu="బాకీ మొత్తం" />
                       </p>
                       <p className="text-2xl font-semibold text-gray-900">
-                        ₹{pendingPayments.reduce((sum, p) => sum + parseFloat(p.amount), 0).toLocaleString()}
+                        {formatRupees(sumPaise(pendingPayments.map(p => p.amount)))}
                       </p>
                     </div>
                     <div className="bg-warning bg-opacity-10 p-3 rounded-full">
@@ -842,7 +1194,7 @@ export default function Dashboard() {
                         <BilingualText english="Cash Payments" telugu="నగదు చెల్లింపులు" />
                       </p>
                       <p className="text-2xl font-semibold text-gray-900">
-                        ₹{paidPayments.filter(p => p.paymentMethod === "cash").reduce((sum, p) => sum + parseFloat(p.amount), 0).toLocaleString()}
+                        {formatRupees(paidPayments.filter(p => p.paymentMethod === "cash").reduce((sum, p) => sum + netPaymentPaise(p), 0))}
                       </p>
                     </div>
                     <div className="bg-success bg-opacity-10 p-3 rounded-full">
@@ -857,10 +1209,10 @@ export default function Dashboard() {
                   <div className="flex items-center justify-between">
                     <div>
                       <p className="text-sm text-gray-600 font-telugu">
-                        <BilingualText english="QR Payments" telugu="QR చెల్లింపులు" />
+                        <BilingualText english="UPI, Card & Bank" telugu="UPI, కార్డ్ & బ్యాంక్" />
                       </p>
                       <p className="text-2xl font-semibold text-gray-900">
-                        ₹{paidPayments.filter(p => p.paymentMethod === "qr").reduce((sum, p) => sum + parseFloat(p.amount), 0).toLocaleString()}
+                        {formatRupees(paidPayments.filter(p => p.paymentMethod !== "cash" && p.paymentMethod !== "company").reduce((sum, p) => sum + netPaymentPaise(p), 0))}
                       </p>
                     </div>
                     <div className="bg-primary bg-opacity-10 p-3 rounded-full">
@@ -869,6 +1221,24 @@ export default function Dashboard() {
                   </div>
                 </CardContent>
               </Card>
+
+              <Card>
+                <CardContent className="p-6">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm text-gray-600 font-telugu">
+                        <BilingualText english="Billed to Companies" telugu="కంపెనీలకు బిల్లు" />
+                      </p>
+                      <p className="text-2xl font-semibold text-gray-900">
+                        {formatRupees(paidPayments.filter(p => p.paymentMethod === "company").reduce((sum, p) => sum + netPaymentPaise(p), 0))}
+                      </p>
+                    </div>
+                    <div className="bg-purple-100 p-3 rounded-full">
+                      <Building2 className="text-purple-700" size={20} />
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
             </div>
 
             {/* Payment List */}
@@ -918,6 +1288,13 @@ export default function Dashboard() {
                                   minute: '2-digit'
                                 })}
                               </p>
+                              {isReversal(payment) ? (
+                                <p className="text-xs text-gray-500 italic" title={payment.reason || undefined}>
+                                  {payment.reason}{payment.recordedByName && ` — ${payment.recordedByName}`}
+                                </p>
+                              ) : payment.recordedByName && (
+                                <p className="text-xs text-gray-400">by {payment.recordedByName}</p>
+                              )}
                             </div>
                           </TableCell>
                           <TableCell>
@@ -926,37 +1303,58 @@ export default function Dashboard() {
                             </span>
                           </TableCell>
                           <TableCell>
-                            <span className="font-semibold">₹{parseFloat(payment.amount).toLocaleString()}</span>
+                            {isReversal(payment) ? (
+                              <span className="font-semibold text-red-600">-₹{parseFloat(payment.amount).toLocaleString()}</span>
+                            ) : (
+                              <span className="font-semibold">₹{parseFloat(payment.amount).toLocaleString()}</span>
+                            )}
                           </TableCell>
                           <TableCell>
-                            <Badge variant="outline" className={payment.paymentMethod === "cash" ? "border-green-300 text-green-700" : "border-blue-300 text-blue-700"}>
-                              {payment.paymentMethod === "cash" ? (
-                                <>
+                            {/* A balance isn't paid by any method yet */}
+                            {payment.status === "pending" ? (
+                              <span className="text-sm text-gray-500">—</span>
+                            ) : (
+                              <Badge
+                                variant="outline"
+                                className={
+                                  payment.paymentMethod === "cash" ? "border-green-300 text-green-700"
+                                    : payment.paymentMethod === "company" ? "border-purple-300 text-purple-700"
+                                    : "border-blue-300 text-blue-700"
+                                }
+                              >
+                                {payment.paymentMethod === "company" ? (
+                                  <Building2 size={12} className="mr-1" />
+                                ) : payment.paymentMethod === "cash" || payment.paymentMethod === "card" ? (
                                   <CreditCard size={12} className="mr-1" />
-                                  <span className="text-xs">Cash</span>
-                                </>
-                              ) : (
-                                <>
+                                ) : (
                                   <QrCode size={12} className="mr-1" />
-                                  <span className="text-xs">QR</span>
-                                </>
-                              )}
-                            </Badge>
+                                )}
+                                <span className="text-xs">{paymentMethodLabel(payment.paymentMethod)}</span>
+                              </Badge>
+                            )}
                           </TableCell>
                           <TableCell>
-                            <Badge className={payment.status === "paid" ? "bg-green-100 text-green-800 hover:bg-green-100" : "bg-amber-100 text-amber-800 hover:bg-amber-100"} data-testid={`badge-status-${payment.id}`}>
-                              {payment.status === "paid" ? (
-                                <>
-                                  <CheckCircle size={12} className="mr-1" />
-                                  <span className="text-xs">Paid</span>
-                                </>
-                              ) : (
-                                <>
-                                  <Clock size={12} className="mr-1" />
-                                  <span className="text-xs">Pending</span>
-                                </>
-                              )}
-                            </Badge>
+                            {isReversal(payment) ? (
+                              <Badge className="bg-red-100 text-red-800 hover:bg-red-100" data-testid={`badge-status-${payment.id}`}>
+                                <Undo2 size={12} className="mr-1" />
+                                <span className="text-xs">{payment.kind === "refund" ? "Refund" : "Void"}</span>
+                              </Badge>
+                            ) : payment.status === "paid" ? (
+                              <Badge className="bg-green-100 text-green-800 hover:bg-green-100" data-testid={`badge-status-${payment.id}`}>
+                                <CheckCircle size={12} className="mr-1" />
+                                <span className="text-xs">Paid</span>
+                              </Badge>
+                            ) : payment.status === "pending" ? (
+                              <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-100" data-testid={`badge-status-${payment.id}`}>
+                                <Clock size={12} className="mr-1" />
+                                <span className="text-xs">Balance Due</span>
+                              </Badge>
+                            ) : (
+                              <Badge className="bg-gray-100 text-gray-700 hover:bg-gray-100" data-testid={`badge-status-${payment.id}`}>
+                                <XCircle size={12} className="mr-1" />
+                                <span className="text-xs">Cancelled</span>
+                              </Badge>
+                            )}
                           </TableCell>
                           <TableCell>
                             <div className="flex space-x-1">
@@ -966,11 +1364,22 @@ export default function Dashboard() {
                                   size="sm" 
                                   className="text-green-600 hover:text-green-700 h-8 w-8 p-0"
                                   onClick={() => handlePaymentClick(payment)}
-                                  title="Mark as Paid"
+                                  title="Collect Payment"
                                 >
                                   <CheckCircle size={14} />
                                 </Button>
                               )}
+                              {can("payments:reverse") && payment.status === "paid" && !isReversal(payment) && (refundableByPayment.get(payment.id) ?? 0) > 0 && (
+                                <Button 
+                                  variant="ghost" 
+                                  size="sm" 
+                                  className="text-red-600 hover:text-red-700 h-8 w-8 p-0"
+                                  onClick={() => handleReverseClick(payment)}
+                                  title="Refund or Void"
+                                >
+                                  <Undo2 size={14} />
+                                </Button>
+                              )}
                               <Button 
                                 variant="ghost" 
                                 size="sm"
@@ -996,6 +1405,79 @@ export default function Dashboard() {
                 </div>
               </CardContent>
             </Card>
+
+            {/* Refundable deposits are owed back to guests, so they are listed apart from revenue */}
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
+                <CardTitle className="font-telugu">
+                  <BilingualText english="Deposits Currently Held" telugu="ప్రస్తుతం ఉన్న డిపాజిట్లు" />
+                  <span className="text-sm font-normal text-gray-500 ml-2">({heldDeposits?.length || 0})</span>
+                </CardTitle>
+                <div className="text-sm font-semibold text-amber-700">
+                  {formatRupees(sumPaise((heldDeposits ?? []).map(d => d.heldAmount)))}
+                </div>
+              </CardHeader>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="font-telugu">
+                        <BilingualText english="Guest" telugu="అతిథి" />
+                      </TableHead>
+                      <TableHead className="font-telugu">
+                        <BilingualText english="Room" telugu="గది" />
+                      </TableHead>
+                      <TableHead className="font-telugu">
+                        <BilingualText english="Collected" telugu="వసూలు" />
+                      </TableHead>
+                      <TableHead className="font-telugu">
+                        <BilingualText english="Deducted" telugu="కోత" />
+                      </TableHead>
+                      <TableHead className="font-telugu">
+                        <BilingualText english="Held" telugu="ఉంచబడింది" />
+                      </TableHead>
+                      <TableHead className="w-[80px]"></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {heldDeposits?.map((deposit) => {
+                      const guest = allGuests?.find(g => g.id === deposit.guestId);
+                      return (
+                        <TableRow key={deposit.id}>
+                          <TableCell>
+                            <p className="font-medium">{deposit.guestName}</p>
+                            {deposit.guestStatus && (
+                              <p className="text-xs text-gray-500">{getStayStatus(deposit.guestStatus).english}</p>
+                            )}
+                          </TableCell>
+                          <TableCell>{deposit.roomNumber || "—"}</TableCell>
+                          <TableCell>
+                            <p>₹{parseFloat(deposit.amount).toLocaleString()} · {paymentMethodLabel(deposit.paymentMethod)}</p>
+                            <p className="text-xs text-gray-500">{new Date(deposit.collectedAt).toLocaleDateString('en-IN')}</p>
+                          </TableCell>
+                          <TableCell>
+                            {parseFloat(deposit.deductedAmount) > 0 ? `₹${parseFloat(deposit.deductedAmount).toLocaleString()}` : "—"}
+                          </TableCell>
+                          <TableCell className="font-semibold text-amber-700">₹{parseFloat(deposit.heldAmount).toLocaleString()}</TableCell>
+                          <TableCell>
+                            {guest && (
+                              <Button variant="ghost" size="sm" onClick={() => handleViewGuest(guest)} title="View Guest">
+                                <Eye size={16} />
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+                {(!heldDeposits || heldDeposits.length === 0) && (
+                  <div className="text-center py-6 text-gray-500 font-telugu">
+                    <BilingualText english="No deposits held" telugu="డిపాజిట్లు లేవు" />
+                  </div>
+                )}
+              </CardContent>
+            </Card>
           </TabsContent>
 
           {/* SMS Tab */}
@@ -1081,18 +1563,19 @@ export default function Dashboard() {
                     </p>
                   </div>
                   <div className="space-y-3">
-                    <div className="flex justify-between items-center">
-                      <span className="text-sm text-gray-600 font-telugu">
-                        <BilingualText english="Single Rooms" telugu="సింగిల్ గదులు" />
-                      </span>
-                      <span className="text-sm font-medium">85%</span>
-                    </div>
-                    <div className="flex justify-between items-center">
-                      <span className="text-sm text-gray-600 font-telugu">
-                        <BilingualText english="Double Rooms" telugu="డబుల్ గదులు" />
-                      </span>
-                      <span className="text-sm font-medium">72%</span>
-                    </div>
+                    {stats?.roomTypes.filter((type) => type.totalRooms > 0).map((type) => (
+                      <div key={type.roomTypeId} className="flex justify-between items-center">
+                        <span className="text-sm text-gray-600 font-telugu">
+                          <BilingualText english={type.nameEnglish} telugu={type.nameTelugu || type.nameEnglish} />
+                          <span className="text-xs text-gray-400 ml-2">
+                            {type.occupiedRooms}/{type.totalRooms} occupied · {type.availableRooms} free
+                          </span>
+                        </span>
+                        <span className="text-sm font-medium">
+                          {Math.round((type.occupiedRooms / type.totalRooms) * 100)}%
+                        </span>
+                      </div>
+                    ))}
                   </div>
                 </CardContent>
               </Card>
@@ -1106,36 +1589,30 @@ export default function Dashboard() {
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-4">
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center space-x-3">
-                        <div className="w-3 h-3 bg-success rounded-full"></div>
-                        <span className="text-sm font-telugu">
-                          <BilingualText english="Cash" telugu="నగదు" />
-                        </span>
-                      </div>
-                      <div className="text-right">
-                        <p className="text-sm font-medium">
-                          ₹{filteredPaidPayments.filter(p => p.paymentMethod === "cash").reduce((sum, p) => sum + parseFloat(p.amount), 0).toLocaleString()}
-                        </p>
-                        <p className="text-xs text-gray-500">
-                          {filteredPaidPayments.length ? Math.round((filteredPaidPayments.filter(p => p.paymentMethod === "cash").length / filteredPaidPayments.length) * 100) : 0}%
-                        </p>
-                      </div>
-                    </div>
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center space-x-3">
-                        <div className="w-3 h-3 bg-primary rounded-full"></div>
-                        <span className="text-sm font-telugu">QR Code</span>
-                      </div>
-                      <div className="text-right">
-                        <p className="text-sm font-medium">
-                          ₹{filteredPaidPayments.filter(p => p.paymentMethod === "qr").reduce((sum, p) => sum + parseFloat(p.amount), 0).toLocaleString()}
-                        </p>
-                        <p className="text-xs text-gray-500">
-                          {filteredPaidPayments.length ? Math.round((filteredPaidPayments.filter(p => p.paymentMethod === "qr").length / filteredPaidPayments.length) * 100) : 0}%
-                        </p>
-                      </div>
-                    </div>
+                    {filteredMethodSummary.length === 0 && (
+                      <p className="text-sm text-gray-500 text-center">No payments in this period</p>
+                    )}
+                    {filteredMethodSummary.map((summary) => {
+                      const label = PAYMENT_METHOD_LABELS[summary.method as keyof typeof PAYMENT_METHOD_LABELS];
+                      return (
+                        <div key={summary.method} className="flex items-center justify-between">
+                          <div className="flex items-center space-x-3">
+                            <div className={`w-3 h-3 rounded-full ${methodColors[summary.method] ?? "bg-gray-400"}`}></div>
+                            <span className="text-sm font-telugu">
+                              {label ? <BilingualText english={label.english} telugu={label.telugu} /> : paymentMethodLabel(summary.method)}
+                            </span>
+                          </div>
+                          <div className="text-right">
+                            <p className="text-sm font-medium">
+                              ₹{summary.amount.toLocaleString()}
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              {summary.share}%
+                            </p>
+                          </div>
+                        </div>
+                      );
+                    })}
                   </div>
                 </CardContent>
               </Card>
@@ -1158,7 +1635,7 @@ export default function Dashboard() {
                   </div>
                   <div className="text-center">
                     <p className="text-2xl font-bold text-gray-900">
-                      ₹{filteredPaidPayments.reduce((sum, p) => sum + parseFloat(p.amount), 0).toLocaleString()}
+                      {formatRupees(filteredNetRevenuePaise)}
                     </p>
                     <p className="text-sm text-gray-600 font-telugu">
                       <BilingualText english="Total Revenue" telugu="మొత్తం ఆదాయం" />
@@ -1166,7 +1643,7 @@ export default function Dashboard() {
                   </div>
                   <div className="text-center">
                     <p className="text-2xl font-bold text-gray-900">
-                      ₹{filteredPaidPayments.length ? Math.round(filteredPaidPayments.reduce((sum, p) => sum + parseFloat(p.amount), 0) / filteredPaidPayments.length) : 0}
+                      ₹{filteredReceipts.length ? Math.round(paiseToNumber(filteredNetRevenuePaise) / filteredReceipts.length) : 0}
                     </p>
                     <p className="text-sm text-gray-600 font-telugu">
                       <BilingualText english="Avg. per Booking" telugu="బుకింగ్‌కు సగటు" />
@@ -1181,6 +1658,56 @@ export default function Dashboard() {
                 </div>
               </CardContent>
             </Card>
+
+            {/* Profit & Loss */}
+            {can("reports:view") && (
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="font-telugu">
+                      <BilingualText english="Profit & Loss" telugu="లాభ నష్టాలు" />
+                    </CardTitle>
+                    <Button variant="outline" size="sm" onClick={handleExportProfitLossCSV} disabled={!profitAndLoss?.length}>
+                      <Download className="mr-2" size={14} />
+                      CSV
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Month</TableHead>
+                        <TableHead className="text-right">Revenue</TableHead>
+                        <TableHead className="text-right">Expenses</TableHead>
+                        <TableHead className="text-right">Net Profit</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {profitAndLoss?.map((month) => (
+                        <TableRow key={month.month}>
+                          <TableCell>
+                            <p className="font-medium">{formatMonth(month.month)}</p>
+                            {Object.keys(month.expensesByCategory).length > 0 && (
+                              <p className="text-xs text-gray-500">
+                                {Object.entries(month.expensesByCategory)
+                                  .map(([category, amount]) => `${expenseCategoryLabel(category)} ₹${parseFloat(amount).toLocaleString()}`)
+                                  .join(" • ")}
+                              </p>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">₹{parseFloat(month.revenue).toLocaleString()}</TableCell>
+                          <TableCell className="text-right">₹{parseFloat(month.totalExpenses).toLocaleString()}</TableCell>
+                          <TableCell className={`text-right font-semibold ${parseFloat(month.netProfit) < 0 ? "text-red-600" : "text-green-700"}`}>
+                            ₹{parseFloat(month.netProfit).toLocaleString()}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            )}
           </TabsContent>
         </Tabs>
       </div>
@@ -1198,6 +1725,47 @@ export default function Dashboard() {
         payment={selectedPayment}
       />
 
+      <PaymentReversalModal
+        open={showReversalModal}
+        onOpenChange={setShowReversalModal}
+        payment={reversalPayment}
+        remainingAmount={reversalPayment ? paiseToNumber(refundableByPayment.get(reversalPayment.id) ?? 0) : 0}
+      />
+
+      <CompanyAccountsModal
+        open={showCompanyAccountsModal}
+        onOpenChange={setShowCompanyAccountsModal}
+        lodgeName={lodgeSettings?.name || "Lodge"}
+      />
+
+      <ReceivablesModal
+        open={showReceivablesModal}
+        onOpenChange={setShowReceivablesModal}
+        lodgeName={lodgeSettings?.name || "Lodge"}
+      />
+
+      <ExpensesModal
+        open={showExpensesModal}
+        onOpenChange={setShowExpensesModal}
+      />
+
+      <CashierShiftModal
+        open={showShiftModal}
+        onOpenChange={setShowShiftModal}
+        lodgeName={lodgeSettings?.name || "Lodge"}
+      />
+
+      <NightAuditModal
+        open={showNightAuditModal}
+        onOpenChange={setShowNightAuditModal}
+      />
+
+      <StatementReconciliationModal
+        open={showReconciliationModal}
+        onOpenChange={setShowReconciliationModal}
+        payments={payments || []}
+      />
+
       <GuestDetailsModal 
         open={showGuestDetailsModal} 
         onOpenChange={setShowGuestDetailsModal}
@@ -1221,6 +1789,16 @@ export default function Dashboard() {
         onOpenChange={setShowRoomManagementModal}
         rooms={rooms || []}
       />
+
+      <UserManagementModal
+        open={showUserManagementModal}
+        onOpenChange={setShowUserManagementModal}
+      />
+
+      <AuditLogModal
+        open={showAuditLogModal}
+        onOpenChange={setShowAuditLogModal}
+      />
     </div>
   );
 }
@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { BilingualText } from "@/components/bilingual-text";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { badRequestMessage } from "@/lib/api-errors";
+import { HOUSEKEEPING_BADGE_CLASSES, HOUSEKEEPING_STATUS_LABELS } from "@/lib/housekeeping-labels";
+import type { HousekeepingTask } from "@/lib/types";
+import type { HousekeepingStatus } from "@shared/schema";
+import { ArrowLeft, CheckCircle, LogOut, RotateCcw, Sparkles, UserCheck } from "lucide-react";
+
+// Phone-sized task list for housekeeping staff; supervisors use it to inspect too
+export default function Housekeeping() {
+  const [, setLocation] = useLocation();
+  const [savingRoomId, setSavingRoomId] = useState<string | null>(null);
+  const { user, can } = useCurrentUser();
+  const { toast } = useToast();
+
+  const { data: tasks, isLoading } = useQuery<HousekeepingTask[]>({
+    queryKey: ["/api/housekeeping/tasks"],
+    enabled: can("housekeeping:clean"),
+    refetchInterval: 60 * 1000, // other staff check rooms out and clean them meanwhile
+  });
+
+  const dirtyCount = tasks?.filter((task) => task.housekeepingStatus === "dirty").length ?? 0;
+  const awaitingInspection = tasks?.filter((task) => task.housekeepingStatus === "clean").length ?? 0;
+
+  const handleUpdate = async (task: HousekeepingTask, status: HousekeepingStatus) => {
+    setSavingRoomId(task.roomId);
+    try {
+      await apiRequest("POST", `/api/rooms/${task.roomId}/housekeeping`, { status });
+      queryClient.invalidateQueries({ queryKey: ["/api/housekeeping/tasks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rooms"] });
+      toast({ title: `Room ${task.roomNumber} marked ${HOUSEKEEPING_STATUS_LABELS[status].english.toLowerCase()}` });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: badRequestMessage(error) ?? "Failed to update the room",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingRoomId(null);
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await apiRequest("POST", "/api/auth/logout");
+      window.location.href = "/";
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to logout", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm border-b sticky top-0 z-10">
+        <div className="max-w-xl mx-auto px-4 py-3 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            {user?.role !== "housekeeper" && (
+              <Button variant="ghost" size="sm" onClick={() => setLocation("/dashboard")} title="Back to dashboard">
+                <ArrowLeft size={20} />
+              </Button>
+            )}
+            <div>
+              <h1 className="text-lg font-semibold font-telugu">
+                <BilingualText english="Housekeeping" telugu="హౌస్‌కీపింగ్" />
+              </h1>
+              {user && <p className="text-xs text-gray-600">{user.fullName || user.username}</p>}
+            </div>
+          </div>
+          <Button variant="ghost" size="sm" onClick={handleLogout} className="text-error hover:text-red-700">
+            <LogOut size={20} />
+          </Button>
+        </div>
+      </header>
+
+      <main className="max-w-xl mx-auto px-4 py-4 space-y-3">
+        <div className="grid grid-cols-2 gap-3">
+          <div className="p-3 rounded-lg bg-orange-50">
+            <p className="text-xs text-gray-600 font-telugu">
+              <BilingualText english="To clean" telugu="శుభ్రం చేయాలి" />
+            </p>
+            <p className="text-2xl font-semibold text-orange-700">{dirtyCount}</p>
+          </div>
+          <div className="p-3 rounded-lg bg-sky-50">
+            <p className="text-xs text-gray-600 font-telugu">
+              <BilingualText english="To inspect" telugu="తనిఖీ చేయాలి" />
+            </p>
+            <p className="text-2xl font-semibold text-sky-700">{awaitingInspection}</p>
+          </div>
+        </div>
+
+        {user && !can("housekeeping:clean") && (
+          <p className="text-sm text-gray-500 text-center py-8">You do not have access to housekeeping</p>
+        )}
+        {isLoading && <p className="text-sm text-gray-500 text-center py-8">Loading...</p>}
+        {tasks && tasks.length === 0 && (
+          <div className="text-center py-12">
+            <Sparkles className="mx-auto h-10 w-10 text-green-500 mb-3" />
+            <p className="text-gray-700 font-telugu">
+              <BilingualText english="All rooms are ready" telugu="అన్ని గదులు సిద్ధంగా ఉన్నాయి" />
+            </p>
+          </div>
+        )}
+
+        {tasks?.map((task) => {
+          const saving = savingRoomId === task.roomId;
+          return (
+            <Card key={task.roomId} className={task.arrivalToday ? "border-2 border-amber-400" : ""}>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <p className="text-2xl font-semibold">{task.roomNumber}</p>
+                    <p className="text-sm text-gray-600">{task.roomType}</p>
+                  </div>
+                  <Badge variant="outline" className={`font-telugu ${HOUSEKEEPING_BADGE_CLASSES[task.housekeepingStatus]}`}>
+                    <BilingualText
+                      english={HOUSEKEEPING_STATUS_LABELS[task.housekeepingStatus].english}
+                      telugu={HOUSEKEEPING_STATUS_LABELS[task.housekeepingStatus].telugu}
+                    />
+                  </Badge>
+                </div>
+
+                <div className="text-xs text-gray-500 space-y-0.5">
+                  {task.arrivalToday && <p className="text-amber-700 font-medium">Guest arriving today</p>}
+                  {task.occupancy === "occupied" && <p>Guest in the room</p>}
+                  {task.occupancy === "maintenance" && <p>Under maintenance</p>}
+                  {task.since && (
+                    <p>
+                      Since {new Date(task.since).toLocaleString("en-IN", { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" })}
+                      {task.updatedBy && ` · ${task.updatedBy}`}
+                    </p>
+                  )}
+                </div>
+
+                {task.housekeepingStatus === "dirty" && (
+                  <Button className="w-full h-12" disabled={saving} onClick={() => handleUpdate(task, "clean")}>
+                    <CheckCircle size={18} className="mr-2" />
+                    <BilingualText english="Mark cleaned" telugu="శుభ్రం చేశాను" />
+                  </Button>
+                )}
+                {task.housekeepingStatus === "clean" && can("housekeeping:inspect") && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <Button variant="outline" className="h-12" disabled={saving} onClick={() => handleUpdate(task, "dirty")}>
+                      <RotateCcw size={18} className="mr-2" />
+                      <BilingualText english="Send back" telugu="మళ్లీ శుభ్రం" />
+                    </Button>
+                    <Button className="h-12" disabled={saving} onClick={() => handleUpdate(task, "inspected")}>
+                      <UserCheck size={18} className="mr-2" />
+                      <BilingualText english="Pass" telugu="ఆమోదించు" />
+                    </Button>
+                  </div>
+                )}
+                {task.housekeepingStatus === "clean" && !can("housekeeping:inspect") && (
+                  <p className="text-xs text-gray-500 text-center">Waiting for a supervisor to inspect</p>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </main>
+    </div>
+  );
+}
@@ -4,50 +4,139 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
 import { BilingualText } from "@/components/bilingual-text";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { Hotel } from "lucide-react";
+import { Hotel, Lock, AlertTriangle, KeyRound } from "lucide-react";
+
+// apiRequest throws errors shaped like "423: {json body}"
+function parseApiError(error: unknown): { status: number; body: Record<string, any> } {
+  const message = error instanceof Error ? error.message : "";
+  const separator = message.indexOf(": ");
+  const status = parseInt(message.slice(0, separator), 10) || 0;
+  try {
+    return { status, body: JSON.parse(message.slice(separator + 2)) };
+  } catch {
+    return { status, body: {} };
+  }
+}
 
 export default function Login() {
   const [, setLocation] = useLocation();
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [lockedUntil, setLockedUntil] = useState<Date | null>(null);
+  const [attemptsRemaining, setAttemptsRemaining] = useState<number | null>(null);
+  const [mustChangePassword, setMustChangePassword] = useState(false);
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [role, setRole] = useState<string | null>(null);
   const { toast } = useToast();
 
+  const continueAfterLogin = async (userRole: string | null) => {
+    // Housekeepers only work from their task list
+    if (userRole === "housekeeper") {
+      setLocation("/housekeeping");
+      return;
+    }
+
+    // Check if lodge settings exist to determine if onboarding is needed
+    try {
+      const settingsResponse = await apiRequest("GET", "/api/lodge-settings");
+      const settings = await settingsResponse.json();
+      
+      console.log("Lodge settings:", settings);
+      
+      if (!settings || !settings.isSetupComplete) {
+        setLocation("/onboarding");
+      } else {
+        setLocation("/dashboard");
+      }
+    } catch (settingsError) {
+      console.error("Settings fetch error:", settingsError);
+      // If settings fetch fails, assume onboarding is needed
+      setLocation("/onboarding");
+    }
+  };
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
+    setLockedUntil(null);
+    setAttemptsRemaining(null);
 
     try {
       const loginResponse = await apiRequest("POST", "/api/auth/login", { username, password });
       const loginData = await loginResponse.json();
       
       console.log("Login successful:", loginData);
-      
-      // Check if lodge settings exist to determine if onboarding is needed
-      try {
-        const settingsResponse = await apiRequest("GET", "/api/lodge-settings");
-        const settings = await settingsResponse.json();
-        
-        console.log("Lodge settings:", settings);
-        
-        if (!settings || !settings.isSetupComplete) {
-          setLocation("/onboarding");
-        } else {
-          setLocation("/dashboard");
-        }
-      } catch (settingsError) {
-        console.error("Settings fetch error:", settingsError);
-        // If settings fetch fails, assume onboarding is needed
-        setLocation("/onboarding");
+
+      setRole(loginData.user.role);
+      if (loginData.mustChangePassword) {
+        setMustChangePassword(true);
+        return;
       }
+
+      await continueAfterLogin(loginData.user.role);
     } catch (error) {
       console.error("Login error:", error);
+      const { status, body } = parseApiError(error);
+
+      if (status === 423 && body.lockedUntil) {
+        setLockedUntil(new Date(body.lockedUntil));
+        return;
+      }
+
+      if (status === 401 && typeof body.attemptsRemaining === "number") {
+        setAttemptsRemaining(body.attemptsRemaining);
+      }
+
       toast({
         title: "Login Failed",
-        description: "Invalid username or password",
+        description: status === 403 ? "This account has been disabled" : "Invalid username or password",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (newPassword !== confirmPassword) {
+      toast({
+        title: "Error",
+        description: "Passwords do not match",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      await apiRequest("POST", "/api/auth/change-password", {
+        currentPassword: password,
+        newPassword,
+      });
+
+      toast({
+        title: "Success",
+        description: "Password changed successfully",
+      });
+
+      setMustChangePassword(false);
+      await continueAfterLogin(role);
+    } catch (error) {
+      const { body } = parseApiError(error);
+      toast({
+        title: "Error",
+        description: body.message === "Invalid data"
+          ? "Password must be at least 6 characters"
+          : body.message || "Failed to change password",
         variant: "destructive",
       });
     } finally {
@@ -71,39 +160,111 @@ export default function Login() {
             </p>
           </div>
           
-          <form onSubmit={handleLogin} className="space-y-6">
-            <div>
-              <Label className="font-telugu">
-                <BilingualText english="Username" telugu="వినియోగదారు పేరు" />
-              </Label>
-              <Input
-                type="text"
-                value={username}
-                onChange={(e) => setUsername(e.target.value)}
-                placeholder="Enter username"
-                required
-                className="mt-2"
-              />
-            </div>
-            
-            <div>
-              <Label className="font-telugu">
-                <BilingualText english="Password" telugu="పాస్‌వర్డ్" />
-              </Label>
-              <Input
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                placeholder="Enter password"
-                required
-                className="mt-2"
-              />
-            </div>
-            
-            <Button type="submit" className="w-full font-telugu" disabled={isLoading}>
-              {isLoading ? "Loading..." : <BilingualText english="Login" telugu="లాగిన్" />}
-            </Button>
-          </form>
+          {mustChangePassword ? (
+            <form onSubmit={handleChangePassword} className="space-y-6">
+              <Alert className="border-yellow-200 bg-yellow-50">
+                <KeyRound className="h-4 w-4 text-yellow-600" />
+                <AlertDescription className="text-yellow-700 font-telugu">
+                  <BilingualText
+                    english="Please choose a new password before continuing"
+                    telugu="కొనసాగించే ముందు దయచేసి కొత్త పాస్‌వర్డ్ ఎంచుకోండి"
+                  />
+                </AlertDescription>
+              </Alert>
+
+              <div>
+                <Label className="font-telugu">
+                  <BilingualText english="New Password" telugu="కొత్త పాస్‌వర్డ్" />
+                </Label>
+                <Input
+                  type="password"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  placeholder="At least 6 characters"
+                  required
+                  minLength={6}
+                  className="mt-2"
+                />
+              </div>
+
+              <div>
+                <Label className="font-telugu">
+                  <BilingualText english="Confirm Password" telugu="పాస్‌వర్డ్ నిర్ధారించండి" />
+                </Label>
+                <Input
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  placeholder="Re-enter new password"
+                  required
+                  minLength={6}
+                  className="mt-2"
+                />
+              </div>
+
+              <Button type="submit" className="w-full font-telugu" disabled={isLoading}>
+                {isLoading ? "Saving..." : <BilingualText english="Change Password" telugu="పాస్‌వర్డ్ మార్చండి" />}
+              </Button>
+            </form>
+          ) : (
+            <form onSubmit={handleLogin} className="space-y-6">
+              <div>
+                <Label className="font-telugu">
+                  <BilingualText english="Username" telugu="వినియోగదారు పేరు" />
+                </Label>
+                <Input
+                  type="text"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  placeholder="Enter username"
+                  required
+                  className="mt-2"
+                />
+              </div>
+              
+              <div>
+                <Label className="font-telugu">
+                  <BilingualText english="Password" telugu="పాస్‌వర్డ్" />
+                </Label>
+                <Input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Enter password"
+                  required
+                  className="mt-2"
+                />
+              </div>
+              
+              {lockedUntil && (
+                <Alert className="border-red-200 bg-red-50">
+                  <Lock className="h-4 w-4 text-red-600" />
+                  <AlertDescription className="text-red-700 font-telugu">
+                    <BilingualText
+                      english={`Too many failed attempts. Try again after ${lockedUntil.toLocaleTimeString('en-IN')}`}
+                      telugu={`చాలా విఫల ప్రయత్నాలు. ${lockedUntil.toLocaleTimeString('en-IN')} తర్వాత మళ్లీ ప్రయత్నించండి`}
+                    />
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {attemptsRemaining !== null && attemptsRemaining > 0 && attemptsRemaining <= 2 && (
+                <Alert className="border-yellow-200 bg-yellow-50">
+                  <AlertTriangle className="h-4 w-4 text-yellow-600" />
+                  <AlertDescription className="text-yellow-700 font-telugu">
+                    <BilingualText
+                      english={`${attemptsRemaining} attempt(s) left before the account is locked`}
+                      telugu={`ఖాతా లాక్ అయ్యే ముందు ${attemptsRemaining} ప్రయత్నం(లు) మిగిలి ఉన్నాయి`}
+                    />
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <Button type="submit" className="w-full font-telugu" disabled={isLoading}>
+                {isLoading ? "Loading..." : <BilingualText english="Login" telugu="లాగిన్" />}
+              </Button>
+            </form>
+          )}
         </CardContent>
       </Card>
     </div>
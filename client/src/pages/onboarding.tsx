@@ -9,6 +9,7 @@ import { Card, CardContent } from "@/components/ui/card";
 import { BilingualText } from "@/components/bilingual-text";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import type { RoomType } from "@shared/schema";
 import { ArrowRight, ArrowLeft, Check, Plus, Trash } from "lucide-react";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 
@@ -34,13 +35,17 @@ export default function Onboarding() {
   });
 
   // Step 2: Rooms and Room Types
+  // A blank default price is taken from the type's cheapest room when setup completes
   const [customRoomTypes, setCustomRoomTypes] = useState([
-    { name: "single", displayName: "Single" },
-    { name: "double", displayName: "Double" }
+    { name: "single", displayName: "Single", nameTelugu: "సింగిల్", maxOccupancy: "1", basePrice: "" },
+    { name: "double", displayName: "Double", nameTelugu: "డబుల్", maxOccupancy: "2", basePrice: "" }
   ]);
   const [newRoomType, setNewRoomType] = useState({
     name: "",
-    displayName: ""
+    displayName: "",
+    nameTelugu: "",
+    maxOccupancy: "2",
+    basePrice: ""
   });
   const [rooms, setRooms] = useState<Room[]>([]);
   const [newRoom, setNewRoom] = useState<Room>({
@@ -101,7 +106,7 @@ export default function Onboarding() {
     }
 
     setCustomRoomTypes([...customRoomTypes, newRoomType]);
-    setNewRoomType({ name: "", displayName: "" });
+    setNewRoomType({ name: "", displayName: "", nameTelugu: "", maxOccupancy: "2", basePrice: "" });
   };
 
   const removeRoomType = (typeName: string) => {
@@ -165,11 +170,36 @@ export default function Onboarding() {
         isSetupComplete: true
       });
 
+      // Create the room types the rooms use, then the rooms. Types already saved
+      // by an earlier attempt at setup are reused.
+      const savedTypes: RoomType[] = await (await apiRequest("GET", "/api/room-types")).json();
+      const roomTypeIds = new Map<string, string>();
+      for (const type of customRoomTypes) {
+        const typeRooms = rooms.filter(room => room.roomType === type.name);
+        if (typeRooms.length === 0) continue;
+
+        const saved = savedTypes.find(savedType => savedType.code === type.name);
+        if (saved) {
+          roomTypeIds.set(type.name, saved.id);
+          continue;
+        }
+
+        const response = await apiRequest("POST", "/api/room-types", {
+          code: type.name,
+          nameEnglish: type.displayName,
+          nameTelugu: type.nameTelugu || null,
+          maxOccupancy: type.maxOccupancy,
+          basePrice: type.basePrice || Math.min(...typeRooms.map(room => parseFloat(room.basePrice))),
+        });
+        const created: RoomType = await response.json();
+        roomTypeIds.set(type.name, created.id);
+      }
+
       // Create rooms
       for (const room of rooms) {
         await apiRequest("POST", "/api/rooms", {
           roomNumber: room.roomNumber,
-          roomType: room.roomType,
+          roomTypeId: roomTypeIds.get(room.roomType),
           basePrice: room.basePrice
         });
       }
@@ -353,6 +383,42 @@ export default function Onboarding() {
                           className="mt-1"
                         />
                       </div>
+                      <div>
+                        <Label className="font-telugu">
+                          <BilingualText english="Telugu Name" telugu="తెలుగు పేరు" />
+                        </Label>
+                        <Input
+                          value={newRoomType.nameTelugu}
+                          onChange={(e) => setNewRoomType({...newRoomType, nameTelugu: e.target.value})}
+                          placeholder="ఏసీ డీలక్స్"
+                          className="mt-1 font-telugu"
+                        />
+                      </div>
+                      <div>
+                        <Label className="font-telugu">
+                          <BilingualText english="Max Guests" telugu="గరిష్ట అతిథులు" />
+                        </Label>
+                        <Input
+                          type="number"
+                          value={newRoomType.maxOccupancy}
+                          onChange={(e) => setNewRoomType({...newRoomType, maxOccupancy: e.target.value})}
+                          min="1"
+                          max="20"
+                          className="mt-1"
+                        />
+                      </div>
+                      <div>
+                        <Label className="font-telugu">
+                          <BilingualText english="Default Price" telugu="డిఫాల్ట్ ధర" />
+                        </Label>
+                        <Input
+                          type="number"
+                          value={newRoomType.basePrice}
+                          onChange={(e) => setNewRoomType({...newRoomType, basePrice: e.target.value})}
+                          placeholder="1500"
+                          className="mt-1"
+                        />
+                      </div>
                       <div className="flex items-end">
                         <Button onClick={addRoomType} size="sm" className="w-full font-telugu">
                           <Plus size={16} className="mr-2" />
@@ -374,6 +440,12 @@ export default function Onboarding() {
                             <TableHead className="font-telugu">
                               <BilingualText english="Display Name" telugu="ప్రదర్శన పేరు" />
                             </TableHead>
+                            <TableHead className="font-telugu">
+                              <BilingualText english="Max Guests" telugu="గరిష్ట అతిథులు" />
+                            </TableHead>
+                            <TableHead className="font-telugu">
+                              <BilingualText english="Default Price" telugu="డిఫాల్ట్ ధర" />
+                            </TableHead>
                             <TableHead>Actions</TableHead>
                           </TableRow>
                         </TableHeader>
@@ -381,7 +453,11 @@ export default function Onboarding() {
                           {customRoomTypes.map((type) => (
                             <TableRow key={type.name}>
                               <TableCell className="font-mono">{type.name}</TableCell>
-                              <TableCell>{type.displayName}</TableCell>
+                              <TableCell className="font-telugu">
+                                {type.displayName}{type.nameTelugu && ` / ${type.nameTelugu}`}
+                              </TableCell>
+                              <TableCell>{type.maxOccupancy}</TableCell>
+                              <TableCell>{type.basePrice ? `₹${type.basePrice}` : "—"}</TableCell>
                               <TableCell>
                                 <Button 
                                   variant="ghost" 
@@ -419,7 +495,14 @@ export default function Onboarding() {
                       <Label className="font-telugu">
                         <BilingualText english="Type" telugu="రకం" />
                       </Label>
-                      <Select value={newRoom.roomType} onValueChange={(value) => setNewRoom({...newRoom, roomType: value})}>
+                      <Select
+                        value={newRoom.roomType}
+                        onValueChange={(value) => setNewRoom({
+                          ...newRoom,
+                          roomType: value,
+                          basePrice: customRoomTypes.find(type => type.name === value)?.basePrice || newRoom.basePrice,
+                        })}
+                      >
                         <SelectTrigger className="mt-1">
                           <SelectValue />
                         </SelectTrigger>
@@ -0,0 +1,174 @@
+import type { Request, Response, NextFunction } from "express";
+import { nanoid } from "nanoid";
+import type { User } from "@shared/schema";
+import { hasPermission, type Permission } from "@shared/permissions";
+import { storage } from "./storage";
+import { setRequestActor } from "./request-context";
+
+// Extend Express Request interface to include session
+declare module 'express-session' {
+  interface SessionData {
+    userId?: string;
+    sessionKey?: string; // opaque id shown in the active sessions list instead of the sid
+    loginAt?: string;
+    lastActivityAt?: string;
+    userAgent?: string;
+    ipAddress?: string;
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      currentUser?: User;
+    }
+  }
+}
+
+export type PublicUser = Omit<User, "password" | "failedLoginAttempts" | "lockedUntil">;
+
+// Never send password hashes or lockout counters to the client
+export function toPublicUser(user: User): PublicUser {
+  const { password, failedLoginAttempts, lockedUntil, ...publicUser } = user;
+  return publicUser;
+}
+
+export const MAX_FAILED_LOGINS = 5;
+const MAX_LOCKOUT_MINUTES = 60;
+
+/**
+ * Lock the account once MAX_FAILED_LOGINS is reached, doubling the lockout
+ * for every further failure (1, 2, 4, ... minutes, capped at an hour).
+ */
+export function getLockoutUntil(failedLoginAttempts: number): Date | null {
+  if (failedLoginAttempts < MAX_FAILED_LOGINS) return null;
+
+  const minutes = Math.min(2 ** (failedLoginAttempts - MAX_FAILED_LOGINS), MAX_LOCKOUT_MINUTES);
+  return new Date(Date.now() + minutes * 60 * 1000);
+}
+
+const DEFAULT_IDLE_MINUTES = 24 * 60;
+
+/**
+ * Starts a fresh session for a user who just logged in. The session id is
+ * regenerated so a session created before login can't be reused.
+ */
+export async function startSession(req: Request, user: User): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    req.session.regenerate((err) => (err ? reject(err) : resolve()));
+  });
+
+  const now = new Date().toISOString();
+  req.session.userId = user.id;
+  req.session.sessionKey = nanoid();
+  req.session.loginAt = now;
+  req.session.lastActivityAt = now;
+  req.session.userAgent = req.get("user-agent") || undefined;
+  req.session.ipAddress = req.ip;
+}
+
+/**
+ * Logs out sessions that have been idle for longer than the lodge's configured
+ * timeout, and otherwise slides the cookie (and stored session) expiry forward.
+ */
+export async function enforceIdleTimeout(req: Request, res: Response, next: NextFunction) {
+  if (!req.session?.userId) return next();
+
+  try {
+    const settings = await storage.getLodgeSettings();
+    const idleMinutes = settings?.sessionIdleMinutes || DEFAULT_IDLE_MINUTES;
+    const idleMs = idleMinutes * 60 * 1000;
+
+    const lastActivity = req.session.lastActivityAt ? new Date(req.session.lastActivityAt).getTime() : Date.now();
+    if (Date.now() - lastActivity > idleMs) {
+      return req.session.destroy(() => next());
+    }
+
+    req.session.lastActivityAt = new Date().toISOString();
+    req.session.cookie.maxAge = idleMs;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+async function loadCurrentUser(req: Request): Promise<User | undefined> {
+  if (!req.session?.userId) return undefined;
+
+  const user = await storage.getUser(req.session.userId);
+  if (!user || !user.isActive) return undefined;
+
+  setRequestActor(user);
+  return user;
+}
+
+function rejectPendingPasswordChange(user: User, res: Response): boolean {
+  if (!user.mustChangePassword) return false;
+
+  res.status(403).json({ message: "Password change required", code: "PASSWORD_CHANGE_REQUIRED" });
+  return true;
+}
+
+/**
+ * Accepts any logged-in, active staff account, even one that still has to
+ * change its password. Only for the endpoints needed to do exactly that.
+ */
+export async function requireSession(req: Request, res: Response, next: NextFunction) {
+  try {
+    const user = await loadCurrentUser(req);
+    if (!user) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+
+    req.currentUser = user;
+    next();
+  } catch (error) {
+    res.status(500).json({ message: "Internal server error" });
+  }
+}
+
+/**
+ * Rejects requests without a logged-in, active staff account and
+ * exposes the account as req.currentUser for the route handler.
+ */
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  try {
+    const user = await loadCurrentUser(req);
+    if (!user) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+
+    if (rejectPendingPasswordChange(user, res)) return;
+
+    req.currentUser = user;
+    next();
+  } catch (error) {
+    res.status(500).json({ message: "Internal server error" });
+  }
+}
+
+/**
+ * Same as requireAuth, but additionally checks the user's role
+ * against the shared permission table.
+ */
+export function requirePermission(permission: Permission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = await loadCurrentUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      if (rejectPendingPasswordChange(user, res)) return;
+
+      if (!hasPermission(user.role, permission)) {
+        return res.status(403).json({ message: "You do not have permission to perform this action" });
+      }
+
+      req.currentUser = user;
+      next();
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  };
+}
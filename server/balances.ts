@@ -0,0 +1,125 @@
+import type { Guest, Payment, PaymentKind, PaymentMethod, User } from "@shared/schema";
+import { paymentSign } from "@shared/payments";
+import { toPaise, toRupees } from "@shared/money";
+import { storage } from "./storage";
+
+export interface StayBalance {
+  totalAmount: string;
+  paidAmount: string;
+  balanceDue: string;
+}
+
+// Cancelled stays and no-shows owe nothing more, whatever they were quoted
+const CLOSED_WITHOUT_CHARGE = ["cancelled", "no_show"];
+
+/**
+ * What a stay still owes. Only paid rows count as money received, less any
+ * refunds and voids; the pending row merely mirrors the balance and is never
+ * added to it.
+ */
+export function calculateBalance(guest: Pick<Guest, "status" | "totalAmount">, stayPayments: Payment[]): StayBalance {
+  const owedPaise = CLOSED_WITHOUT_CHARGE.includes(guest.status) ? 0 : toPaise(guest.totalAmount);
+  const paidPaise = stayPayments
+    .reduce((sum, payment) => sum + paymentSign(payment) * toPaise(payment.amount), 0);
+
+  return {
+    totalAmount: toRupees(toPaise(guest.totalAmount)),
+    paidAmount: toRupees(paidPaise),
+    balanceDue: toRupees(Math.max(0, owedPaise - paidPaise)),
+  };
+}
+
+/**
+ * Keeps a stay's single pending payment equal to its balance due: created
+ * when something is owed, resized when the bill or receipts change, and
+ * removed once the stay is settled. Call after either side changes.
+ */
+export async function syncOutstandingBalance(guestId: string): Promise<StayBalance | undefined> {
+  const guest = await storage.getGuest(guestId);
+  if (!guest) return undefined;
+
+  const stayPayments = await storage.getPaymentsByGuest(guestId);
+  const balance = calculateBalance(guest, stayPayments);
+  const pending = stayPayments.find((payment) => payment.status === "pending");
+
+  if (toPaise(balance.balanceDue) === 0) {
+    if (pending) await storage.deletePayment(pending.id);
+  } else if (!pending) {
+    await storage.createPayment({
+      guestId,
+      amount: balance.balanceDue,
+      paymentMethod: "cash", // Default, the actual method is recorded on each receipt
+      status: "pending",
+    });
+  } else if (toPaise(pending.amount) !== toPaise(balance.balanceDue)) {
+    await storage.updatePayment(pending.id, { amount: balance.balanceDue });
+  }
+
+  return balance;
+}
+
+/**
+ * Records money received against a stay and shrinks the pending balance to
+ * match. A QR receipt takes over the UPI reference shown on the bill, so the
+ * next QR for whatever is still owed gets a fresh one.
+ */
+export async function recordReceipt(
+  guestId: string,
+  receipt: { amountPaise: number; paymentMethod: PaymentMethod | string; paidAt?: Date; upiReference?: string | null; companyAccountId?: string | null },
+): Promise<{ payment: Payment; balance: StayBalance | undefined }> {
+  const pending = (await storage.getPaymentsByGuest(guestId)).find((payment) => payment.status === "pending");
+  const upiReference = receipt.paymentMethod === "qr"
+    ? pending?.upiReference ?? receipt.upiReference ?? null
+    : null;
+
+  const payment = await storage.createPayment({
+    guestId,
+    amount: toRupees(receipt.amountPaise),
+    paymentMethod: receipt.paymentMethod,
+    status: "paid",
+    paidAt: receipt.paidAt ?? new Date(),
+    upiReference,
+    companyAccountId: receipt.paymentMethod === "company" ? receipt.companyAccountId ?? null : null,
+  });
+  if (pending?.upiReference) {
+    await storage.updatePayment(pending.id, { upiReference: null });
+  }
+
+  const balance = await syncOutstandingBalance(guestId);
+  return { payment, balance };
+}
+
+// What is left of a receipt once earlier refunds and voids against it are taken off
+export function reversiblePaise(receipt: Payment, stayPayments: Payment[]): number {
+  const reversedPaise = stayPayments
+    .filter((payment) => payment.reversesPaymentId === receipt.id && payment.status === "paid")
+    .reduce((sum, payment) => sum + toPaise(payment.amount), 0);
+  return Math.max(0, toPaise(receipt.amount) - reversedPaise);
+}
+
+/**
+ * Records a refund or void against a paid receipt as its own paid row, so the
+ * original entry is never edited, then recalculates the stay's balance due.
+ * Reversing onto the company method raises a credit note on the bill's company.
+ */
+export async function reversePayment(
+  receipt: Payment,
+  reversal: { kind: Exclude<PaymentKind, "receipt">; amountPaise: number; paymentMethod: PaymentMethod | string; reason: string },
+  actor: Pick<User, "id" | "username">,
+): Promise<{ payment: Payment; balance: StayBalance | undefined }> {
+  const payment = await storage.createPayment({
+    guestId: receipt.guestId,
+    amount: toRupees(reversal.amountPaise),
+    paymentMethod: reversal.paymentMethod,
+    status: "paid",
+    paidAt: new Date(),
+    kind: reversal.kind,
+    reversesPaymentId: receipt.id,
+    reason: reversal.reason,
+    recordedBy: actor.id,
+    recordedByName: actor.username,
+    companyAccountId: reversal.paymentMethod === "company" ? receipt.companyAccountId : null,
+  });
+  const balance = await syncOutstandingBalance(receipt.guestId);
+  return { payment, balance };
+}
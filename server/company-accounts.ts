@@ -0,0 +1,183 @@
+import type { CompanyAccount, CompanySettlement, CompanySettlementRequest, Payment, User } from "@shared/schema";
+import { isReversal, paymentMethodLabel } from "@shared/payments";
+import { toPaise, toRupees } from "@shared/money";
+import { storage } from "./storage";
+
+export interface CompanyBill {
+  paymentId: string;
+  guestId: string;
+  guestName: string;
+  roomNumber: string | null;
+  billedAt: Date | null;
+  amount: string;
+  outstanding: string; // after credit notes
+}
+
+export interface CompanyLedgerEntry {
+  date: Date | null;
+  type: "bill" | "credit" | "settlement";
+  description: string;
+  debit: string;
+  credit: string;
+  balance: string;
+}
+
+export interface CompanyStatement {
+  account: CompanyAccount;
+  from: Date | null;
+  to: Date | null;
+  openingBalance: string;
+  entries: CompanyLedgerEntry[];
+  closingBalance: string;
+  totalBilled: string;
+  totalCredited: string; // credit notes and settlements in the period
+  openBills: CompanyBill[];
+}
+
+/**
+ * What the company owes on each bill it hasn't paid yet. A credit note is a
+ * refund or void of a company bill, so it counts against that bill.
+ */
+function openBillPaise(companyPayments: Payment[]): Map<string, number> {
+  const open = new Map<string, number>();
+  companyPayments
+    .filter((payment) => !isReversal(payment) && !payment.companySettlementId)
+    .forEach((payment) => open.set(payment.id, toPaise(payment.amount)));
+  companyPayments
+    .filter((payment) => isReversal(payment) && payment.reversesPaymentId)
+    .forEach((payment) => {
+      const left = open.get(payment.reversesPaymentId!);
+      if (left !== undefined) open.set(payment.reversesPaymentId!, Math.max(0, left - toPaise(payment.amount)));
+    });
+  return open;
+}
+
+export async function getCompanyOutstandingPaise(companyAccountId: string): Promise<number> {
+  const open = openBillPaise(await storage.getCompanyPayments(companyAccountId));
+  return Array.from(open.values()).reduce((sum, paise) => sum + paise, 0);
+}
+
+async function describeBills(companyPayments: Payment[]): Promise<CompanyBill[]> {
+  const bills: CompanyBill[] = [];
+  for (const [paymentId, outstandingPaise] of Array.from(openBillPaise(companyPayments))) {
+    if (outstandingPaise === 0) continue;
+    const payment = companyPayments.find((candidate) => candidate.id === paymentId)!;
+    const guest = await storage.getGuest(payment.guestId);
+    const room = guest?.roomId ? await storage.getRoom(guest.roomId) : undefined;
+    bills.push({
+      paymentId,
+      guestId: payment.guestId,
+      guestName: guest?.name ?? "Unknown",
+      roomNumber: room?.roomNumber ?? null,
+      billedAt: payment.paidAt,
+      amount: payment.amount,
+      outstanding: toRupees(outstandingPaise),
+    });
+  }
+  return bills;
+}
+
+export async function getOpenCompanyBills(companyAccountId: string): Promise<CompanyBill[]> {
+  return await describeBills(await storage.getCompanyPayments(companyAccountId));
+}
+
+/**
+ * The company's ledger for a period: bills raise the balance, credit notes
+ * and settlements bring it down. Everything before `from` is carried in as
+ * the opening balance.
+ */
+export async function buildCompanyStatement(account: CompanyAccount, from: Date | null, to: Date | null): Promise<CompanyStatement> {
+  const companyPayments = await storage.getCompanyPayments(account.id);
+  const settlements = await storage.getCompanySettlements(account.id);
+  const guestNames = new Map<string, string>();
+
+  const movements: { date: Date | null; type: CompanyLedgerEntry["type"]; description: string; paise: number }[] = [];
+  for (const payment of companyPayments) {
+    if (!guestNames.has(payment.guestId)) {
+      guestNames.set(payment.guestId, (await storage.getGuest(payment.guestId))?.name ?? "Unknown");
+    }
+    const guestName = guestNames.get(payment.guestId)!;
+    movements.push(isReversal(payment)
+      ? { date: payment.paidAt, type: "credit", description: `Credit note - ${guestName}${payment.reason ? ` (${payment.reason})` : ""}`, paise: -toPaise(payment.amount) }
+      : { date: payment.paidAt, type: "bill", description: `Stay - ${guestName}`, paise: toPaise(payment.amount) });
+  }
+  for (const settlement of settlements) {
+    movements.push({ date: settlement.settledAt, type: "settlement", description: settlementDescription(settlement), paise: -toPaise(settlement.amount) });
+  }
+  movements.sort((a, b) => (a.date?.getTime() ?? 0) - (b.date?.getTime() ?? 0));
+
+  const before = (date: Date | null) => !!from && (date?.getTime() ?? 0) < from.getTime();
+  const after = (date: Date | null) => !!to && (date?.getTime() ?? 0) > to.getTime();
+
+  const openingPaise = movements.filter((movement) => before(movement.date)).reduce((sum, movement) => sum + movement.paise, 0);
+  let balancePaise = openingPaise;
+  let billedPaise = 0;
+  let creditedPaise = 0;
+  const entries: CompanyLedgerEntry[] = [];
+
+  for (const movement of movements.filter((movement) => !before(movement.date) && !after(movement.date))) {
+    balancePaise += movement.paise;
+    if (movement.paise > 0) billedPaise += movement.paise;
+    else creditedPaise -= movement.paise;
+    entries.push({
+      date: movement.date,
+      type: movement.type,
+      description: movement.description,
+      debit: toRupees(Math.max(0, movement.paise)),
+      credit: toRupees(Math.max(0, -movement.paise)),
+      balance: toRupees(balancePaise),
+    });
+  }
+
+  return {
+    account,
+    from,
+    to,
+    openingBalance: toRupees(openingPaise),
+    entries,
+    closingBalance: toRupees(balancePaise),
+    totalBilled: toRupees(billedPaise),
+    totalCredited: toRupees(creditedPaise),
+    openBills: await describeBills(companyPayments),
+  };
+}
+
+function settlementDescription(settlement: CompanySettlement): string {
+  const method = paymentMethodLabel(settlement.paymentMethod);
+  return `Payment received (${method}${settlement.reference ? ` ${settlement.reference}` : ""})`;
+}
+
+/**
+ * Records one payment from the company covering several billed stays. The
+ * amount is whatever is still owed on the chosen bills, which are then
+ * marked as settled so they can't be paid for twice.
+ */
+export async function settleCompanyBills(
+  account: CompanyAccount,
+  request: CompanySettlementRequest,
+  actor: Pick<User, "id" | "username">,
+): Promise<{ settlement?: CompanySettlement; error?: string }> {
+  const open = openBillPaise(await storage.getCompanyPayments(account.id));
+  const paymentIds = Array.from(new Set(request.paymentIds));
+
+  if (paymentIds.some((paymentId) => !open.has(paymentId))) {
+    return { error: "Some of the selected bills are not open bills of this company" };
+  }
+
+  const amountPaise = paymentIds.reduce((sum, paymentId) => sum + open.get(paymentId)!, 0);
+  if (amountPaise === 0) {
+    return { error: "Nothing is owed on the selected bills" };
+  }
+
+  const settlement = await storage.createCompanySettlement({
+    companyAccountId: account.id,
+    amount: toRupees(amountPaise),
+    paymentMethod: request.paymentMethod,
+    reference: request.reference || null,
+    notes: request.notes || null,
+    settledAt: request.settledAt ?? new Date(),
+    recordedBy: actor.id,
+    recordedByName: actor.username,
+  }, paymentIds);
+  return { settlement };
+}
@@ -0,0 +1,170 @@
+import type { DepositCollect, DepositDeduction, DepositDeductionRequest, DepositRelease, Guest, SecurityDeposit, User } from "@shared/schema";
+import { toPaise, toRupees } from "@shared/money";
+import { storage } from "./storage";
+import { calculateBalance, recordReceipt } from "./balances";
+import { canPostCharges, recalculateStayTotal } from "./folio";
+import { calculateChargeAmounts } from "./pricing";
+
+export interface DepositWithDeductions extends SecurityDeposit {
+  deductions: DepositDeduction[];
+  deductedAmount: string;
+  heldAmount: string; // still with the lodge
+}
+
+export interface HeldDeposit extends DepositWithDeductions {
+  guestName: string;
+  roomNumber: string | null;
+  guestStatus: string | null;
+}
+
+type Actor = Pick<User, "id" | "username">;
+
+// What the lodge still holds: the deposit less deductions and anything handed back
+export function heldPaise(deposit: SecurityDeposit, deductions: DepositDeduction[]): number {
+  const deductedPaise = deductions.reduce((sum, deduction) => sum + toPaise(deduction.amount), 0);
+  return Math.max(0, toPaise(deposit.amount) - deductedPaise - toPaise(deposit.releasedAmount ?? "0"));
+}
+
+export async function describeDeposits(deposits: SecurityDeposit[]): Promise<DepositWithDeductions[]> {
+  const deductions = await storage.getDepositDeductions(deposits.map((deposit) => deposit.id));
+  return deposits.map((deposit) => {
+    const own = deductions.filter((deduction) => deduction.depositId === deposit.id);
+    return {
+      ...deposit,
+      deductions: own,
+      deductedAmount: toRupees(own.reduce((sum, deduction) => sum + toPaise(deduction.amount), 0)),
+      heldAmount: toRupees(heldPaise(deposit, own)),
+    };
+  });
+}
+
+export async function collectDeposit(guest: Guest, data: DepositCollect, actor: Actor): Promise<SecurityDeposit> {
+  const shift = await storage.getOpenShift(actor.id);
+  return await storage.createSecurityDeposit({
+    guestId: guest.id,
+    amount: toRupees(toPaise(data.amount)),
+    paymentMethod: data.paymentMethod,
+    notes: data.notes || null,
+    collectedBy: actor.id,
+    collectedByName: actor.username,
+    collectedShiftId: shift?.id ?? null,
+  });
+}
+
+/**
+ * Keeps part of a deposit to pay for damage. The money is posted to the stay
+ * as a receipt against a damage charge, either one already on the folio or a
+ * new one for the amount, so it only becomes revenue once it is kept.
+ */
+export async function deductFromDeposit(
+  deposit: SecurityDeposit,
+  data: DepositDeductionRequest,
+  actor: Actor,
+): Promise<{ deduction?: DepositDeduction; error?: string }> {
+  if (deposit.status !== "held") {
+    return { error: "This deposit has already been released" };
+  }
+
+  const amountPaise = toPaise(data.amount);
+  const held = heldPaise(deposit, await storage.getDepositDeductions([deposit.id]));
+  if (amountPaise > held) {
+    return { error: `Only ₹${toRupees(held)} of the deposit is still held` };
+  }
+
+  const guest = await storage.getGuest(deposit.guestId);
+  if (!guest) {
+    return { error: "Guest not found" };
+  }
+
+  let folioChargeId = data.folioChargeId;
+  if (folioChargeId) {
+    const charge = await storage.getFolioCharge(folioChargeId);
+    if (!charge || charge.guestId !== guest.id || charge.category !== "damage") {
+      return { error: "Choose a damage charge on this stay" };
+    }
+    if (await storage.findDepositDeductionByCharge(charge.id)) {
+      return { error: "That charge has already been paid from the deposit" };
+    }
+    if (amountPaise > toPaise(charge.totalAmount)) {
+      return { error: `The charge is only ₹${charge.totalAmount}` };
+    }
+    const { balanceDue } = calculateBalance(guest, await storage.getPaymentsByGuest(guest.id));
+    if (amountPaise > toPaise(balanceDue)) {
+      return { error: `The stay only owes ₹${balanceDue}` };
+    }
+  } else {
+    if (!canPostCharges(guest)) {
+      return { error: `Cannot post charges to a ${guest.status} stay` };
+    }
+    const charge = await storage.createFolioCharge({
+      guestId: guest.id,
+      category: "damage",
+      description: data.reason,
+      quantity: 1,
+      unitPrice: toRupees(amountPaise),
+      ...calculateChargeAmounts(1, toRupees(amountPaise), 0),
+    });
+    await recalculateStayTotal(guest.id);
+    folioChargeId = charge.id;
+  }
+
+  const { payment } = await recordReceipt(guest.id, {
+    amountPaise,
+    paymentMethod: deposit.paymentMethod,
+  });
+
+  const deduction = await storage.createDepositDeduction({
+    depositId: deposit.id,
+    folioChargeId,
+    paymentId: payment.id,
+    amount: toRupees(amountPaise),
+    reason: data.reason,
+    recordedBy: actor.id,
+    recordedByName: actor.username,
+  });
+  return { deduction };
+}
+
+// Hands back whatever is still held and closes the deposit
+export async function releaseDeposit(
+  deposit: SecurityDeposit,
+  data: DepositRelease,
+  actor: Actor,
+): Promise<{ deposit?: SecurityDeposit; error?: string }> {
+  if (deposit.status !== "held") {
+    return { error: "This deposit has already been released" };
+  }
+
+  const held = heldPaise(deposit, await storage.getDepositDeductions([deposit.id]));
+  const notes = [deposit.notes, data.notes].filter(Boolean).join("\n") || null;
+  const shift = await storage.getOpenShift(actor.id);
+
+  const released = await storage.updateSecurityDeposit(deposit.id, {
+    status: "released",
+    releasedAmount: toRupees(held),
+    releaseMethod: data.paymentMethod ?? deposit.paymentMethod,
+    releasedAt: new Date(),
+    releasedBy: actor.id,
+    releasedByName: actor.username,
+    releasedShiftId: shift?.id ?? null,
+    notes,
+  });
+  return { deposit: released };
+}
+
+// Every deposit the lodge is still holding, with whose stay it belongs to
+export async function buildHeldDepositsReport(): Promise<HeldDeposit[]> {
+  const deposits = await describeDeposits(await storage.getSecurityDeposits({ status: "held" }));
+  const report: HeldDeposit[] = [];
+  for (const deposit of deposits) {
+    const guest = await storage.getGuest(deposit.guestId);
+    const room = guest?.roomId ? await storage.getRoom(guest.roomId) : undefined;
+    report.push({
+      ...deposit,
+      guestName: guest?.name ?? "Unknown",
+      roomNumber: room?.roomNumber ?? null,
+      guestStatus: guest?.status ?? null,
+    });
+  }
+  return report;
+}
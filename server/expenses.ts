@@ -0,0 +1,127 @@
+import type { Expense, ExpenseRequest, User } from "@shared/schema";
+import { paymentSign } from "@shared/payments";
+import { toPaise, toRupees } from "@shared/money";
+import { storage } from "./storage";
+import { businessDateOf } from "./night-audit";
+
+export interface ProfitAndLossMonth {
+  month: string; // YYYY-MM
+  revenue: string; // receipts less refunds and voids
+  expensesByCategory: Record<string, string>;
+  totalExpenses: string;
+  netProfit: string;
+}
+
+type Actor = Pick<User, "id" | "username">;
+
+// A photo or PDF of the bill
+export const ATTACHMENT_TYPES = ["image/jpeg", "image/png", "image/webp", "application/pdf"];
+
+// Cash paid out at the desk comes from the drawer of whoever has a shift open
+async function drawerShiftId(paymentMode: string, actor: Actor): Promise<string | null> {
+  if (paymentMode !== "cash") return null;
+  return (await storage.getOpenShift(actor.id))?.id ?? null;
+}
+
+async function closedShiftError(expense: Expense): Promise<string | null> {
+  if (!expense.shiftId) return null;
+  const shift = await storage.getShift(expense.shiftId);
+  return shift?.status === "closed" ? "This expense was paid from a shift that has been closed" : null;
+}
+
+// The id can be chosen up front so a day lock override can name the expense
+export async function recordExpense(data: ExpenseRequest, actor: Actor, id?: string): Promise<Expense> {
+  return await storage.createExpense({
+    id,
+    ...data,
+    amount: toRupees(toPaise(data.amount)),
+    payee: data.payee || null,
+    reference: data.reference || null,
+    shiftId: await drawerShiftId(data.paymentMode, actor),
+    recordedBy: actor.id,
+    recordedByName: actor.username,
+  });
+}
+
+export async function changeExpense(
+  expense: Expense,
+  data: ExpenseRequest,
+  actor: Actor,
+): Promise<{ expense?: Expense; error?: string }> {
+  const error = await closedShiftError(expense);
+  if (error) return { error };
+
+  const keepsShift = data.paymentMode === "cash" && expense.shiftId;
+  const updated = await storage.updateExpense(expense.id, {
+    ...data,
+    amount: toRupees(toPaise(data.amount)),
+    payee: data.payee || null,
+    reference: data.reference || null,
+    shiftId: keepsShift ? expense.shiftId : await drawerShiftId(data.paymentMode, actor),
+  });
+  return { expense: updated };
+}
+
+export async function removeExpense(expense: Expense): Promise<{ error?: string }> {
+  const error = await closedShiftError(expense);
+  if (error) return { error };
+
+  await storage.deleteExpense(expense.id);
+  return {};
+}
+
+export async function attachBill(
+  expense: Expense,
+  file: { fileName: string; contentType: string; data: Buffer },
+): Promise<Expense | undefined> {
+  await storage.saveExpenseAttachment(expense.id, file.data.toString("base64"));
+  return await storage.updateExpense(expense.id, { attachmentName: file.fileName, attachmentType: file.contentType });
+}
+
+// YYYY-MM for this month and the ones before it, newest first
+function monthsEndingNow(count: number): string[] {
+  const now = new Date();
+  return Array.from({ length: count }, (_, index) =>
+    businessDateOf(new Date(now.getFullYear(), now.getMonth() - index, 1)).slice(0, 7),
+  );
+}
+
+/**
+ * Month by month takings against what was spent, most recent month first.
+ * Revenue is money received, as on the analytics tab; security deposits only
+ * count once some of one is kept against a damage charge.
+ */
+export async function buildProfitAndLoss(monthCount: number): Promise<ProfitAndLossMonth[]> {
+  const months = monthsEndingNow(monthCount);
+  const revenuePaise = new Map<string, number>(months.map((month) => [month, 0]));
+  const expensesPaise = new Map<string, Record<string, number>>(months.map((month) => [month, {}]));
+
+  for (const payment of await storage.getAllPayments()) {
+    const month = businessDateOf(new Date(payment.paidAt ?? payment.createdAt!)).slice(0, 7);
+    if (!revenuePaise.has(month)) continue;
+    revenuePaise.set(month, revenuePaise.get(month)! + paymentSign(payment) * toPaise(payment.amount));
+  }
+
+  const now = new Date();
+  const expenseRows = await storage.getExpenses({
+    from: `${months[months.length - 1]}-01`,
+    to: businessDateOf(new Date(now.getFullYear(), now.getMonth() + 1, 0)),
+  });
+  for (const expense of expenseRows) {
+    const byCategory = expensesPaise.get(expense.paidOn.slice(0, 7));
+    if (!byCategory) continue;
+    byCategory[expense.category] = (byCategory[expense.category] ?? 0) + toPaise(expense.amount);
+  }
+
+  return months.map((month) => {
+    const byCategory = expensesPaise.get(month)!;
+    const totalPaise = Object.values(byCategory).reduce((sum, paise) => sum + paise, 0);
+    return {
+      month,
+      revenue: toRupees(revenuePaise.get(month)!),
+      expensesByCategory: Object.fromEntries(Object.entries(byCategory).map(([category, paise]) => [category, toRupees(paise)])),
+      totalExpenses: toRupees(totalPaise),
+      netProfit: toRupees(revenuePaise.get(month)! - totalPaise),
+    };
+  });
+}
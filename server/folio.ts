@@ -0,0 +1,33 @@
+import type { Guest } from "@shared/schema";
+import { toPaise, toRupees } from "@shared/money";
+import { storage } from "./storage";
+import { syncOutstandingBalance } from "./balances";
+
+// Stays that can still take charges; cancelled stays and no-shows are closed
+export function canPostCharges(guest: Pick<Guest, "status">): boolean {
+  return guest.status !== "cancelled" && guest.status !== "no_show";
+}
+
+// Room charge after discount, including its GST
+export function roomTotalPaise(guest: Pick<Guest, "baseAmount" | "discountAmount" | "taxAmount">): number {
+  return toPaise(guest.baseAmount) - toPaise(guest.discountAmount ?? "0") + toPaise(guest.taxAmount);
+}
+
+/**
+ * Folds the stay's folio charges into its total and resizes the balance due.
+ * Call after any charge is posted, edited or removed.
+ */
+export async function recalculateStayTotal(guestId: string): Promise<Guest | undefined> {
+  const guest = await storage.getGuest(guestId);
+  if (!guest) return undefined;
+
+  const charges = await storage.getFolioCharges(guestId);
+  const chargesPaise = charges.reduce((sum, charge) => sum + toPaise(charge.totalAmount), 0);
+
+  const updated = await storage.updateGuest(guestId, {
+    chargesAmount: toRupees(chargesPaise),
+    totalAmount: toRupees(roomTotalPaise(guest) + chargesPaise),
+  });
+  await syncOutstandingBalance(guestId);
+  return updated;
+}
@@ -0,0 +1,29 @@
+import type { GstSlab } from "@shared/schema";
+
+// The first two digits of a GSTIN are the registering state's code
+export function gstStateCode(gstin: string | null | undefined): string | null {
+  return gstin ? gstin.slice(0, 2) : null;
+}
+
+// Business guests registered in another state are billed IGST instead of CGST + SGST
+export function isInterStateSupply(lodgeGstin: string | null | undefined, guestGstin: string | null | undefined): boolean {
+  const guestState = gstStateCode(guestGstin);
+  return guestState !== null && guestState !== gstStateCode(lodgeGstin);
+}
+
+// Picks the slab for a nightly tariff in paise; slabs without a limit are checked last
+export function gstRateForTariff(slabs: GstSlab[], nightlyTariffPaise: number): number {
+  const ordered = [...slabs].sort((a, b) => (a.upTo ?? Infinity) - (b.upTo ?? Infinity));
+  const slab = ordered.find((candidate) => candidate.upTo === null || nightlyTariffPaise <= candidate.upTo * 100);
+  return slab?.rate ?? 0;
+}
+
+// Indian financial years run April to March, e.g. 15 Jan 2027 falls in '2026-27'
+export function financialYearOf(date: Date): string {
+  const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, "0")}`;
+}
+
+export function formatInvoiceNumber(financialYear: string, sequence: number): string {
+  return `INV/${financialYear}/${String(sequence).padStart(4, "0")}`;
+}
@@ -0,0 +1,81 @@
+import type { HousekeepingStatus, Room, User } from "@shared/schema";
+import type { Permission } from "@shared/permissions";
+import { storage } from "./storage";
+import { businessDateOf } from "./night-audit";
+import { getRoomsWithOccupancy, type RoomOccupancyStatus } from "./occupancy";
+
+export interface HousekeepingTask {
+  roomId: string;
+  roomNumber: string;
+  roomType: string;
+  housekeepingStatus: HousekeepingStatus;
+  since: Date | null;
+  updatedBy: string | null; // who dirtied or cleaned the room
+  occupancy: RoomOccupancyStatus;
+  arrivalToday: boolean; // a reservation is due in the room today
+}
+
+// The statuses a room may move to, from where, and who may move it
+export const HOUSEKEEPING_STEPS: Record<HousekeepingStatus, { from: readonly HousekeepingStatus[]; permission: Permission }> = {
+  clean: { from: ["dirty"], permission: "housekeeping:clean" },
+  inspected: { from: ["clean"], permission: "housekeeping:inspect" },
+  // A failed inspection, or a room that needs going over again
+  dirty: { from: ["clean", "inspected"], permission: "housekeeping:inspect" },
+};
+
+/**
+ * Moves a room along the housekeeping workflow, refusing steps out of order
+ * such as inspecting a room nobody has cleaned.
+ */
+export async function updateHousekeepingStatus(
+  room: Room,
+  status: HousekeepingStatus,
+  actor: User,
+): Promise<{ room?: Room; error?: string }> {
+  const current = room.housekeepingStatus as HousekeepingStatus;
+  if (!HOUSEKEEPING_STEPS[status].from.includes(current)) {
+    return { error: `Room ${room.roomNumber} is ${current} and cannot be marked ${status}` };
+  }
+
+  const updated = await storage.setHousekeepingStatus(room.id, status, actor.id);
+  return updated ? { room: updated } : { error: "Room not found" };
+}
+
+// A room a guest has left needs cleaning before it is sold again
+export async function markRoomDirty(roomId: string | null | undefined, actor: User): Promise<void> {
+  if (!roomId) return;
+  await storage.setHousekeepingStatus(roomId, "dirty", actor.id);
+}
+
+/**
+ * Rooms waiting on housekeeping: dirty ones to clean and clean ones to
+ * inspect. Rooms with a guest arriving today come first, then the dirty ones.
+ */
+export async function getHousekeepingTasks(): Promise<HousekeepingTask[]> {
+  const today = businessDateOf(new Date());
+  const arrivingRoomIds = new Set(
+    (await storage.getAllGuests())
+      .filter((guest) => (guest.status === "reserved" || guest.status === "confirmed") && businessDateOf(guest.checkinDate) === today)
+      .map((guest) => guest.roomId),
+  );
+  const userNames = new Map((await storage.getAllUsers()).map((user) => [user.id, user.fullName || user.username]));
+
+  const tasks: HousekeepingTask[] = (await getRoomsWithOccupancy(today))
+    .filter((room) => room.housekeepingStatus !== "inspected")
+    .map((room) => ({
+      roomId: room.id,
+      roomNumber: room.roomNumber,
+      roomType: room.roomType,
+      housekeepingStatus: room.housekeepingStatus as HousekeepingStatus,
+      since: room.housekeepingUpdatedAt,
+      updatedBy: room.housekeepingUpdatedBy ? userNames.get(room.housekeepingUpdatedBy) ?? null : null,
+      occupancy: room.status as RoomOccupancyStatus,
+      arrivalToday: arrivingRoomIds.has(room.id),
+    }));
+
+  return tasks.sort((a, b) =>
+    Number(b.arrivalToday) - Number(a.arrivalToday)
+    || Number(b.housekeepingStatus === "dirty") - Number(a.housekeepingStatus === "dirty")
+    || a.roomNumber.localeCompare(b.roomNumber, undefined, { numeric: true }),
+  );
+}
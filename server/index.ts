@@ -1,23 +1,38 @@
 import express, { type Request, Response, NextFunction } from "express";
 import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { pool } from "./db";
+import { enforceIdleTimeout } from "./auth";
+import { withRequestContext } from "./request-context";
+import { scheduleNoShowMarking } from "./reservations";
 
 const app = express();
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
-// Session configuration
+// Session configuration - sessions are stored in Postgres so restarts don't log the desk out
+const PgSessionStore = connectPgSimple(session);
+
 app.use(session({
+  store: new PgSessionStore({
+    pool, // Neon's Pool extends pg.Pool, so it satisfies the store's typing as it is
+    tableName: "sessions",
+    createTableIfMissing: false, // created by `npm run db:push` with the rest of the schema
+  }),
   secret: process.env.SESSION_SECRET || 'lodge-management-secret-key',
   resave: false,
   saveUninitialized: false,
+  rolling: true,
   cookie: {
     secure: false, // Set to true in production with HTTPS
     httpOnly: true,
-    maxAge: 24 * 60 * 60 * 1000 // 24 hours
+    maxAge: 24 * 60 * 60 * 1000 // Default; enforceIdleTimeout applies the configured idle timeout
   }
 }));
+app.use(enforceIdleTimeout);
+app.use(withRequestContext);
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -80,5 +95,6 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    scheduleNoShowMarking();
   });
 })();
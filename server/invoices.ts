@@ -0,0 +1,125 @@
+import type { FolioCharge, Guest, InvoiceContents, InvoiceLine } from "@shared/schema";
+import { toPaise, toRupees } from "@shared/money";
+import { storage } from "./storage";
+import { calculateBalance } from "./balances";
+import { isInterStateSupply } from "./gst";
+
+// Everything needed to print a tax invoice; amounts are decimal strings
+export interface TaxInvoice extends InvoiceContents {
+  invoiceNumber: string;
+  issuedAt: Date;
+  revisedTotalAmount: string | null; // the stay's total now, when it no longer matches the invoice
+  payments: { paidAt: Date | null; paymentMethod: string; amount: string; kind: string }[];
+  paidAmount: string;
+  balanceDue: string;
+}
+
+// Only stays that actually used the room are billed
+const INVOICEABLE_STATUSES = ["active", "checked_out"];
+
+const folioLabels: Record<string, string> = {
+  extra_bed: "Extra bed",
+  food: "Food & beverages",
+  laundry: "Laundry",
+  late_checkout: "Late checkout",
+  damage: "Damages",
+  other: "Other charges",
+};
+
+function folioLine(charge: FolioCharge, sacCode: string): InvoiceLine {
+  const label = folioLabels[charge.category] ?? charge.category;
+  return {
+    description: charge.description ? `${label} - ${charge.description}` : label,
+    sacCode,
+    quantity: charge.quantity,
+    unitPrice: charge.unitPrice,
+    amount: charge.amount,
+    taxRate: charge.taxRate,
+  };
+}
+
+export function canInvoiceStay(guest: Pick<Guest, "status">): boolean {
+  return INVOICEABLE_STATUSES.includes(guest.status);
+}
+
+/**
+ * Returns the stay's tax invoice, numbering it and saving its contents on
+ * first use. Reprints show the invoice as issued; only the payments and
+ * balance are current. If the stay's total has changed since, the new total
+ * is returned alongside so the difference can go on a credit or debit note.
+ */
+export async function issueTaxInvoice(guest: Guest): Promise<TaxInvoice> {
+  let invoice = await storage.getInvoiceByGuest(guest.id);
+  if (!invoice) {
+    invoice = await storage.createInvoice(guest.id, await invoiceContents(guest));
+  } else if (!invoice.contents) {
+    invoice = await storage.saveInvoiceContents(invoice.id, await invoiceContents(guest));
+  }
+  const contents = invoice.contents!;
+  const stayPayments = await storage.getPaymentsByGuest(guest.id);
+  const balance = calculateBalance(guest, stayPayments);
+
+  return {
+    ...contents,
+    invoiceNumber: invoice.invoiceNumber,
+    issuedAt: invoice.issuedAt,
+    revisedTotalAmount: toPaise(guest.totalAmount) === toPaise(contents.totalAmount) ? null : guest.totalAmount,
+    payments: stayPayments
+      .filter((payment) => payment.status === "paid")
+      .map((payment) => ({ paidAt: payment.paidAt, paymentMethod: payment.paymentMethod, amount: payment.amount, kind: payment.kind })),
+    paidAmount: balance.paidAmount,
+    balanceDue: balance.balanceDue,
+  };
+}
+
+// The invoice as it stands for the stay right now, from its charges and the lodge's details
+async function invoiceContents(guest: Guest): Promise<InvoiceContents> {
+  const settings = await storage.getLodgeSettings();
+  const room = guest.roomId ? await storage.getRoom(guest.roomId) : undefined;
+  const charges = await storage.getFolioCharges(guest.id);
+  const sacCode = settings?.sacCode ?? "";
+
+  const roomTaxablePaise = toPaise(guest.baseAmount) - toPaise(guest.discountAmount ?? "0");
+  const chargesTaxablePaise = charges.reduce((sum, charge) => sum + toPaise(charge.amount), 0);
+  const chargesTaxPaise = charges.reduce((sum, charge) => sum + toPaise(charge.taxAmount), 0);
+
+  // Folio tax is charged in even halves, so it splits exactly into CGST and SGST
+  const interState = isInterStateSupply(settings?.gstin, guest.gstin);
+  const chargesIgstPaise = interState ? chargesTaxPaise : 0;
+  const chargesHalfPaise = interState ? 0 : chargesTaxPaise / 2;
+
+  return {
+    seller: {
+      name: settings?.name ?? "",
+      legalName: settings?.legalName ?? null,
+      address: settings?.address ?? "",
+      contactNumber: settings?.contactNumber ?? "",
+      gstin: settings?.gstin ?? null,
+    },
+    buyer: {
+      name: guest.name,
+      phoneNumber: guest.phoneNumber,
+      gstin: guest.gstin,
+    },
+    checkinDate: guest.checkinDate.toISOString(),
+    checkoutDate: guest.checkoutDate.toISOString(),
+    lines: [
+      {
+        description: room ? `Room ${room.roomNumber} (${room.roomType})` : "Room accommodation",
+        sacCode,
+        quantity: guest.totalDays,
+        unitPrice: toRupees(Math.round(toPaise(guest.baseAmount) / guest.totalDays)),
+        amount: guest.baseAmount,
+        taxRate: guest.taxRate,
+      },
+      ...charges.map((charge) => folioLine(charge, sacCode)),
+    ],
+    discountAmount: guest.discountAmount ?? "0.00",
+    taxableAmount: toRupees(roomTaxablePaise + chargesTaxablePaise),
+    cgstAmount: toRupees(toPaise(guest.cgstAmount) + chargesHalfPaise),
+    sgstAmount: toRupees(toPaise(guest.sgstAmount) + chargesHalfPaise),
+    igstAmount: toRupees(toPaise(guest.igstAmount) + chargesIgstPaise),
+    taxAmount: toRupees(toPaise(guest.taxAmount) + chargesTaxPaise),
+    totalAmount: guest.totalAmount,
+  };
+}
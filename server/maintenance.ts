@@ -0,0 +1,147 @@
+import {
+  BLOCKING_TICKET_STATUSES,
+  ROOM_HOLDING_STATUSES,
+  type MaintenanceTicket,
+  type MaintenanceTicketRequest,
+  type MaintenanceTicketStatus,
+  type User,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { businessDateOf } from "./night-audit";
+import { syncRoomStatus } from "./occupancy";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Tickets raised within this many days count as recent in the history
+const RECENT_DAYS = 90;
+
+export interface RoomMaintenanceHistory {
+  roomId: string;
+  roomNumber: string;
+  roomType: string;
+  ticketCount: number; // cancelled tickets left out
+  openCount: number;
+  recentCount: number;
+  daysOutOfService: number; // planned days for open tickets, up to the fix for resolved ones
+  lastIssue: string;
+  lastReportedAt: Date | null;
+}
+
+// Which statuses a ticket may move to from where
+const TICKET_STEPS: Record<Exclude<MaintenanceTicketStatus, "open">, readonly MaintenanceTicketStatus[]> = {
+  in_progress: ["open"],
+  resolved: ["open", "in_progress"],
+  cancelled: ["open", "in_progress"],
+};
+
+const isBlocking = (ticket: MaintenanceTicket) => (BLOCKING_TICKET_STATUSES as readonly string[]).includes(ticket.status);
+
+// Days from start to end, both included
+const daysBetween = (startDate: string, endDate: string) =>
+  Math.max(0, Math.round((Date.parse(endDate) - Date.parse(startDate)) / DAY_MS) + 1);
+
+/**
+ * A ticket cannot take a room out of service while a guest is booked into it;
+ * the stays have to be moved first.
+ */
+async function stayConflict(ticket: Pick<MaintenanceTicket, "roomId" | "startDate" | "endDate">): Promise<string | null> {
+  const clashes = (await storage.getAllGuests()).filter((guest) =>
+    guest.roomId === ticket.roomId
+    && (ROOM_HOLDING_STATUSES as readonly string[]).includes(guest.status)
+    && businessDateOf(guest.checkinDate) <= ticket.endDate
+    && businessDateOf(guest.checkoutDate) > ticket.startDate,
+  );
+  if (clashes.length === 0) return null;
+
+  const stays = clashes.map((guest) =>
+    `${guest.name} (${businessDateOf(guest.checkinDate)} to ${businessDateOf(guest.checkoutDate)})`);
+  return `The room is booked during those dates: ${stays.join(", ")}. Move the stays to another room first`;
+}
+
+export async function openMaintenanceTicket(
+  request: MaintenanceTicketRequest,
+  actor: User,
+): Promise<{ ticket?: MaintenanceTicket; error?: string }> {
+  const conflict = await stayConflict(request);
+  if (conflict) return { error: conflict };
+
+  const ticket = await storage.createMaintenanceTicket(request, actor.id);
+  await syncRoomStatus(ticket.roomId);
+  return { ticket };
+}
+
+/**
+ * Corrects a ticket's details or dates. Closed tickets are history and stay
+ * as they were.
+ */
+export async function changeMaintenanceTicket(
+  ticket: MaintenanceTicket,
+  request: MaintenanceTicketRequest,
+): Promise<{ ticket?: MaintenanceTicket; error?: string }> {
+  if (!isBlocking(ticket)) {
+    return { error: `This ticket is ${ticket.status} and can no longer be changed` };
+  }
+
+  const conflict = await stayConflict(request);
+  if (conflict) return { error: conflict };
+
+  const updated = await storage.updateMaintenanceTicket(ticket.id, request);
+  await syncRoomStatus(ticket.roomId);
+  if (request.roomId !== ticket.roomId) {
+    await syncRoomStatus(request.roomId);
+  }
+  return updated ? { ticket: updated } : { error: "Maintenance ticket not found" };
+}
+
+/**
+ * Starts, resolves or cancels a ticket. Once resolved or cancelled the room
+ * is back in service, even if that is before the planned end date.
+ */
+export async function setMaintenanceTicketStatus(
+  ticket: MaintenanceTicket,
+  status: keyof typeof TICKET_STEPS,
+  resolutionNote?: string,
+): Promise<{ ticket?: MaintenanceTicket; error?: string }> {
+  if (!TICKET_STEPS[status].includes(ticket.status as MaintenanceTicketStatus)) {
+    return { error: `A ${ticket.status} ticket cannot be marked ${status}` };
+  }
+
+  const closing = status !== "in_progress";
+  const updated = await storage.updateMaintenanceTicket(ticket.id, closing
+    ? { status, resolutionNote: resolutionNote || null, resolvedAt: new Date() }
+    : { status });
+  await syncRoomStatus(ticket.roomId);
+  return updated ? { ticket: updated } : { error: "Maintenance ticket not found" };
+}
+
+/**
+ * Each room's record of repairs, the rooms that break most often first.
+ * Rooms that have never had a ticket are left out.
+ */
+export async function buildMaintenanceHistory(): Promise<RoomMaintenanceHistory[]> {
+  const recentSince = new Date(Date.now() - RECENT_DAYS * DAY_MS);
+  const tickets = (await storage.getMaintenanceTickets()).filter((ticket) => ticket.status !== "cancelled");
+
+  const history: RoomMaintenanceHistory[] = [];
+  for (const room of await storage.getAllRooms()) {
+    // Newest first, as storage returns them
+    const roomTickets = tickets.filter((ticket) => ticket.roomId === room.id);
+    if (roomTickets.length === 0) continue;
+
+    history.push({
+      roomId: room.id,
+      roomNumber: room.roomNumber,
+      roomType: room.roomType,
+      ticketCount: roomTickets.length,
+      openCount: roomTickets.filter(isBlocking).length,
+      recentCount: roomTickets.filter((ticket) => ticket.createdAt && ticket.createdAt >= recentSince).length,
+      daysOutOfService: roomTickets.reduce((days, ticket) => {
+        const fixedOn = ticket.resolvedAt ? businessDateOf(ticket.resolvedAt) : ticket.endDate;
+        return days + daysBetween(ticket.startDate, fixedOn < ticket.endDate ? fixedOn : ticket.endDate);
+      }, 0),
+      lastIssue: roomTickets[0].issue,
+      lastReportedAt: roomTickets[0].createdAt,
+    });
+  }
+
+  return history.sort((a, b) => b.ticketCount - a.ticketCount || b.daysOutOfService - a.daysOutOfService);
+}
@@ -0,0 +1,209 @@
+import { BLOCKING_TICKET_STATUSES, type DailySummary, type Guest, type InsertDailySummary, type InsertRoomNightPosting, type OverdueCheckout, type RoomNightPosting, type User } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import { paymentSign } from "@shared/payments";
+import { toPaise, toRupees } from "@shared/money";
+import { storage } from "./storage";
+import { roomTotalPaise } from "./folio";
+import { heldPaise } from "./deposits";
+
+export interface NightAuditPreview {
+  summary: Omit<InsertDailySummary, "closedBy" | "closedByName">;
+  postings: (InsertRoomNightPosting & { guestName: string; roomNumber: string | null })[];
+}
+
+// The lodge's local calendar day, as YYYY-MM-DD
+export function businessDateOf(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function dayBounds(businessDate: string): { start: Date; end: Date } {
+  const [year, month, day] = businessDate.split("-").map(Number);
+  return { start: new Date(year, month - 1, day), end: new Date(year, month - 1, day + 1) };
+}
+
+const onDay = (date: Date | null | undefined, businessDate: string) => !!date && businessDateOf(date) === businessDate;
+
+/**
+ * Days are closed in order, starting from the first day the audit is run.
+ * Null once today has been closed.
+ */
+export async function getNextBusinessDate(): Promise<string | null> {
+  const latest = await storage.getLatestDailySummary();
+  const today = businessDateOf(new Date());
+  if (!latest) return today;
+
+  const next = businessDateOf(dayBounds(latest.businessDate).end);
+  return next <= today ? next : null;
+}
+
+// Everything up to the last close is locked, including days before the audit was first run
+export async function isBusinessDayClosed(businessDate: string): Promise<boolean> {
+  const latest = await storage.getLatestDailySummary();
+  return !!latest && businessDate <= latest.businessDate;
+}
+
+/**
+ * One night's share of what is left of the room charge. Posted nights are never
+ * revisited, so extending or re-pricing a stay only changes the nights to come.
+ * A stay that has left gets whatever is still unposted.
+ */
+function nightPostingPaise(guest: Guest, posted: RoomNightPosting[], departed: boolean): number {
+  const remainingPaise = roomTotalPaise(guest) - posted.reduce((sum, posting) => sum + toPaise(posting.amount), 0);
+  if (remainingPaise <= 0) return 0;
+
+  const nightsLeft = guest.totalDays - posted.length;
+  if (departed || nightsLeft <= 1) return remainingPaise;
+  return Math.round(remainingPaise / nightsLeft);
+}
+
+/**
+ * Works out everything a close would record for the day: the room nights to
+ * post, who should have checked out, occupancy and the day's takings.
+ */
+export async function buildNightAudit(businessDate: string): Promise<NightAuditPreview> {
+  const { start, end } = dayBounds(businessDate);
+  const rooms = await storage.getAllRooms();
+  const roomNumbers = new Map(rooms.map((room) => [room.id, room.roomNumber]));
+  const stays = await storage.getAllGuests();
+
+  // In house that night, plus anyone who left during the day with nights still unposted
+  const inHouse = stays.filter((guest) => guest.status === "active" && guest.roomId && guest.checkinDate < end);
+  const departed = stays.filter((guest) => guest.status === "checked_out" && onDay(guest.checkedOutAt, businessDate));
+
+  const existingPostings = await storage.getRoomNightPostings([...inHouse, ...departed].map((guest) => guest.id));
+  const postings: NightAuditPreview["postings"] = [];
+  for (const guest of [...inHouse, ...departed]) {
+    const posted = existingPostings.filter((posting) => posting.guestId === guest.id);
+    if (posted.some((posting) => posting.businessDate === businessDate)) continue;
+
+    const amountPaise = nightPostingPaise(guest, posted, guest.status === "checked_out");
+    if (amountPaise === 0) continue;
+    postings.push({
+      guestId: guest.id,
+      roomId: guest.roomId,
+      businessDate,
+      amount: toRupees(amountPaise),
+      guestName: guest.name,
+      roomNumber: guest.roomId ? roomNumbers.get(guest.roomId) ?? null : null,
+    });
+  }
+
+  const overdueCheckouts: OverdueCheckout[] = inHouse
+    .filter((guest) => businessDateOf(guest.checkoutDate) <= businessDate)
+    .map((guest) => ({
+      guestId: guest.id,
+      guestName: guest.name,
+      roomNumber: guest.roomId ? roomNumbers.get(guest.roomId) ?? null : null,
+      checkoutDate: businessDateOf(guest.checkoutDate),
+    }));
+
+  // Rooms a maintenance ticket keeps out of service that day
+  const maintenanceRooms = new Set((await storage.getMaintenanceTickets())
+    .filter((ticket) => (BLOCKING_TICKET_STATUSES as readonly string[]).includes(ticket.status)
+      && ticket.startDate <= businessDate && businessDate <= ticket.endDate)
+    .map((ticket) => ticket.roomId)).size;
+  const occupiedRooms = new Set(inHouse.map((guest) => guest.roomId)).size;
+  const sellableRooms = rooms.length - maintenanceRooms;
+
+  // Takings follow the day the money moved, refunds and voids included. Billing a company
+  // moves no money; its settlement does, on the day the company pays
+  const collectionsByMethod: Record<string, number> = {};
+  for (const payment of await storage.getAllPayments()) {
+    if (payment.status !== "paid" || payment.paymentMethod === "company") continue;
+    if (!onDay(payment.paidAt ?? payment.createdAt, businessDate)) continue;
+    collectionsByMethod[payment.paymentMethod] = (collectionsByMethod[payment.paymentMethod] ?? 0)
+      + paymentSign(payment) * toPaise(payment.amount);
+  }
+  for (const settlement of await storage.getCompanySettlements()) {
+    if (!onDay(settlement.settledAt, businessDate)) continue;
+    collectionsByMethod[settlement.paymentMethod] = (collectionsByMethod[settlement.paymentMethod] ?? 0)
+      + toPaise(settlement.amount);
+  }
+
+  const charges = await storage.getFolioChargesPostedBetween(start, end);
+  const heldDeposits = await storage.getSecurityDeposits({ status: "held" });
+  const deductions = await storage.getDepositDeductions(heldDeposits.map((deposit) => deposit.id));
+
+  return {
+    summary: {
+      businessDate,
+      totalRooms: rooms.length,
+      occupiedRooms,
+      maintenanceRooms,
+      occupancyRate: (sellableRooms > 0 ? occupiedRooms / sellableRooms * 100 : 0).toFixed(2),
+      arrivals: stays.filter((guest) =>
+        (guest.status === "active" || guest.status === "checked_out") && onDay(guest.checkedInAt ?? guest.checkinDate, businessDate),
+      ).length,
+      departures: departed.length,
+      overdueCheckouts,
+      roomRevenue: toRupees(postings.reduce((sum, posting) => sum + toPaise(posting.amount), 0)),
+      chargesRevenue: toRupees(charges.reduce((sum, charge) => sum + toPaise(charge.totalAmount), 0)),
+      collections: toRupees(Object.values(collectionsByMethod).reduce((sum, paise) => sum + paise, 0)),
+      collectionsByMethod: Object.fromEntries(
+        Object.entries(collectionsByMethod).map(([method, paise]) => [method, toRupees(paise)]),
+      ),
+      depositsHeld: toRupees(heldDeposits.reduce((sum, deposit) =>
+        sum + heldPaise(deposit, deductions.filter((deduction) => deduction.depositId === deposit.id)), 0,
+      )),
+    },
+    postings,
+  };
+}
+
+// Posts the day's room nights, snapshots it and locks it
+export async function closeBusinessDay(
+  businessDate: string,
+  actor: Pick<User, "id" | "username">,
+): Promise<{ summary?: DailySummary; error?: string }> {
+  const next = await getNextBusinessDate();
+  if (!next) {
+    return { error: "Today has already been closed" };
+  }
+  if (businessDate !== next) {
+    return { error: `The next day to close is ${next}` };
+  }
+
+  const { summary, postings } = await buildNightAudit(businessDate);
+  const closed = await storage.createDailySummary(
+    { ...summary, closedBy: actor.id, closedByName: actor.username },
+    postings.map(({ guestName, roomNumber, ...posting }) => posting),
+  );
+  return { summary: closed };
+}
+
+/**
+ * Stops a change to a closed business day, including new money dated on it,
+ * unless a manager gives a reason, which is logged against that day. Returns
+ * the response to send when the change is refused.
+ */
+export async function checkDayLock(
+  businessDate: string,
+  record: { entityType: string; entityId: string; action: "create" | "update" | "delete" },
+  overrideReason: string | undefined,
+  actor: Pick<User, "id" | "username" | "role">,
+): Promise<{ status: number; message: string } | null> {
+  if (!(await isBusinessDayClosed(businessDate))) return null;
+
+  if (!overrideReason) {
+    return { status: 423, message: `The business day ${businessDate} is closed. A manager override is needed to change it.` };
+  }
+  if (!hasPermission(actor.role, "night_audit:override")) {
+    return { status: 403, message: "Only a manager can change a closed business day" };
+  }
+
+  await storage.createDayLockOverride({
+    businessDate,
+    ...record,
+    reason: overrideReason,
+    overriddenBy: actor.id,
+    overriddenByName: actor.username,
+  });
+  return null;
+}
+
+// Money that arrived on a closed day is booked on the day it is recorded instead
+export async function openPostingDate(date: Date): Promise<Date> {
+  return (await isBusinessDayClosed(businessDateOf(date))) ? new Date() : date;
+}
@@ -0,0 +1,140 @@
+import { BLOCKING_TICKET_STATUSES, type Guest, type MaintenanceTicket, type Room } from "@shared/schema";
+import { storage } from "./storage";
+import { businessDateOf } from "./night-audit";
+
+export type RoomOccupancyStatus = "available" | "occupied" | "maintenance";
+
+export interface RoomStatusMismatch {
+  roomId: string;
+  roomNumber: string;
+  storedStatus: string;
+  derivedStatus: RoomOccupancyStatus;
+  guestId: string | null; // the stay in the room, if any
+  guestName: string | null;
+}
+
+export interface RoomStatusReport {
+  checkedAt: Date;
+  roomsChecked: number;
+  mismatches: RoomStatusMismatch[];
+  repaired: boolean;
+}
+
+/**
+ * Whether a stay has the room on the night of `date` (YYYY-MM-DD). Guests in
+ * house keep the room until they check out, even past their booked date;
+ * reservations only count for nights after today, since until they arrive
+ * the room is free to sell for tonight.
+ */
+function stayOccupies(guest: Guest, date: string, today: string): boolean {
+  if (date < businessDateOf(guest.checkinDate)) return false;
+
+  switch (guest.status) {
+    case "active":
+      return date <= today || date < businessDateOf(guest.checkoutDate);
+    case "checked_out":
+      return date < businessDateOf(guest.checkedOutAt ?? guest.checkoutDate);
+    case "reserved":
+    case "confirmed":
+      return date > today && date < businessDateOf(guest.checkoutDate);
+    default:
+      return false;
+  }
+}
+
+// A guest in the room wins over a repair booked for the same day
+function deriveStatus(occupant: Guest | undefined, ticket: MaintenanceTicket | undefined): RoomOccupancyStatus {
+  if (occupant) return "occupied";
+  return ticket ? "maintenance" : "available";
+}
+
+async function occupantsOn(date: string): Promise<Map<string, Guest>> {
+  const today = businessDateOf(new Date());
+  const occupants = new Map<string, Guest>();
+  for (const guest of await storage.getAllGuests()) {
+    if (guest.roomId && stayOccupies(guest, date, today)) {
+      occupants.set(guest.roomId, guest);
+    }
+  }
+  return occupants;
+}
+
+// Open tickets whose window covers the date, by room
+async function repairsOn(date: string): Promise<Map<string, MaintenanceTicket>> {
+  const repairs = new Map<string, MaintenanceTicket>();
+  for (const ticket of await storage.getMaintenanceTickets()) {
+    const blocking = (BLOCKING_TICKET_STATUSES as readonly string[]).includes(ticket.status);
+    if (blocking && ticket.startDate <= date && date <= ticket.endDate) {
+      repairs.set(ticket.roomId, ticket);
+    }
+  }
+  return repairs;
+}
+
+/**
+ * Every room with its status on the given day (today by default) worked out
+ * from the stays and maintenance tickets, whatever `rooms.status` says.
+ */
+export async function getRoomsWithOccupancy(date: string = businessDateOf(new Date())): Promise<Room[]> {
+  const occupants = await occupantsOn(date);
+  const repairs = await repairsOn(date);
+  return (await storage.getAllRooms()).map((room) => ({
+    ...room,
+    status: deriveStatus(occupants.get(room.id), repairs.get(room.id)),
+  }));
+}
+
+export async function getRoomOccupancy(room: Room): Promise<{ status: RoomOccupancyStatus; occupant?: Guest }> {
+  const today = businessDateOf(new Date());
+  const occupant = (await occupantsOn(today)).get(room.id);
+  return { status: deriveStatus(occupant, (await repairsOn(today)).get(room.id)), occupant };
+}
+
+/**
+ * Brings a room's stored status in line with its stays and tickets after
+ * either changes.
+ */
+export async function syncRoomStatus(roomId: string | null | undefined): Promise<void> {
+  const room = roomId ? await storage.getRoom(roomId) : undefined;
+  if (!room) return;
+
+  const { status } = await getRoomOccupancy(room);
+  if (status !== room.status) {
+    await storage.updateRoom(room.id, { status });
+  }
+}
+
+/**
+ * Lists the rooms whose stored status disagrees with today's stays and
+ * tickets and, when asked, corrects them.
+ */
+export async function checkRoomStatuses(repair: boolean): Promise<RoomStatusReport> {
+  const today = businessDateOf(new Date());
+  const occupants = await occupantsOn(today);
+  const repairs = await repairsOn(today);
+  const rooms = await storage.getAllRooms();
+
+  const mismatches: RoomStatusMismatch[] = [];
+  for (const room of rooms) {
+    const occupant = occupants.get(room.id);
+    const derivedStatus = deriveStatus(occupant, repairs.get(room.id));
+    if (derivedStatus === room.status) continue;
+
+    mismatches.push({
+      roomId: room.id,
+      roomNumber: room.roomNumber,
+      storedStatus: room.status,
+      derivedStatus,
+      guestId: occupant?.id ?? null,
+      guestName: occupant?.name ?? null,
+    });
+  }
+
+  if (repair) {
+    for (const mismatch of mismatches) {
+      await storage.updateRoom(mismatch.roomId, { status: mismatch.derivedStatus });
+    }
+  }
+
+  return { checkedAt: new Date(), roomsChecked: rooms.length, mismatches, repaired: repair };
+}
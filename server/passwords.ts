@@ -0,0 +1,30 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const HASH_PREFIX = "scrypt";
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+// Stored as "scrypt$<salt hex>$<hash hex>" so the format can be recognised later
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${HASH_PREFIX}$${salt.toString("hex")}$${hash.toString("hex")}`;
+}
+
+export function isPasswordHashed(stored: string): boolean {
+  return stored.startsWith(`${HASH_PREFIX}$`);
+}
+
+export async function verifyPassword(stored: string, supplied: string): Promise<boolean> {
+  if (!isPasswordHashed(stored)) return false;
+
+  const [, saltHex, hashHex] = stored.split("$");
+  if (!saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = await scryptAsync(supplied, Buffer.from(saltHex, "hex"), expected.length);
+  return timingSafeEqual(expected, actual);
+}
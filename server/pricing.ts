@@ -0,0 +1,229 @@
+import type { GstSlab, LodgeSettings, NightlyRate, RatePlan, Room } from "@shared/schema";
+import { percentOfPaise, sumPaise, toPaise, toRupees } from "@shared/money";
+import { gstRateForTariff, isInterStateSupply } from "./gst";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Guests arriving before this time also occupy the room for the previous night
+export const EARLY_CHECKIN_BEFORE = "06:00";
+
+export interface StayPricingInput {
+  basePrice: string;        // room rate per day
+  ratePlans: RatePlan[];    // the room type's plans; inactive ones are ignored
+  checkinDate: Date;
+  checkinTime?: string | null; // HH:MM
+  checkoutDate: Date;
+  discountPercentage: number;
+  gstSlabs: GstSlab[] | null; // null when the lodge is not GST-registered
+  interState: boolean;      // IGST instead of CGST + SGST
+}
+
+export interface StayQuote {
+  totalDays: number;
+  nightlyRates: NightlyRate[];
+  stayDiscount: { name: string; percentage: string } | null; // the length-of-stay plan applied
+  baseAmount: string;
+  discountPercentage: string;
+  discountAmount: string;
+  taxRate: string;
+  cgstAmount: string;
+  sgstAmount: string;
+  igstAmount: string;
+  taxAmount: string;
+  totalAmount: string;
+}
+
+export function countStayDays(checkinDate: Date, checkoutDate: Date, checkinTime?: string | null): number {
+  // Charged in 24-hour periods, minimum 1 day even for same-day checkout
+  let days = Math.max(1, Math.ceil((checkoutDate.getTime() - checkinDate.getTime()) / DAY_MS));
+
+  if (checkinTime && checkinTime < EARLY_CHECKIN_BEFORE) {
+    days += 1;
+  }
+
+  return days;
+}
+
+// The calendar date of a night, as YYYY-MM-DD in the lodge's local time
+function nightDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Open-ended seasons cover every night
+const planCovers = (plan: RatePlan, date: string) =>
+  (!plan.startDate || plan.startDate <= date) && (!plan.endDate || date <= plan.endDate);
+
+const planSpanDays = (plan: RatePlan) =>
+  plan.startDate && plan.endDate ? (Date.parse(plan.endDate) - Date.parse(plan.startDate)) / DAY_MS : Infinity;
+
+/**
+ * The plan that sets a night's rate: events before seasons, then the plan with
+ * the narrowest dates (so a Diwali week beats the winter season it falls in),
+ * then the most recently added.
+ */
+function planForNight(plans: RatePlan[], date: string): RatePlan | undefined {
+  return plans
+    .filter((plan) => plan.kind !== "length_of_stay" && planCovers(plan, date))
+    .sort((a, b) =>
+      Number(b.kind === "event") - Number(a.kind === "event")
+      || planSpanDays(a) - planSpanDays(b)
+      || (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0))[0];
+}
+
+/**
+ * Resolves the rate for every night of a stay. A plan's rate for that day of
+ * the week comes first, then its nightly rate, then the room's own rate; the
+ * best length-of-stay discount the stay qualifies for (judged on its first
+ * night) then comes off each night.
+ */
+export function resolveNightlyRates(
+  basePrice: string,
+  ratePlans: RatePlan[],
+  firstNight: Date,
+  totalDays: number,
+): { nightlyRates: NightlyRate[]; stayDiscount: StayQuote["stayDiscount"] } {
+  const activePlans = ratePlans.filter((plan) => plan.isActive);
+  const nights = Array.from({ length: totalDays }, (_, index) =>
+    new Date(firstNight.getFullYear(), firstNight.getMonth(), firstNight.getDate() + index));
+
+  const stayPlan = activePlans
+    .filter((plan) => plan.kind === "length_of_stay" && totalDays >= (plan.minNights ?? Infinity) && planCovers(plan, nightDate(nights[0])))
+    .sort((a, b) => toPaise(b.discountPercentage) - toPaise(a.discountPercentage))[0];
+  const stayPercentage = stayPlan ? parseFloat(stayPlan.discountPercentage ?? "0") : 0;
+
+  const nightlyRates = nights.map((night) => {
+    const date = nightDate(night);
+    const plan = planForNight(activePlans, date);
+    const listRate = plan?.weekdayRates[String(night.getDay())] ?? plan?.nightlyRate ?? basePrice;
+    const listPaise = toPaise(listRate);
+    return {
+      date,
+      ratePlanName: plan?.name ?? null,
+      listRate: toRupees(listPaise),
+      rate: toRupees(listPaise - percentOfPaise(listPaise, stayPercentage)),
+    };
+  });
+
+  return {
+    nightlyRates,
+    stayDiscount: stayPlan ? { name: stayPlan.name, percentage: stayPercentage.toFixed(2) } : null,
+  };
+}
+
+/**
+ * The single source of truth for what a stay costs. The registration modal
+ * only previews this (via POST /api/quotes); guest create/edit recompute it.
+ */
+export function calculateStayQuote(input: StayPricingInput): StayQuote {
+  const totalDays = countStayDays(input.checkinDate, input.checkoutDate, input.checkinTime);
+  const discountPercentage = Math.min(100, Math.max(0, input.discountPercentage));
+
+  // An early arrival's first night is the one before the check-in date
+  const firstNight = new Date(input.checkinDate);
+  if (input.checkinTime && input.checkinTime < EARLY_CHECKIN_BEFORE) {
+    firstNight.setDate(firstNight.getDate() - 1);
+  }
+  const { nightlyRates, stayDiscount } = resolveNightlyRates(input.basePrice, input.ratePlans, firstNight, totalDays);
+
+  const basePaise = sumPaise(nightlyRates.map((night) => night.rate));
+  const discountPaise = percentOfPaise(basePaise, discountPercentage);
+  const taxablePaise = basePaise - discountPaise;
+
+  // The slab follows the tariff actually charged per night
+  const taxRate = input.gstSlabs ? gstRateForTariff(input.gstSlabs, taxablePaise / totalDays) : 0;
+  const igstPaise = input.interState ? percentOfPaise(taxablePaise, taxRate) : 0;
+  // CGST and SGST are each half the rate, rounded separately as they are printed
+  const cgstPaise = input.interState ? 0 : percentOfPaise(taxablePaise, taxRate / 2);
+  const sgstPaise = cgstPaise;
+  const taxPaise = cgstPaise + sgstPaise + igstPaise;
+
+  return {
+    totalDays,
+    nightlyRates,
+    stayDiscount,
+    baseAmount: toRupees(basePaise),
+    discountPercentage: discountPercentage.toFixed(2),
+    discountAmount: toRupees(discountPaise),
+    taxRate: taxRate.toFixed(2),
+    cgstAmount: toRupees(cgstPaise),
+    sgstAmount: toRupees(sgstPaise),
+    igstAmount: toRupees(igstPaise),
+    taxAmount: toRupees(taxPaise),
+    totalAmount: toRupees(taxablePaise + taxPaise),
+  };
+}
+
+/**
+ * Prices a stay in a room with its type's rate plans. Staff may override the
+ * discount per stay; otherwise the lodge default applies.
+ * GST is only charged once the lodge has a GSTIN, and the guest's GSTIN decides
+ * between CGST + SGST and IGST.
+ */
+export function quoteStayForRoom(
+  room: Pick<Room, "basePrice">,
+  ratePlans: RatePlan[],
+  settings: Pick<LodgeSettings, "discountRate" | "gstin" | "gstSlabs"> | undefined,
+  stay: {
+    checkinDate: Date;
+    checkinTime?: string | null;
+    checkoutDate: Date;
+    discountPercentage?: number | string | null;
+    gstin?: string | null;
+  },
+): StayQuote {
+  const discountPercentage = stay.discountPercentage ?? settings?.discountRate ?? 0;
+
+  return calculateStayQuote({
+    basePrice: room.basePrice,
+    ratePlans,
+    checkinDate: stay.checkinDate,
+    checkinTime: stay.checkinTime,
+    checkoutDate: stay.checkoutDate,
+    discountPercentage: parseFloat(String(discountPercentage)) || 0,
+    gstSlabs: settings?.gstin ? settings.gstSlabs : null,
+    interState: isInterStateSupply(settings?.gstin, stay.gstin),
+  });
+}
+
+export interface ChargeAmounts {
+  amount: string;
+  taxRate: string;
+  taxAmount: string;
+  totalAmount: string;
+}
+
+/**
+ * Prices one folio line. Tax is charged as two equal halves so it splits
+ * evenly into CGST and SGST (or is billed whole as IGST) on the invoice.
+ */
+export function calculateChargeAmounts(quantity: number, unitPrice: number | string, taxRate: number): ChargeAmounts {
+  const amountPaise = toPaise(unitPrice) * quantity;
+  const taxPaise = percentOfPaise(amountPaise, taxRate / 2) * 2;
+
+  return {
+    amount: toRupees(amountPaise),
+    taxRate: taxRate.toFixed(2),
+    taxAmount: toRupees(taxPaise),
+    totalAmount: toRupees(amountPaise + taxPaise),
+  };
+}
+
+const PRICED_FIELDS = ["totalDays", "baseAmount", "discountAmount", "taxRate", "cgstAmount", "sgstAmount", "igstAmount",
+  "taxAmount", "totalAmount"] as const;
+
+/**
+ * Lists the priced fields a client submitted that don't match the server's
+ * quote. Fields the client left out are not compared.
+ */
+export function findQuoteMismatches(
+  submitted: Partial<Record<typeof PRICED_FIELDS[number], string | number | null | undefined>>,
+  quote: StayQuote,
+): string[] {
+  return PRICED_FIELDS.filter((field) => {
+    const value = submitted[field];
+    if (value === undefined || value === null) return false;
+    return toPaise(value) !== toPaise(quote[field]);
+  });
+}
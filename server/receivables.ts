@@ -0,0 +1,191 @@
+import type { Guest } from "@shared/schema";
+import { sumPaise, toPaise, toRupees } from "@shared/money";
+import { storage } from "./storage";
+import { getOpenCompanyBills } from "./company-accounts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Upper age limit in days for each bucket; the last one is open-ended
+export const AGING_BUCKETS = [
+  { bucket: "0-7", upTo: 7 },
+  { bucket: "8-30", upTo: 30 },
+  { bucket: "31-90", upTo: 90 },
+  { bucket: "90+", upTo: Infinity },
+] as const;
+
+export type AgingBucket = typeof AGING_BUCKETS[number]["bucket"];
+
+export interface ReceivableItem {
+  guestId: string;
+  guestName: string;
+  roomNumber: string | null;
+  companyBillId: string | null; // the billed payment, for company items
+  dueSince: Date;
+  ageDays: number;
+  bucket: AgingBucket;
+  amount: string;
+}
+
+export interface ReceivableAccount {
+  type: "guest" | "company";
+  id: string; // guest profile (or phone number) or company account
+  name: string;
+  contactName: string | null;
+  phoneNumber: string | null;
+  email: string | null;
+  items: ReceivableItem[];
+  buckets: Record<AgingBucket, string>;
+  total: string;
+  oldestAgeDays: number;
+}
+
+export interface ReceivablesReport {
+  asOf: Date;
+  buckets: Record<AgingBucket, string>;
+  total: string;
+  accounts: ReceivableAccount[];
+}
+
+// Only stays that have begun owe anything yet; a reservation's balance is taken at arrival
+const OWING_STATUSES = ["active", "checked_out"];
+
+const bucketFor = (ageDays: number): AgingBucket =>
+  AGING_BUCKETS.find((candidate) => ageDays <= candidate.upTo)!.bucket;
+
+function ageInDays(since: Date, today: Date): number {
+  const start = new Date(since);
+  start.setHours(0, 0, 0, 0);
+  return Math.max(0, Math.round((today.getTime() - start.getTime()) / DAY_MS));
+}
+
+function bucketTotals(items: ReceivableItem[]): Record<AgingBucket, string> {
+  return Object.fromEntries(AGING_BUCKETS.map(({ bucket }) => [
+    bucket,
+    toRupees(sumPaise(items.filter((item) => item.bucket === bucket).map((item) => item.amount))),
+  ])) as Record<AgingBucket, string>;
+}
+
+function describeAccount(account: Omit<ReceivableAccount, "buckets" | "total" | "oldestAgeDays">): ReceivableAccount {
+  return {
+    ...account,
+    buckets: bucketTotals(account.items),
+    total: toRupees(sumPaise(account.items.map((item) => item.amount))),
+    oldestAgeDays: Math.max(...account.items.map((item) => item.ageDays)),
+  };
+}
+
+// The same person's stays are chased together; stays from before profiles existed go by phone number
+const guestAccountId = (guest: Pick<Guest, "profileId" | "phoneNumber">) => guest.profileId ?? guest.phoneNumber;
+
+/**
+ * Who owes the lodge money and for how long. A stay's balance falls due at
+ * checkout, a company bill on the day it was billed to the company. Accounts
+ * come oldest debt first.
+ */
+export async function buildReceivablesReport(): Promise<ReceivablesReport> {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  const guestAccounts = new Map<string, Omit<ReceivableAccount, "buckets" | "total" | "oldestAgeDays">>();
+  for (const pending of await storage.getPendingPayments()) {
+    const guest = await storage.getGuest(pending.guestId);
+    if (!guest || !OWING_STATUSES.includes(guest.status) || toPaise(pending.amount) <= 0) continue;
+
+    const room = guest.roomId ? await storage.getRoom(guest.roomId) : undefined;
+    const ageDays = ageInDays(guest.checkoutDate, today);
+    const id = guestAccountId(guest);
+    const existing = guestAccounts.get(id);
+    const account = existing ?? {
+      type: "guest" as const,
+      id,
+      name: guest.name,
+      contactName: null,
+      phoneNumber: guest.phoneNumber,
+      email: null,
+      items: [],
+    };
+    // Name and phone number follow the latest stay
+    if (existing && existing.items.every((item) => item.dueSince <= guest.checkoutDate)) {
+      account.name = guest.name;
+      account.phoneNumber = guest.phoneNumber;
+    }
+    account.items.push({
+      guestId: guest.id,
+      guestName: guest.name,
+      roomNumber: room?.roomNumber ?? null,
+      companyBillId: null,
+      dueSince: guest.checkoutDate,
+      ageDays,
+      bucket: bucketFor(ageDays),
+      amount: pending.amount,
+    });
+    guestAccounts.set(id, account);
+  }
+
+  const accounts = Array.from(guestAccounts.values()).map(describeAccount);
+
+  for (const company of await storage.getCompanyAccounts()) {
+    const bills = await getOpenCompanyBills(company.id);
+    if (bills.length === 0) continue;
+
+    accounts.push(describeAccount({
+      type: "company",
+      id: company.id,
+      name: company.name,
+      contactName: company.contactName,
+      phoneNumber: company.phoneNumber,
+      email: company.email,
+      items: bills.map((bill) => {
+        const dueSince = bill.billedAt ?? today;
+        const ageDays = ageInDays(dueSince, today);
+        return {
+          guestId: bill.guestId,
+          guestName: bill.guestName,
+          roomNumber: bill.roomNumber,
+          companyBillId: bill.paymentId,
+          dueSince,
+          ageDays,
+          bucket: bucketFor(ageDays),
+          amount: bill.outstanding,
+        };
+      }),
+    }));
+  }
+
+  accounts.sort((a, b) => b.oldestAgeDays - a.oldestAgeDays || toPaise(b.total) - toPaise(a.total));
+  const allItems = accounts.flatMap((account) => account.items);
+
+  return {
+    asOf: today,
+    buckets: bucketTotals(allItems),
+    total: toRupees(sumPaise(allItems.map((item) => item.amount))),
+    accounts,
+  };
+}
+
+/**
+ * Sends the payment-reminder SMS for an account's total, naming the rooms it
+ * is owed for.
+ */
+export async function sendReceivableReminder(account: ReceivableAccount): Promise<{ sentTo?: string; error?: string }> {
+  if (!account.phoneNumber) {
+    return { error: "This account has no phone number to remind" };
+  }
+
+  const lodgeSettings = await storage.getLodgeSettings();
+  if (!lodgeSettings) {
+    return { error: "Lodge settings must be saved before sending reminders" };
+  }
+
+  // Imported when needed, as elsewhere, to keep the SMS service out of the import cycle
+  const { sendPaymentReminderSMS } = await import("./sms-service");
+  const roomNumbers = Array.from(new Set(account.items.map((item) => item.roomNumber).filter((room): room is string => !!room)));
+  const response = await sendPaymentReminderSMS({
+    phoneNumber: account.phoneNumber,
+    amount: account.total,
+    roomNumbers,
+    guestId: account.items[0].guestId,
+  }, lodgeSettings);
+
+  return response.success ? { sentTo: account.phoneNumber } : { error: response.error || "Failed to send SMS" };
+}
@@ -0,0 +1,341 @@
+import Papa from "papaparse";
+import type { Guest, Payment, StatementImport, StatementLine, User } from "@shared/schema";
+import { toPaise, toRupees } from "@shared/money";
+import { storage } from "./storage";
+import { recordReceipt } from "./balances";
+import { openPostingDate } from "./night-audit";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Advances arrive before check-in and late transfers after checkout
+const MATCH_DAYS_BEFORE_CHECKIN = 2;
+const MATCH_DAYS_AFTER_CHECKOUT = 3;
+
+export interface StatementCredit {
+  transactionDate: Date;
+  amount: string;
+  reference: string | null;
+  description: string | null;
+}
+
+export interface ReconciliationCandidate {
+  paymentId: string;
+  guestId: string;
+  guestName: string;
+  roomNumber: string | null;
+  amount: string;
+  upiReference: string | null;
+}
+
+export interface ReconciliationReport {
+  statementImport: StatementImport;
+  summary: {
+    credits: number;
+    matched: number;
+    confirmed: number;
+    ambiguous: number;
+    unmatched: number;
+    ignored: number;
+    duplicate: number;
+    reconciledAmount: string;
+    unreconciledAmount: string;
+  };
+  lines: (StatementLine & { candidates: ReconciliationCandidate[]; guestName: string | null })[];
+}
+
+// Header names used by the common Indian bank and UPI app exports
+const COLUMN_PATTERNS = {
+  date: [/^(txn|transaction|tran)\.? ?date/i, /^value ?date/i, /date/i],
+  credit: [/credit|deposit|cr\.? ?amount|amount ?\(cr\)/i],
+  amount: [/^amount/i, /amount/i],
+  type: [/^(type|dr ?\/ ?cr|cr ?\/ ?dr|debit ?\/ ?credit)$/i],
+  reference: [/utr|^ref|reference|transaction ?id|txn ?id/i],
+  description: [/narration|description|remarks|particulars|details/i],
+};
+
+type Column = keyof typeof COLUMN_PATTERNS;
+
+function findColumns(header: string[]): Partial<Record<Column, number>> {
+  const columns: Partial<Record<Column, number>> = {};
+  const cells = header.map((cell) => cell.trim());
+
+  for (const [column, patterns] of Object.entries(COLUMN_PATTERNS) as [Column, RegExp[]][]) {
+    for (const pattern of patterns) {
+      const index = cells.findIndex((cell, i) => pattern.test(cell) && !Object.values(columns).includes(i));
+      if (index >= 0) {
+        columns[column] = index;
+        break;
+      }
+    }
+  }
+  return columns;
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// Banks here write dates day-first: 05/04/2026, 05-04-26, 05-Apr-2026; UPI apps often use ISO
+export function parseStatementDate(value: string): Date | null {
+  const text = value.trim();
+
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+
+  const dayFirst = text.match(/^(\d{1,2})[\/\-. ]([A-Za-z]{3}|\d{1,2})[\/\-. ,]*(\d{2,4})/);
+  if (!dayFirst) return null;
+
+  const day = Number(dayFirst[1]);
+  const month = /\d/.test(dayFirst[2])
+    ? Number(dayFirst[2]) - 1
+    : MONTHS.indexOf(dayFirst[2].toLowerCase());
+  let year = Number(dayFirst[3]);
+  if (year < 100) year += 2000;
+
+  if (month < 0 || month > 11 || day < 1 || day > 31) return null;
+  return new Date(year, month, day);
+}
+
+const STATEMENT_AMOUNT = /^(-?\d+(?:\.\d+)?)(CR|DR)?$/i;
+
+// In paise; blank cells and debits are zero, and anything that isn't a plain number is null
+function parseStatementAmount(value: string | undefined): number | null {
+  const text = (value ?? "").replace(/[₹,\s]|Rs\.?|INR/gi, "");
+  if (text === "" || text === "-") return 0;
+
+  const match = STATEMENT_AMOUNT.exec(text);
+  if (!match) return null;
+  return match[2]?.toUpperCase() === "DR" ? 0 : toPaise(match[1]);
+}
+
+/**
+ * Pulls the credits out of a statement CSV. Exports often open with a few
+ * lines about the account, so the header is the first row that has both a
+ * date and an amount column. Debits are skipped.
+ */
+export function parseStatementCsv(csv: string): { credits: StatementCredit[]; error?: string } {
+  const { data } = Papa.parse<string[]>(csv.trim(), { skipEmptyLines: true });
+
+  const headerIndex = data.findIndex((row) => {
+    const columns = findColumns(row);
+    return columns.date !== undefined && (columns.credit !== undefined || columns.amount !== undefined);
+  });
+  if (headerIndex < 0) {
+    return { credits: [], error: "Could not find date and amount columns in the statement" };
+  }
+
+  const columns = findColumns(data[headerIndex]);
+  const credits: StatementCredit[] = [];
+
+  for (const row of data.slice(headerIndex + 1)) {
+    const transactionDate = parseStatementDate(row[columns.date!] ?? "");
+    if (!transactionDate) continue; // footers, running totals
+
+    const amountCell = row[columns.credit ?? columns.amount!] ?? "";
+    if (columns.credit === undefined) {
+      const type = columns.type !== undefined ? (row[columns.type] ?? "").trim().toLowerCase() : "";
+      if (type && !type.startsWith("c")) continue;
+    }
+
+    // A misread amount would be posted against a guest, so the whole file is refused
+    const amountPaise = parseStatementAmount(amountCell);
+    if (amountPaise === null) {
+      return { credits: [], error: `Could not read the amount "${amountCell.trim()}" on the ${row[columns.date!].trim()} line` };
+    }
+    if (amountPaise <= 0) continue;
+
+    credits.push({
+      transactionDate,
+      amount: toRupees(amountPaise),
+      reference: columns.reference !== undefined ? row[columns.reference]?.trim() || null : null,
+      description: columns.description !== undefined ? row[columns.description]?.trim() || null : null,
+    });
+  }
+
+  if (credits.length === 0) {
+    return { credits, error: "No credits found in the statement" };
+  }
+  return { credits };
+}
+
+interface PendingBill {
+  payment: Payment;
+  guest: Guest;
+  remainingPaise: number;
+}
+
+function withinStayWindow(credit: StatementCredit, guest: Guest): boolean {
+  const from = new Date(guest.checkinDate).getTime() - MATCH_DAYS_BEFORE_CHECKIN * DAY_MS;
+  const to = new Date(guest.checkoutDate).getTime() + MATCH_DAYS_AFTER_CHECKOUT * DAY_MS;
+  const at = credit.transactionDate.getTime();
+  return at >= from && at <= to;
+}
+
+/**
+ * A reference printed on our UPI QR settles it outright. Otherwise a credit
+ * is matched on an exact balance within the stay's dates: one such bill is a
+ * confident match, several need a person to choose.
+ */
+function matchCredit(credit: StatementCredit, bills: PendingBill[]): PendingBill[] {
+  const creditPaise = toPaise(credit.amount);
+  const text = `${credit.reference ?? ""} ${credit.description ?? ""}`.toUpperCase();
+
+  const byReference = bills.find((bill) =>
+    bill.payment.upiReference && text.includes(bill.payment.upiReference.toUpperCase()) && creditPaise <= bill.remainingPaise,
+  );
+  if (byReference) return [byReference];
+
+  return bills.filter((bill) => bill.remainingPaise === creditPaise && withinStayWindow(credit, bill.guest));
+}
+
+async function loadPendingBills(): Promise<PendingBill[]> {
+  const bills: PendingBill[] = [];
+  for (const payment of await storage.getPendingPayments()) {
+    const guest = await storage.getGuest(payment.guestId);
+    if (guest) bills.push({ payment, guest, remainingPaise: toPaise(payment.amount) });
+  }
+  return bills;
+}
+
+// The same fields storage.findImportedCredit compares, for repeats within one file
+const creditKey = (credit: StatementCredit) => credit.reference
+  ? `${credit.amount}|${credit.reference}`
+  : `${credit.amount}|${credit.transactionDate.getTime()}|${credit.description ?? ""}`;
+
+/**
+ * Imports a statement: confident matches are recorded as QR receipts dated
+ * the day the money arrived (or today, if that day is closed), the rest are
+ * kept for review. Returns the receipts so the caller can send confirmations.
+ */
+export async function importStatement(
+  fileName: string,
+  credits: StatementCredit[],
+  actor: Pick<User, "id" | "username">,
+): Promise<{ statementImport: StatementImport; receipts: Payment[] }> {
+  // Receipts without the import that explains them would come back as repeats on a re-upload
+  return await storage.inTransaction(async () => {
+    const bills = await loadPendingBills();
+    const receipts: Payment[] = [];
+    const lines = [];
+    const seen = new Set<string>();
+
+    for (const credit of credits) {
+      const base = { ...credit, candidatePaymentIds: [] as string[], paymentId: null as string | null };
+
+      const key = creditKey(credit);
+      const repeated = seen.has(key) || !!(await storage.findImportedCredit(credit));
+      seen.add(key);
+
+      // Only a bank reference proves a repeat; two equal payments on one day may both be real
+      if (repeated && credit.reference) {
+        lines.push({ ...base, status: "duplicate" });
+        continue;
+      }
+
+      const matches = matchCredit(credit, bills);
+      if (repeated) {
+        lines.push(matches.length > 0
+          ? { ...base, status: "ambiguous", candidatePaymentIds: matches.map((bill) => bill.payment.id) }
+          : { ...base, status: "unmatched" });
+      } else if (matches.length === 1) {
+        const [bill] = matches;
+        const { payment } = await recordReceipt(bill.guest.id, {
+          amountPaise: toPaise(credit.amount),
+          paymentMethod: "qr",
+          paidAt: await openPostingDate(credit.transactionDate),
+          upiReference: credit.reference,
+        });
+        bill.remainingPaise -= toPaise(credit.amount);
+        receipts.push(payment);
+        lines.push({ ...base, status: "matched", paymentId: payment.id });
+      } else if (matches.length > 1) {
+        lines.push({ ...base, status: "ambiguous", candidatePaymentIds: matches.map((bill) => bill.payment.id) });
+      } else {
+        lines.push({ ...base, status: "unmatched" });
+      }
+
+      // A bill settled by an earlier credit can't take another
+      for (let i = bills.length - 1; i >= 0; i--) {
+        if (bills[i].remainingPaise <= 0) bills.splice(i, 1);
+      }
+    }
+
+    const statementImport = await storage.createStatementImport(
+      { fileName, importedBy: actor.id, importedByName: actor.username },
+      lines,
+    );
+    return { statementImport, receipts };
+  });
+}
+
+// Settles a credit left for review against the pending payment staff picked
+export async function confirmStatementLine(
+  line: StatementLine,
+  pending: Payment,
+): Promise<{ line: StatementLine | undefined; receipt: Payment }> {
+  const { payment } = await recordReceipt(pending.guestId, {
+    amountPaise: toPaise(line.amount),
+    paymentMethod: "qr",
+    paidAt: await openPostingDate(line.transactionDate),
+    upiReference: line.reference,
+  });
+  const updated = await storage.updateStatementLine(line.id, { status: "confirmed", paymentId: payment.id });
+  return { line: updated, receipt: payment };
+}
+
+export async function buildReconciliationReport(statementImport: StatementImport): Promise<ReconciliationReport> {
+  const lines = await storage.getStatementLines(statementImport.id);
+  const guestCache = new Map<string, Guest | undefined>();
+  const roomCache = new Map<string, string | null>();
+
+  const describePayment = async (paymentId: string): Promise<ReconciliationCandidate | null> => {
+    const payment = await storage.getPayment(paymentId);
+    if (!payment) return null;
+    if (!guestCache.has(payment.guestId)) guestCache.set(payment.guestId, await storage.getGuest(payment.guestId));
+    const guest = guestCache.get(payment.guestId);
+    if (guest?.roomId && !roomCache.has(guest.roomId)) {
+      roomCache.set(guest.roomId, (await storage.getRoom(guest.roomId))?.roomNumber ?? null);
+    }
+    return {
+      paymentId: payment.id,
+      guestId: payment.guestId,
+      guestName: guest?.name ?? "Unknown",
+      roomNumber: guest?.roomId ? roomCache.get(guest.roomId) ?? null : null,
+      amount: payment.amount,
+      upiReference: payment.upiReference,
+    };
+  };
+
+  const reportLines = [];
+  for (const line of lines) {
+    // Candidates that have since been paid off drop out of the list
+    const candidates = [];
+    if (line.status === "ambiguous") {
+      for (const paymentId of line.candidatePaymentIds) {
+        const candidate = await describePayment(paymentId);
+        if (candidate) candidates.push(candidate);
+      }
+    }
+    const receipt = line.paymentId ? await describePayment(line.paymentId) : null;
+    reportLines.push({ ...line, candidates, guestName: receipt?.guestName ?? null });
+  }
+
+  const count = (status: string) => lines.filter((line) => line.status === status).length;
+  const sumPaise = (statuses: string[]) => lines
+    .filter((line) => statuses.includes(line.status))
+    .reduce((sum, line) => sum + toPaise(line.amount), 0);
+
+  return {
+    statementImport,
+    summary: {
+      credits: lines.length,
+      matched: count("matched"),
+      confirmed: count("confirmed"),
+      ambiguous: count("ambiguous"),
+      unmatched: count("unmatched"),
+      ignored: count("ignored"),
+      duplicate: count("duplicate"),
+      reconciledAmount: toRupees(sumPaise(["matched", "confirmed"])),
+      unreconciledAmount: toRupees(sumPaise(["ambiguous", "unmatched"])),
+    },
+    lines: reportLines,
+  };
+}
@@ -0,0 +1,29 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { Request, Response, NextFunction } from "express";
+import type { User } from "@shared/schema";
+
+interface RequestContext {
+  actor?: Pick<User, "id" | "username">;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Gives every request its own context so the storage layer can tell who made
+ * a change without each route having to pass the user down explicitly.
+ */
+export function withRequestContext(req: Request, res: Response, next: NextFunction) {
+  requestContext.run({}, next);
+}
+
+export function setRequestActor(user: User) {
+  const context = requestContext.getStore();
+  if (context) {
+    context.actor = { id: user.id, username: user.username };
+  }
+}
+
+// Undefined outside a request (startup migrations, seed scripts)
+export function getRequestActor() {
+  return requestContext.getStore()?.actor;
+}
@@ -0,0 +1,43 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NO_SHOW_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * A reservation that didn't turn up owes nothing yet, so its pending
+ * payment is cancelled rather than left on the receivables list.
+ */
+export async function cancelPendingPayments(guestId: string): Promise<void> {
+  const guestPayments = await storage.getPaymentsByGuest(guestId);
+  for (const payment of guestPayments) {
+    if (payment.status === "pending") {
+      await storage.updatePayment(payment.id, { status: "cancelled" });
+    }
+  }
+}
+
+// Reservations still not checked in once their arrival day is over become no-shows
+export async function markNoShows(now: Date = new Date()): Promise<number> {
+  const overdue = await storage.getReservationsArrivingBefore(new Date(now.getTime() - DAY_MS));
+
+  for (const reservation of overdue) {
+    await storage.updateGuest(reservation.id, { status: "no_show" });
+    await cancelPendingPayments(reservation.id);
+  }
+
+  return overdue.length;
+}
+
+export function scheduleNoShowMarking() {
+  const run = () => {
+    markNoShows()
+      .then((count) => {
+        if (count > 0) log(`marked ${count} reservation(s) as no-show`);
+      })
+      .catch((error) => console.error("Failed to mark no-shows:", error));
+  };
+
+  run();
+  setInterval(run, NO_SHOW_CHECK_INTERVAL_MS).unref();
+}
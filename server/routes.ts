@@ -1,22 +1,158 @@
-import type { Express, Request } from "express";
+import express, { type Express, type Request } from "express";
+import type { SessionData } from "express-session";
 import { createServer, type Server } from "http";
+import { randomUUID } from "crypto";
 import { storage } from "./storage";
-
-// Extend Express Request interface to include session
-declare module 'express-session' {
-  interface SessionData {
-    userId?: string;
-  }
-}
+import {
+  requireAuth,
+  requireSession,
+  requirePermission,
+  startSession,
+  toPublicUser,
+  getLockoutUntil,
+  MAX_FAILED_LOGINS,
+} from "./auth";
+import { verifyPassword } from "./passwords";
+import { quoteStayForRoom, findQuoteMismatches, calculateChargeAmounts, type StayQuote } from "./pricing";
+import { cancelPendingPayments } from "./reservations";
+import { calculateBalance, syncOutstandingBalance, recordReceipt, reversiblePaise, reversePayment } from "./balances";
+import { canInvoiceStay, issueTaxInvoice } from "./invoices";
+import { canPostCharges, recalculateStayTotal } from "./folio";
+import { createUpiPaymentRequest, generateUpiReference } from "./upi";
+import { parseStatementCsv, importStatement, confirmStatementLine, buildReconciliationReport } from "./reconciliation";
+import { buildCompanyStatement, getCompanyOutstandingPaise, settleCompanyBills } from "./company-accounts";
+import { collectDeposit, deductFromDeposit, releaseDeposit, describeDeposits, buildHeldDepositsReport } from "./deposits";
+import { businessDateOf, buildNightAudit, checkDayLock, closeBusinessDay, getNextBusinessDate } from "./night-audit";
+import { cashShiftError, openShift, closeShift, buildShiftReport } from "./shifts";
+import { recordExpense, changeExpense, removeExpense, attachBill, buildProfitAndLoss, ATTACHMENT_TYPES } from "./expenses";
+import { buildReceivablesReport, sendReceivableReminder } from "./receivables";
+import { getRoomsWithOccupancy, getRoomOccupancy, syncRoomStatus, checkRoomStatuses } from "./occupancy";
+import { openMaintenanceTicket, changeMaintenanceTicket, setMaintenanceTicketStatus, buildMaintenanceHistory } from "./maintenance";
+import { getHousekeepingTasks, markRoomDirty, updateHousekeepingStatus, HOUSEKEEPING_STEPS } from "./housekeeping";
 import { 
+  insertUserSchema,
   insertLodgeSettingsSchema, 
   insertRoomSchema, 
-  insertGuestSchema, 
-  insertPaymentSchema,
-  insertSmsLogSchema 
+  insertRoomTypeSchema,
+  ratePlanRequestSchema,
+  housekeepingUpdateSchema,
+  maintenanceTicketRequestSchema,
+  maintenanceTicketStatusSchema,
+  guestRequestSchema,
+  quoteRequestSchema,
+  paymentReceiptSchema,
+  paymentUpdateSchema,
+  paymentRefundSchema,
+  paymentVoidSchema,
+  upiQrRequestSchema,
+  statementLineConfirmSchema,
+  insertCompanyAccountSchema,
+  companySettlementRequestSchema,
+  folioChargeRequestSchema,
+  depositCollectSchema,
+  depositDeductionSchema,
+  depositReleaseSchema,
+  nightAuditCloseSchema,
+  dayLockOverrideSchema,
+  shiftOpenSchema,
+  shiftCloseSchema,
+  expenseRequestSchema,
+  EXPENSE_CATEGORIES,
+  insertSmsLogSchema,
+  AUDIT_ENTITY_TYPES,
+  RESERVATION_STATUSES,
+  ROOM_HOLDING_STATUSES,
+  type Guest,
+  type Payment,
+  type Room
 } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import { paymentSign } from "@shared/payments";
+import { paiseToNumber, sumPaise, toPaise, toRupees } from "@shared/money";
 import { z } from "zod";
 
+// Columns on a guest row that come from the pricing engine; folio charges sit on top of the room total
+function pricedGuestFields(quote: StayQuote, chargesAmount: string = "0.00") {
+  return {
+    totalDays: quote.totalDays,
+    nightlyRates: quote.nightlyRates,
+    baseAmount: quote.baseAmount,
+    discountPercentage: quote.discountPercentage,
+    discountAmount: quote.discountAmount,
+    taxRate: quote.taxRate,
+    cgstAmount: quote.cgstAmount,
+    sgstAmount: quote.sgstAmount,
+    igstAmount: quote.igstAmount,
+    taxAmount: quote.taxAmount,
+    totalAmount: toRupees(toPaise(quote.totalAmount) + toPaise(chargesAmount)),
+  };
+}
+
+// Rooms are priced with their type's rate plans
+async function ratePlansFor(room: Room) {
+  return room.roomTypeId ? await storage.getRatePlans(room.roomTypeId) : [];
+}
+
+// A room holds no more guests than its type allows
+async function occupancyError(room: Room, numberOfGuests: number | null | undefined): Promise<string | undefined> {
+  const roomType = room.roomTypeId ? await storage.getRoomType(room.roomTypeId) : undefined;
+  if (roomType && (numberOfGuests ?? 1) > roomType.maxOccupancy) {
+    return `Room ${room.roomNumber} (${roomType.nameEnglish}) sleeps at most ${roomType.maxOccupancy}`;
+  }
+}
+
+// Send payment confirmation SMS (async, don't wait for completion)
+async function sendPaymentConfirmationSMSInBackground(payment: Payment) {
+  try {
+    const guest = await storage.getGuest(payment.guestId);
+    const lodgeSettings = await storage.getLodgeSettings();
+    const room = guest?.roomId ? await storage.getRoom(guest.roomId) : undefined;
+
+    if (guest && lodgeSettings && room) {
+      const { sendPaymentConfirmationSMS } = await import("./sms-service");
+      sendPaymentConfirmationSMS(payment, guest, room, lodgeSettings).catch(error => {
+        console.error('Failed to send payment confirmation SMS:', error);
+      });
+    }
+  } catch (error) {
+    console.error('SMS service error:', error);
+  }
+}
+
+// Send checkout bill SMS (async, don't wait for completion)
+async function sendCheckoutSMSInBackground(guest: Guest) {
+  try {
+    const lodgeSettings = await storage.getLodgeSettings();
+
+    if (lodgeSettings) {
+      const { sendCheckoutSMS } = await import("./sms-service");
+      sendCheckoutSMS(guest, lodgeSettings).catch(error => {
+        console.error('Failed to send checkout SMS:', error);
+      });
+    }
+  } catch (error) {
+    console.error('SMS service error:', error);
+  }
+}
+
+// Send welcome SMS (async, don't wait for completion)
+async function sendWelcomeSMSInBackground(guest: Guest) {
+  try {
+    const lodgeSettings = await storage.getLodgeSettings();
+    const room = guest.roomId ? await storage.getRoom(guest.roomId) : undefined;
+    
+    if (lodgeSettings && room) {
+      // Import SMS functions dynamically to avoid circular imports
+      const { sendWelcomeSMS } = await import("./sms-service");
+      sendWelcomeSMS(guest.id, guest, room, lodgeSettings).catch(error => {
+        console.error('Failed to send welcome SMS:', error);
+      });
+    }
+  } catch (error) {
+    console.error('SMS service error:', error);
+  }
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   
   // Authentication routes
@@ -29,14 +165,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const user = await storage.getUserByUsername(username);
-      if (!user || user.password !== password) {
+      if (!user) {
         return res.status(401).json({ message: "Invalid credentials" });
       }
 
-      // Set user ID in session
-      req.session.userId = user.id;
+      if (user.lockedUntil && user.lockedUntil > new Date()) {
+        return res.status(423).json({
+          message: "Account temporarily locked after repeated failed logins",
+          lockedUntil: user.lockedUntil,
+        });
+      }
+
+      if (!(await verifyPassword(user.password, password))) {
+        const failedLoginAttempts = await storage.recordFailedLogin(user.id);
+        const lockedUntil = getLockoutUntil(failedLoginAttempts);
+
+        if (lockedUntil) {
+          await storage.lockUser(user.id, lockedUntil);
+          return res.status(423).json({
+            message: "Account temporarily locked after repeated failed logins",
+            lockedUntil,
+          });
+        }
+
+        return res.status(401).json({
+          message: "Invalid credentials",
+          attemptsRemaining: MAX_FAILED_LOGINS - failedLoginAttempts,
+        });
+      }
+
+      if (!user.isActive) {
+        return res.status(403).json({ message: "Account is disabled" });
+      }
+
+      if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+        await storage.clearFailedLogins(user.id);
+      }
+
+      await startSession(req, user);
       
-      res.json({ user: { id: user.id, username: user.username } });
+      res.json({ user: toPublicUser(user), mustChangePassword: user.mustChangePassword });
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
@@ -51,18 +219,168 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
-  app.get("/api/auth/me", async (req, res) => {
+  app.get("/api/auth/me", requireSession, async (req, res) => {
+    res.json({ user: toPublicUser(req.currentUser!) });
+  });
+
+  app.post("/api/auth/change-password", requireSession, async (req, res) => {
+    try {
+      const { currentPassword, newPassword } = z.object({
+        currentPassword: z.string(),
+        newPassword: insertUserSchema.shape.password,
+      }).parse(req.body);
+
+      const user = req.currentUser!;
+      if (!(await verifyPassword(user.password, currentPassword))) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+
+      if (currentPassword === newPassword) {
+        return res.status(400).json({ message: "New password must be different" });
+      }
+
+      await storage.updateUser(user.id, { password: newPassword, mustChangePassword: false });
+      res.json({ message: "Password changed" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Staff account routes
+  app.get("/api/users", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/users", requirePermission("users:manage"), async (req, res) => {
     try {
-      if (!req.session?.userId) {
-        return res.status(401).json({ message: "Not authenticated" });
+      const validatedData = insertUserSchema.parse(req.body);
+
+      const existingUser = await storage.getUserByUsername(validatedData.username);
+      if (existingUser) {
+        return res.status(400).json({ message: "Username already exists" });
+      }
+
+      const user = await storage.createUser(validatedData);
+      res.json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put("/api/users/:id", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = insertUserSchema
+        .pick({ fullName: true, role: true, isActive: true })
+        .partial()
+        .parse(req.body);
+
+      // Owners cannot lock themselves out by disabling or demoting their own account
+      if (id === req.currentUser!.id && (validatedData.isActive === false || (validatedData.role && validatedData.role !== "owner"))) {
+        return res.status(400).json({ message: "You cannot disable or demote your own account" });
+      }
+
+      const user = await storage.updateUser(id, validatedData);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (!user.isActive) {
+        await storage.deleteSessionsForUser(user.id);
+      }
+
+      res.json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/users/:id/reset-password", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { password } = insertUserSchema.pick({ password: true }).parse(req.body);
 
-      const user = await storage.getUser(req.session.userId);
+      // Staff must pick their own password after an owner resets it
+      const user = await storage.updateUser(id, { password, mustChangePassword: true });
       if (!user) {
-        return res.status(401).json({ message: "User not found" });
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await storage.clearFailedLogins(user.id);
+      await storage.deleteSessionsForUser(user.id);
+      res.json({ message: "Password reset" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Active session routes
+  app.get("/api/sessions", requirePermission("sessions:manage"), async (req, res) => {
+    try {
+      const [storedSessions, users] = await Promise.all([
+        storage.getActiveSessions(),
+        storage.getAllUsers(),
+      ]);
+
+      // Only expose the opaque sessionKey - the sid is what the cookie carries
+      const activeSessions = storedSessions
+        .map(({ sess, expire }) => ({ sess: sess as Partial<SessionData>, expire }))
+        .filter(({ sess }) => sess.userId && sess.sessionKey)
+        .map(({ sess, expire }) => {
+          const user = users.find((u) => u.id === sess.userId);
+          return {
+            sessionKey: sess.sessionKey,
+            userId: sess.userId,
+            username: user?.username,
+            fullName: user?.fullName,
+            role: user?.role,
+            userAgent: sess.userAgent || null,
+            ipAddress: sess.ipAddress || null,
+            loginAt: sess.loginAt || null,
+            lastActivityAt: sess.lastActivityAt || null,
+            expiresAt: expire,
+            isCurrent: sess.sessionKey === req.session.sessionKey,
+          };
+        });
+
+      res.json(activeSessions);
+    } catch (error) {
+      console.error("Error fetching sessions:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/sessions/:sessionKey", requirePermission("sessions:manage"), async (req, res) => {
+    try {
+      const { sessionKey } = req.params;
+
+      if (sessionKey === req.session.sessionKey) {
+        return res.status(400).json({ message: "Use logout to end your own session" });
+      }
+
+      const deleted = await storage.deleteSessionByKey(sessionKey);
+      if (!deleted) {
+        return res.status(404).json({ message: "Session not found" });
       }
 
-      res.json({ user: { id: user.id, username: user.username } });
+      res.json({ message: "Session revoked" });
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
@@ -79,12 +397,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/lodge-settings", async (req, res) => {
+  app.post("/api/lodge-settings", requirePermission("settings:manage"), async (req, res) => {
     try {
-      if (!req.session?.userId) {
-        return res.status(401).json({ message: "Not authenticated" });
-      }
-
       const validatedData = insertLodgeSettingsSchema.parse(req.body);
       const settings = await storage.createLodgeSettings(validatedData);
       res.json(settings);
@@ -96,12 +410,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/lodge-settings/:id", async (req, res) => {
+  app.put("/api/lodge-settings/:id", requirePermission("settings:manage"), async (req, res) => {
     try {
-      if (!req.session?.userId) {
-        return res.status(401).json({ message: "Not authenticated" });
-      }
-
       const { id } = req.params;
       const validatedData = insertLodgeSettingsSchema.partial().parse(req.body);
       const settings = await storage.updateLodgeSettings(id, validatedData);
@@ -119,32 +429,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Room routes
-  app.get("/api/rooms", async (req, res) => {
+  // Room type routes
+  app.get("/api/room-types", requireAuth, async (req, res) => {
     try {
-      const rooms = await storage.getAllRooms();
-      res.json(rooms);
+      const roomTypes = await storage.getRoomTypes();
+      res.json(roomTypes);
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.post("/api/rooms", async (req, res) => {
+  app.post("/api/room-types", requirePermission("rooms:manage"), async (req, res) => {
     try {
-      if (!req.session?.userId) {
-        return res.status(401).json({ message: "Not authenticated" });
-      }
+      const validatedData = insertRoomTypeSchema.parse(req.body);
 
-      const validatedData = insertRoomSchema.parse(req.body);
-      
-      // Check if room number already exists
-      const existingRoom = await storage.getRoomByNumber(validatedData.roomNumber);
-      if (existingRoom) {
-        return res.status(400).json({ message: "Room number already exists" });
+      if (await storage.findRoomType(validatedData.code, validatedData.nameEnglish)) {
+        return res.status(400).json({ message: "A room type with this code or name already exists" });
       }
 
-      const room = await storage.createRoom(validatedData);
-      res.json(room);
+      const roomType = await storage.createRoomType(validatedData);
+      res.json(roomType);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
@@ -153,21 +457,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/rooms/:id", async (req, res) => {
+  app.put("/api/room-types/:id", requirePermission("rooms:manage"), async (req, res) => {
     try {
-      if (!req.session?.userId) {
-        return res.status(401).json({ message: "Not authenticated" });
+      const { id } = req.params;
+      const validatedData = insertRoomTypeSchema.partial().parse(req.body);
+
+      const existing = await storage.getRoomType(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Room type not found" });
       }
 
-      const { id } = req.params;
-      const validatedData = insertRoomSchema.partial().parse(req.body);
-      const room = await storage.updateRoom(id, validatedData);
-      
-      if (!room) {
-        return res.status(404).json({ message: "Room not found" });
+      const clash = await storage.findRoomType(validatedData.code ?? existing.code, validatedData.nameEnglish ?? existing.nameEnglish);
+      if (clash && clash.id !== id) {
+        return res.status(400).json({ message: "A room type with this code or name already exists" });
       }
 
-      res.json(room);
+      const roomType = await storage.updateRoomType(id, validatedData);
+      res.json(roomType);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
@@ -176,118 +482,73 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/rooms/:id", async (req, res) => {
+  app.delete("/api/room-types/:id", requirePermission("rooms:manage"), async (req, res) => {
     try {
-      if (!req.session?.userId) {
-        return res.status(401).json({ message: "Not authenticated" });
+      const { id } = req.params;
+
+      const inUse = (await storage.getAllRooms()).filter((room) => room.roomTypeId === id);
+      if (inUse.length > 0) {
+        return res.status(400).json({
+          message: `Rooms ${inUse.map((room) => room.roomNumber).join(", ")} still use this type; move them to another type first`,
+        });
       }
 
-      const { id } = req.params;
-      const deleted = await storage.deleteRoom(id);
-      
+      const deleted = await storage.deleteRoomType(id);
       if (!deleted) {
-        return res.status(404).json({ message: "Room not found" });
+        return res.status(404).json({ message: "Room type not found" });
       }
 
-      res.json({ message: "Room deleted" });
+      res.json({ message: "Room type deleted" });
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.get("/api/rooms/available", async (req, res) => {
+  // Rate plan routes
+  app.get("/api/rate-plans", requireAuth, async (req, res) => {
     try {
-      const { checkinDate, checkoutDate } = req.query;
-      
-      if (!checkinDate || !checkoutDate) {
-        return res.status(400).json({ message: "Check-in and check-out dates required" });
-      }
-
-      const checkin = new Date(checkinDate as string);
-      const checkout = new Date(checkoutDate as string);
-      
-      const availableRooms = await storage.getAvailableRooms(checkin, checkout);
-      res.json(availableRooms);
+      const { roomTypeId } = req.query;
+      const plans = await storage.getRatePlans((roomTypeId as string) || undefined);
+      res.json(plans);
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Guest routes
-  app.get("/api/guests", async (req, res) => {
+  app.post("/api/rate-plans", requirePermission("rooms:manage"), async (req, res) => {
     try {
-      const { search } = req.query;
-      let guests = await storage.getAllGuests();
-      
-      if (search) {
-        const searchTerm = (search as string).toLowerCase();
-        guests = guests.filter(guest => 
-          guest.name.toLowerCase().includes(searchTerm) ||
-          guest.phoneNumber.includes(searchTerm) ||
-          guest.aadharNumber.includes(searchTerm)
-        );
+      const validatedData = ratePlanRequestSchema.parse(req.body);
+
+      if (!(await storage.getRoomType(validatedData.roomTypeId))) {
+        return res.status(400).json({ message: "Room type not found" });
       }
 
-      res.json(guests);
+      const plan = await storage.createRatePlan(validatedData);
+      res.json(plan);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.post("/api/guests", async (req, res) => {
+  // Stays already priced keep their nightly rates; a change applies to stays priced from now on
+  app.put("/api/rate-plans/:id", requirePermission("rooms:manage"), async (req, res) => {
     try {
-      if (!req.session?.userId) {
-        return res.status(401).json({ message: "Not authenticated" });
-      }
-
-      const validatedData = insertGuestSchema.parse(req.body);
-      
-      // Check if room is available
-      if (validatedData.roomId) {
-        const room = await storage.getRoom(validatedData.roomId);
-        if (!room) {
-          return res.status(400).json({ message: "Room not found" });
-        }
-        
-        const checkin = new Date(validatedData.checkinDate);
-        const checkout = new Date(validatedData.checkoutDate);
-        const availableRooms = await storage.getAvailableRooms(checkin, checkout);
-        
-        if (!availableRooms.find(r => r.id === validatedData.roomId)) {
-          return res.status(400).json({ message: "Room not available for selected dates" });
-        }
+      const { id } = req.params;
+      const validatedData = ratePlanRequestSchema.parse(req.body);
 
-        // Update room status to occupied
-        await storage.updateRoom(validatedData.roomId, { status: "occupied" });
+      if (!(await storage.getRoomType(validatedData.roomTypeId))) {
+        return res.status(400).json({ message: "Room type not found" });
       }
 
-      const guest = await storage.createGuest(validatedData);
-      
-      // Create payment record
-      await storage.createPayment({
-        guestId: guest.id,
-        amount: validatedData.totalAmount,
-        paymentMethod: "cash", // Default, can be updated later
-        status: "pending"
-      });
-
-      // Send welcome SMS (async, don't wait for completion)
-      try {
-        const lodgeSettings = await storage.getLodgeSettings();
-        const room = await storage.getRoom(validatedData.roomId!);
-        
-        if (lodgeSettings && room) {
-          // Import SMS functions dynamically to avoid circular imports
-          const { sendWelcomeSMS } = await import("./sms-service");
-          sendWelcomeSMS(guest.id, guest, room, lodgeSettings).catch(error => {
-            console.error('Failed to send welcome SMS:', error);
-          });
-        }
-      } catch (error) {
-        console.error('SMS service error:', error);
+      const plan = await storage.updateRatePlan(id, validatedData);
+      if (!plan) {
+        return res.status(404).json({ message: "Rate plan not found" });
       }
 
-      res.json(guest);
+      res.json(plan);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
@@ -296,130 +557,1649 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/guests/:id", async (req, res) => {
+  app.delete("/api/rate-plans/:id", requirePermission("rooms:manage"), async (req, res) => {
     try {
-      if (!req.session?.userId) {
-        return res.status(401).json({ message: "Not authenticated" });
-      }
-
       const { id } = req.params;
-      const validatedData = insertGuestSchema.partial().parse(req.body);
-      
-      const existingGuest = await storage.getGuest(id);
-      if (!existingGuest) {
-        return res.status(404).json({ message: "Guest not found" });
-      }
+      const deleted = await storage.deleteRatePlan(id);
 
-      // If checking out, update room status
-      if (validatedData.status === "checked_out" && existingGuest.roomId) {
-        await storage.updateRoom(existingGuest.roomId, { status: "available" });
+      if (!deleted) {
+        return res.status(404).json({ message: "Rate plan not found" });
       }
 
-      const guest = await storage.updateGuest(id, validatedData);
-      res.json(guest);
+      res.json({ message: "Rate plan deleted" });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Room routes. Status is worked out from the stays for the day asked for (today by default)
+  app.get("/api/rooms", requireAuth, async (req, res) => {
+    try {
+      const { date } = z.object({
+        date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD").optional(),
+      }).parse(req.query);
+      const rooms = await getRoomsWithOccupancy(date);
+      res.json(rooms);
     } catch (error) {
-      console.error("Guest creation error:", error);
       if (error instanceof z.ZodError) {
-        console.error("Validation errors:", JSON.stringify(error.errors, null, 2));
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Payment routes
-  app.get("/api/payments", async (req, res) => {
+  // Rooms whose stored status disagrees with the stays; POST .../repair corrects them
+  app.get("/api/rooms/consistency", requirePermission("rooms:manage"), async (req, res) => {
     try {
-      const payments = await storage.getAllPayments();
-      
-      // Enrich payments with guest and room data
-      const enrichedPayments = await Promise.all(payments.map(async (payment) => {
-        const guest = await storage.getGuest(payment.guestId);
-        let room = null;
-        
-        if (guest && guest.roomId) {
-          room = await storage.getRoom(guest.roomId);
-        }
-        
-        return {
-          ...payment,
-          guest: guest ? { 
-            name: guest.name, 
-            phoneNumber: guest.phoneNumber 
-          } : undefined,
-          room: room ? { 
-            roomNumber: room.roomNumber 
-          } : undefined
-        };
-      }));
-      
-      res.json(enrichedPayments);
+      res.json(await checkRoomStatuses(false));
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.put("/api/payments/:id", async (req, res) => {
+  app.post("/api/rooms/consistency/repair", requirePermission("rooms:manage"), async (req, res) => {
     try {
-      if (!req.session?.userId) {
-        return res.status(401).json({ message: "Not authenticated" });
-      }
-
-      const { id } = req.params;
-      const validatedData = insertPaymentSchema.partial().parse(req.body);
-      
-      const payment = await storage.updatePayment(id, validatedData);
-      
-      if (!payment) {
-        return res.status(404).json({ message: "Payment not found" });
-      }
-
-      // Send payment confirmation SMS if payment was marked as paid
-      if (validatedData.status === "paid") {
-        try {
-          const guest = await storage.getGuest(payment.guestId);
-          const lodgeSettings = await storage.getLodgeSettings();
-          
-          if (guest && lodgeSettings) {
-            const room = guest.roomId ? await storage.getRoom(guest.roomId) : null;
-            
-            if (room) {
-              const { sendPaymentConfirmationSMS } = await import("./sms-service");
-              sendPaymentConfirmationSMS(payment, guest, room, lodgeSettings).catch(error => {
-                console.error('Failed to send payment confirmation SMS:', error);
-              });
-            }
-          }
-        } catch (error) {
-          console.error('SMS service error:', error);
-        }
-      }
-
-      res.json(payment);
+      res.json(await checkRoomStatuses(true));
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid data", errors: error.errors });
-      }
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.get("/api/payments/pending", async (req, res) => {
+  // Maintenance tickets take a room out of service for their dates
+  app.get("/api/maintenance-tickets", requireAuth, async (req, res) => {
     try {
-      const pendingPayments = await storage.getPendingPayments();
+      const { roomId } = req.query;
+      res.json(await storage.getMaintenanceTickets((roomId as string) || undefined));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Which rooms keep breaking
+  app.get("/api/maintenance-tickets/history", requirePermission("rooms:manage"), async (req, res) => {
+    try {
+      res.json(await buildMaintenanceHistory());
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/maintenance-tickets", requirePermission("rooms:manage"), async (req, res) => {
+    try {
+      const validatedData = maintenanceTicketRequestSchema.parse(req.body);
+      if (!(await storage.getRoom(validatedData.roomId))) {
+        return res.status(400).json({ message: "Room not found" });
+      }
+
+      const result = await openMaintenanceTicket(validatedData, req.currentUser!);
+      if (result.error) {
+        return res.status(400).json({ message: result.error });
+      }
+      res.json(result.ticket);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put("/api/maintenance-tickets/:id", requirePermission("rooms:manage"), async (req, res) => {
+    try {
+      const validatedData = maintenanceTicketRequestSchema.parse(req.body);
+      const ticket = await storage.getMaintenanceTicket(req.params.id);
+      if (!ticket) {
+        return res.status(404).json({ message: "Maintenance ticket not found" });
+      }
+      if (!(await storage.getRoom(validatedData.roomId))) {
+        return res.status(400).json({ message: "Room not found" });
+      }
+
+      const result = await changeMaintenanceTicket(ticket, validatedData);
+      if (result.error) {
+        return res.status(400).json({ message: result.error });
+      }
+      res.json(result.ticket);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/maintenance-tickets/:id/status", requirePermission("rooms:manage"), async (req, res) => {
+    try {
+      const { status, resolutionNote } = maintenanceTicketStatusSchema.parse(req.body);
+      const ticket = await storage.getMaintenanceTicket(req.params.id);
+      if (!ticket) {
+        return res.status(404).json({ message: "Maintenance ticket not found" });
+      }
+
+      const result = await setMaintenanceTicketStatus(ticket, status, resolutionNote);
+      if (result.error) {
+        return res.status(400).json({ message: result.error });
+      }
+      res.json(result.ticket);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Housekeeping: rooms left to clean or inspect, and moving a room between those states
+  app.get("/api/housekeeping/tasks", requirePermission("housekeeping:clean"), async (req, res) => {
+    try {
+      res.json(await getHousekeepingTasks());
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/rooms/:id/housekeeping", requireAuth, async (req, res) => {
+    try {
+      const { status } = housekeepingUpdateSchema.parse(req.body);
+      const user = req.currentUser!;
+      // Housekeepers clean; only a supervisor passes a room or sends it back
+      if (!hasPermission(user.role, HOUSEKEEPING_STEPS[status].permission)) {
+        return res.status(403).json({ message: "You do not have permission to perform this action" });
+      }
+
+      const room = await storage.getRoom(req.params.id);
+      if (!room) {
+        return res.status(404).json({ message: "Room not found" });
+      }
+
+      const result = await updateHousekeepingStatus(room, status, user);
+      if (result.error) {
+        return res.status(400).json({ message: result.error });
+      }
+      res.json(result.room);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/rooms", requirePermission("rooms:manage"), async (req, res) => {
+    try {
+      const validatedData = insertRoomSchema.parse(req.body);
+      
+      // Check if room number already exists
+      const existingRoom = await storage.getRoomByNumber(validatedData.roomNumber);
+      if (existingRoom) {
+        return res.status(400).json({ message: "Room number already exists" });
+      }
+
+      if (!(await storage.getRoomType(validatedData.roomTypeId))) {
+        return res.status(400).json({ message: "Room type not found" });
+      }
+
+      const room = await storage.createRoom(validatedData);
+      res.json(room);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put("/api/rooms/:id", requirePermission("rooms:manage"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = insertRoomSchema.partial().parse(req.body);
+
+      if (validatedData.roomTypeId && !(await storage.getRoomType(validatedData.roomTypeId))) {
+        return res.status(400).json({ message: "Room type not found" });
+      }
+
+      const existing = await storage.getRoom(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Room not found" });
+      }
+
+      // Status follows the stays and maintenance tickets, never set by hand
+      if (validatedData.status !== undefined && validatedData.status !== existing.status) {
+        return res.status(400).json({ message: "Raise a maintenance ticket to take a room out of service" });
+      }
+
+      const room = await storage.updateRoom(id, validatedData);
+
+      res.json(room);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/rooms/:id", requirePermission("rooms:delete"), async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      // The repair history stays on record, so a room that has any is kept
+      const tickets = await storage.getMaintenanceTickets(id);
+      if (tickets.length > 0) {
+        return res.status(400).json({ message: `This room has ${tickets.length} maintenance ticket(s) on record and cannot be deleted` });
+      }
+
+      const deleted = await storage.deleteRoom(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Room not found" });
+      }
+
+      res.json({ message: "Room deleted" });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/rooms/available", requireAuth, async (req, res) => {
+    try {
+      const { checkinDate, checkoutDate, roomTypeId } = req.query;
+      
+      if (!checkinDate || !checkoutDate) {
+        return res.status(400).json({ message: "Check-in and check-out dates required" });
+      }
+
+      const checkin = new Date(checkinDate as string);
+      const checkout = new Date(checkoutDate as string);
+      
+      const availableRooms = await storage.getAvailableRooms(checkin, checkout, (roomTypeId as string) || undefined);
+      res.json(availableRooms);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Guest routes
+  app.get("/api/guests", requireAuth, async (req, res) => {
+    try {
+      const { search } = req.query;
+      let guests = await storage.getAllGuests();
+      
+      if (search) {
+        const searchTerm = (search as string).toLowerCase();
+        guests = guests.filter(guest => 
+          guest.name.toLowerCase().includes(searchTerm) ||
+          guest.phoneNumber.includes(searchTerm) ||
+          guest.aadharNumber.includes(searchTerm)
+        );
+      }
+
+      res.json(guests);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Pricing preview for the registration form; guest create/edit price the stay the same way
+  app.post("/api/quotes", requirePermission("guests:manage"), async (req, res) => {
+    try {
+      const validatedData = quoteRequestSchema.parse(req.body);
+
+      const room = await storage.getRoom(validatedData.roomId);
+      if (!room) {
+        return res.status(400).json({ message: "Room not found" });
+      }
+
+      if (validatedData.checkoutDate < validatedData.checkinDate) {
+        return res.status(400).json({ message: "Check-out must be on or after check-in" });
+      }
+
+      const settings = await storage.getLodgeSettings();
+      res.json(quoteStayForRoom(room, await ratePlansFor(room), settings, validatedData));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/guests", requirePermission("guests:manage"), async (req, res) => {
+    try {
+      const validatedData = guestRequestSchema.parse(req.body);
+      const advancePayment = paymentReceiptSchema.optional().parse(req.body.advancePayment);
+
+      if (!validatedData.roomId) {
+        return res.status(400).json({ message: "Room is required" });
+      }
+
+      // New stays either start now or are advance reservations
+      const status = validatedData.status ?? "active";
+      if (status !== "active" && !(RESERVATION_STATUSES as readonly string[]).includes(status)) {
+        return res.status(400).json({ message: "New stays must be active or reserved" });
+      }
+      const isReservation = status !== "active";
+
+      const room = await storage.getRoom(validatedData.roomId);
+      if (!room) {
+        return res.status(400).json({ message: "Room not found" });
+      }
+
+      const overOccupancy = await occupancyError(room, validatedData.numberOfGuests);
+      if (overOccupancy) {
+        return res.status(400).json({ message: overOccupancy });
+      }
+
+      if (validatedData.checkoutDate < validatedData.checkinDate) {
+        return res.status(400).json({ message: "Check-out must be on or after check-in" });
+      }
+
+      // Totals sent by the browser must match what the server charges
+      const quote = quoteStayForRoom(room, await ratePlansFor(room), await storage.getLodgeSettings(), validatedData);
+      const mismatches = findQuoteMismatches(validatedData, quote);
+      if (mismatches.length > 0) {
+        return res.status(400).json({ message: "Submitted amounts do not match the current price", fields: mismatches, quote });
+      }
+
+      if (advancePayment?.paymentMethod === "company") {
+        return res.status(400).json({ message: "Stays are billed to a company from the payment screen, not as an advance" });
+      }
+      if (advancePayment && toPaise(advancePayment.amount) > toPaise(quote.totalAmount)) {
+        return res.status(400).json({ message: "Advance cannot exceed the stay total" });
+      }
+      const advanceShiftError = await cashShiftError(req.currentUser!.id, advancePayment?.paymentMethod);
+      if (advanceShiftError) {
+        return res.status(400).json({ message: advanceShiftError });
+      }
+
+      // Check if room is available
+      const availableRooms = await storage.getAvailableRooms(validatedData.checkinDate, validatedData.checkoutDate);
+      if (!availableRooms.find(r => r.id === validatedData.roomId)) {
+        return res.status(400).json({ message: "Room not available for selected dates" });
+      }
+
+      // Walk-ins need the room free tonight, not just for the dates: the last guest may be overstaying
+      if (!isReservation) {
+        const { status: roomStatus } = await getRoomOccupancy(room);
+        if (roomStatus !== "available") {
+          return res.status(400).json({ message: `Room ${room.roomNumber} is ${roomStatus}` });
+        }
+      }
+
+      // An advance taken after tonight's audit lands on a closed day; the stay has no id yet, so it is logged against the room
+      if (advancePayment) {
+        const { overrideReason } = dayLockOverrideSchema.parse(req.body);
+        const locked = await checkDayLock(businessDateOf(new Date()),
+          { entityType: "room", entityId: room.id, action: "create" }, overrideReason, req.currentUser!);
+        if (locked) {
+          return res.status(locked.status).json({ message: locked.message });
+        }
+      }
+
+      // Returning guests keep one profile across stays; refresh it with today's details
+      const profileDetails = {
+        name: validatedData.name,
+        phoneNumber: validatedData.phoneNumber,
+        aadharNumber: validatedData.aadharNumber,
+      };
+      let profile = validatedData.profileId
+        ? await storage.getGuestProfile(validatedData.profileId)
+        : await storage.findGuestProfile(profileDetails);
+      if (profile) {
+        profile = await storage.updateGuestProfile(profile.id, profileDetails);
+      } else {
+        profile = await storage.createGuestProfile(profileDetails);
+      }
+
+      const guest = await storage.createGuest({
+        ...validatedData,
+        ...pricedGuestFields(quote),
+        profileId: profile!.id,
+        status,
+        checkedInAt: isReservation ? null : new Date(),
+      });
+      
+      if (advancePayment) {
+        await storage.createPayment({
+          guestId: guest.id,
+          amount: toRupees(toPaise(advancePayment.amount)),
+          paymentMethod: advancePayment.paymentMethod,
+          status: "paid",
+          paidAt: new Date(),
+        });
+      }
+
+      // Whatever the advance didn't cover is left as the pending balance
+      await syncOutstandingBalance(guest.id);
+      await syncRoomStatus(guest.roomId);
+
+      // Reservations get their welcome SMS when they check in
+      if (!isReservation) {
+        await sendWelcomeSMSInBackground(guest);
+      }
+
+      res.json(guest);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put("/api/guests/:id", requirePermission("guests:manage"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = guestRequestSchema.partial().parse(req.body);
+      
+      const existingGuest = await storage.getGuest(id);
+      if (!existingGuest) {
+        return res.status(404).json({ message: "Guest not found" });
+      }
+
+      const roomId = validatedData.roomId ?? existingGuest.roomId;
+      if (validatedData.roomId !== undefined || validatedData.numberOfGuests !== undefined) {
+        const room = roomId ? await storage.getRoom(roomId) : undefined;
+        const overOccupancy = room && await occupancyError(room, validatedData.numberOfGuests ?? existingGuest.numberOfGuests);
+        if (overOccupancy) {
+          return res.status(400).json({ message: overOccupancy });
+        }
+      }
+
+      // Reservations move through the check-in / cancel endpoints, not free-form edits
+      if (validatedData.status && validatedData.status !== existingGuest.status) {
+        const editable = ["active", "checked_out"];
+        if (!editable.includes(validatedData.status) || !editable.includes(existingGuest.status)) {
+          return res.status(400).json({ message: `Cannot change status from ${existingGuest.status} to ${validatedData.status}` });
+        }
+      }
+
+      // A stay moved to another room or new dates, or one reopened after checkout, must not
+      // clash with other bookings or repairs
+      const checkinDate = validatedData.checkinDate ?? existingGuest.checkinDate;
+      const checkoutDate = validatedData.checkoutDate ?? existingGuest.checkoutDate;
+      const stayMoved = roomId !== existingGuest.roomId
+        || checkinDate.getTime() !== existingGuest.checkinDate.getTime()
+        || checkoutDate.getTime() !== existingGuest.checkoutDate.getTime();
+      const reopened = existingGuest.status === "checked_out" && validatedData.status === "active";
+      if ((stayMoved || reopened) && roomId && (ROOM_HOLDING_STATUSES as readonly string[]).includes(validatedData.status ?? existingGuest.status)) {
+        const availableRooms = await storage.getAvailableRooms(checkinDate, checkoutDate, undefined, id);
+        if (!availableRooms.find((room) => room.id === roomId)) {
+          return res.status(400).json({ message: "Room not available for selected dates" });
+        }
+      }
+
+      // Back in the room means the room must be free tonight, like a walk-in
+      if (reopened) {
+        const room = roomId ? await storage.getRoom(roomId) : undefined;
+        if (!room) {
+          return res.status(400).json({ message: "Room not found" });
+        }
+        const { status: roomStatus } = await getRoomOccupancy(room);
+        if (roomStatus !== "available") {
+          return res.status(400).json({ message: `The stay cannot be reopened: room ${room.roomNumber} is ${roomStatus}` });
+        }
+      }
+
+      // Re-price the stay whenever anything that affects the bill is edited
+      const pricingFields = ["roomId", "checkinDate", "checkinTime", "checkoutDate", "discountPercentage", "gstin",
+        "totalDays", "baseAmount", "discountAmount", "taxRate", "cgstAmount", "sgstAmount", "igstAmount", "taxAmount", "totalAmount"] as const;
+      let quote: StayQuote | undefined;
+      if (pricingFields.some((field) => validatedData[field] !== undefined)) {
+        const stay = {
+          checkinDate: validatedData.checkinDate ?? existingGuest.checkinDate,
+          checkinTime: validatedData.checkinTime ?? existingGuest.checkinTime,
+          checkoutDate: validatedData.checkoutDate ?? existingGuest.checkoutDate,
+          discountPercentage: validatedData.discountPercentage ?? existingGuest.discountPercentage,
+          // null clears the GSTIN, so only undefined falls back
+          gstin: validatedData.gstin !== undefined ? validatedData.gstin : existingGuest.gstin,
+        };
+        const room = roomId ? await storage.getRoom(roomId) : undefined;
+        if (!room) {
+          return res.status(400).json({ message: "Room not found" });
+        }
+
+        if (stay.checkoutDate < stay.checkinDate) {
+          return res.status(400).json({ message: "Check-out must be on or after check-in" });
+        }
+
+        quote = quoteStayForRoom(room, await ratePlansFor(room), await storage.getLodgeSettings(), stay);
+        const mismatches = findQuoteMismatches(validatedData, quote);
+        if (mismatches.length > 0) {
+          return res.status(400).json({ message: "Submitted amounts do not match the current price", fields: mismatches, quote });
+        }
+      }
+
+      // Closed days keep their books: a stay that left on one, or a re-price below the room
+      // nights already posted, needs a manager's override
+      const statusChanged = !!validatedData.status && validatedData.status !== existingGuest.status;
+      let lockedDate: string | undefined;
+      if (existingGuest.checkedOutAt && (quote || statusChanged)) {
+        lockedDate = businessDateOf(existingGuest.checkedOutAt);
+      }
+      if (quote) {
+        const posted = await storage.getRoomNightPostings([id]);
+        const postedPaise = posted.reduce((sum, posting) => sum + toPaise(posting.amount), 0);
+        if (posted.length > 0 && toPaise(quote.totalAmount) < postedPaise) {
+          lockedDate = posted[posted.length - 1].businessDate;
+        }
+      }
+      if (lockedDate) {
+        const { overrideReason } = dayLockOverrideSchema.parse(req.body);
+        const locked = await checkDayLock(lockedDate, { entityType: "guest", entityId: id, action: "update" }, overrideReason, req.currentUser!);
+        if (locked) {
+          return res.status(locked.status).json({ message: locked.message });
+        }
+      }
+
+      // Name, phone and Aadhaar corrections belong to the person, not just this stay
+      if (existingGuest.profileId && (validatedData.name || validatedData.phoneNumber || validatedData.aadharNumber)) {
+        await storage.updateGuestProfile(existingGuest.profileId, {
+          name: validatedData.name,
+          phoneNumber: validatedData.phoneNumber,
+          aadharNumber: validatedData.aadharNumber,
+        });
+      }
+
+      const { discountPercentage, profileId, ...fields } = validatedData;
+      // The night audit posts whatever is left of the room charge on the day a stay leaves
+      const guestUpdates = statusChanged
+        ? { ...fields, checkedOutAt: validatedData.status === "checked_out" ? new Date() : null }
+        : fields;
+      const guest = await storage.updateGuest(id, quote
+        ? { ...guestUpdates, ...pricedGuestFields(quote, existingGuest.chargesAmount) }
+        : guestUpdates);
+
+      // Keep the outstanding balance in line with the re-priced bill
+      if (quote && guest) {
+        await syncOutstandingBalance(id);
+      }
+
+      // Checkouts, room moves and date changes all change who is in which room
+      await syncRoomStatus(existingGuest.roomId);
+      if (guest?.roomId !== existingGuest.roomId) {
+        await syncRoomStatus(guest?.roomId);
+      }
+
+      // The room a guest has slept in needs cleaning once they leave it, by checkout or a move
+      if (guest && validatedData.status === "checked_out" && existingGuest.status !== "checked_out") {
+        await markRoomDirty(guest.roomId, req.currentUser!);
+      }
+      if (guest && existingGuest.status === "active" && guest.roomId !== existingGuest.roomId) {
+        await markRoomDirty(existingGuest.roomId, req.currentUser!);
+      }
+
+      // The final bill, folio charges included, goes out on checkout
+      if (guest && validatedData.status === "checked_out" && existingGuest.status !== "checked_out") {
+        await sendCheckoutSMSInBackground(guest);
+      }
+
+      res.json(guest);
+    } catch (error) {
+      console.error("Guest creation error:", error);
+      if (error instanceof z.ZodError) {
+        console.error("Validation errors:", JSON.stringify(error.errors, null, 2));
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Reservation lifecycle routes
+  app.post("/api/guests/:id/confirm", requirePermission("guests:manage"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const reservation = await storage.getGuest(id);
+      if (!reservation) {
+        return res.status(404).json({ message: "Reservation not found" });
+      }
+
+      if (reservation.status !== "reserved") {
+        return res.status(400).json({ message: "Only reserved bookings can be confirmed" });
+      }
+
+      const guest = await storage.updateGuest(id, { status: "confirmed" });
+      res.json(guest);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/guests/:id/check-in", requirePermission("guests:manage"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const reservation = await storage.getGuest(id);
+      if (!reservation) {
+        return res.status(404).json({ message: "Reservation not found" });
+      }
+
+      if (!(RESERVATION_STATUSES as readonly string[]).includes(reservation.status)) {
+        return res.status(400).json({ message: "Only reserved or confirmed bookings can be checked in" });
+      }
+
+      // The booking's nights, tax and the room's availability are all worked out from its dates
+      const arrivalDate = businessDateOf(reservation.checkinDate);
+      if (arrivalDate !== businessDateOf(new Date())) {
+        return res.status(400).json({ message: `This booking is for ${arrivalDate}; change its dates before checking the guest in today` });
+      }
+
+      const room = reservation.roomId ? await storage.getRoom(reservation.roomId) : undefined;
+      if (!room) {
+        return res.status(400).json({ message: "Reservation has no room" });
+      }
+
+      // The previous guest may not have checked out yet
+      const { status: roomStatus } = await getRoomOccupancy(room);
+      if (roomStatus !== "available") {
+        return res.status(409).json({ message: `Room ${room.roomNumber} is ${roomStatus}` });
+      }
+
+      const guest = await storage.updateGuest(id, { status: "active", checkedInAt: new Date() });
+      await syncRoomStatus(room.id);
+
+      await sendWelcomeSMSInBackground(guest!);
+      res.json(guest);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/guests/:id/cancel", requirePermission("guests:manage"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { reason } = z.object({ reason: z.string().trim().min(1) }).parse(req.body);
+
+      const reservation = await storage.getGuest(id);
+      if (!reservation) {
+        return res.status(404).json({ message: "Reservation not found" });
+      }
+
+      if (!(RESERVATION_STATUSES as readonly string[]).includes(reservation.status)) {
+        return res.status(400).json({ message: "Only reserved or confirmed bookings can be cancelled" });
+      }
+
+      const guest = await storage.updateGuest(id, {
+        status: "cancelled",
+        cancellationReason: reason,
+        cancelledAt: new Date(),
+      });
+      await cancelPendingPayments(id);
+
+      res.json(guest);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "A cancellation reason is required", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Guest profile routes
+  app.get("/api/guest-profiles/lookup", requirePermission("guests:manage"), async (req, res) => {
+    try {
+      const { phoneNumber, aadharNumber } = z.object({
+        phoneNumber: z.string().optional(),
+        aadharNumber: z.string().optional(),
+      }).parse(req.query);
+
+      const profile = await storage.findGuestProfile({ phoneNumber, aadharNumber });
+      if (!profile) {
+        return res.json(null);
+      }
+
+      const stays = await storage.getStaysByProfile(profile.id);
+      res.json({
+        profile,
+        stayCount: stays.length,
+        lastStayAt: stays[0]?.checkinDate ?? null,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/guest-profiles/:id", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const profile = await storage.getGuestProfile(id);
+      if (!profile) {
+        return res.status(404).json({ message: "Guest profile not found" });
+      }
+
+      const [stays, rooms] = await Promise.all([
+        storage.getStaysByProfile(id),
+        storage.getAllRooms(),
+      ]);
+
+      res.json({
+        profile,
+        stays: stays.map((stay) => ({
+          ...stay,
+          roomNumber: rooms.find((room) => room.id === stay.roomId)?.roomNumber ?? null,
+        })),
+        stayCount: stays.length,
+        totalSpend: toRupees(sumPaise(stays.map((stay) => stay.totalAmount))),
+      });
+    } catch (error) {
+      console.error("Error fetching guest profile:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/guests/:id/payments", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const guest = await storage.getGuest(id);
+      if (!guest) {
+        return res.status(404).json({ message: "Guest not found" });
+      }
+
+      const guestPayments = await storage.getPaymentsByGuest(id);
+      res.json({ payments: guestPayments, ...calculateBalance(guest, guestPayments) });
+    } catch (error) {
+      console.error("Error fetching guest payments:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Records money received against a stay; the pending balance shrinks to match
+  app.post("/api/guests/:id/payments", requirePermission("payments:manage"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = paymentReceiptSchema.parse(req.body);
+
+      const guest = await storage.getGuest(id);
+      if (!guest) {
+        return res.status(404).json({ message: "Guest not found" });
+      }
+
+      const { balanceDue } = calculateBalance(guest, await storage.getPaymentsByGuest(id));
+      if (toPaise(validatedData.amount) > toPaise(balanceDue)) {
+        return res.status(400).json({ message: `Amount exceeds the balance due of ₹${balanceDue}` });
+      }
+
+      const shiftError = await cashShiftError(req.currentUser!.id, validatedData.paymentMethod);
+      if (shiftError) {
+        return res.status(400).json({ message: shiftError });
+      }
+
+      if (validatedData.paymentMethod === "company") {
+        const account = await storage.getCompanyAccount(validatedData.companyAccountId!);
+        if (!account || !account.isActive) {
+          return res.status(400).json({ message: "Company account not found or inactive" });
+        }
+
+        if (account.creditLimit) {
+          const availablePaise = toPaise(account.creditLimit) - await getCompanyOutstandingPaise(account.id);
+          if (toPaise(validatedData.amount) > availablePaise) {
+            return res.status(400).json({ message: `${account.name} has only ₹${toRupees(Math.max(0, availablePaise))} of credit left` });
+          }
+        }
+      }
+
+      const { overrideReason } = dayLockOverrideSchema.parse(req.body);
+      const locked = await checkDayLock(businessDateOf(new Date()), { entityType: "guest", entityId: id, action: "create" }, overrideReason, req.currentUser!);
+      if (locked) {
+        return res.status(locked.status).json({ message: locked.message });
+      }
+
+      const { payment, balance } = await recordReceipt(id, {
+        amountPaise: toPaise(validatedData.amount),
+        paymentMethod: validatedData.paymentMethod,
+        companyAccountId: validatedData.companyAccountId,
+      });
+
+      await sendPaymentConfirmationSMSInBackground(payment);
+
+      res.json({ payment, ...balance });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Folio routes
+  app.get("/api/guests/:id/charges", requireAuth, async (req, res) => {
+    try {
+      const charges = await storage.getFolioCharges(req.params.id);
+      res.json(charges);
+    } catch (error) {
+      console.error("Error fetching folio charges:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/guests/:id/charges", requirePermission("guests:manage"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = folioChargeRequestSchema.parse(req.body);
+
+      const guest = await storage.getGuest(id);
+      if (!guest) {
+        return res.status(404).json({ message: "Guest not found" });
+      }
+
+      if (!canPostCharges(guest)) {
+        return res.status(400).json({ message: `Cannot post charges to a ${guest.status} stay` });
+      }
+
+      // Without a GSTIN the lodge cannot charge GST on extras either
+      const settings = await storage.getLodgeSettings();
+      const taxRate = settings?.gstin ? validatedData.taxRate : 0;
+
+      const charge = await storage.createFolioCharge({
+        guestId: id,
+        category: validatedData.category,
+        description: validatedData.description || null,
+        quantity: validatedData.quantity,
+        unitPrice: toRupees(toPaise(validatedData.unitPrice)),
+        ...calculateChargeAmounts(validatedData.quantity, validatedData.unitPrice, taxRate),
+      });
+
+      res.json({ charge, guest: await recalculateStayTotal(id) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put("/api/guests/:id/charges/:chargeId", requirePermission("guests:manage"), async (req, res) => {
+    try {
+      const { id, chargeId } = req.params;
+      const validatedData = folioChargeRequestSchema.parse(req.body);
+
+      const existingCharge = await storage.getFolioCharge(chargeId);
+      if (!existingCharge || existingCharge.guestId !== id) {
+        return res.status(404).json({ message: "Charge not found" });
+      }
+
+      if (await storage.findDepositDeductionByCharge(chargeId)) {
+        return res.status(400).json({ message: "This charge was paid from the security deposit and cannot be changed" });
+      }
+
+      const { overrideReason } = dayLockOverrideSchema.parse(req.body);
+      const locked = await checkDayLock(businessDateOf(existingCharge.createdAt ?? new Date()),
+        { entityType: "folio_charge", entityId: chargeId, action: "update" }, overrideReason, req.currentUser!);
+      if (locked) {
+        return res.status(locked.status).json({ message: locked.message });
+      }
+
+      const settings = await storage.getLodgeSettings();
+      const taxRate = settings?.gstin ? validatedData.taxRate : 0;
+
+      const charge = await storage.updateFolioCharge(chargeId, {
+        category: validatedData.category,
+        description: validatedData.description || null,
+        quantity: validatedData.quantity,
+        unitPrice: toRupees(toPaise(validatedData.unitPrice)),
+        ...calculateChargeAmounts(validatedData.quantity, validatedData.unitPrice, taxRate),
+      });
+
+      res.json({ charge, guest: await recalculateStayTotal(id) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/guests/:id/charges/:chargeId", requirePermission("guests:manage"), async (req, res) => {
+    try {
+      const { id, chargeId } = req.params;
+
+      const existingCharge = await storage.getFolioCharge(chargeId);
+      if (!existingCharge || existingCharge.guestId !== id) {
+        return res.status(404).json({ message: "Charge not found" });
+      }
+
+      if (await storage.findDepositDeductionByCharge(chargeId)) {
+        return res.status(400).json({ message: "This charge was paid from the security deposit and cannot be changed" });
+      }
+
+      const { overrideReason } = dayLockOverrideSchema.parse(req.body ?? {});
+      const locked = await checkDayLock(businessDateOf(existingCharge.createdAt ?? new Date()),
+        { entityType: "folio_charge", entityId: chargeId, action: "delete" }, overrideReason, req.currentUser!);
+      if (locked) {
+        return res.status(locked.status).json({ message: locked.message });
+      }
+
+      await storage.deleteFolioCharge(chargeId);
+      res.json({ guest: await recalculateStayTotal(id) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Security deposit routes
+  // Deposits the lodge is holding right now, for the report and the guest list badges
+  app.get("/api/deposits/held", requireAuth, async (req, res) => {
+    try {
+      res.json(await buildHeldDepositsReport());
+    } catch (error) {
+      console.error("Error fetching held deposits:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/guests/:id/deposits", requireAuth, async (req, res) => {
+    try {
+      const deposits = await storage.getSecurityDeposits({ guestId: req.params.id });
+      res.json(await describeDeposits(deposits));
+    } catch (error) {
+      console.error("Error fetching guest deposits:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/guests/:id/deposits", requirePermission("payments:manage"), async (req, res) => {
+    try {
+      const validatedData = depositCollectSchema.parse(req.body);
+
+      const guest = await storage.getGuest(req.params.id);
+      if (!guest) {
+        return res.status(404).json({ message: "Guest not found" });
+      }
+
+      if (guest.status === "cancelled" || guest.status === "no_show" || guest.status === "checked_out") {
+        return res.status(400).json({ message: `Cannot collect a deposit on a ${guest.status} stay` });
+      }
+
+      const shiftError = await cashShiftError(req.currentUser!.id, validatedData.paymentMethod);
+      if (shiftError) {
+        return res.status(400).json({ message: shiftError });
+      }
+
+      const { overrideReason } = dayLockOverrideSchema.parse(req.body);
+      const locked = await checkDayLock(businessDateOf(new Date()), { entityType: "guest", entityId: guest.id, action: "create" }, overrideReason, req.currentUser!);
+      if (locked) {
+        return res.status(locked.status).json({ message: locked.message });
+      }
+
+      const deposit = await collectDeposit(guest, validatedData, req.currentUser!);
+      res.json(deposit);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Keeps part of a deposit against a damage charge; the money is receipted against the stay
+  app.post("/api/deposits/:id/deductions", requirePermission("payments:manage"), async (req, res) => {
+    try {
+      const validatedData = depositDeductionSchema.parse(req.body);
+
+      const deposit = await storage.getSecurityDeposit(req.params.id);
+      if (!deposit) {
+        return res.status(404).json({ message: "Deposit not found" });
+      }
+
+      const { overrideReason } = dayLockOverrideSchema.parse(req.body);
+      const locked = await checkDayLock(businessDateOf(new Date()), { entityType: "security_deposit", entityId: deposit.id, action: "update" }, overrideReason, req.currentUser!);
+      if (locked) {
+        return res.status(locked.status).json({ message: locked.message });
+      }
+
+      const { deduction, error } = await deductFromDeposit(deposit, validatedData, req.currentUser!);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+
+      res.json(deduction);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/deposits/:id/release", requirePermission("payments:manage"), async (req, res) => {
+    try {
+      const validatedData = depositReleaseSchema.parse(req.body);
+
+      const existing = await storage.getSecurityDeposit(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Deposit not found" });
+      }
+
+      const shiftError = await cashShiftError(req.currentUser!.id, validatedData.paymentMethod ?? existing.paymentMethod);
+      if (shiftError) {
+        return res.status(400).json({ message: shiftError });
+      }
+
+      const { overrideReason } = dayLockOverrideSchema.parse(req.body ?? {});
+      const locked = await checkDayLock(businessDateOf(new Date()), { entityType: "security_deposit", entityId: existing.id, action: "update" }, overrideReason, req.currentUser!);
+      if (locked) {
+        return res.status(locked.status).json({ message: locked.message });
+      }
+
+      const { deposit, error } = await releaseDeposit(existing, validatedData, req.currentUser!);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+
+      res.json(deposit);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Issues the stay's tax invoice on first request; later calls reprint it as issued
+  app.post("/api/guests/:id/invoice", requirePermission("payments:manage"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const guest = await storage.getGuest(id);
+      if (!guest) {
+        return res.status(404).json({ message: "Guest not found" });
+      }
+
+      if (!canInvoiceStay(guest)) {
+        return res.status(400).json({ message: `Cannot invoice a ${guest.status} stay` });
+      }
+
+      res.json(await issueTaxInvoice(guest));
+    } catch (error) {
+      console.error("Error issuing invoice:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/guests/:id/history", requirePermission("audit:view"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const guestPayments = await storage.getPaymentsByGuest(id);
+      const charges = await storage.getFolioCharges(id);
+      const invoice = await storage.getInvoiceByGuest(id);
+
+      // A stay's history includes its payments, folio charges and invoice
+      const history = await storage.getAuditLogs({
+        entityIds: [
+          id,
+          ...guestPayments.map((payment) => payment.id),
+          ...charges.map((charge) => charge.id),
+          ...(invoice ? [invoice.id] : []),
+        ],
+      });
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching guest history:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Payment routes
+  app.get("/api/payments", requireAuth, async (req, res) => {
+    try {
+      const payments = await storage.getAllPayments();
+      
+      // Enrich payments with guest and room data
+      const enrichedPayments = await Promise.all(payments.map(async (payment) => {
+        const guest = await storage.getGuest(payment.guestId);
+        let room = null;
+        
+        if (guest && guest.roomId) {
+          room = await storage.getRoom(guest.roomId);
+        }
+        
+        return {
+          ...payment,
+          guest: guest ? { 
+            name: guest.name, 
+            phoneNumber: guest.phoneNumber 
+          } : undefined,
+          room: room ? { 
+            roomNumber: room.roomNumber 
+          } : undefined
+        };
+      }));
+      
+      res.json(enrichedPayments);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put("/api/payments/:id", requirePermission("payments:manage"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = paymentUpdateSchema.parse(req.body);
+      
+      const existingPayment = await storage.getPayment(id);
+      if (!existingPayment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+
+      // Money already taken is corrected with a refund or void, never by editing the row
+      if (existingPayment.status !== "pending") {
+        return res.status(400).json({ message: "Only a balance due can be edited; record a refund or void instead" });
+      }
+
+      const paymentMethod = validatedData.paymentMethod ?? existingPayment.paymentMethod;
+      if (validatedData.status !== "paid") {
+        // The pending row only mirrors the balance; its method is a default until it is paid
+        const payment = await storage.updatePayment(id, { paymentMethod });
+        return res.json(payment);
+      }
+
+      // Marking the balance paid records a receipt for what is owed now, like any other payment
+      const guest = await storage.getGuest(existingPayment.guestId);
+      if (!guest) {
+        return res.status(404).json({ message: "Guest not found" });
+      }
+      const { balanceDue } = calculateBalance(guest, await storage.getPaymentsByGuest(guest.id));
+      if (toPaise(balanceDue) <= 0) {
+        return res.status(400).json({ message: "Nothing is owed on this stay" });
+      }
+
+      const shiftError = await cashShiftError(req.currentUser!.id, paymentMethod);
+      if (shiftError) {
+        return res.status(400).json({ message: shiftError });
+      }
+
+      const { overrideReason } = dayLockOverrideSchema.parse(req.body);
+      const locked = await checkDayLock(businessDateOf(new Date()), { entityType: "guest", entityId: guest.id, action: "create" }, overrideReason, req.currentUser!);
+      if (locked) {
+        return res.status(locked.status).json({ message: locked.message });
+      }
+
+      const { payment } = await recordReceipt(guest.id, { amountPaise: toPaise(balanceDue), paymentMethod });
+      await sendPaymentConfirmationSMSInBackground(payment);
+
+      res.json(payment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // UPI QR for a bill with the exact amount; the reference is kept on the pending payment
+  app.post("/api/payments/:id/upi-qr", requirePermission("payments:manage"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = upiQrRequestSchema.parse(req.body ?? {});
+
+      const payment = await storage.getPayment(id);
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+
+      if (payment.status !== "pending") {
+        return res.status(400).json({ message: "Only a balance due can be paid by UPI QR" });
+      }
+
+      const settings = await storage.getLodgeSettings();
+      if (!settings?.upiVpa) {
+        return res.status(400).json({ message: "Set the lodge's UPI ID in settings first" });
+      }
+
+      const amountPaise = validatedData.amount !== undefined ? toPaise(validatedData.amount) : toPaise(payment.amount);
+      if (amountPaise > toPaise(payment.amount)) {
+        return res.status(400).json({ message: `Amount exceeds the balance due of ₹${payment.amount}` });
+      }
+
+      // Reprints and reopened modals show the same reference until it is paid
+      let reference = payment.upiReference;
+      if (!reference) {
+        reference = generateUpiReference();
+        await storage.updatePayment(id, { upiReference: reference });
+      }
+
+      res.json(await createUpiPaymentRequest(settings, toRupees(amountPaise), reference));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("UPI QR error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Refunds part or all of a paid receipt, e.g. when a guest leaves early
+  app.post("/api/payments/:id/refund", requirePermission("payments:reverse"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = paymentRefundSchema.parse(req.body);
+
+      const receipt = await storage.getPayment(id);
+      if (!receipt) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+
+      if (receipt.kind !== "receipt" || receipt.status !== "paid") {
+        return res.status(400).json({ message: "Only paid receipts can be refunded" });
+      }
+
+      const remainingPaise = reversiblePaise(receipt, await storage.getPaymentsByGuest(receipt.guestId));
+      if (toPaise(validatedData.amount) > remainingPaise) {
+        return res.status(400).json({ message: `Refund exceeds the ₹${toRupees(remainingPaise)} left on this payment` });
+      }
+
+      // A company bill not yet paid is credited back to the company; once paid, the money goes back some other way
+      const creditsCompany = receipt.paymentMethod === "company" && !receipt.companySettlementId;
+      const paymentMethod = creditsCompany ? "company" : validatedData.paymentMethod ?? receipt.paymentMethod;
+      if (paymentMethod === "company" && !creditsCompany) {
+        return res.status(400).json({ message: "Choose how the refund was paid out" });
+      }
+
+      const shiftError = await cashShiftError(req.currentUser!.id, paymentMethod);
+      if (shiftError) {
+        return res.status(400).json({ message: shiftError });
+      }
+
+      const { overrideReason } = dayLockOverrideSchema.parse(req.body);
+      const locked = await checkDayLock(businessDateOf(new Date()), { entityType: "payment", entityId: receipt.id, action: "create" }, overrideReason, req.currentUser!);
+      if (locked) {
+        return res.status(locked.status).json({ message: locked.message });
+      }
+
+      const { payment, balance } = await reversePayment(receipt, {
+        kind: "refund",
+        amountPaise: toPaise(validatedData.amount),
+        paymentMethod,
+        reason: validatedData.reason,
+      }, req.currentUser!);
+
+      res.json({ payment, ...balance });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Voids whatever is left of a receipt that was entered by mistake
+  app.post("/api/payments/:id/void", requirePermission("payments:reverse"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = paymentVoidSchema.parse(req.body);
+
+      const receipt = await storage.getPayment(id);
+      if (!receipt) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+
+      if (receipt.kind !== "receipt" || receipt.status !== "paid") {
+        return res.status(400).json({ message: "Only paid receipts can be voided" });
+      }
+
+      const remainingPaise = reversiblePaise(receipt, await storage.getPaymentsByGuest(receipt.guestId));
+      if (remainingPaise === 0) {
+        return res.status(400).json({ message: "This payment has already been fully reversed" });
+      }
+
+      if (receipt.companySettlementId) {
+        return res.status(400).json({ message: "The company has already paid this bill; record a refund instead" });
+      }
+
+      const { overrideReason } = dayLockOverrideSchema.parse(req.body);
+      const locked = await checkDayLock(businessDateOf(new Date()), { entityType: "payment", entityId: receipt.id, action: "create" }, overrideReason, req.currentUser!);
+      if (locked) {
+        return res.status(locked.status).json({ message: locked.message });
+      }
+
+      const { payment, balance } = await reversePayment(receipt, {
+        kind: "void",
+        amountPaise: remainingPaise,
+        paymentMethod: receipt.paymentMethod,
+        reason: validatedData.reason,
+      }, req.currentUser!);
+
+      res.json({ payment, ...balance });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Cashier shift routes; each user works their own drawer, managers see and close everyone's
+  app.get("/api/shifts/current", requirePermission("payments:manage"), async (req, res) => {
+    try {
+      const shift = await storage.getOpenShift(req.currentUser!.id);
+      res.json(shift ? await buildShiftReport(shift) : null);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/shifts", requirePermission("payments:manage"), async (req, res) => {
+    try {
+      const user = req.currentUser!;
+      const shifts = await storage.getShifts(hasPermission(user.role, "shifts:manage") ? {} : { userId: user.id });
+      res.json(shifts);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/shifts", requirePermission("payments:manage"), async (req, res) => {
+    try {
+      const validatedData = shiftOpenSchema.parse(req.body);
+
+      const { shift, error } = await openShift(validatedData, req.currentUser!);
+      if (error) {
+        return res.status(409).json({ message: error });
+      }
+
+      res.json(shift);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/shifts/:id/close", requirePermission("payments:manage"), async (req, res) => {
+    try {
+      const validatedData = shiftCloseSchema.parse(req.body);
+      const user = req.currentUser!;
+
+      const shift = await storage.getShift(req.params.id);
+      if (!shift) {
+        return res.status(404).json({ message: "Shift not found" });
+      }
+      if (shift.userId !== user.id && !hasPermission(user.role, "shifts:manage")) {
+        return res.status(403).json({ message: "Only a manager can close another user's shift" });
+      }
+
+      const { report, error } = await closeShift(shift, validatedData, user);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+
+      res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Handover report for printing at the end of a shift
+  app.get("/api/shifts/:id/report", requirePermission("payments:manage"), async (req, res) => {
+    try {
+      const user = req.currentUser!;
+      const shift = await storage.getShift(req.params.id);
+      if (!shift || (shift.userId !== user.id && !hasPermission(user.role, "shifts:manage"))) {
+        return res.status(404).json({ message: "Shift not found" });
+      }
+
+      res.json(await buildShiftReport(shift));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Company account routes; the list is open to the desk so stays can be billed to a company
+  app.get("/api/company-accounts", requirePermission("payments:manage"), async (req, res) => {
+    try {
+      const accounts = await storage.getCompanyAccounts();
+      const withBalances = await Promise.all(accounts.map(async (account) => ({
+        ...account,
+        outstanding: toRupees(await getCompanyOutstandingPaise(account.id)),
+      })));
+      res.json(withBalances);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/company-accounts", requirePermission("companies:manage"), async (req, res) => {
+    try {
+      const validatedData = insertCompanyAccountSchema.parse(req.body);
+      const account = await storage.createCompanyAccount(validatedData);
+      res.status(201).json(account);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put("/api/company-accounts/:id", requirePermission("companies:manage"), async (req, res) => {
+    try {
+      const validatedData = insertCompanyAccountSchema.partial().parse(req.body);
+      const account = await storage.updateCompanyAccount(req.params.id, validatedData);
+      if (!account) {
+        return res.status(404).json({ message: "Company account not found" });
+      }
+      res.json(account);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Ledger for a period, e.g. ?from=2026-04-01&to=2026-04-30; without dates, the whole history
+  app.get("/api/company-accounts/:id/statement", requirePermission("companies:manage"), async (req, res) => {
+    try {
+      const account = await storage.getCompanyAccount(req.params.id);
+      if (!account) {
+        return res.status(404).json({ message: "Company account not found" });
+      }
+
+      const from = typeof req.query.from === "string" && req.query.from ? new Date(req.query.from) : null;
+      const to = typeof req.query.to === "string" && req.query.to ? new Date(req.query.to) : null;
+      if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+        return res.status(400).json({ message: "Invalid statement period" });
+      }
+      // A bare end date covers that whole day
+      to?.setHours(23, 59, 59, 999);
+
+      res.json(await buildCompanyStatement(account, from, to));
+    } catch (error) {
+      console.error("Company statement error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/company-accounts/:id/settlements", requirePermission("companies:manage"), async (req, res) => {
+    try {
+      const validatedData = companySettlementRequestSchema.parse(req.body);
+
+      const account = await storage.getCompanyAccount(req.params.id);
+      if (!account) {
+        return res.status(404).json({ message: "Company account not found" });
+      }
+
+      // Cheques are often entered days later, backdated to when they arrived
+      const { overrideReason } = dayLockOverrideSchema.parse(req.body);
+      const locked = await checkDayLock(businessDateOf(validatedData.settledAt ?? new Date()),
+        { entityType: "company_account", entityId: account.id, action: "create" }, overrideReason, req.currentUser!);
+      if (locked) {
+        return res.status(locked.status).json({ message: locked.message });
+      }
+
+      const { settlement, error } = await settleCompanyBills(account, validatedData, req.currentUser!);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+
+      res.status(201).json(settlement);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Statement reconciliation routes
+  app.get("/api/statement-imports", requirePermission("payments:reconcile"), async (req, res) => {
+    try {
+      const imports = await storage.getStatementImports();
+      res.json(imports);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // The CSV is posted as-is; statements easily outgrow the JSON body limit
+  app.post(
+    "/api/statement-imports",
+    requirePermission("payments:reconcile"),
+    express.text({ type: ["text/csv", "text/plain"], limit: "5mb" }),
+    async (req, res) => {
+      try {
+        if (typeof req.body !== "string" || req.body.trim() === "") {
+          return res.status(400).json({ message: "Upload a CSV statement" });
+        }
+
+        const { credits, error } = parseStatementCsv(req.body);
+        if (error) {
+          return res.status(400).json({ message: error });
+        }
+
+        const fileName = typeof req.query.fileName === "string" && req.query.fileName ? req.query.fileName : "statement.csv";
+        const { statementImport, receipts } = await importStatement(fileName, credits, req.currentUser!);
+
+        for (const receipt of receipts) {
+          await sendPaymentConfirmationSMSInBackground(receipt);
+        }
+
+        res.json(await buildReconciliationReport(statementImport));
+      } catch (error) {
+        console.error("Statement import error:", error);
+        res.status(500).json({ message: "Internal server error" });
+      }
+    },
+  );
+
+  app.get("/api/statement-imports/:id", requirePermission("payments:reconcile"), async (req, res) => {
+    try {
+      const statementImport = await storage.getStatementImport(req.params.id);
+      if (!statementImport) {
+        return res.status(404).json({ message: "Statement import not found" });
+      }
+
+      res.json(await buildReconciliationReport(statementImport));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/statement-lines/:id/confirm", requirePermission("payments:reconcile"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = statementLineConfirmSchema.parse(req.body);
+
+      const line = await storage.getStatementLine(id);
+      if (!line) {
+        return res.status(404).json({ message: "Statement line not found" });
+      }
+
+      if (line.status !== "ambiguous" && line.status !== "unmatched") {
+        return res.status(400).json({ message: `This credit is already ${line.status}` });
+      }
+
+      const pending = await storage.getPayment(validatedData.paymentId);
+      if (!pending || pending.status !== "pending") {
+        return res.status(400).json({ message: "Pick a payment that still has a balance due" });
+      }
+
+      if (toPaise(line.amount) > toPaise(pending.amount)) {
+        return res.status(400).json({ message: `Credit of ₹${line.amount} exceeds the balance due of ₹${pending.amount}` });
+      }
+
+      const { receipt } = await confirmStatementLine(line, pending);
+      await sendPaymentConfirmationSMSInBackground(receipt);
+
+      const statementImport = await storage.getStatementImport(line.importId);
+      res.json(await buildReconciliationReport(statementImport!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Credits that aren't guest payments (owner transfers, interest) are set aside
+  app.post("/api/statement-lines/:id/ignore", requirePermission("payments:reconcile"), async (req, res) => {
+    try {
+      const line = await storage.getStatementLine(req.params.id);
+      if (!line) {
+        return res.status(404).json({ message: "Statement line not found" });
+      }
+
+      if (line.status !== "ambiguous" && line.status !== "unmatched") {
+        return res.status(400).json({ message: `This credit is already ${line.status}` });
+      }
+
+      await storage.updateStatementLine(line.id, { status: "ignored" });
+
+      const statementImport = await storage.getStatementImport(line.importId);
+      res.json(await buildReconciliationReport(statementImport!));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/payments/pending", requireAuth, async (req, res) => {
+    try {
+      const pendingPayments = await storage.getPendingPayments();
       res.json(pendingPayments);
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // SMS routes
-  app.post("/api/sms/send-bill", async (req, res) => {
+  // Outstanding dues by guest and company, in aging buckets
+  app.get("/api/receivables", requirePermission("reports:view"), async (req, res) => {
+    try {
+      res.json(await buildReceivablesReport());
+    } catch (error) {
+      console.error("Receivables report error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/receivables/:type/:id/reminder", requirePermission("sms:send"), async (req, res) => {
     try {
-      if (!req.session?.userId) {
-        return res.status(401).json({ message: "Not authenticated" });
+      const { type, id } = req.params;
+      const account = (await buildReceivablesReport()).accounts.find((candidate) => candidate.type === type && candidate.id === id);
+      if (!account) {
+        return res.status(404).json({ message: "Nothing is owed on this account" });
+      }
+
+      const { sentTo, error } = await sendReceivableReminder(account);
+      if (error) {
+        return res.status(400).json({ message: error });
       }
+      res.json({ message: `Reminder sent to ${sentTo}` });
+    } catch (error) {
+      console.error("Receivable reminder error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
 
+  // SMS routes
+  app.post("/api/sms/send-bill", requirePermission("sms:send"), async (req, res) => {
+    try {
       const { guestId, message, phoneNumber } = req.body;
       
       if (!guestId || !message || !phoneNumber) {
@@ -452,12 +2232,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get SMS history for a guest
-  app.get("/api/sms/history/:guestId", async (req, res) => {
+  app.get("/api/sms/history/:guestId", requireAuth, async (req, res) => {
     try {
-      if (!req.session?.userId) {
-        return res.status(401).json({ message: "Not authenticated" });
-      }
-
       const { guestId } = req.params;
       const { limit = "50" } = req.query;
       
@@ -469,12 +2245,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get SMS statistics
-  app.get("/api/sms/stats", async (req, res) => {
+  app.get("/api/sms/stats", requireAuth, async (req, res) => {
     try {
-      if (!req.session?.userId) {
-        return res.status(401).json({ message: "Not authenticated" });
-      }
-
       const { days = "30" } = req.query;
       
       // Provide default stats if SMS service is not properly configured
@@ -499,12 +2271,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Send templated SMS
-  app.post("/api/sms/send-template", async (req, res) => {
+  app.post("/api/sms/send-template", requirePermission("sms:send"), async (req, res) => {
     try {
-      if (!req.session?.userId) {
-        return res.status(401).json({ message: "Not authenticated" });
-      }
-
       const { templateId, phoneNumber, variables, guestId } = req.body;
       
       if (!templateId || !phoneNumber || !variables) {
@@ -524,28 +2292,286 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Analytics routes
-  app.get("/api/analytics/dashboard", async (req, res) => {
+  // Audit log routes
+  app.get("/api/audit-logs", requirePermission("audit:view"), async (req, res) => {
     try {
-      const rooms = await storage.getAllRooms();
+      const filters = z.object({
+        entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+        entityId: z.string().optional(),
+        actorId: z.string().optional(),
+        limit: z.coerce.number().int().min(1).max(1000).optional(),
+      }).parse(req.query);
+
+      const logs = await storage.getAuditLogs({
+        entityType: filters.entityType,
+        entityIds: filters.entityId ? [filters.entityId] : undefined,
+        actorId: filters.actorId,
+        limit: filters.limit,
+      });
+      res.json(logs);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid filters", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/audit-logs/actors", requirePermission("audit:view"), async (req, res) => {
+    try {
+      const actors = await storage.getAuditActors();
+      res.json(actors);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Night audit routes
+  app.get("/api/night-audit", requirePermission("night_audit:run"), async (req, res) => {
+    try {
+      const nextBusinessDate = await getNextBusinessDate();
+      res.json({
+        nextBusinessDate,
+        preview: nextBusinessDate ? await buildNightAudit(nextBusinessDate) : null,
+        summaries: await storage.getDailySummaries(),
+      });
+    } catch (error) {
+      console.error("Error preparing night audit:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/night-audit/:businessDate", requirePermission("night_audit:run"), async (req, res) => {
+    try {
+      const summary = await storage.getDailySummary(req.params.businessDate);
+      if (!summary) {
+        return res.status(404).json({ message: "That day has not been closed" });
+      }
+
+      res.json({ summary, overrides: await storage.getDayLockOverrides(summary.businessDate) });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/night-audit/close", requirePermission("night_audit:run"), async (req, res) => {
+    try {
+      const { businessDate } = nightAuditCloseSchema.parse(req.body);
+
+      const { summary, error } = await closeBusinessDay(businessDate, req.currentUser!);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+
+      res.json(summary);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error closing business day:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Expense book
+  app.get("/api/expenses", requirePermission("expenses:manage"), async (req, res) => {
+    try {
+      const { from, to, category } = req.query;
+      const isDate = (value: unknown): value is string => typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value);
+      if ((from !== undefined && !isDate(from)) || (to !== undefined && !isDate(to))) {
+        return res.status(400).json({ message: "Dates must be YYYY-MM-DD" });
+      }
+      if (category !== undefined && !(EXPENSE_CATEGORIES as readonly unknown[]).includes(category)) {
+        return res.status(400).json({ message: "Invalid category filter" });
+      }
+
+      const expenses = await storage.getExpenses({ from, to, category: category as string | undefined });
+      res.json(expenses);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/expenses", requirePermission("expenses:manage"), async (req, res) => {
+    try {
+      const validatedData = expenseRequestSchema.parse(req.body);
+
+      // Bills are often entered late, backdated to the day they were paid
+      const id = randomUUID();
+      const { overrideReason } = dayLockOverrideSchema.parse(req.body);
+      const locked = await checkDayLock(validatedData.paidOn, { entityType: "expense", entityId: id, action: "create" }, overrideReason, req.currentUser!);
+      if (locked) {
+        return res.status(locked.status).json({ message: locked.message });
+      }
+
+      const expense = await recordExpense(validatedData, req.currentUser!, id);
+      res.status(201).json(expense);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put("/api/expenses/:id", requirePermission("expenses:manage"), async (req, res) => {
+    try {
+      const validatedData = expenseRequestSchema.parse(req.body);
+
+      const existing = await storage.getExpense(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+
+      // Moving an expense changes both days' books, so each must be open or overridden
+      const { overrideReason } = dayLockOverrideSchema.parse(req.body);
+      for (const paidOn of Array.from(new Set([existing.paidOn, validatedData.paidOn]))) {
+        const locked = await checkDayLock(paidOn, { entityType: "expense", entityId: existing.id, action: "update" }, overrideReason, req.currentUser!);
+        if (locked) {
+          return res.status(locked.status).json({ message: locked.message });
+        }
+      }
+
+      const { expense, error } = await changeExpense(existing, validatedData, req.currentUser!);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+
+      res.json(expense);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/expenses/:id", requirePermission("expenses:manage"), async (req, res) => {
+    try {
+      const expense = await storage.getExpense(req.params.id);
+      if (!expense) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+
+      const { overrideReason } = dayLockOverrideSchema.parse(req.body ?? {});
+      const locked = await checkDayLock(expense.paidOn, { entityType: "expense", entityId: expense.id, action: "delete" }, overrideReason, req.currentUser!);
+      if (locked) {
+        return res.status(locked.status).json({ message: locked.message });
+      }
+
+      const { error } = await removeExpense(expense);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+
+      res.json({ message: "Expense deleted successfully" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // The bill is sent as the raw request body, with its name in the query string
+  app.put(
+    "/api/expenses/:id/attachment",
+    requirePermission("expenses:manage"),
+    express.raw({ type: ATTACHMENT_TYPES, limit: "5mb" }),
+    async (req, res) => {
+      try {
+        const contentType = req.headers["content-type"]?.split(";")[0];
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0 || !contentType || !ATTACHMENT_TYPES.includes(contentType)) {
+          return res.status(400).json({ message: "Attach a JPEG, PNG, WebP or PDF bill" });
+        }
+
+        const existing = await storage.getExpense(req.params.id);
+        if (!existing) {
+          return res.status(404).json({ message: "Expense not found" });
+        }
+
+        const fileName = typeof req.query.fileName === "string" && req.query.fileName ? req.query.fileName : "bill";
+        const expense = await attachBill(existing, { fileName, contentType, data: req.body });
+        res.json(expense);
+      } catch (error) {
+        console.error("Expense attachment error:", error);
+        res.status(500).json({ message: "Internal server error" });
+      }
+    },
+  );
+
+  app.get("/api/expenses/:id/attachment", requirePermission("expenses:manage"), async (req, res) => {
+    try {
+      const expense = await storage.getExpense(req.params.id);
+      const data = expense?.attachmentName ? await storage.getExpenseAttachment(expense.id) : undefined;
+      if (!expense || !data) {
+        return res.status(404).json({ message: "No bill attached" });
+      }
+
+      res.setHeader("Content-Type", expense.attachmentType ?? "application/octet-stream");
+      res.setHeader("Content-Disposition", `inline; filename="${expense.attachmentName!.replace(/"/g, "")}"`);
+      res.send(Buffer.from(data, "base64"));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Monthly profit & loss, newest month first
+  app.get("/api/reports/profit-loss", requirePermission("reports:view"), async (req, res) => {
+    try {
+      const months = req.query.months === undefined ? 6 : Number(req.query.months);
+      if (!Number.isInteger(months) || months < 1 || months > 24) {
+        return res.status(400).json({ message: "months must be between 1 and 24" });
+      }
+
+      res.json(await buildProfitAndLoss(months));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/analytics/dashboard", requireAuth, async (req, res) => {
+    try {
+      const rooms = await getRoomsWithOccupancy();
       const activeGuests = await storage.getActiveGuests();
       const payments = await storage.getAllPayments();
       
       const availableRooms = rooms.filter(room => room.status === "available").length;
       const occupiedRooms = rooms.filter(room => room.status === "occupied").length;
       const maintenanceRooms = rooms.filter(room => room.status === "maintenance").length;
+
+      // Occupancy by type, so the busy and idle kinds of room stand out
+      const roomTypes = (await storage.getRoomTypes()).map((roomType) => {
+        const typeRooms = rooms.filter((room) => room.roomTypeId === roomType.id);
+        return {
+          roomTypeId: roomType.id,
+          nameEnglish: roomType.nameEnglish,
+          nameTelugu: roomType.nameTelugu,
+          totalRooms: typeRooms.length,
+          occupiedRooms: typeRooms.filter((room) => room.status === "occupied").length,
+          availableRooms: typeRooms.filter((room) => room.status === "available").length,
+        };
+      });
       
       // Calculate today's revenue
       const today = new Date();
       today.setHours(0, 0, 0, 0);
-      const todayPayments = payments.filter(payment => {
-        const paymentDate = new Date(payment.createdAt!);
-        paymentDate.setHours(0, 0, 0, 0);
-        return paymentDate.getTime() === today.getTime() && payment.status === "paid";
-      });
-      
-      const todayRevenue = todayPayments.reduce((sum, payment) => 
-        sum + parseFloat(payment.amount), 0
+      const isToday = (date: Date) => {
+        const day = new Date(date);
+        day.setHours(0, 0, 0, 0);
+        return day.getTime() === today.getTime();
+      };
+      // Money counts on the day it was received, not the day the stay was booked. Billing a
+      // company receives nothing; the company's settlement does
+      const todayPayments = payments.filter((payment) =>
+        payment.status === "paid" && payment.paymentMethod !== "company" && isToday(payment.paidAt ?? payment.createdAt!));
+      const todaySettlements = (await storage.getCompanySettlements()).filter((settlement) => isToday(settlement.settledAt));
+
+      // Refunds and voids come off the day they were made. Security deposits aren't
+      // payments, so they stay out until some of one is kept against a damage charge
+      const todayRevenue = paiseToNumber(
+        todayPayments.reduce((sum, payment) => sum + paymentSign(payment) * toPaise(payment.amount), 0)
+        + todaySettlements.reduce((sum, settlement) => sum + toPaise(settlement.amount), 0),
       );
 
       res.json({
@@ -554,7 +2580,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         maintenanceRooms,
         todayRevenue,
         totalRooms: rooms.length,
-        activeGuests: activeGuests.length
+        activeGuests: activeGuests.length,
+        roomTypes
       });
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
@@ -0,0 +1,154 @@
+import type { CashierShift, Expense, Payment, ShiftClose, ShiftOpen, User } from "@shared/schema";
+import { paymentSign } from "@shared/payments";
+import { toPaise, toRupees } from "@shared/money";
+import { storage } from "./storage";
+
+export interface ShiftPayment extends Payment {
+  guestName: string;
+  roomNumber: string | null;
+  fromDeposit: boolean; // kept from a deposit already counted when it was collected
+}
+
+export interface ShiftDepositMovement {
+  depositId: string;
+  guestName: string;
+  roomNumber: string | null;
+  direction: "in" | "out";
+  amount: string;
+  paymentMethod: string;
+  at: Date | null;
+}
+
+export interface ShiftReport {
+  shift: CashierShift;
+  payments: ShiftPayment[];
+  deposits: ShiftDepositMovement[];
+  expenses: Expense[]; // cash paid out of the drawer
+  byMethod: Record<string, string>; // net of refunds and voids
+  cashReceived: string;
+  cashPaidOut: string;
+  depositsIn: string;
+  depositsOut: string;
+  cashExpenses: string;
+  expectedCash: string;
+}
+
+type Actor = Pick<User, "id" | "username">;
+
+// Cash only changes hands at the desk during a shift, so the drawer can be counted against it
+export async function cashShiftError(userId: string, paymentMethod: string | undefined): Promise<string | null> {
+  if (paymentMethod !== "cash") return null;
+  return (await storage.getOpenShift(userId)) ? null : "Open a cashier shift before taking or paying out cash";
+}
+
+export async function openShift(data: ShiftOpen, actor: Actor): Promise<{ shift?: CashierShift; error?: string }> {
+  if (await storage.getOpenShift(actor.id)) {
+    return { error: "You already have a shift open" };
+  }
+
+  const shift = await storage.createShift({
+    userId: actor.id,
+    userName: actor.username,
+    openingFloat: toRupees(toPaise(data.openingFloat)),
+    openingNotes: data.notes || null,
+  });
+  return { shift };
+}
+
+/**
+ * Everything that went through the shift. Expected cash is the float plus
+ * cash taken, less cash paid out and cash expenses, with deposits counted
+ * when they change hands. Receipts kept from a deposit bring in no new cash.
+ */
+export async function buildShiftReport(shift: CashierShift): Promise<ShiftReport> {
+  const shiftPayments = await storage.getPaymentsByShift(shift.id);
+  const fromDeposit = new Set(
+    (await storage.getDepositDeductionsForPayments(shiftPayments.map((payment) => payment.id))).map((deduction) => deduction.paymentId),
+  );
+
+  const stays = new Map<string, { guestName: string; roomNumber: string | null }>();
+  const describeStay = async (guestId: string) => {
+    if (!stays.has(guestId)) {
+      const guest = await storage.getGuest(guestId);
+      const room = guest?.roomId ? await storage.getRoom(guest.roomId) : undefined;
+      stays.set(guestId, { guestName: guest?.name ?? "Unknown", roomNumber: room?.roomNumber ?? null });
+    }
+    return stays.get(guestId)!;
+  };
+
+  const payments: ShiftPayment[] = [];
+  const byMethodPaise: Record<string, number> = {};
+  let cashReceivedPaise = 0;
+  let cashPaidOutPaise = 0;
+  for (const payment of shiftPayments) {
+    payments.push({ ...payment, ...(await describeStay(payment.guestId)), fromDeposit: fromDeposit.has(payment.id) });
+    if (fromDeposit.has(payment.id)) continue;
+
+    const signedPaise = paymentSign(payment) * toPaise(payment.amount);
+    byMethodPaise[payment.paymentMethod] = (byMethodPaise[payment.paymentMethod] ?? 0) + signedPaise;
+    if (payment.paymentMethod === "cash") {
+      if (signedPaise > 0) cashReceivedPaise += signedPaise;
+      else cashPaidOutPaise -= signedPaise;
+    }
+  }
+
+  const deposits: ShiftDepositMovement[] = [];
+  let depositsInPaise = 0;
+  let depositsOutPaise = 0;
+  for (const deposit of await storage.getDepositsByShift(shift.id)) {
+    const stay = await describeStay(deposit.guestId);
+    if (deposit.collectedShiftId === shift.id) {
+      deposits.push({ depositId: deposit.id, ...stay, direction: "in", amount: deposit.amount, paymentMethod: deposit.paymentMethod, at: deposit.collectedAt });
+      if (deposit.paymentMethod === "cash") depositsInPaise += toPaise(deposit.amount);
+    }
+    if (deposit.releasedShiftId === shift.id && deposit.releasedAmount) {
+      const releaseMethod = deposit.releaseMethod ?? deposit.paymentMethod;
+      deposits.push({ depositId: deposit.id, ...stay, direction: "out", amount: deposit.releasedAmount, paymentMethod: releaseMethod, at: deposit.releasedAt });
+      if (releaseMethod === "cash") depositsOutPaise += toPaise(deposit.releasedAmount);
+    }
+  }
+
+  const expenses = (await storage.getExpensesByShift(shift.id)).filter((expense) => expense.paymentMode === "cash");
+  const cashExpensesPaise = expenses.reduce((sum, expense) => sum + toPaise(expense.amount), 0);
+
+  return {
+    shift,
+    payments,
+    deposits,
+    expenses,
+    byMethod: Object.fromEntries(Object.entries(byMethodPaise).map(([method, paise]) => [method, toRupees(paise)])),
+    cashReceived: toRupees(cashReceivedPaise),
+    cashPaidOut: toRupees(cashPaidOutPaise),
+    depositsIn: toRupees(depositsInPaise),
+    depositsOut: toRupees(depositsOutPaise),
+    cashExpenses: toRupees(cashExpensesPaise),
+    expectedCash: toRupees(
+      toPaise(shift.openingFloat) + cashReceivedPaise - cashPaidOutPaise + depositsInPaise - depositsOutPaise - cashExpensesPaise,
+    ),
+  };
+}
+
+// Records the counted drawer against what the shift's takings say should be there
+export async function closeShift(
+  shift: CashierShift,
+  data: ShiftClose,
+  actor: Actor,
+): Promise<{ report?: ShiftReport; error?: string }> {
+  if (shift.status !== "open") {
+    return { error: "This shift is already closed" };
+  }
+
+  const { expectedCash } = await buildShiftReport(shift);
+  const countedPaise = toPaise(data.countedCash);
+  const closed = await storage.updateShift(shift.id, {
+    status: "closed",
+    expectedCash,
+    countedCash: toRupees(countedPaise),
+    variance: toRupees(countedPaise - toPaise(expectedCash)),
+    closingNotes: data.notes || null,
+    closedAt: new Date(),
+    closedBy: actor.id,
+    closedByName: actor.username,
+  });
+  return { report: await buildShiftReport(closed!) };
+}
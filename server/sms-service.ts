@@ -14,6 +14,7 @@
 
 import { storage } from "./storage";
 import { smsLogs, guests, lodgeSettings } from "@shared/schema";
+import { paymentMethodLabel } from "@shared/payments";
 import { nanoid } from "nanoid";
 
 // =============================================================================
@@ -527,7 +528,7 @@ export async function sendPaymentConfirmationSMS(paymentData: any, guestData: an
   
   const variables = {
     AMOUNT: paymentData.amount,
-    PAYMENT_METHOD: paymentData.paymentMethod === 'cash' ? 'Cash' : 'QR Code',
+    PAYMENT_METHOD: paymentMethodLabel(paymentData.paymentMethod),
     ROOM_NUMBER: roomData.roomNumber,
     RECEIPT_ID: paymentData.id.slice(-8).toUpperCase(),
     LODGE_NAME: lodgeData.name
@@ -561,6 +562,29 @@ export async function sendCheckoutSMS(guestData: any, lodgeData: any) {
   );
 }
 
+/**
+ * Example 4: Remind a guest or company of what they still owe
+ */
+export async function sendPaymentReminderSMS(
+  reminder: { phoneNumber: string; amount: string; roomNumbers: string[]; guestId: string },
+  lodgeData: any
+) {
+  const smsService = new SMSService();
+
+  const variables = {
+    AMOUNT: reminder.amount,
+    LODGE_NAME: lodgeData.name,
+    ROOM_NUMBER: reminder.roomNumbers.join(', ') || '-'
+  };
+
+  return await smsService.sendTemplatedSMS(
+    'payment-reminder',
+    reminder.phoneNumber,
+    variables,
+    reminder.guestId
+  );
+}
+
 // =============================================================================
 // EXPORT SINGLETON INSTANCE
 // =============================================================================
@@ -5,27 +5,141 @@ import {
   type InsertLodgeSettings,
   type Room,
   type InsertRoom,
+  type HousekeepingStatus,
+  type RoomType,
+  type InsertRoomType,
+  type RatePlan,
+  type RatePlanRequest,
+  type MaintenanceTicket,
+  type MaintenanceTicketRequest,
   type Guest,
   type InsertGuest,
+  type GuestProfile,
+  type InsertGuestProfile,
   type Payment,
   type InsertPayment,
+  type NewPayment,
+  type Invoice,
+  type InvoiceContents,
+  type StatementImport,
+  type StatementLine,
+  type InsertStatementLine,
+  type CompanyAccount,
+  type InsertCompanyAccount,
+  type CompanySettlement,
+  type InsertCompanySettlement,
+  type FolioCharge,
+  type InsertFolioCharge,
+  type SecurityDeposit,
+  type InsertSecurityDeposit,
+  type DepositDeduction,
+  type InsertDepositDeduction,
+  type CashierShift,
+  type InsertCashierShift,
+  type Expense,
+  type InsertExpense,
+  type DailySummary,
+  type InsertDailySummary,
+  type RoomNightPosting,
+  type InsertRoomNightPosting,
+  type DayLockOverride,
+  type InsertDayLockOverride,
   type SmsLog,
   type InsertSmsLog,
   users,
   lodgeSettings,
   rooms,
+  roomTypes,
+  ratePlans,
   guests,
+  guestProfiles,
   payments,
+  folioCharges,
+  invoices,
+  statementImports,
+  statementLines,
+  companyAccounts,
+  companySettlements,
+  securityDeposits,
+  depositDeductions,
+  cashierShifts,
+  expenses,
+  expenseAttachments,
+  dailySummaries,
+  roomNightPostings,
+  dayLockOverrides,
   smsLogs,
+  sessions,
+  auditLogs,
+  type StoredSession,
+  type AuditLog,
+  type AuditChanges,
+  type AuditEntityType,
+  maintenanceTickets,
+  RESERVATION_STATUSES,
+  ROOM_HOLDING_STATUSES,
+  BLOCKING_TICKET_STATUSES,
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, and, lt, gt, inArray, desc, gte } from "drizzle-orm";
+import { toPaise, toRupees } from "@shared/money";
+import { AsyncLocalStorage } from "async_hooks";
+import { db as pooledDb } from "./db";
+import { hashPassword, isPasswordHashed, verifyPassword } from "./passwords";
+import { getRequestActor } from "./request-context";
+import { financialYearOf, formatInvoiceNumber } from "./gst";
+import { eq, ne, and, or, lt, gt, inArray, desc, gte, lte, sql, isNull } from "drizzle-orm";
+
+export interface AuditLogFilters {
+  entityType?: AuditEntityType;
+  entityIds?: string[];
+  actorId?: string;
+  limit?: number;
+}
+
+// Login bookkeeping is noise in the audit log; password hashes must never be copied into it
+const IGNORED_AUDIT_FIELDS = new Set(["failedLoginAttempts", "lockedUntil"]);
+const REDACTED_AUDIT_FIELDS = new Set(["password"]);
+
+function diffForAudit(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null,
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  fields.forEach((field) => {
+    if (IGNORED_AUDIT_FIELDS.has(field)) return;
+
+    const beforeValue = before?.[field] ?? null;
+    const afterValue = after?.[field] ?? null;
+    if (JSON.stringify(beforeValue) === JSON.stringify(afterValue)) return;
+
+    changes[field] = REDACTED_AUDIT_FIELDS.has(field)
+      ? { before: beforeValue === null ? null : "[redacted]", after: afterValue === null ? null : "[redacted]" }
+      : { before: beforeValue, after: afterValue };
+  });
+
+  return changes;
+}
+
+// Staff type numbers with and without spaces, dashes and the +91 prefix
+const phoneDigits = (phone: string) => phone.replace(/\D/g, "").slice(-10);
+const aadharDigits = (aadhar: string) => aadhar.replace(/\D/g, "");
 
 export interface IStorage {
   // User methods
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getAllUsers(): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: string, user: Partial<InsertUser>): Promise<User | undefined>;
+  recordFailedLogin(id: string): Promise<number>;
+  lockUser(id: string, lockedUntil: Date): Promise<void>;
+  clearFailedLogins(id: string): Promise<void>;
+
+  // Session methods
+  getActiveSessions(): Promise<StoredSession[]>;
+  deleteSessionByKey(sessionKey: string): Promise<boolean>;
+  deleteSessionsForUser(userId: string): Promise<void>;
 
   // Lodge settings methods
   getLodgeSettings(): Promise<LodgeSettings | undefined>;
@@ -35,14 +149,36 @@ export interface IStorage {
     settings: Partial<InsertLodgeSettings>,
   ): Promise<LodgeSettings | undefined>;
 
+  // Room type methods
+  getRoomTypes(): Promise<RoomType[]>;
+  getRoomType(id: string): Promise<RoomType | undefined>;
+  findRoomType(code: string, nameEnglish: string): Promise<RoomType | undefined>;
+  createRoomType(roomType: InsertRoomType): Promise<RoomType>;
+  updateRoomType(id: string, roomType: Partial<InsertRoomType>): Promise<RoomType | undefined>;
+  deleteRoomType(id: string): Promise<boolean>;
+
+  // Rate plan methods
+  getRatePlans(roomTypeId?: string): Promise<RatePlan[]>;
+  getRatePlan(id: string): Promise<RatePlan | undefined>;
+  createRatePlan(plan: RatePlanRequest): Promise<RatePlan>;
+  updateRatePlan(id: string, plan: RatePlanRequest): Promise<RatePlan | undefined>;
+  deleteRatePlan(id: string): Promise<boolean>;
+
+  // Maintenance ticket methods
+  getMaintenanceTickets(roomId?: string): Promise<MaintenanceTicket[]>;
+  getMaintenanceTicket(id: string): Promise<MaintenanceTicket | undefined>;
+  createMaintenanceTicket(ticket: MaintenanceTicketRequest, createdBy: string | null): Promise<MaintenanceTicket>;
+  updateMaintenanceTicket(id: string, ticket: Partial<Omit<MaintenanceTicket, "id" | "createdBy" | "createdAt">>): Promise<MaintenanceTicket | undefined>;
+
   // Room methods
   getAllRooms(): Promise<Room[]>;
   getRoom(id: string): Promise<Room | undefined>;
   getRoomByNumber(roomNumber: string): Promise<Room | undefined>;
   createRoom(room: InsertRoom): Promise<Room>;
   updateRoom(id: string, room: Partial<InsertRoom>): Promise<Room | undefined>;
+  setHousekeepingStatus(id: string, status: HousekeepingStatus, userId: string | null): Promise<Room | undefined>;
   deleteRoom(id: string): Promise<boolean>;
-  getAvailableRooms(checkinDate: Date, checkoutDate: Date): Promise<Room[]>;
+  getAvailableRooms(checkinDate: Date, checkoutDate: Date, roomTypeId?: string, exceptGuestId?: string): Promise<Room[]>;
 
   // Guest methods
   getAllGuests(): Promise<Guest[]>;
@@ -55,21 +191,134 @@ export interface IStorage {
     guest: Partial<InsertGuest>,
   ): Promise<Guest | undefined>;
   getActiveGuests(): Promise<Guest[]>;
+  getStaysByProfile(profileId: string): Promise<Guest[]>;
+  getReservationsArrivingBefore(date: Date): Promise<Guest[]>;
+
+  // Guest profile methods
+  getGuestProfile(id: string): Promise<GuestProfile | undefined>;
+  findGuestProfile(lookup: { phoneNumber?: string; aadharNumber?: string }): Promise<GuestProfile | undefined>;
+  createGuestProfile(profile: InsertGuestProfile): Promise<GuestProfile>;
+  updateGuestProfile(id: string, profile: Partial<InsertGuestProfile>): Promise<GuestProfile | undefined>;
 
   // Payment methods
   getAllPayments(): Promise<Payment[]>;
   getPayment(id: string): Promise<Payment | undefined>;
   getPaymentsByGuest(guestId: string): Promise<Payment[]>;
-  createPayment(payment: InsertPayment): Promise<Payment>;
+  createPayment(payment: NewPayment): Promise<Payment>;
   updatePayment(
     id: string,
-    payment: Partial<InsertPayment>,
+    payment: Partial<NewPayment>,
   ): Promise<Payment | undefined>;
+  deletePayment(id: string): Promise<boolean>;
   getPendingPayments(): Promise<Payment[]>;
 
+  // Folio charge methods
+  getFolioCharges(guestId: string): Promise<FolioCharge[]>;
+  getFolioCharge(id: string): Promise<FolioCharge | undefined>;
+  getFolioChargesPostedBetween(from: Date, to: Date): Promise<FolioCharge[]>;
+  createFolioCharge(charge: InsertFolioCharge): Promise<FolioCharge>;
+  updateFolioCharge(id: string, charge: Partial<InsertFolioCharge>): Promise<FolioCharge | undefined>;
+  deleteFolioCharge(id: string): Promise<boolean>;
+
+  // Security deposit methods
+  getSecurityDeposits(filters?: { guestId?: string; status?: string }): Promise<SecurityDeposit[]>;
+  getSecurityDeposit(id: string): Promise<SecurityDeposit | undefined>;
+  createSecurityDeposit(deposit: InsertSecurityDeposit): Promise<SecurityDeposit>;
+  updateSecurityDeposit(id: string, deposit: Partial<InsertSecurityDeposit>): Promise<SecurityDeposit | undefined>;
+  getDepositDeductions(depositIds: string[]): Promise<DepositDeduction[]>;
+  createDepositDeduction(deduction: InsertDepositDeduction): Promise<DepositDeduction>;
+  getDepositDeductionsForPayments(paymentIds: string[]): Promise<DepositDeduction[]>;
+  findDepositDeductionByCharge(folioChargeId: string): Promise<DepositDeduction | undefined>;
+
+  // Cashier shift methods
+  getShifts(filters?: { userId?: string; status?: string }): Promise<CashierShift[]>;
+  getShift(id: string): Promise<CashierShift | undefined>;
+  getOpenShift(userId: string): Promise<CashierShift | undefined>;
+  createShift(shift: InsertCashierShift): Promise<CashierShift>;
+  updateShift(id: string, shift: Partial<InsertCashierShift>): Promise<CashierShift | undefined>;
+  getPaymentsByShift(shiftId: string): Promise<Payment[]>;
+  getDepositsByShift(shiftId: string): Promise<SecurityDeposit[]>;
+  getExpensesByShift(shiftId: string): Promise<Expense[]>;
+
+  // Expense methods; paidOn bounds are YYYY-MM-DD and inclusive
+  getExpenses(filters?: { from?: string; to?: string; category?: string }): Promise<Expense[]>;
+  getExpense(id: string): Promise<Expense | undefined>;
+  createExpense(expense: InsertExpense): Promise<Expense>;
+  updateExpense(id: string, expense: Partial<InsertExpense>): Promise<Expense | undefined>;
+  deleteExpense(id: string): Promise<boolean>;
+  getExpenseAttachment(expenseId: string): Promise<string | undefined>;
+  saveExpenseAttachment(expenseId: string, data: string): Promise<void>;
+
+  // Night audit methods
+  getDailySummaries(limit?: number): Promise<DailySummary[]>;
+  getDailySummary(businessDate: string): Promise<DailySummary | undefined>;
+  getLatestDailySummary(): Promise<DailySummary | undefined>;
+  createDailySummary(summary: InsertDailySummary, postings: InsertRoomNightPosting[]): Promise<DailySummary>;
+  getRoomNightPostings(guestIds: string[]): Promise<RoomNightPosting[]>;
+  getDayLockOverrides(businessDate: string): Promise<DayLockOverride[]>;
+  createDayLockOverride(override: InsertDayLockOverride): Promise<DayLockOverride>;
+
+  // Invoice methods
+  getInvoiceByGuest(guestId: string): Promise<Invoice | undefined>;
+  createInvoice(guestId: string, contents: InvoiceContents, issuedAt?: Date): Promise<Invoice>;
+  saveInvoiceContents(id: string, contents: InvoiceContents): Promise<Invoice>;
+
+  // Statement reconciliation methods
+  getStatementImports(): Promise<StatementImport[]>;
+  getStatementImport(id: string): Promise<StatementImport | undefined>;
+  createStatementImport(
+    statementImport: Pick<StatementImport, "fileName" | "importedBy" | "importedByName">,
+    lines: Omit<InsertStatementLine, "importId">[],
+  ): Promise<StatementImport>;
+  getStatementLines(importId: string): Promise<StatementLine[]>;
+  getStatementLine(id: string): Promise<StatementLine | undefined>;
+  updateStatementLine(id: string, line: Partial<InsertStatementLine>): Promise<StatementLine | undefined>;
+  findImportedCredit(credit: Pick<StatementLine, "transactionDate" | "amount" | "reference" | "description">): Promise<StatementLine | undefined>;
+
+  // Company account methods
+  getCompanyAccounts(): Promise<CompanyAccount[]>;
+  getCompanyAccount(id: string): Promise<CompanyAccount | undefined>;
+  createCompanyAccount(account: InsertCompanyAccount): Promise<CompanyAccount>;
+  updateCompanyAccount(id: string, account: Partial<InsertCompanyAccount>): Promise<CompanyAccount | undefined>;
+  getCompanyPayments(companyAccountId: string): Promise<Payment[]>;
+  getCompanySettlements(companyAccountId?: string): Promise<CompanySettlement[]>;
+  createCompanySettlement(settlement: InsertCompanySettlement, paymentIds: string[]): Promise<CompanySettlement>;
+
   // SMS log methods
   createSmsLog(smsLog: InsertSmsLog): Promise<SmsLog>;
   getSmsLogsByGuest(guestId: string): Promise<SmsLog[]>;
+
+  // Audit log methods
+  getAuditLogs(filters?: AuditLogFilters): Promise<AuditLog[]>;
+  getAuditActors(): Promise<{ actorId: string | null; actorName: string | null }[]>;
+
+  // Runs several storage calls so that they all land or none do
+  inTransaction<T>(work: () => Promise<T>): Promise<T>;
+}
+
+// YYYY-MM-DD in the lodge's local time, for comparing with date columns
+function calendarDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+type Transaction = Parameters<Parameters<typeof pooledDb.transaction>[0]>[0];
+
+// Storage calls made inside inTransaction run on its transaction rather than the pool
+const transactionScope = new AsyncLocalStorage<Transaction>();
+const db = new Proxy(pooledDb, {
+  get(target, property) {
+    const executor = transactionScope.getStore() ?? target;
+    const value = Reflect.get(executor, property);
+    return typeof value === "function" ? value.bind(executor) : value;
+  },
+});
+
+// The constraint a failed insert ran into, when Postgres rejected it as a duplicate (23505)
+function uniqueViolation(error: unknown): string | undefined {
+  const { code, constraint } = (error ?? {}) as { code?: string; constraint?: string };
+  return code === "23505" ? constraint : undefined;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -77,23 +326,163 @@ export class DatabaseStorage implements IStorage {
 
   constructor() {
     // Initialize default admin user if it doesn't exist
-    this.initPromise = this.initializeAdminUser();
+    this.initPromise = this.initializeAdminUser()
+      .then(() => this.migrateGuestProfiles())
+      .then(() => this.migrateGstSplit())
+      .then(() => this.migrateRoomTypes())
+      .then(() => this.migrateMaintenanceFlags());
   }
 
   private async initializeAdminUser() {
     try {
       const existingAdmin = await this.getUserByUsername("admin");
       if (!existingAdmin) {
+        // Default credential must be replaced on first login
         await this.createUser({
           username: "admin",
-          password: "admin123", // In production, this should be hashed
+          password: "admin123",
+          role: "owner",
+          mustChangePassword: true,
         });
+      } else {
+        await this.migrateLegacyPasswords();
+
+        // Accounts created before staff roles existed default to receptionist;
+        // make sure the original admin keeps full access as the owner.
+        const allUsers = await this.getAllUsers();
+        if (!allUsers.some((user) => user.role === "owner")) {
+          await this.updateUser(existingAdmin.id, { role: "owner" });
+        }
+
+        // Still on the seeded default credential
+        const admin = await this.getUser(existingAdmin.id);
+        if (admin && !admin.mustChangePassword && await verifyPassword(admin.password, "admin123")) {
+          await this.updateUser(admin.id, { mustChangePassword: true });
+        }
       }
     } catch (error) {
       console.error("Failed to initialize admin user:", error);
     }
   }
 
+  // Passwords used to be stored in plaintext; hash any that remain
+  private async migrateLegacyPasswords() {
+    const allUsers = await this.getAllUsers();
+    for (const user of allUsers) {
+      if (!isPasswordHashed(user.password)) {
+        await this.updateUser(user.id, { password: user.password });
+      }
+    }
+  }
+
+  // Stays used to carry the person's details themselves; link each one to a
+  // profile, merging stays that share an Aadhaar or phone number
+  private async migrateGuestProfiles() {
+    try {
+      const unlinkedStays = await db
+        .select()
+        .from(guests)
+        .where(isNull(guests.profileId))
+        .orderBy(desc(guests.createdAt));
+
+      for (const stay of unlinkedStays) {
+        let profile = await this.findGuestProfile(stay);
+        if (!profile) {
+          // Newest stay first, so the profile gets the most recent details
+          [profile] = await db
+            .insert(guestProfiles)
+            .values({ name: stay.name, phoneNumber: stay.phoneNumber, aadharNumber: stay.aadharNumber })
+            .returning();
+        }
+
+        // Direct update: this is a data migration, not a change worth auditing
+        await db.update(guests).set({ profileId: profile.id }).where(eq(guests.id, stay.id));
+      }
+    } catch (error) {
+      console.error("Failed to migrate guest profiles:", error);
+    }
+  }
+
+  // Room types used to be free text on each room, so "Double" and "double"
+  // were different types; give every distinct spelling one catalogue entry
+  private async migrateRoomTypes() {
+    try {
+      const unlinkedRooms = await db.select().from(rooms).where(isNull(rooms.roomTypeId));
+
+      const byCode = new Map<string, Room[]>();
+      for (const room of unlinkedRooms) {
+        const code = room.roomType.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_") || "standard";
+        byCode.set(code, [...(byCode.get(code) ?? []), room]);
+      }
+
+      for (const [code, typeRooms] of Array.from(byCode)) {
+        const name = typeRooms[0].roomType.trim() || "Standard";
+        const nameEnglish = name.charAt(0).toUpperCase() + name.slice(1);
+        let roomType = await this.findRoomType(code, nameEnglish);
+        if (!roomType) {
+          const cheapestPaise = Math.min(...typeRooms.map((room) => toPaise(room.basePrice)));
+          [roomType] = await db
+            .insert(roomTypes)
+            .values({ code, nameEnglish, basePrice: toRupees(cheapestPaise) })
+            .returning();
+        }
+
+        // Direct update: this is a data migration, not a change worth auditing
+        await db
+          .update(rooms)
+          .set({ roomTypeId: roomType.id, roomType: roomType.nameEnglish })
+          .where(inArray(rooms.id, typeRooms.map((room) => room.id)));
+      }
+    } catch (error) {
+      console.error("Failed to migrate room types:", error);
+    }
+  }
+
+  // Rooms flagged for maintenance before tickets existed get a ticket, so they stay out
+  // of service; with no end date on record, it runs for a week
+  private async migrateMaintenanceFlags() {
+    try {
+      const flagged = await db.select().from(rooms).where(eq(rooms.status, "maintenance"));
+      const ticketed = new Set((await this.getMaintenanceTickets()).map((ticket) => ticket.roomId));
+      const today = new Date();
+
+      for (const room of flagged.filter((room) => !ticketed.has(room.id))) {
+        await this.createMaintenanceTicket({
+          roomId: room.id,
+          issue: "Under maintenance before tickets were kept; confirm the issue and end date",
+          priority: "medium",
+          startDate: calendarDate(today),
+          endDate: calendarDate(new Date(today.getFullYear(), today.getMonth(), today.getDate() + 6)),
+          assignee: null,
+        }, null);
+      }
+    } catch (error) {
+      console.error("Failed to migrate maintenance flags:", error);
+    }
+  }
+
+  // Stays priced before GST split their tax into CGST and SGST
+  private async migrateGstSplit() {
+    try {
+      // Direct update: this is a data migration, not a change worth auditing
+      await db
+        .update(guests)
+        .set({
+          taxRate: sql`round(${guests.taxAmount} * 100 / nullif(${guests.baseAmount} - coalesce(${guests.discountAmount}, 0), 0), 2)`,
+          cgstAmount: sql`round(${guests.taxAmount} / 2, 2)`,
+          sgstAmount: sql`${guests.taxAmount} - round(${guests.taxAmount} / 2, 2)`,
+        })
+        .where(and(
+          gt(guests.taxAmount, "0"),
+          eq(guests.cgstAmount, "0"),
+          eq(guests.sgstAmount, "0"),
+          eq(guests.igstAmount, "0"),
+        ));
+    } catch (error) {
+      console.error("Failed to migrate GST split:", error);
+    }
+  }
+
   // User methods
   async getUser(id: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
@@ -105,14 +494,80 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  async getAllUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(users.createdAt);
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const [user] = await db
       .insert(users)
-      .values(insertUser)
+      .values({ ...insertUser, password: await hashPassword(insertUser.password) })
       .returning();
+    await this.recordAudit("user", user.id, "create", null, user);
     return user;
   }
 
+  async updateUser(id: string, user: Partial<InsertUser>): Promise<User | undefined> {
+    const values = user.password
+      ? { ...user, password: await hashPassword(user.password) }
+      : user;
+
+    const before = await this.getUser(id);
+    const [updated] = await db
+      .update(users)
+      .set(values)
+      .where(eq(users.id, id))
+      .returning();
+    if (updated) await this.recordAudit("user", id, "update", before, updated);
+    return updated || undefined;
+  }
+
+  // Counted in the database so simultaneous wrong guesses each add one; returns the new count
+  async recordFailedLogin(id: string): Promise<number> {
+    const [updated] = await db
+      .update(users)
+      .set({ failedLoginAttempts: sql`${users.failedLoginAttempts} + 1` })
+      .where(eq(users.id, id))
+      .returning({ failedLoginAttempts: users.failedLoginAttempts });
+    return updated?.failedLoginAttempts ?? 0;
+  }
+
+  async lockUser(id: string, lockedUntil: Date): Promise<void> {
+    await db
+      .update(users)
+      .set({ lockedUntil })
+      .where(eq(users.id, id));
+  }
+
+  async clearFailedLogins(id: string): Promise<void> {
+    await db
+      .update(users)
+      .set({ failedLoginAttempts: 0, lockedUntil: null })
+      .where(eq(users.id, id));
+  }
+
+  // Session methods
+  async getActiveSessions(): Promise<StoredSession[]> {
+    return await db
+      .select()
+      .from(sessions)
+      .where(gt(sessions.expire, new Date()))
+      .orderBy(desc(sessions.expire));
+  }
+
+  async deleteSessionByKey(sessionKey: string): Promise<boolean> {
+    const result = await db
+      .delete(sessions)
+      .where(sql`${sessions.sess}->>'sessionKey' = ${sessionKey}`);
+    return (result.rowCount || 0) > 0;
+  }
+
+  async deleteSessionsForUser(userId: string): Promise<void> {
+    await db
+      .delete(sessions)
+      .where(sql`${sessions.sess}->>'userId' = ${userId}`);
+  }
+
   // Lodge settings methods
   async getLodgeSettings(): Promise<LodgeSettings | undefined> {
     const [settings] = await db.select().from(lodgeSettings).limit(1);
@@ -126,6 +581,7 @@ export class DatabaseStorage implements IStorage {
       .insert(lodgeSettings)
       .values(settings)
       .returning();
+    await this.recordAudit("settings", newSettings.id, "create", null, newSettings);
     return newSettings;
   }
 
@@ -133,11 +589,128 @@ export class DatabaseStorage implements IStorage {
     id: string,
     settings: Partial<InsertLodgeSettings>,
   ): Promise<LodgeSettings | undefined> {
+    const [before] = await db.select().from(lodgeSettings).where(eq(lodgeSettings.id, id));
     const [updated] = await db
       .update(lodgeSettings)
       .set(settings)
       .where(eq(lodgeSettings.id, id))
       .returning();
+    if (updated) await this.recordAudit("settings", id, "update", before, updated);
+    return updated || undefined;
+  }
+
+  // Room type methods
+  async getRoomTypes(): Promise<RoomType[]> {
+    return await db.select().from(roomTypes).orderBy(roomTypes.nameEnglish);
+  }
+
+  async getRoomType(id: string): Promise<RoomType | undefined> {
+    const [roomType] = await db.select().from(roomTypes).where(eq(roomTypes.id, id));
+    return roomType || undefined;
+  }
+
+  // Codes and names are compared without case, so "Double" and "double" are one type
+  async findRoomType(code: string, nameEnglish: string): Promise<RoomType | undefined> {
+    const [roomType] = await db
+      .select()
+      .from(roomTypes)
+      .where(or(eq(roomTypes.code, code.toLowerCase()), sql`lower(${roomTypes.nameEnglish}) = ${nameEnglish.trim().toLowerCase()}`));
+    return roomType || undefined;
+  }
+
+  async createRoomType(roomType: InsertRoomType): Promise<RoomType> {
+    const [created] = await db.insert(roomTypes).values(roomType).returning();
+    await this.recordAudit("room_type", created.id, "create", null, created);
+    return created;
+  }
+
+  async updateRoomType(id: string, roomType: Partial<InsertRoomType>): Promise<RoomType | undefined> {
+    const before = await this.getRoomType(id);
+    const [updated] = await db.update(roomTypes).set(roomType).where(eq(roomTypes.id, id)).returning();
+    if (updated) {
+      await this.recordAudit("room_type", id, "update", before, updated);
+      if (before && before.nameEnglish !== updated.nameEnglish) {
+        // Direct update: the rooms only carry a copy of the name
+        await db.update(rooms).set({ roomType: updated.nameEnglish }).where(eq(rooms.roomTypeId, id));
+      }
+    }
+    return updated || undefined;
+  }
+
+  // A type's rate plans go with it
+  async deleteRoomType(id: string): Promise<boolean> {
+    const before = await this.getRoomType(id);
+    for (const plan of await this.getRatePlans(id)) {
+      await this.deleteRatePlan(plan.id);
+    }
+    const result = await db.delete(roomTypes).where(eq(roomTypes.id, id));
+    const deleted = (result.rowCount || 0) > 0;
+    if (deleted) await this.recordAudit("room_type", id, "delete", before, null);
+    return deleted;
+  }
+
+  // Rate plan methods
+  async getRatePlans(roomTypeId?: string): Promise<RatePlan[]> {
+    return await db
+      .select()
+      .from(ratePlans)
+      .where(roomTypeId ? eq(ratePlans.roomTypeId, roomTypeId) : undefined)
+      .orderBy(ratePlans.kind, ratePlans.startDate, ratePlans.name);
+  }
+
+  async getRatePlan(id: string): Promise<RatePlan | undefined> {
+    const [plan] = await db.select().from(ratePlans).where(eq(ratePlans.id, id));
+    return plan || undefined;
+  }
+
+  async createRatePlan(plan: RatePlanRequest): Promise<RatePlan> {
+    const [created] = await db.insert(ratePlans).values(plan).returning();
+    await this.recordAudit("rate_plan", created.id, "create", null, created);
+    return created;
+  }
+
+  async updateRatePlan(id: string, plan: RatePlanRequest): Promise<RatePlan | undefined> {
+    const before = await this.getRatePlan(id);
+    const [updated] = await db.update(ratePlans).set(plan).where(eq(ratePlans.id, id)).returning();
+    if (updated) await this.recordAudit("rate_plan", id, "update", before, updated);
+    return updated || undefined;
+  }
+
+  async deleteRatePlan(id: string): Promise<boolean> {
+    const before = await this.getRatePlan(id);
+    const result = await db.delete(ratePlans).where(eq(ratePlans.id, id));
+    const deleted = (result.rowCount || 0) > 0;
+    if (deleted) await this.recordAudit("rate_plan", id, "delete", before, null);
+    return deleted;
+  }
+
+  // Maintenance ticket methods
+  async getMaintenanceTickets(roomId?: string): Promise<MaintenanceTicket[]> {
+    return await db
+      .select()
+      .from(maintenanceTickets)
+      .where(roomId ? eq(maintenanceTickets.roomId, roomId) : undefined)
+      .orderBy(desc(maintenanceTickets.startDate), desc(maintenanceTickets.createdAt));
+  }
+
+  async getMaintenanceTicket(id: string): Promise<MaintenanceTicket | undefined> {
+    const [ticket] = await db.select().from(maintenanceTickets).where(eq(maintenanceTickets.id, id));
+    return ticket || undefined;
+  }
+
+  async createMaintenanceTicket(ticket: MaintenanceTicketRequest, createdBy: string | null): Promise<MaintenanceTicket> {
+    const [created] = await db.insert(maintenanceTickets).values({ ...ticket, createdBy }).returning();
+    await this.recordAudit("maintenance_ticket", created.id, "create", null, created);
+    return created;
+  }
+
+  async updateMaintenanceTicket(
+    id: string,
+    ticket: Partial<Omit<MaintenanceTicket, "id" | "createdBy" | "createdAt">>,
+  ): Promise<MaintenanceTicket | undefined> {
+    const before = await this.getMaintenanceTicket(id);
+    const [updated] = await db.update(maintenanceTickets).set(ticket).where(eq(maintenanceTickets.id, id)).returning();
+    if (updated) await this.recordAudit("maintenance_ticket", id, "update", before, updated);
     return updated || undefined;
   }
 
@@ -156,41 +729,68 @@ export class DatabaseStorage implements IStorage {
     return room || undefined;
   }
 
+  // Rooms take their type's name, and its default rate unless one is given
   async createRoom(room: InsertRoom): Promise<Room> {
+    const roomType = await this.getRoomType(room.roomTypeId);
+    if (!roomType) throw new Error(`Room type ${room.roomTypeId} not found`);
+
     const [newRoom] = await db
       .insert(rooms)
-      .values(room)
+      .values({ ...room, roomType: roomType.nameEnglish, basePrice: room.basePrice ?? roomType.basePrice })
       .returning();
+    await this.recordAudit("room", newRoom.id, "create", null, newRoom);
     return newRoom;
   }
 
   async updateRoom(id: string, room: Partial<InsertRoom>): Promise<Room | undefined> {
+    const before = await this.getRoom(id);
+    const roomType = room.roomTypeId ? await this.getRoomType(room.roomTypeId) : undefined;
     const [updated] = await db
       .update(rooms)
-      .set(room)
+      .set(roomType ? { ...room, roomType: roomType.nameEnglish } : room)
       .where(eq(rooms.id, id))
       .returning();
+    if (updated) await this.recordAudit("room", id, "update", before, updated);
     return updated || undefined;
   }
 
+  async setHousekeepingStatus(id: string, status: HousekeepingStatus, userId: string | null): Promise<Room | undefined> {
+    const before = await this.getRoom(id);
+    const [updated] = await db
+      .update(rooms)
+      .set({ housekeepingStatus: status, housekeepingUpdatedAt: new Date(), housekeepingUpdatedBy: userId })
+      .where(eq(rooms.id, id))
+      .returning();
+    if (updated) await this.recordAudit("room", id, "update", before, updated);
+    return updated || undefined;
+  }
+
+  // Callers refuse rooms with maintenance tickets, so their repair history is never orphaned
   async deleteRoom(id: string): Promise<boolean> {
+    const before = await this.getRoom(id);
     const result = await db.delete(rooms).where(eq(rooms.id, id));
-    return (result.rowCount || 0) > 0;
+    const deleted = (result.rowCount || 0) > 0;
+    if (deleted) await this.recordAudit("room", id, "delete", before, null);
+    return deleted;
   }
 
-  async getAvailableRooms(checkinDate: Date, checkoutDate: Date): Promise<Room[]> {
-    // Get all rooms
-    const allRooms = await this.getAllRooms();
+  // exceptGuestId leaves a stay's own booking out when it is being moved or extended
+  async getAvailableRooms(checkinDate: Date, checkoutDate: Date, roomTypeId?: string, exceptGuestId?: string): Promise<Room[]> {
+    // Get all rooms, or just those of the type asked for
+    const allRooms = roomTypeId
+      ? await db.select().from(rooms).where(eq(rooms.roomTypeId, roomTypeId))
+      : await this.getAllRooms();
     
-    // Get overlapping guests
+    // Get overlapping stays, including reservations that haven't arrived yet
     const overlappingGuests = await db
       .select()
       .from(guests)
       .where(
         and(
-          eq(guests.status, "active"),
+          inArray(guests.status, [...ROOM_HOLDING_STATUSES]),
           lt(guests.checkinDate, checkoutDate),
-          gt(guests.checkoutDate, checkinDate)
+          gt(guests.checkoutDate, checkinDate),
+          exceptGuestId ? ne(guests.id, exceptGuestId) : undefined
         )
       );
 
@@ -198,7 +798,22 @@ export class DatabaseStorage implements IStorage {
       overlappingGuests.map((guest) => guest.roomId).filter(Boolean)
     );
 
-    return allRooms.filter((room) => !occupiedRoomIds.has(room.id));
+    // Rooms out of service on any night of the stay; a same-day stay counts as its check-in night
+    const firstNight = calendarDate(checkinDate);
+    const lastNight = calendarDate(new Date(checkoutDate.getFullYear(), checkoutDate.getMonth(), checkoutDate.getDate() - 1));
+    const blockingTickets = await db
+      .select()
+      .from(maintenanceTickets)
+      .where(
+        and(
+          inArray(maintenanceTickets.status, [...BLOCKING_TICKET_STATUSES]),
+          lte(maintenanceTickets.startDate, lastNight > firstNight ? lastNight : firstNight),
+          gte(maintenanceTickets.endDate, firstNight)
+        )
+      );
+    const blockedRoomIds = new Set(blockingTickets.map((ticket) => ticket.roomId));
+
+    return allRooms.filter((room) => !occupiedRoomIds.has(room.id) && !blockedRoomIds.has(room.id));
   }
 
   // Guest methods
@@ -224,6 +839,7 @@ export class DatabaseStorage implements IStorage {
       .insert(guests)
       .values(guest)
       .returning();
+    await this.recordAudit("guest", newGuest.id, "create", null, newGuest);
     return newGuest;
   }
 
@@ -231,11 +847,13 @@ export class DatabaseStorage implements IStorage {
     id: string,
     guest: Partial<InsertGuest>,
   ): Promise<Guest | undefined> {
+    const before = await this.getGuest(id);
     const [updated] = await db
       .update(guests)
       .set(guest)
       .where(eq(guests.id, id))
       .returning();
+    if (updated) await this.recordAudit("guest", id, "update", before, updated);
     return updated || undefined;
   }
 
@@ -243,6 +861,69 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(guests).where(eq(guests.status, "active"));
   }
 
+  async getStaysByProfile(profileId: string): Promise<Guest[]> {
+    return await db.select().from(guests)
+      .where(eq(guests.profileId, profileId))
+      .orderBy(desc(guests.checkinDate));
+  }
+
+  async getReservationsArrivingBefore(date: Date): Promise<Guest[]> {
+    return await db.select().from(guests)
+      .where(and(
+        inArray(guests.status, [...RESERVATION_STATUSES]),
+        lt(guests.checkinDate, date),
+      ));
+  }
+
+  // Guest profile methods
+  async getGuestProfile(id: string): Promise<GuestProfile | undefined> {
+    const [profile] = await db.select().from(guestProfiles).where(eq(guestProfiles.id, id));
+    return profile || undefined;
+  }
+
+  async findGuestProfile(lookup: { phoneNumber?: string; aadharNumber?: string }): Promise<GuestProfile | undefined> {
+    const aadhar = lookup.aadharNumber ? aadharDigits(lookup.aadharNumber) : "";
+    const phone = lookup.phoneNumber ? phoneDigits(lookup.phoneNumber) : "";
+
+    // Aadhaar identifies a person; a phone number may be shared within a family
+    if (aadhar.length === 12) {
+      const [profile] = await db.select().from(guestProfiles)
+        .where(sql`regexp_replace(${guestProfiles.aadharNumber}, '[^0-9]', '', 'g') = ${aadhar}`)
+        .limit(1);
+      if (profile) return profile;
+    }
+
+    if (phone.length === 10) {
+      const [profile] = await db.select().from(guestProfiles)
+        .where(sql`right(regexp_replace(${guestProfiles.phoneNumber}, '[^0-9]', '', 'g'), 10) = ${phone}`)
+        .orderBy(desc(guestProfiles.createdAt))
+        .limit(1);
+      if (profile) return profile;
+    }
+
+    return undefined;
+  }
+
+  async createGuestProfile(profile: InsertGuestProfile): Promise<GuestProfile> {
+    const [newProfile] = await db
+      .insert(guestProfiles)
+      .values(profile)
+      .returning();
+    await this.recordAudit("guest_profile", newProfile.id, "create", null, newProfile);
+    return newProfile;
+  }
+
+  async updateGuestProfile(id: string, profile: Partial<InsertGuestProfile>): Promise<GuestProfile | undefined> {
+    const before = await this.getGuestProfile(id);
+    const [updated] = await db
+      .update(guestProfiles)
+      .set(profile)
+      .where(eq(guestProfiles.id, id))
+      .returning();
+    if (updated) await this.recordAudit("guest_profile", id, "update", before, updated);
+    return updated || undefined;
+  }
+
   // Payment methods
   async getAllPayments(): Promise<Payment[]> {
     return await db.select().from(payments).orderBy(desc(payments.createdAt));
@@ -254,33 +935,564 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getPaymentsByGuest(guestId: string): Promise<Payment[]> {
-    return await db.select().from(payments).where(eq(payments.guestId, guestId));
+    return await db
+      .select()
+      .from(payments)
+      .where(eq(payments.guestId, guestId))
+      .orderBy(payments.createdAt);
+  }
+
+  // Money taken or paid out is put down to whoever recorded it and the shift they have open
+  private async withCollector<T extends Partial<NewPayment>>(payment: T): Promise<T> {
+    const actor = getRequestActor();
+    if (payment.status !== "paid" || !actor) return payment;
+
+    const shift = await this.getOpenShift(actor.id);
+    return {
+      ...payment,
+      recordedBy: payment.recordedBy ?? actor.id,
+      recordedByName: payment.recordedByName ?? actor.username,
+      shiftId: payment.shiftId ?? shift?.id ?? null,
+    };
   }
 
-  async createPayment(payment: InsertPayment): Promise<Payment> {
+  async createPayment(payment: NewPayment): Promise<Payment> {
     const [newPayment] = await db
       .insert(payments)
-      .values(payment)
+      .values(await this.withCollector(payment))
       .returning();
+    await this.recordAudit("payment", newPayment.id, "create", null, newPayment);
     return newPayment;
   }
 
   async updatePayment(
     id: string,
-    payment: Partial<InsertPayment>,
+    payment: Partial<NewPayment>,
   ): Promise<Payment | undefined> {
+    const before = await this.getPayment(id);
     const [updated] = await db
       .update(payments)
-      .set(payment)
+      .set(before?.status === "paid" ? payment : await this.withCollector(payment))
       .where(eq(payments.id, id))
       .returning();
+    if (updated) await this.recordAudit("payment", id, "update", before, updated);
     return updated || undefined;
   }
 
+  async deletePayment(id: string): Promise<boolean> {
+    const before = await this.getPayment(id);
+    const result = await db.delete(payments).where(eq(payments.id, id));
+    const deleted = (result.rowCount || 0) > 0;
+    if (deleted) await this.recordAudit("payment", id, "delete", before, null);
+    return deleted;
+  }
+
   async getPendingPayments(): Promise<Payment[]> {
     return await db.select().from(payments).where(eq(payments.status, "pending"));
   }
 
+  // Folio charge methods
+  async getFolioCharges(guestId: string): Promise<FolioCharge[]> {
+    return await db
+      .select()
+      .from(folioCharges)
+      .where(eq(folioCharges.guestId, guestId))
+      .orderBy(folioCharges.createdAt);
+  }
+
+  async getFolioChargesPostedBetween(from: Date, to: Date): Promise<FolioCharge[]> {
+    return await db
+      .select()
+      .from(folioCharges)
+      .where(and(gte(folioCharges.createdAt, from), lt(folioCharges.createdAt, to)))
+      .orderBy(folioCharges.createdAt);
+  }
+
+  async getFolioCharge(id: string): Promise<FolioCharge | undefined> {
+    const [charge] = await db.select().from(folioCharges).where(eq(folioCharges.id, id));
+    return charge || undefined;
+  }
+
+  async createFolioCharge(charge: InsertFolioCharge): Promise<FolioCharge> {
+    const [newCharge] = await db
+      .insert(folioCharges)
+      .values(charge)
+      .returning();
+    await this.recordAudit("folio_charge", newCharge.id, "create", null, newCharge);
+    return newCharge;
+  }
+
+  async updateFolioCharge(id: string, charge: Partial<InsertFolioCharge>): Promise<FolioCharge | undefined> {
+    const before = await this.getFolioCharge(id);
+    const [updated] = await db
+      .update(folioCharges)
+      .set(charge)
+      .where(eq(folioCharges.id, id))
+      .returning();
+    if (updated) await this.recordAudit("folio_charge", id, "update", before, updated);
+    return updated || undefined;
+  }
+
+  async deleteFolioCharge(id: string): Promise<boolean> {
+    const before = await this.getFolioCharge(id);
+    const result = await db.delete(folioCharges).where(eq(folioCharges.id, id));
+    const deleted = (result.rowCount || 0) > 0;
+    if (deleted) await this.recordAudit("folio_charge", id, "delete", before, null);
+    return deleted;
+  }
+
+  // Security deposit methods
+  async getSecurityDeposits(filters: { guestId?: string; status?: string } = {}): Promise<SecurityDeposit[]> {
+    const conditions = [];
+    if (filters.guestId) conditions.push(eq(securityDeposits.guestId, filters.guestId));
+    if (filters.status) conditions.push(eq(securityDeposits.status, filters.status));
+
+    return await db
+      .select()
+      .from(securityDeposits)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(securityDeposits.collectedAt));
+  }
+
+  async getSecurityDeposit(id: string): Promise<SecurityDeposit | undefined> {
+    const [deposit] = await db.select().from(securityDeposits).where(eq(securityDeposits.id, id));
+    return deposit || undefined;
+  }
+
+  async createSecurityDeposit(deposit: InsertSecurityDeposit): Promise<SecurityDeposit> {
+    const [newDeposit] = await db
+      .insert(securityDeposits)
+      .values(deposit)
+      .returning();
+    await this.recordAudit("security_deposit", newDeposit.id, "create", null, newDeposit);
+    return newDeposit;
+  }
+
+  async updateSecurityDeposit(id: string, deposit: Partial<InsertSecurityDeposit>): Promise<SecurityDeposit | undefined> {
+    const before = await this.getSecurityDeposit(id);
+    const [updated] = await db
+      .update(securityDeposits)
+      .set(deposit)
+      .where(eq(securityDeposits.id, id))
+      .returning();
+    if (updated) await this.recordAudit("security_deposit", id, "update", before, updated);
+    return updated || undefined;
+  }
+
+  async getDepositDeductions(depositIds: string[]): Promise<DepositDeduction[]> {
+    if (depositIds.length === 0) return [];
+    return await db
+      .select()
+      .from(depositDeductions)
+      .where(inArray(depositDeductions.depositId, depositIds))
+      .orderBy(depositDeductions.createdAt);
+  }
+
+  async createDepositDeduction(deduction: InsertDepositDeduction): Promise<DepositDeduction> {
+    const [newDeduction] = await db
+      .insert(depositDeductions)
+      .values(deduction)
+      .returning();
+    await this.recordAudit("deposit_deduction", newDeduction.id, "create", null, newDeduction);
+    return newDeduction;
+  }
+
+  async getDepositDeductionsForPayments(paymentIds: string[]): Promise<DepositDeduction[]> {
+    if (paymentIds.length === 0) return [];
+    return await db
+      .select()
+      .from(depositDeductions)
+      .where(inArray(depositDeductions.paymentId, paymentIds));
+  }
+
+  async findDepositDeductionByCharge(folioChargeId: string): Promise<DepositDeduction | undefined> {
+    const [deduction] = await db
+      .select()
+      .from(depositDeductions)
+      .where(eq(depositDeductions.folioChargeId, folioChargeId))
+      .limit(1);
+    return deduction || undefined;
+  }
+
+  // Cashier shift methods
+  async getShifts(filters: { userId?: string; status?: string } = {}): Promise<CashierShift[]> {
+    const conditions = [];
+    if (filters.userId) conditions.push(eq(cashierShifts.userId, filters.userId));
+    if (filters.status) conditions.push(eq(cashierShifts.status, filters.status));
+
+    return await db
+      .select()
+      .from(cashierShifts)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(cashierShifts.openedAt))
+      .limit(100);
+  }
+
+  async getShift(id: string): Promise<CashierShift | undefined> {
+    const [shift] = await db.select().from(cashierShifts).where(eq(cashierShifts.id, id));
+    return shift || undefined;
+  }
+
+  async getOpenShift(userId: string): Promise<CashierShift | undefined> {
+    const [shift] = await db
+      .select()
+      .from(cashierShifts)
+      .where(and(eq(cashierShifts.userId, userId), eq(cashierShifts.status, "open")))
+      .limit(1);
+    return shift || undefined;
+  }
+
+  async createShift(shift: InsertCashierShift): Promise<CashierShift> {
+    const [newShift] = await db
+      .insert(cashierShifts)
+      .values(shift)
+      .returning();
+    await this.recordAudit("cashier_shift", newShift.id, "create", null, newShift);
+    return newShift;
+  }
+
+  async updateShift(id: string, shift: Partial<InsertCashierShift>): Promise<CashierShift | undefined> {
+    const before = await this.getShift(id);
+    const [updated] = await db
+      .update(cashierShifts)
+      .set(shift)
+      .where(eq(cashierShifts.id, id))
+      .returning();
+    if (updated) await this.recordAudit("cashier_shift", id, "update", before, updated);
+    return updated || undefined;
+  }
+
+  async getPaymentsByShift(shiftId: string): Promise<Payment[]> {
+    return await db
+      .select()
+      .from(payments)
+      .where(eq(payments.shiftId, shiftId))
+      .orderBy(payments.paidAt);
+  }
+
+  // Deposits taken or handed back during the shift
+  async getDepositsByShift(shiftId: string): Promise<SecurityDeposit[]> {
+    return await db
+      .select()
+      .from(securityDeposits)
+      .where(or(eq(securityDeposits.collectedShiftId, shiftId), eq(securityDeposits.releasedShiftId, shiftId)))
+      .orderBy(securityDeposits.collectedAt);
+  }
+
+  async getExpensesByShift(shiftId: string): Promise<Expense[]> {
+    return await db
+      .select()
+      .from(expenses)
+      .where(eq(expenses.shiftId, shiftId))
+      .orderBy(expenses.createdAt);
+  }
+
+  // Expense methods
+  async getExpenses(filters: { from?: string; to?: string; category?: string } = {}): Promise<Expense[]> {
+    const conditions = [];
+    if (filters.from) conditions.push(gte(expenses.paidOn, filters.from));
+    if (filters.to) conditions.push(lte(expenses.paidOn, filters.to));
+    if (filters.category) conditions.push(eq(expenses.category, filters.category));
+
+    return await db
+      .select()
+      .from(expenses)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(expenses.paidOn), desc(expenses.createdAt));
+  }
+
+  async getExpense(id: string): Promise<Expense | undefined> {
+    const [expense] = await db.select().from(expenses).where(eq(expenses.id, id));
+    return expense || undefined;
+  }
+
+  async createExpense(expense: InsertExpense): Promise<Expense> {
+    const [newExpense] = await db
+      .insert(expenses)
+      .values(expense)
+      .returning();
+    await this.recordAudit("expense", newExpense.id, "create", null, newExpense);
+    return newExpense;
+  }
+
+  async updateExpense(id: string, expense: Partial<InsertExpense>): Promise<Expense | undefined> {
+    const before = await this.getExpense(id);
+    const [updated] = await db
+      .update(expenses)
+      .set(expense)
+      .where(eq(expenses.id, id))
+      .returning();
+    if (updated) await this.recordAudit("expense", id, "update", before, updated);
+    return updated || undefined;
+  }
+
+  async deleteExpense(id: string): Promise<boolean> {
+    const before = await this.getExpense(id);
+    await db.delete(expenseAttachments).where(eq(expenseAttachments.expenseId, id));
+    const result = await db.delete(expenses).where(eq(expenses.id, id));
+    const deleted = (result.rowCount || 0) > 0;
+    if (deleted) await this.recordAudit("expense", id, "delete", before, null);
+    return deleted;
+  }
+
+  async getExpenseAttachment(expenseId: string): Promise<string | undefined> {
+    const [attachment] = await db
+      .select()
+      .from(expenseAttachments)
+      .where(eq(expenseAttachments.expenseId, expenseId));
+    return attachment?.data;
+  }
+
+  // Replaces any earlier bill; the file name and type on the expense are audited instead of the data
+  async saveExpenseAttachment(expenseId: string, data: string): Promise<void> {
+    await db
+      .insert(expenseAttachments)
+      .values({ expenseId, data })
+      .onConflictDoUpdate({ target: expenseAttachments.expenseId, set: { data, uploadedAt: new Date() } });
+  }
+
+  // Night audit methods
+  async getDailySummaries(limit: number = 30): Promise<DailySummary[]> {
+    return await db
+      .select()
+      .from(dailySummaries)
+      .orderBy(desc(dailySummaries.businessDate))
+      .limit(limit);
+  }
+
+  async getDailySummary(businessDate: string): Promise<DailySummary | undefined> {
+    const [summary] = await db.select().from(dailySummaries).where(eq(dailySummaries.businessDate, businessDate));
+    return summary || undefined;
+  }
+
+  async getLatestDailySummary(): Promise<DailySummary | undefined> {
+    const [summary] = await this.getDailySummaries(1);
+    return summary || undefined;
+  }
+
+  // The day's room nights are posted with its summary, so a closed day always has both
+  async createDailySummary(summary: InsertDailySummary, postings: InsertRoomNightPosting[]): Promise<DailySummary> {
+    // A closed day without its postings would never get them, so both land or neither does
+    const newSummary = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(dailySummaries).values(summary).returning();
+      if (postings.length > 0) {
+        await tx.insert(roomNightPostings).values(postings);
+      }
+      return created;
+    });
+    await this.recordAudit("daily_summary", newSummary.id, "create", null, { ...newSummary, postingCount: postings.length });
+    return newSummary;
+  }
+
+  async getRoomNightPostings(guestIds: string[]): Promise<RoomNightPosting[]> {
+    if (guestIds.length === 0) return [];
+    return await db
+      .select()
+      .from(roomNightPostings)
+      .where(inArray(roomNightPostings.guestId, guestIds))
+      .orderBy(roomNightPostings.businessDate);
+  }
+
+  async getDayLockOverrides(businessDate: string): Promise<DayLockOverride[]> {
+    return await db
+      .select()
+      .from(dayLockOverrides)
+      .where(eq(dayLockOverrides.businessDate, businessDate))
+      .orderBy(dayLockOverrides.createdAt);
+  }
+
+  // Overrides are a log in their own right, so they aren't audited again
+  async createDayLockOverride(override: InsertDayLockOverride): Promise<DayLockOverride> {
+    const [newOverride] = await db.insert(dayLockOverrides).values(override).returning();
+    return newOverride;
+  }
+
+  // Invoice methods
+  async getInvoiceByGuest(guestId: string): Promise<Invoice | undefined> {
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.guestId, guestId));
+    return invoice || undefined;
+  }
+
+  async createInvoice(guestId: string, contents: InvoiceContents, issuedAt: Date = new Date()): Promise<Invoice> {
+    const financialYear = financialYearOf(issuedAt);
+
+    // Two invoices issued at the same moment may pick the same number; the
+    // unique index rejects the second, which then retries with the next one.
+    // A second request for the same stay gets the invoice the first one made.
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const [{ lastSequence }] = await db
+          .select({ lastSequence: sql<number>`coalesce(max(${invoices.sequence}), 0)` })
+          .from(invoices)
+          .where(eq(invoices.financialYear, financialYear));
+        const sequence = Number(lastSequence) + 1;
+
+        const [invoice] = await db
+          .insert(invoices)
+          .values({
+            guestId,
+            financialYear,
+            sequence,
+            invoiceNumber: formatInvoiceNumber(financialYear, sequence),
+            issuedAt,
+            contents,
+          })
+          .returning();
+        await this.recordAudit("invoice", invoice.id, "create", null, invoice);
+        return invoice;
+      } catch (error) {
+        const constraint = uniqueViolation(error);
+        if (constraint === "invoices_guest_id_unique") {
+          const existing = await this.getInvoiceByGuest(guestId);
+          if (existing) return existing;
+        }
+        const numberTaken = constraint === "invoices_invoice_number_unique" || constraint === "IDX_invoices_year_sequence";
+        if (!numberTaken || attempt >= 3) throw error;
+      }
+    }
+  }
+
+  // Only fills in invoices issued before contents were kept; an issued invoice is never rewritten
+  async saveInvoiceContents(id: string, contents: InvoiceContents): Promise<Invoice> {
+    const [before] = await db.select().from(invoices).where(eq(invoices.id, id));
+    if (before.contents) return before;
+    const [updated] = await db
+      .update(invoices)
+      .set({ contents })
+      .where(and(eq(invoices.id, id), isNull(invoices.contents)))
+      .returning();
+    // A concurrent print got there first; keep what it saved
+    if (!updated) return (await db.select().from(invoices).where(eq(invoices.id, id)))[0];
+    await this.recordAudit("invoice", id, "update", before, updated);
+    return updated;
+  }
+
+  // Statement reconciliation methods
+  async getStatementImports(): Promise<StatementImport[]> {
+    return await db.select().from(statementImports).orderBy(desc(statementImports.importedAt));
+  }
+
+  async getStatementImport(id: string): Promise<StatementImport | undefined> {
+    const [statementImport] = await db.select().from(statementImports).where(eq(statementImports.id, id));
+    return statementImport || undefined;
+  }
+
+  async createStatementImport(
+    statementImport: Pick<StatementImport, "fileName" | "importedBy" | "importedByName">,
+    lines: Omit<InsertStatementLine, "importId">[],
+  ): Promise<StatementImport> {
+    const [newImport] = await db.insert(statementImports).values(statementImport).returning();
+    if (lines.length > 0) {
+      await db.insert(statementLines).values(lines.map((line) => ({ ...line, importId: newImport.id })));
+    }
+    await this.recordAudit("statement_import", newImport.id, "create", null, { ...newImport, lineCount: lines.length });
+    return newImport;
+  }
+
+  async getStatementLines(importId: string): Promise<StatementLine[]> {
+    return await db
+      .select()
+      .from(statementLines)
+      .where(eq(statementLines.importId, importId))
+      .orderBy(statementLines.transactionDate);
+  }
+
+  async getStatementLine(id: string): Promise<StatementLine | undefined> {
+    const [line] = await db.select().from(statementLines).where(eq(statementLines.id, id));
+    return line || undefined;
+  }
+
+  async updateStatementLine(id: string, line: Partial<InsertStatementLine>): Promise<StatementLine | undefined> {
+    const before = await this.getStatementLine(id);
+    const [updated] = await db
+      .update(statementLines)
+      .set(line)
+      .where(eq(statementLines.id, id))
+      .returning();
+    if (updated) await this.recordAudit("statement_line", id, "update", before, updated);
+    return updated || undefined;
+  }
+
+  // The same credit in an overlapping statement; a bank reference identifies it on its own,
+  // without one this only finds a possible repeat for staff to check
+  async findImportedCredit(credit: Pick<StatementLine, "transactionDate" | "amount" | "reference" | "description">): Promise<StatementLine | undefined> {
+    const [line] = await db
+      .select()
+      .from(statementLines)
+      .where(and(
+        eq(statementLines.amount, credit.amount),
+        credit.reference
+          ? eq(statementLines.reference, credit.reference)
+          : and(
+            isNull(statementLines.reference),
+            eq(statementLines.transactionDate, credit.transactionDate),
+            credit.description ? eq(statementLines.description, credit.description) : isNull(statementLines.description),
+          ),
+        sql`${statementLines.status} <> 'duplicate'`,
+      ))
+      .limit(1);
+    return line || undefined;
+  }
+
+  // Company account methods
+  async getCompanyAccounts(): Promise<CompanyAccount[]> {
+    return await db.select().from(companyAccounts).orderBy(companyAccounts.name);
+  }
+
+  async getCompanyAccount(id: string): Promise<CompanyAccount | undefined> {
+    const [account] = await db.select().from(companyAccounts).where(eq(companyAccounts.id, id));
+    return account || undefined;
+  }
+
+  async createCompanyAccount(account: InsertCompanyAccount): Promise<CompanyAccount> {
+    const [newAccount] = await db
+      .insert(companyAccounts)
+      .values(account)
+      .returning();
+    await this.recordAudit("company_account", newAccount.id, "create", null, newAccount);
+    return newAccount;
+  }
+
+  async updateCompanyAccount(id: string, account: Partial<InsertCompanyAccount>): Promise<CompanyAccount | undefined> {
+    const before = await this.getCompanyAccount(id);
+    const [updated] = await db
+      .update(companyAccounts)
+      .set(account)
+      .where(eq(companyAccounts.id, id))
+      .returning();
+    if (updated) await this.recordAudit("company_account", id, "update", before, updated);
+    return updated || undefined;
+  }
+
+  // Bills charged to the company and the credit notes raised against them
+  async getCompanyPayments(companyAccountId: string): Promise<Payment[]> {
+    return await db
+      .select()
+      .from(payments)
+      .where(and(eq(payments.companyAccountId, companyAccountId), eq(payments.status, "paid")))
+      .orderBy(payments.paidAt);
+  }
+
+  async getCompanySettlements(companyAccountId?: string): Promise<CompanySettlement[]> {
+    return await db
+      .select()
+      .from(companySettlements)
+      .where(companyAccountId ? eq(companySettlements.companyAccountId, companyAccountId) : undefined)
+      .orderBy(companySettlements.settledAt);
+  }
+
+  async createCompanySettlement(settlement: InsertCompanySettlement, paymentIds: string[]): Promise<CompanySettlement> {
+    const [newSettlement] = await db
+      .insert(companySettlements)
+      .values(settlement)
+      .returning();
+    await this.recordAudit("company_settlement", newSettlement.id, "create", null, { ...newSettlement, paymentIds });
+    for (const paymentId of paymentIds) {
+      await this.updatePayment(paymentId, { companySettlementId: newSettlement.id });
+    }
+    return newSettlement;
+  }
+
   // SMS log methods
   async createSmsLog(smsLog: InsertSmsLog): Promise<SmsLog> {
     const [newSmsLog] = await db
@@ -304,6 +1516,59 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(smsLogs)
       .where(gte(smsLogs.sentAt, since));
   }
+
+  // Audit log methods
+  private async recordAudit(
+    entityType: AuditEntityType,
+    entityId: string,
+    action: "create" | "update" | "delete",
+    before: object | null | undefined,
+    after: object | null | undefined,
+  ): Promise<void> {
+    const changes = diffForAudit(
+      (before as Record<string, unknown>) || null,
+      (after as Record<string, unknown>) || null,
+    );
+    // Saving a form without changing anything isn't worth a row
+    if (action === "update" && Object.keys(changes).length === 0) return;
+
+    const actor = getRequestActor();
+    await db.insert(auditLogs).values({
+      entityType,
+      entityId,
+      action,
+      actorId: actor?.id ?? null,
+      actorName: actor?.username ?? null,
+      changes,
+    });
+  }
+
+  async getAuditLogs(filters: AuditLogFilters = {}): Promise<AuditLog[]> {
+    const conditions = [];
+    if (filters.entityType) conditions.push(eq(auditLogs.entityType, filters.entityType));
+    if (filters.entityIds) {
+      if (filters.entityIds.length === 0) return [];
+      conditions.push(inArray(auditLogs.entityId, filters.entityIds));
+    }
+    if (filters.actorId) conditions.push(eq(auditLogs.actorId, filters.actorId));
+
+    return await db.select().from(auditLogs)
+      .where(and(...conditions))
+      .orderBy(desc(auditLogs.createdAt))
+      .limit(filters.limit ?? 200);
+  }
+
+  async getAuditActors(): Promise<{ actorId: string | null; actorName: string | null }[]> {
+    return await db
+      .selectDistinct({ actorId: auditLogs.actorId, actorName: auditLogs.actorName })
+      .from(auditLogs)
+      .orderBy(auditLogs.actorName);
+  }
+
+  async inTransaction<T>(work: () => Promise<T>): Promise<T> {
+    if (transactionScope.getStore()) return await work();
+    return await pooledDb.transaction((tx) => transactionScope.run(tx, work));
+  }
 }
 
 export const storage = new DatabaseStorage();
\ No newline at end of file
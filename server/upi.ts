@@ -0,0 +1,48 @@
+import { randomBytes } from "crypto";
+import QRCode from "qrcode";
+import type { LodgeSettings } from "@shared/schema";
+
+export interface UpiPaymentRequest {
+  upiUri: string;
+  qrDataUrl: string; // PNG, ready for an <img> or a printout
+  reference: string;
+  amount: string;
+  payeeVpa: string;
+  payeeName: string;
+}
+
+// Short enough for every UPI app's transaction reference field, and easy to read off a bank statement
+export function generateUpiReference(): string {
+  return `LDG${randomBytes(5).toString("hex").toUpperCase()}`;
+}
+
+/**
+ * Builds a `upi://pay` intent per the NPCI linking spec. The amount is fixed
+ * so guests scanning it can't mistype it; the reference comes back on the
+ * lodge's bank statement for reconciliation.
+ */
+export function buildUpiUri(params: { vpa: string; payeeName: string; amount: string; reference: string; note: string }): string {
+  const query = [
+    ["pa", params.vpa],
+    ["pn", params.payeeName],
+    ["am", params.amount],
+    ["cu", "INR"],
+    ["tr", params.reference],
+    ["tn", params.note],
+  ].map(([key, value]) => `${key}=${encodeURIComponent(value)}`).join("&");
+
+  return `upi://pay?${query}`;
+}
+
+export async function createUpiPaymentRequest(
+  settings: Pick<LodgeSettings, "name" | "upiVpa" | "upiPayeeName">,
+  amount: string,
+  reference: string,
+): Promise<UpiPaymentRequest> {
+  const payeeVpa = settings.upiVpa!;
+  const payeeName = settings.upiPayeeName || settings.name;
+  const upiUri = buildUpiUri({ vpa: payeeVpa, payeeName, amount, reference, note: `Bill ${reference}` });
+  const qrDataUrl = await QRCode.toDataURL(upiUri, { errorCorrectionLevel: "M", margin: 2, width: 320 });
+
+  return { upiUri, qrDataUrl, reference, amount, payeeVpa, payeeName };
+}
@@ -0,0 +1,66 @@
+// Amounts are stored as two-place decimal strings and are only ever added up
+// or taxed as whole paise, on the server and in the dashboard alike, so that
+// totals, taxes and reports reconcile to the paisa.
+//
+// Rounding rules:
+// - An amount with more than two decimals is rounded half away from zero
+// - Each discount or tax line is rounded to the paisa on its own; totals are
+//   the sums of the rounded lines, never rounded again
+
+export type Paise = number;
+
+const DECIMAL = /^([+-])?(\d*)(?:\.(\d*))?$/;
+
+/**
+ * Parses rupees exactly: "1234.5", "1,234.50", 1234.5 and "1234.5000000001"
+ * all give 123450. Working from the digits avoids binary float surprises such
+ * as 1.005 * 100 = 100.49999... Empty values count as zero.
+ */
+export function toPaise(rupees: string | number | null | undefined): Paise {
+  if (rupees === null || rupees === undefined) return 0;
+  const text = String(rupees).replace(/[,\s]/g, "");
+  if (text === "") return 0;
+
+  const match = DECIMAL.exec(text);
+  if (!match || (match[2] === "" && !match[3])) {
+    // Exponent notation and the like; NaN for anything that isn't a number
+    return Math.round(Number(text) * 100);
+  }
+
+  const [, sign, whole, fraction = ""] = match;
+  const digits = fraction.padEnd(3, "0");
+  const paise = Number(whole || "0") * 100 + Number(digits.slice(0, 2)) + (Number(digits[2]) >= 5 ? 1 : 0);
+  return sign === "-" && paise !== 0 ? -paise : paise;
+}
+
+// The decimal string stored in the database, e.g. 123450 -> "1234.50"
+export function toRupees(paise: Paise): string {
+  const sign = paise < 0 ? "-" : "";
+  const magnitude = Math.abs(Math.round(paise));
+  return `${sign}${Math.floor(magnitude / 100)}.${String(magnitude % 100).padStart(2, "0")}`;
+}
+
+export function sumPaise(amounts: readonly (string | number | null | undefined)[]): Paise {
+  return amounts.reduce<Paise>((total, amount) => total + toPaise(amount), 0);
+}
+
+/**
+ * A percentage of an amount (a discount or a tax line), rounded to the paisa.
+ * The rate is taken to two decimals so the division is done on whole numbers
+ * and halves round the same way everywhere.
+ */
+export function percentOfPaise(paise: Paise, percent: number | string): Paise {
+  const basisPoints = toPaise(percent); // 18% -> 1800, 2.5% -> 250
+  return roundHalfAwayFromZero((paise * basisPoints) / 10000);
+}
+
+export function roundHalfAwayFromZero(value: number): number {
+  return Math.sign(value) * Math.round(Math.abs(value));
+}
+
+// For charts and CSV cells that want a plain number of rupees
+export const paiseToNumber = (paise: Paise) => paise / 100;
+
+// "₹1,234.5" style, as the dashboard shows amounts
+export const formatRupees = (paise: Paise) =>
+  `₹${paiseToNumber(paise).toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
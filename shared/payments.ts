@@ -0,0 +1,73 @@
+import type { Payment, PaymentMethod } from "./schema";
+import { paiseToNumber, toPaise, type Paise } from "./money";
+
+type MoneyMovement = Pick<Payment, "kind" | "status">;
+
+export const isReversal = (payment: Pick<Payment, "kind">) =>
+  payment.kind === "refund" || payment.kind === "void";
+
+/**
+ * How a payment row moves the lodge's takings: +1 for a paid receipt, -1 for
+ * a refund or void, 0 for pending or cancelled rows. Reversals are stored as
+ * positive amounts, so every revenue total should go through this.
+ */
+export function paymentSign(payment: MoneyMovement): number {
+  if (payment.status !== "paid") return 0;
+  return isReversal(payment) ? -1 : 1;
+}
+
+export function netPaymentPaise(payment: MoneyMovement & Pick<Payment, "amount">): Paise {
+  return paymentSign(payment) * toPaise(payment.amount);
+}
+
+// In the order the desk offers them
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, { english: string; telugu: string }> = {
+  cash: { english: "Cash", telugu: "నగదు" },
+  qr: { english: "UPI QR", telugu: "UPI QR" },
+  gpay: { english: "Google Pay", telugu: "గూగుల్ పే" },
+  phonepe: { english: "PhonePe", telugu: "ఫోన్‌పే" },
+  paytm: { english: "Paytm", telugu: "పేటీఎం" },
+  card: { english: "Card", telugu: "కార్డ్" },
+  bank_transfer: { english: "Bank Transfer", telugu: "బ్యాంక్ బదిలీ" },
+  company: { english: "Bill to Company", telugu: "కంపెనీ ఖాతాకు" },
+};
+
+export const paymentMethodLabel = (method: string) =>
+  PAYMENT_METHOD_LABELS[method as PaymentMethod]?.english ?? method.toUpperCase();
+
+export interface PaymentMethodSummary {
+  method: string;
+  amount: number; // net of refunds and voids
+  receipts: number;
+  share: number; // percentage of receipts
+}
+
+/**
+ * Net takings and receipt count per payment method, busiest first. Methods
+ * with no payments are left out.
+ */
+export function summarisePaymentMethods(
+  rows: (MoneyMovement & Pick<Payment, "amount"> & { paymentMethod: string })[],
+): PaymentMethodSummary[] {
+  const byMethod = new Map<string, PaymentMethodSummary>();
+  let receiptCount = 0;
+
+  for (const row of rows) {
+    if (row.status !== "paid") continue;
+    const summary = byMethod.get(row.paymentMethod) ?? { method: row.paymentMethod, amount: 0, receipts: 0, share: 0 };
+    summary.amount += netPaymentPaise(row); // added up in paise, turned into rupees below
+    if (!isReversal(row)) {
+      summary.receipts += 1;
+      receiptCount += 1;
+    }
+    byMethod.set(row.paymentMethod, summary);
+  }
+
+  return Array.from(byMethod.values())
+    .map((summary) => ({
+      ...summary,
+      amount: paiseToNumber(summary.amount),
+      share: receiptCount ? Math.round((summary.receipts / receiptCount) * 100) : 0,
+    }))
+    .sort((a, b) => b.amount - a.amount);
+}
@@ -0,0 +1,32 @@
+import type { UserRole } from "./schema";
+
+// Which staff roles may perform each protected action.
+// Shared so the dashboard can hide controls the server would reject anyway.
+export const PERMISSIONS = {
+  "users:manage": ["owner"],
+  "sessions:manage": ["owner"],
+  "settings:manage": ["owner"],
+  "rooms:manage": ["owner", "manager"],
+  "rooms:delete": ["owner"],
+  "housekeeping:clean": ["owner", "manager", "housekeeper"],
+  "housekeeping:inspect": ["owner", "manager"],
+  "guests:manage": ["owner", "manager", "receptionist"],
+  "payments:manage": ["owner", "manager", "receptionist", "accountant"],
+  "payments:reverse": ["owner", "manager", "accountant"],
+  "payments:reconcile": ["owner", "manager", "accountant"],
+  "companies:manage": ["owner", "manager", "accountant"],
+  "sms:send": ["owner", "manager", "receptionist", "accountant"],
+  "reports:view": ["owner", "manager", "accountant"],
+  "expenses:manage": ["owner", "manager", "accountant"],
+  "shifts:manage": ["owner", "manager"],
+  "night_audit:run": ["owner", "manager"],
+  "night_audit:override": ["owner", "manager"],
+  "audit:view": ["owner", "manager"],
+} as const satisfies Record<string, readonly UserRole[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export function hasPermission(role: string | undefined | null, permission: Permission): boolean {
+  if (!role) return false;
+  return (PERMISSIONS[permission] as readonly string[]).includes(role);
+}
@@ -1,35 +1,177 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, decimal, timestamp, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, decimal, timestamp, date, boolean, json, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { toPaise, toRupees } from "./money";
+
+export const USER_ROLES = ["owner", "manager", "receptionist", "accountant", "housekeeper"] as const;
+export type UserRole = typeof USER_ROLES[number];
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  fullName: text("full_name"),
+  role: text("role").notNull().default("receptionist"), // 'owner', 'manager', 'receptionist', 'accountant', 'housekeeper'
+  isActive: boolean("is_active").notNull().default(true),
+  mustChangePassword: boolean("must_change_password").notNull().default(false),
+  failedLoginAttempts: integer("failed_login_attempts").notNull().default(0),
+  lockedUntil: timestamp("locked_until"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
 });
 
+// Managed by connect-pg-simple; declared here so schema pushes keep it
+export const sessions = pgTable("sessions", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [index("IDX_sessions_expire").on(table.expire)]);
+
+// GST on rooms depends on the tariff per night: `upTo` is the highest nightly
+// tariff (₹, after discount) the rate applies to; null means no upper limit
+export interface GstSlab {
+  upTo: number | null;
+  rate: number;
+}
+
+export const DEFAULT_GST_SLABS: GstSlab[] = [
+  { upTo: 1000, rate: 0 },
+  { upTo: 7500, rate: 5 },
+  { upTo: null, rate: 18 },
+];
+
+// 2-digit state code, PAN, entity number, "Z", checksum
+export const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+// UPI virtual payment address, e.g. lodgename@okaxis
+export const UPI_VPA_PATTERN = /^[a-zA-Z0-9.\-_]{2,256}@[a-zA-Z]{2,64}$/;
+
+// SAC for hotel and lodge accommodation
+export const DEFAULT_SAC_CODE = "996311";
+
 export const lodgeSettings = pgTable("lodge_settings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
   address: text("address").notNull(),
   contactNumber: text("contact_number").notNull(),
   discountRate: decimal("discount_rate", { precision: 5, scale: 2 }).notNull().default("0.00"),
+  legalName: text("legal_name"), // registered business name printed on tax invoices
+  gstin: text("gstin"), // GST is only charged once the lodge has a GSTIN
+  sacCode: text("sac_code").notNull().default(DEFAULT_SAC_CODE),
+  gstSlabs: json("gst_slabs").$type<GstSlab[]>().notNull().default(DEFAULT_GST_SLABS),
+  upiVpa: text("upi_vpa"), // bills get a UPI QR with the exact amount once this is set
+  upiPayeeName: text("upi_payee_name"),
   currency: text("currency").notNull().default("INR"),
   smsTemplate: text("sms_template"),
+  sessionIdleMinutes: integer("session_idle_minutes").notNull().default(1440), // log out after this long without activity
   isSetupComplete: boolean("is_setup_complete").default(false),
 });
 
+// The lodge's catalogue of room kinds. Each room belongs to one.
+export const roomTypes = pgTable("room_types", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: text("code").notNull().unique(), // lowercase key, e.g. 'ac_deluxe'
+  nameEnglish: text("name_english").notNull(),
+  nameTelugu: text("name_telugu"),
+  maxOccupancy: integer("max_occupancy").notNull().default(2),
+  basePrice: decimal("base_price", { precision: 10, scale: 2 }).notNull(), // default rate for new rooms of this type
+  amenities: json("amenities").$type<string[]>().notNull().default([]),
+  description: text("description"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+});
+
+export const RATE_PLAN_KINDS = ["season", "event", "length_of_stay"] as const;
+export type RatePlanKind = typeof RATE_PLAN_KINDS[number];
+
+// Pricing rules for a room type. Seasons and events (Sankranti, Bathukamma...)
+// set the rate for the nights they cover, events winning over seasons;
+// length-of-stay plans take a percentage off every night of a long enough stay.
+export const ratePlans = pgTable("rate_plans", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  roomTypeId: varchar("room_type_id").references(() => roomTypes.id).notNull(),
+  kind: text("kind").notNull(), // see RATE_PLAN_KINDS
+  name: text("name").notNull(),
+  startDate: date("start_date", { mode: "string" }), // inclusive; a season without dates runs all year
+  endDate: date("end_date", { mode: "string" }),
+  nightlyRate: decimal("nightly_rate", { precision: 10, scale: 2 }), // null keeps each room's own rate
+  weekdayRates: json("weekday_rates").$type<Record<string, string>>().notNull().default({}), // "0" (Sunday) to "6" -> rate
+  minNights: integer("min_nights"), // length-of-stay plans
+  discountPercentage: decimal("discount_percentage", { precision: 5, scale: 2 }),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => [index("IDX_rate_plans_room_type").on(table.roomTypeId)]);
+
 export const rooms = pgTable("rooms", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   roomNumber: text("room_number").notNull().unique(),
-  roomType: text("room_type").notNull(), // custom room type names like 'single', 'double', 'suite', etc.
+  roomTypeId: varchar("room_type_id").references(() => roomTypes.id),
+  roomType: text("room_type").notNull(), // the type's English name, kept in step by storage for lists and printouts
   basePrice: decimal("base_price", { precision: 10, scale: 2 }).notNull(),
   status: text("status").notNull().default("available"), // 'available', 'occupied', 'maintenance'
+  housekeepingStatus: text("housekeeping_status").notNull().default("inspected"), // see HOUSEKEEPING_STATUSES
+  housekeepingUpdatedAt: timestamp("housekeeping_updated_at"),
+  housekeepingUpdatedBy: varchar("housekeeping_updated_by").references(() => users.id),
 });
 
+// A room is dirtied by checkout, cleaned by housekeeping and then passed by a supervisor
+export const HOUSEKEEPING_STATUSES = ["dirty", "clean", "inspected"] as const;
+export type HousekeepingStatus = typeof HOUSEKEEPING_STATUSES[number];
+
+export const MAINTENANCE_PRIORITIES = ["low", "medium", "high", "urgent"] as const;
+export type MaintenancePriority = typeof MAINTENANCE_PRIORITIES[number];
+export const MAINTENANCE_TICKET_STATUSES = ["open", "in_progress", "resolved", "cancelled"] as const;
+export type MaintenanceTicketStatus = typeof MAINTENANCE_TICKET_STATUSES[number];
+// Tickets that still take their room out of service for their dates
+export const BLOCKING_TICKET_STATUSES = ["open", "in_progress"] as const satisfies readonly MaintenanceTicketStatus[];
+
+// A repair on a room. While open or in progress the room cannot be sold for
+// the nights from startDate to endDate; closed tickets stay as the room's history.
+export const maintenanceTickets = pgTable("maintenance_tickets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  roomId: varchar("room_id").references(() => rooms.id).notNull(),
+  issue: text("issue").notNull(),
+  priority: text("priority").notNull().default("medium"), // see MAINTENANCE_PRIORITIES
+  startDate: date("start_date", { mode: "string" }).notNull(), // inclusive
+  endDate: date("end_date", { mode: "string" }).notNull(), // inclusive; the last night out of service
+  assignee: text("assignee"), // a staff member or an outside electrician, plumber...
+  status: text("status").notNull().default("open"), // see MAINTENANCE_TICKET_STATUSES
+  resolutionNote: text("resolution_note"),
+  resolvedAt: timestamp("resolved_at"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => [index("IDX_maintenance_tickets_room").on(table.roomId)]);
+
+export const STAY_STATUSES = ["reserved", "confirmed", "active", "checked_out", "no_show", "cancelled"] as const;
+export type StayStatus = typeof STAY_STATUSES[number];
+// Advance bookings that have not arrived yet
+export const RESERVATION_STATUSES = ["reserved", "confirmed"] as const satisfies readonly StayStatus[];
+// Stays that keep their room unavailable for their dates
+export const ROOM_HOLDING_STATUSES = ["reserved", "confirmed", "active"] as const satisfies readonly StayStatus[];
+
+// The person. Each row in `guests` is one stay by a profile.
+export const guestProfiles = pgTable("guest_profiles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  phoneNumber: text("phone_number").notNull(),
+  aadharNumber: text("aadhar_number").notNull(),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => [
+  index("IDX_guest_profiles_phone").on(table.phoneNumber),
+  index("IDX_guest_profiles_aadhar").on(table.aadharNumber),
+]);
+
+// The rate charged for one night of a stay, as resolved when the stay was priced
+export interface NightlyRate {
+  date: string; // YYYY-MM-DD, the night starting that evening
+  ratePlanName: string | null; // null when the room's own rate applied
+  listRate: string;
+  rate: string; // after any length-of-stay discount
+}
+
+// One stay. Name, phone and Aadhaar are a snapshot of the profile at registration.
 export const guests = pgTable("guests", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  profileId: varchar("profile_id").references(() => guestProfiles.id),
   name: text("name").notNull(),
   phoneNumber: text("phone_number").notNull(),
   aadharNumber: text("aadhar_number").notNull(),
@@ -40,22 +182,162 @@ export const guests = pgTable("guests", {
   roomId: varchar("room_id").references(() => rooms.id),
   numberOfGuests: integer("number_of_guests").default(1),
   totalDays: integer("total_days").notNull(),
-  baseAmount: decimal("base_amount", { precision: 10, scale: 2 }).notNull(),
+  baseAmount: decimal("base_amount", { precision: 10, scale: 2 }).notNull(), // sum of the nightly rates
+  nightlyRates: json("nightly_rates").$type<NightlyRate[]>().notNull().default([]), // empty for stays priced before rate plans
+  discountPercentage: decimal("discount_percentage", { precision: 5, scale: 2 }).notNull().default("0.00"),
   discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).default("0.00"),
+  gstin: text("gstin"), // business travellers' GSTIN, printed on the invoice
+  taxRate: decimal("tax_rate", { precision: 5, scale: 2 }).notNull().default("0.00"), // GST slab applied to this stay
+  cgstAmount: decimal("cgst_amount", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  sgstAmount: decimal("sgst_amount", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  igstAmount: decimal("igst_amount", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).notNull().default("0.00"), // CGST + SGST + IGST
+  chargesAmount: decimal("charges_amount", { precision: 10, scale: 2 }).notNull().default("0.00"), // folio charges incl. tax
+  totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(), // room (after discount, incl. tax) + charges
+  status: text("status").notNull().default("active"), // 'reserved', 'confirmed', 'active', 'checked_out', 'no_show', 'cancelled'
+  checkedInAt: timestamp("checked_in_at"),
+  checkedOutAt: timestamp("checked_out_at"),
+  cancellationReason: text("cancellation_reason"),
+  cancelledAt: timestamp("cancelled_at"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+});
+
+export const FOLIO_CATEGORIES = ["extra_bed", "food", "laundry", "late_checkout", "damage", "other"] as const;
+export type FolioCategory = typeof FOLIO_CATEGORIES[number];
+
+// Extras posted to a stay's bill on top of the room charge
+export const folioCharges = pgTable("folio_charges", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  guestId: varchar("guest_id").references(() => guests.id).notNull(),
+  category: text("category").notNull(), // 'extra_bed', 'food', 'laundry', 'late_checkout', 'damage', 'other'
+  description: text("description"),
+  quantity: integer("quantity").notNull().default(1),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // quantity x unit price, before tax
+  taxRate: decimal("tax_rate", { precision: 5, scale: 2 }).notNull().default("0.00"),
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).notNull().default("0.00"),
   totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
-  status: text("status").notNull().default("active"), // 'active', 'checked_out'
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => [index("IDX_folio_charges_guest").on(table.guestId)]);
+
+// 'qr' is the lodge's own UPI QR; the app names cover guests paying the lodge's number from that app.
+// 'company' bills the amount to a company account instead of collecting it at the desk.
+export const PAYMENT_METHODS = ["cash", "qr", "gpay", "phonepe", "paytm", "card", "bank_transfer", "company"] as const;
+export type PaymentMethod = typeof PAYMENT_METHODS[number];
+
+// Corporate clients whose guests' stays are billed to them and settled periodically
+export const companyAccounts = pgTable("company_accounts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  gstin: text("gstin"),
+  contactName: text("contact_name"),
+  phoneNumber: text("phone_number"),
+  email: text("email"),
+  billingAddress: text("billing_address"),
+  creditLimit: decimal("credit_limit", { precision: 10, scale: 2 }), // null for no limit
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+});
+
+// Money received from a company against a batch of its billed stays
+export const companySettlements = pgTable("company_settlements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyAccountId: varchar("company_account_id").references(() => companyAccounts.id).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  paymentMethod: text("payment_method").notNull(), // how the company paid; never 'company'
+  reference: text("reference"), // cheque number, UTR
+  notes: text("notes"),
+  settledAt: timestamp("settled_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+  recordedBy: varchar("recorded_by").references(() => users.id),
+  recordedByName: text("recorded_by_name"),
 });
 
+// Refunds and voids are separate rows that reverse (part of) a paid receipt
+export const PAYMENT_KINDS = ["receipt", "refund", "void"] as const;
+export type PaymentKind = typeof PAYMENT_KINDS[number];
+
 export const payments = pgTable("payments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   guestId: varchar("guest_id").references(() => guests.id).notNull(),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
-  paymentMethod: text("payment_method").notNull(), // 'cash', 'qr'
-  status: text("status").notNull().default("pending"), // 'pending', 'paid'
+  paymentMethod: text("payment_method").notNull(), // see PAYMENT_METHODS
+  status: text("status").notNull().default("pending"), // 'pending' (balance due), 'paid', 'cancelled'
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
   paidAt: timestamp("paid_at"),
-});
+  kind: text("kind").notNull().default("receipt"), // 'receipt', 'refund', 'void'
+  reversesPaymentId: varchar("reverses_payment_id").references((): AnyPgColumn => payments.id),
+  reason: text("reason"), // required for refunds and voids
+  recordedBy: varchar("recorded_by").references(() => users.id), // who took or paid out the money
+  recordedByName: text("recorded_by_name"), // username at the time
+  upiReference: text("upi_reference"), // transaction reference encoded in the UPI QR for this bill
+  companyAccountId: varchar("company_account_id").references(() => companyAccounts.id), // set when billed to a company
+  companySettlementId: varchar("company_settlement_id").references(() => companySettlements.id), // set once the company has paid
+  shiftId: varchar("shift_id").references((): AnyPgColumn => cashierShifts.id), // the recorder's open shift
+}, (table) => [
+  index("IDX_payments_company_account").on(table.companyAccountId),
+  index("IDX_payments_shift").on(table.shiftId),
+]);
+
+// A clerk's turn at the cash drawer: opened with a float, closed with a count
+export const SHIFT_STATUSES = ["open", "closed"] as const;
+export type ShiftStatus = typeof SHIFT_STATUSES[number];
+
+export const cashierShifts = pgTable("cashier_shifts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  userName: text("user_name").notNull(),
+  status: text("status").notNull().default("open"), // 'open', 'closed'
+  openingFloat: decimal("opening_float", { precision: 10, scale: 2 }).notNull(),
+  openingNotes: text("opening_notes"),
+  openedAt: timestamp("opened_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+  expectedCash: decimal("expected_cash", { precision: 10, scale: 2 }), // worked out at close
+  countedCash: decimal("counted_cash", { precision: 10, scale: 2 }),
+  variance: decimal("variance", { precision: 10, scale: 2 }), // counted less expected
+  closingNotes: text("closing_notes"),
+  closedAt: timestamp("closed_at"),
+  closedBy: varchar("closed_by").references(() => users.id), // a manager may close someone else's shift
+  closedByName: text("closed_by_name"),
+}, (table) => [index("IDX_cashier_shifts_user_status").on(table.userId, table.status)]);
+
+// Refundable key/damage deposits. Kept apart from payments so they never count as revenue
+// or against the stay's balance until some of it is applied to a damage charge.
+export const DEPOSIT_STATUSES = ["held", "released"] as const;
+export type DepositStatus = typeof DEPOSIT_STATUSES[number];
+
+export const securityDeposits = pgTable("security_deposits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  guestId: varchar("guest_id").references(() => guests.id).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // as collected
+  paymentMethod: text("payment_method").notNull(),
+  status: text("status").notNull().default("held"), // 'held', 'released'
+  notes: text("notes"),
+  collectedAt: timestamp("collected_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+  collectedBy: varchar("collected_by").references(() => users.id),
+  collectedByName: text("collected_by_name"),
+  collectedShiftId: varchar("collected_shift_id").references(() => cashierShifts.id),
+  releasedAmount: decimal("released_amount", { precision: 10, scale: 2 }), // handed back; the rest went on deductions
+  releaseMethod: text("release_method"),
+  releasedAt: timestamp("released_at"),
+  releasedBy: varchar("released_by").references(() => users.id),
+  releasedByName: text("released_by_name"),
+  releasedShiftId: varchar("released_shift_id").references(() => cashierShifts.id),
+}, (table) => [
+  index("IDX_security_deposits_guest").on(table.guestId),
+  index("IDX_security_deposits_status").on(table.status),
+]);
+
+// Part of a deposit kept to pay a damage charge; the receipt moves that money into the stay's payments
+export const depositDeductions = pgTable("deposit_deductions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  depositId: varchar("deposit_id").references(() => securityDeposits.id).notNull(),
+  folioChargeId: varchar("folio_charge_id").references(() => folioCharges.id).notNull(),
+  paymentId: varchar("payment_id").references(() => payments.id).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  reason: text("reason").notNull(),
+  createdAt: timestamp("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+  recordedBy: varchar("recorded_by").references(() => users.id),
+  recordedByName: text("recorded_by_name"),
+}, (table) => [index("IDX_deposit_deductions_deposit").on(table.depositId)]);
 
 export const smsLogs = pgTable("sms_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -66,18 +348,251 @@ export const smsLogs = pgTable("sms_logs", {
   sentAt: timestamp("sent_at").default(sql`CURRENT_TIMESTAMP`),
 });
 
+// One tax invoice per stay, numbered sequentially within each April-March financial year
+export const invoices = pgTable("invoices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  guestId: varchar("guest_id").references(() => guests.id).notNull().unique(),
+  financialYear: text("financial_year").notNull(), // e.g. '2026-27'
+  sequence: integer("sequence").notNull(),
+  invoiceNumber: text("invoice_number").notNull().unique(), // e.g. 'INV/2026-27/0001'
+  issuedAt: timestamp("issued_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+  contents: json("contents").$type<InvoiceContents>(), // as issued; null only for invoices issued before contents were kept
+}, (table) => [uniqueIndex("IDX_invoices_year_sequence").on(table.financialYear, table.sequence)]);
+
+// What an issued invoice says; reprints use this, and later changes to the stay go on a credit or debit note
+export interface InvoiceContents {
+  seller: {
+    name: string;
+    legalName: string | null;
+    address: string;
+    contactNumber: string;
+    gstin: string | null;
+  };
+  buyer: {
+    name: string;
+    phoneNumber: string;
+    gstin: string | null;
+  };
+  checkinDate: string; // ISO timestamps
+  checkoutDate: string;
+  lines: InvoiceLine[];
+  discountAmount: string; // on the room line
+  taxableAmount: string;
+  cgstAmount: string;
+  sgstAmount: string;
+  igstAmount: string;
+  taxAmount: string;
+  totalAmount: string;
+}
+
+export interface InvoiceLine {
+  description: string;
+  sacCode: string;
+  quantity: number;
+  unitPrice: string;
+  amount: string; // quantity x unit price, before the room discount
+  taxRate: string;
+}
+
+// Bank/UPI statement uploads and the credits found in each, matched against pending payments
+export const STATEMENT_LINE_STATUSES = ["matched", "ambiguous", "unmatched", "confirmed", "ignored", "duplicate"] as const;
+export type StatementLineStatus = typeof STATEMENT_LINE_STATUSES[number];
+
+export const statementImports = pgTable("statement_imports", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  fileName: text("file_name").notNull(),
+  importedBy: varchar("imported_by").references(() => users.id),
+  importedByName: text("imported_by_name"),
+  importedAt: timestamp("imported_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+});
+
+export const statementLines = pgTable("statement_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  importId: varchar("import_id").references(() => statementImports.id).notNull(),
+  transactionDate: timestamp("transaction_date").notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  reference: text("reference"), // UTR / UPI reference, if the bank gives one
+  description: text("description"),
+  status: text("status").notNull(), // see STATEMENT_LINE_STATUSES
+  candidatePaymentIds: json("candidate_payment_ids").$type<string[]>().notNull().default([]),
+  paymentId: varchar("payment_id").references(() => payments.id), // receipt recorded for this credit
+}, (table) => [index("IDX_statement_lines_import").on(table.importId)]);
+
+// Night audit. Business dates are YYYY-MM-DD in the lodge's local time; once a day is closed its
+// financial records are locked unless a manager overrides with a reason.
+export const dailySummaries = pgTable("daily_summaries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  businessDate: date("business_date", { mode: "string" }).notNull().unique(),
+  totalRooms: integer("total_rooms").notNull(),
+  occupiedRooms: integer("occupied_rooms").notNull(),
+  maintenanceRooms: integer("maintenance_rooms").notNull(),
+  occupancyRate: decimal("occupancy_rate", { precision: 5, scale: 2 }).notNull(), // of rooms that could be sold
+  arrivals: integer("arrivals").notNull(),
+  departures: integer("departures").notNull(),
+  overdueCheckouts: json("overdue_checkouts").$type<OverdueCheckout[]>().notNull().default([]),
+  roomRevenue: decimal("room_revenue", { precision: 10, scale: 2 }).notNull(), // room nights posted
+  chargesRevenue: decimal("charges_revenue", { precision: 10, scale: 2 }).notNull(), // folio charges posted
+  collections: decimal("collections", { precision: 10, scale: 2 }).notNull(), // money received: receipts less refunds, plus company settlements
+  collectionsByMethod: json("collections_by_method").$type<Record<string, string>>().notNull().default({}),
+  depositsHeld: decimal("deposits_held", { precision: 10, scale: 2 }).notNull(),
+  closedAt: timestamp("closed_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+  closedBy: varchar("closed_by").references(() => users.id),
+  closedByName: text("closed_by_name"),
+});
+
+export interface OverdueCheckout {
+  guestId: string;
+  guestName: string;
+  roomNumber: string | null;
+  checkoutDate: string;
+}
+
+// One night's share of a stay's room charge, posted by the night audit. The bill is priced
+// up front; postings spread it over the nights actually stayed.
+export const roomNightPostings = pgTable("room_night_postings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  guestId: varchar("guest_id").references(() => guests.id).notNull(),
+  roomId: varchar("room_id").references(() => rooms.id),
+  businessDate: date("business_date", { mode: "string" }).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => [
+  uniqueIndex("IDX_room_night_postings_guest_date").on(table.guestId, table.businessDate),
+  index("IDX_room_night_postings_date").on(table.businessDate),
+]);
+
+// Every change a manager let through on a closed day, with why
+export const dayLockOverrides = pgTable("day_lock_overrides", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  businessDate: date("business_date", { mode: "string" }).notNull(),
+  entityType: text("entity_type").notNull(),
+  entityId: varchar("entity_id").notNull(),
+  action: text("action").notNull(), // 'create', 'update', 'delete'
+  reason: text("reason").notNull(),
+  overriddenBy: varchar("overridden_by").references(() => users.id),
+  overriddenByName: text("overridden_by_name"),
+  createdAt: timestamp("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+}, (table) => [index("IDX_day_lock_overrides_date").on(table.businessDate)]);
+
+// Money the lodge pays out. Netted against revenue in the profit & loss report.
+export const EXPENSE_CATEGORIES = ["electricity", "water", "laundry", "salaries", "repairs", "supplies", "food", "rent", "taxes", "other"] as const;
+export type ExpenseCategory = typeof EXPENSE_CATEGORIES[number];
+export const EXPENSE_PAYMENT_MODES = ["cash", "upi", "card", "bank_transfer", "cheque"] as const;
+export type ExpensePaymentMode = typeof EXPENSE_PAYMENT_MODES[number];
+
+export const expenses = pgTable("expenses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  category: text("category").notNull(), // see EXPENSE_CATEGORIES
+  description: text("description").notNull(),
+  payee: text("payee"), // vendor or staff member paid
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  paymentMode: text("payment_mode").notNull(), // see EXPENSE_PAYMENT_MODES
+  reference: text("reference"), // bill, cheque or UTR number
+  paidOn: date("paid_on", { mode: "string" }).notNull(),
+  attachmentName: text("attachment_name"), // the bill, kept in expense_attachments
+  attachmentType: text("attachment_type"),
+  shiftId: varchar("shift_id").references(() => cashierShifts.id), // cash paid from the desk drawer
+  recordedBy: varchar("recorded_by").references(() => users.id),
+  recordedByName: text("recorded_by_name"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => [index("IDX_expenses_paid_on").on(table.paidOn)]);
+
+// Bill scans and PDFs, base64 encoded, apart from expenses so lists stay light
+export const expenseAttachments = pgTable("expense_attachments", {
+  expenseId: varchar("expense_id").primaryKey().references(() => expenses.id),
+  data: text("data").notNull(),
+  uploadedAt: timestamp("uploaded_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+});
+
+export const AUDIT_ENTITY_TYPES = ["cashier_shift", "company_account", "company_settlement", "daily_summary", "deposit_deduction", "expense", "folio_charge", "guest", "guest_profile", "invoice", "maintenance_ticket", "payment", "rate_plan", "room", "room_type", "security_deposit", "settings", "statement_import", "statement_line", "user"] as const;
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number];
+
+// Append-only: rows are written by the storage layer and never updated or deleted
+export const auditLogs = pgTable("audit_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  entityType: text("entity_type").notNull(), // 'guest', 'guest_profile', 'payment', 'room', 'settings', 'user'
+  entityId: varchar("entity_id").notNull(),
+  action: text("action").notNull(), // 'create', 'update', 'delete'
+  actorId: varchar("actor_id").references(() => users.id), // null for system changes (startup migrations, seeds)
+  actorName: text("actor_name"), // username at the time of the change
+  changes: json("changes").$type<AuditChanges>().notNull(),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => [
+  index("IDX_audit_logs_entity").on(table.entityType, table.entityId),
+  index("IDX_audit_logs_created_at").on(table.createdAt),
+]);
+
+// field -> { before, after }; before is null on create, after is null on delete
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
+  fullName: true,
+  role: true,
+  isActive: true,
+  mustChangePassword: true,
+}).extend({
+  username: z.string().trim().min(3),
+  password: z.string().min(6),
+  role: z.enum(USER_ROLES).optional(),
 });
 
+// Blank clears the GSTIN; anything else must be a valid, upper-cased GSTIN
+const gstinSchema = z.preprocess(
+  (value) => (typeof value === "string" ? value.trim().toUpperCase() || null : value),
+  z.string().regex(GSTIN_PATTERN, "Invalid GSTIN").nullable().optional(),
+);
+
 export const insertLodgeSettingsSchema = createInsertSchema(lodgeSettings).omit({
   id: true,
+}).extend({
+  sessionIdleMinutes: z.number().int().min(5).max(7 * 24 * 60).optional(),
+  gstin: gstinSchema,
+  sacCode: z.string().trim().regex(/^\d{4,8}$/, "Invalid SAC code").optional(),
+  upiVpa: z.preprocess(
+    (value) => (typeof value === "string" ? value.trim().toLowerCase() || null : value),
+    z.string().regex(UPI_VPA_PATTERN, "Invalid UPI ID").nullable().optional(),
+  ),
+  upiPayeeName: z.preprocess(
+    (value) => (typeof value === "string" ? value.trim() || null : value),
+    z.string().max(50).nullable().optional(),
+  ),
+  gstSlabs: z.array(z.object({
+    upTo: z.number().positive().nullable(),
+    rate: z.number().min(0).max(28),
+  })).min(1).refine((slabs) => slabs.some((slab) => slab.upTo === null), "One slab must have no upper limit").optional(),
+});
+
+export const insertRoomTypeSchema = createInsertSchema(roomTypes).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  code: z.string().trim().toLowerCase().regex(/^[a-z0-9_]+$/, "Use lowercase letters, digits and underscores"),
+  nameEnglish: z.string().trim().min(2).max(50),
+  nameTelugu: z.string().trim().max(50).optional().nullable(),
+  maxOccupancy: z.coerce.number().int().min(1).max(20),
+  basePrice: z.coerce.number().positive().transform((value) => toRupees(toPaise(value))),
+  amenities: z.array(z.string().trim().min(1).max(50)).max(30).default([]),
+  description: z.string().trim().max(500).optional().nullable(),
 });
 
+// The type's name is copied onto the room by storage, so clients only send the id
 export const insertRoomSchema = createInsertSchema(rooms).omit({
   id: true,
+  roomType: true,
+  housekeepingStatus: true,
+  housekeepingUpdatedAt: true,
+  housekeepingUpdatedBy: true,
+}).extend({
+  roomTypeId: z.string().min(1, "Choose a room type"),
+  basePrice: z.coerce.number().positive().transform((value) => toRupees(toPaise(value))).optional(),
+});
+
+export const insertGuestProfileSchema = createInsertSchema(guestProfiles).omit({
+  id: true,
+  createdAt: true,
 });
 
 export const insertGuestSchema = createInsertSchema(guests).omit({
@@ -86,12 +601,238 @@ export const insertGuestSchema = createInsertSchema(guests).omit({
 }).extend({
   checkinDate: z.string().datetime().transform((val) => new Date(val)),
   checkoutDate: z.string().datetime().transform((val) => new Date(val)),
+  gstin: gstinSchema,
+  nightlyRates: z.array(z.object({
+    date: z.string(),
+    ratePlanName: z.string().nullable(),
+    listRate: z.string(),
+    rate: z.string(),
+  })).optional(),
+});
+
+// Stay totals are priced by the server (server/pricing.ts); clients may omit them
+export const guestRequestSchema = insertGuestSchema.partial({
+  totalDays: true,
+  baseAmount: true,
+  discountAmount: true,
+  taxRate: true,
+  cgstAmount: true,
+  sgstAmount: true,
+  igstAmount: true,
+  taxAmount: true,
+  totalAmount: true,
+}).omit({
+  // Resolved from the rate plans by the server
+  nightlyRates: true,
+  // Only changes when folio charges are posted
+  chargesAmount: true,
+  // Stamped by the server on checkout
+  checkedOutAt: true,
+  // Set only by the check-in and cancel routes
+  checkedInAt: true,
+  cancelledAt: true,
+  cancellationReason: true,
+}).extend({
+  discountPercentage: z.coerce.number().min(0).max(100).optional(),
+});
+
+const rateSchema = z.coerce.number().positive().transform((value) => toRupees(toPaise(value)));
+const planDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+
+export const ratePlanRequestSchema = z.object({
+  roomTypeId: z.string().min(1),
+  kind: z.enum(RATE_PLAN_KINDS),
+  name: z.string().trim().min(2).max(60),
+  startDate: planDateSchema.optional().nullable(),
+  endDate: planDateSchema.optional().nullable(),
+  nightlyRate: rateSchema.optional().nullable(),
+  weekdayRates: z.record(z.string().regex(/^[0-6]$/), rateSchema).default({}),
+  minNights: z.coerce.number().int().min(2).max(365).optional().nullable(),
+  discountPercentage: z.coerce.number().gt(0).max(100).transform((value) => value.toFixed(2)).optional().nullable(),
+  isActive: z.boolean().default(true),
+}).superRefine((plan, ctx) => {
+  if (!plan.startDate !== !plan.endDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endDate"], message: "Give both a start and an end date, or neither" });
+  } else if (plan.startDate && plan.endDate && plan.endDate < plan.startDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endDate"], message: "End date must be on or after the start date" });
+  }
+
+  if (plan.kind === "event" && !plan.startDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["startDate"], message: "An event needs its dates" });
+  }
+  if (plan.kind === "length_of_stay") {
+    if (!plan.minNights || !plan.discountPercentage) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["minNights"], message: "Give the minimum nights and the discount" });
+    }
+  } else if (!plan.nightlyRate && Object.keys(plan.weekdayRates).length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["nightlyRate"], message: "Give a nightly rate or rates for some days of the week" });
+  }
+});
+
+export const housekeepingUpdateSchema = z.object({
+  status: z.enum(HOUSEKEEPING_STATUSES),
+});
+
+export const maintenanceTicketRequestSchema = z.object({
+  roomId: z.string().min(1),
+  issue: z.string().trim().min(3).max(500),
+  priority: z.enum(MAINTENANCE_PRIORITIES).default("medium"),
+  startDate: planDateSchema,
+  endDate: planDateSchema,
+  assignee: z.preprocess(
+    (value) => (typeof value === "string" ? value.trim() || null : value),
+    z.string().max(100).nullable().optional(),
+  ),
+}).refine((ticket) => ticket.endDate >= ticket.startDate, {
+  path: ["endDate"],
+  message: "End date must be on or after the start date",
+});
+
+export const maintenanceTicketStatusSchema = z.object({
+  status: z.enum(["in_progress", "resolved", "cancelled"]),
+  resolutionNote: z.string().trim().max(500).optional(),
+});
+
+export const quoteRequestSchema = z.object({
+  roomId: z.string(),
+  checkinDate: z.string().datetime().transform((val) => new Date(val)),
+  checkinTime: z.string().regex(/^\d{2}:\d{2}$/).optional(),
+  checkoutDate: z.string().datetime().transform((val) => new Date(val)),
+  discountPercentage: z.coerce.number().min(0).max(100).optional(),
+  gstin: gstinSchema,
 });
 
 export const insertPaymentSchema = createInsertSchema(payments).omit({
   id: true,
   createdAt: true,
   paidAt: true,
+  kind: true,
+  reversesPaymentId: true,
+  reason: true,
+  recordedBy: true,
+  recordedByName: true,
+  upiReference: true,
+  companyAccountId: true,
+  companySettlementId: true,
+  shiftId: true,
+});
+
+export const insertCompanyAccountSchema = createInsertSchema(companyAccounts).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(2),
+  gstin: gstinSchema,
+  creditLimit: z.preprocess(
+    (value) => (value === "" || value === undefined ? null : value),
+    z.coerce.number().positive().transform((value) => toRupees(toPaise(value))).nullable(),
+  ).optional(),
+});
+
+// The stays being paid for; the amount is what is still owed on them
+export const companySettlementRequestSchema = z.object({
+  paymentIds: z.array(z.string()).min(1, "Select at least one bill"),
+  paymentMethod: z.enum(PAYMENT_METHODS).refine((method) => method !== "company", "Choose how the company paid"),
+  reference: z.string().trim().max(100).optional().nullable(),
+  notes: z.string().trim().max(500).optional().nullable(),
+  settledAt: z.string().datetime().transform((val) => new Date(val)).optional(),
+});
+
+// Amounts and tax are calculated by the server from these
+export const folioChargeRequestSchema = z.object({
+  category: z.enum(FOLIO_CATEGORIES),
+  description: z.string().trim().max(200).optional().nullable(),
+  quantity: z.coerce.number().int().min(1).max(999),
+  unitPrice: z.coerce.number().positive(),
+  taxRate: z.coerce.number().min(0).max(28).default(0),
+});
+
+// An amount received against a stay: an advance at booking or part of the settlement
+export const paymentReceiptSchema = z.object({
+  amount: z.coerce.number().positive(),
+  paymentMethod: z.enum(PAYMENT_METHODS),
+  companyAccountId: z.string().optional(), // required when billing to a company
+}).refine((receipt) => receipt.paymentMethod !== "company" || !!receipt.companyAccountId, {
+  message: "Select the company to bill",
+  path: ["companyAccountId"],
+});
+
+// Settling a stay's balance due in full from its pending row; company billing goes through a receipt
+export const paymentUpdateSchema = z.object({
+  status: z.literal("paid").optional(),
+  paymentMethod: z.enum(PAYMENT_METHODS).refine((method) => method !== "company", "Bill a company with a receipt").optional(),
+});
+
+// Money handed back against a paid receipt, e.g. after an early checkout
+export const paymentRefundSchema = z.object({
+  amount: z.coerce.number().positive(),
+  paymentMethod: z.enum(PAYMENT_METHODS).optional(), // defaults to the receipt's method
+  reason: z.string().trim().min(3, "A reason is required").max(500),
+});
+
+// Cancels whatever is left of a receipt entered by mistake
+export const paymentVoidSchema = z.object({
+  reason: z.string().trim().min(3, "A reason is required").max(500),
+});
+
+// The amount the guest is about to pay by UPI; defaults to the whole balance
+export const upiQrRequestSchema = z.object({
+  amount: z.coerce.number().positive().optional(),
+});
+
+// Deposits are taken at the desk, so never billed to a company
+const depositMethodSchema = z.enum(PAYMENT_METHODS).refine((method) => method !== "company", "Choose how the deposit was paid");
+
+export const depositCollectSchema = z.object({
+  amount: z.coerce.number().positive(),
+  paymentMethod: depositMethodSchema,
+  notes: z.string().trim().max(500).optional().nullable(),
+});
+
+// Without a charge id a damage charge for the amount is posted to the stay
+export const depositDeductionSchema = z.object({
+  amount: z.coerce.number().positive(),
+  reason: z.string().trim().min(3, "A reason is required").max(500),
+  folioChargeId: z.string().optional(),
+});
+
+export const depositReleaseSchema = z.object({
+  paymentMethod: depositMethodSchema.optional(), // defaults to how it was collected
+  notes: z.string().trim().max(500).optional().nullable(),
+});
+
+export const shiftOpenSchema = z.object({
+  openingFloat: z.coerce.number().min(0),
+  notes: z.string().trim().max(500).optional().nullable(),
+});
+
+export const shiftCloseSchema = z.object({
+  countedCash: z.coerce.number().min(0),
+  notes: z.string().trim().max(500).optional().nullable(),
+});
+
+export const expenseRequestSchema = z.object({
+  category: z.enum(EXPENSE_CATEGORIES),
+  description: z.string().trim().min(2, "Describe the expense").max(200),
+  payee: z.string().trim().max(100).optional().nullable(),
+  amount: z.coerce.number().positive(),
+  paymentMode: z.enum(EXPENSE_PAYMENT_MODES),
+  reference: z.string().trim().max(100).optional().nullable(),
+  paidOn: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD"),
+});
+
+export const nightAuditCloseSchema = z.object({
+  businessDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD"),
+});
+
+// Sent with an edit that touches a closed business day
+export const dayLockOverrideSchema = z.object({
+  overrideReason: z.string().trim().min(3, "A reason is required").max(500).optional(),
+});
+
+// Manually matching a statement credit to a stay's pending payment
+export const statementLineConfirmSchema = z.object({
+  paymentId: z.string().min(1),
 });
 
 export const insertSmsLogSchema = createInsertSchema(smsLogs).omit({
@@ -101,19 +842,79 @@ export const insertSmsLogSchema = createInsertSchema(smsLogs).omit({
 
 // Types
 export type User = typeof users.$inferSelect;
+export type StoredSession = typeof sessions.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
 export type LodgeSettings = typeof lodgeSettings.$inferSelect;
 export type InsertLodgeSettings = z.infer<typeof insertLodgeSettingsSchema>;
 
+export type RoomType = typeof roomTypes.$inferSelect;
+export type InsertRoomType = z.infer<typeof insertRoomTypeSchema>;
+export type RatePlan = typeof ratePlans.$inferSelect;
+export type RatePlanRequest = z.infer<typeof ratePlanRequestSchema>;
+
+export type MaintenanceTicket = typeof maintenanceTickets.$inferSelect;
+export type MaintenanceTicketRequest = z.infer<typeof maintenanceTicketRequestSchema>;
 export type Room = typeof rooms.$inferSelect;
 export type InsertRoom = z.infer<typeof insertRoomSchema>;
 
+export type GuestProfile = typeof guestProfiles.$inferSelect;
+export type InsertGuestProfile = z.infer<typeof insertGuestProfileSchema>;
+
 export type Guest = typeof guests.$inferSelect;
 export type InsertGuest = z.infer<typeof insertGuestSchema>;
+export type QuoteRequest = z.infer<typeof quoteRequestSchema>;
 
 export type Payment = typeof payments.$inferSelect;
 export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+export type NewPayment = typeof payments.$inferInsert;
+export type PaymentReceipt = z.infer<typeof paymentReceiptSchema>;
+export type PaymentRefund = z.infer<typeof paymentRefundSchema>;
+export type PaymentVoid = z.infer<typeof paymentVoidSchema>;
+
+export type FolioCharge = typeof folioCharges.$inferSelect;
+export type InsertFolioCharge = typeof folioCharges.$inferInsert;
+export type FolioChargeRequest = z.infer<typeof folioChargeRequestSchema>;
+
+export type SecurityDeposit = typeof securityDeposits.$inferSelect;
+export type InsertSecurityDeposit = typeof securityDeposits.$inferInsert;
+export type DepositDeduction = typeof depositDeductions.$inferSelect;
+export type InsertDepositDeduction = typeof depositDeductions.$inferInsert;
+export type DepositCollect = z.infer<typeof depositCollectSchema>;
+export type DepositDeductionRequest = z.infer<typeof depositDeductionSchema>;
+export type DepositRelease = z.infer<typeof depositReleaseSchema>;
+
+export type Invoice = typeof invoices.$inferSelect;
+export type InsertInvoice = typeof invoices.$inferInsert;
+
+export type StatementImport = typeof statementImports.$inferSelect;
+export type StatementLine = typeof statementLines.$inferSelect;
+export type InsertStatementLine = typeof statementLines.$inferInsert;
+
+export type CashierShift = typeof cashierShifts.$inferSelect;
+export type InsertCashierShift = typeof cashierShifts.$inferInsert;
+export type ShiftOpen = z.infer<typeof shiftOpenSchema>;
+export type ShiftClose = z.infer<typeof shiftCloseSchema>;
+
+export type Expense = typeof expenses.$inferSelect;
+export type InsertExpense = typeof expenses.$inferInsert;
+export type ExpenseRequest = z.infer<typeof expenseRequestSchema>;
+
+export type DailySummary = typeof dailySummaries.$inferSelect;
+export type InsertDailySummary = typeof dailySummaries.$inferInsert;
+export type RoomNightPosting = typeof roomNightPostings.$inferSelect;
+export type InsertRoomNightPosting = typeof roomNightPostings.$inferInsert;
+export type DayLockOverride = typeof dayLockOverrides.$inferSelect;
+export type InsertDayLockOverride = typeof dayLockOverrides.$inferInsert;
+
+export type CompanyAccount = typeof companyAccounts.$inferSelect;
+export type InsertCompanyAccount = z.infer<typeof insertCompanyAccountSchema>;
+export type CompanySettlement = typeof companySettlements.$inferSelect;
+export type InsertCompanySettlement = typeof companySettlements.$inferInsert;
+export type CompanySettlementRequest = z.infer<typeof companySettlementRequestSchema>;
 
 export type SmsLog = typeof smsLogs.$inferSelect;
 export type InsertSmsLog = z.infer<typeof insertSmsLogSchema>;
+
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type InsertAuditLog = typeof auditLogs.$inferInsert;